@@ -1,4 +1,12 @@
 const nextConfig = {
+  // Resolve the bundled ffmpeg/ffprobe binaries and the ONNX runtime behind
+  // the local embedding model from node_modules at runtime
+  serverExternalPackages: [
+    '@ffmpeg-installer/ffmpeg',
+    '@ffprobe-installer/ffprobe',
+    '@huggingface/transformers',
+    'onnxruntime-node',
+  ],
   images: {
     domains: [
       // S3 domains for AWS
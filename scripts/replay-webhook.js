@@ -0,0 +1,133 @@
+const crypto = require('crypto')
+const fs = require('fs')
+const path = require('path')
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' })
+
+// Replays a recorded provider callback against a running server, signed the
+// same way the provider would sign it.
+//
+// Usage:
+//   node scripts/replay-webhook.js <fixture> [--job <external job id>] [--url http://localhost:3000] [--times 2]
+//
+// The provider is taken from the fixture name (replicate-*, runway-*, akool-*).
+// --job rewrites the fixture's job id so it matches a real generation, and
+// --times sends the same delivery repeatedly to check idempotency.
+
+function parseArgs(argv) {
+  const args = { fixture: null, job: null, url: 'http://localhost:3000', times: 1 }
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--job') args.job = argv[++i]
+    else if (argv[i] === '--url') args.url = argv[++i]
+    else if (argv[i] === '--times') args.times = parseInt(argv[++i], 10) || 1
+    else args.fixture = argv[i]
+  }
+  return args
+}
+
+function requireEnv(name) {
+  if (!process.env[name]) {
+    console.error(`❌ Missing required environment variable: ${name}`)
+    process.exit(1)
+  }
+  return process.env[name]
+}
+
+function signReplicate(payload) {
+  const secret = requireEnv('REPLICATE_WEBHOOK_SECRET')
+  const body = JSON.stringify(payload)
+  const webhookId = `msg_${crypto.randomBytes(12).toString('hex')}`
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64')
+  const signature = crypto.createHmac('sha256', key).update(`${webhookId}.${timestamp}.${body}`).digest('base64')
+
+  return {
+    body,
+    headers: {
+      'webhook-id': webhookId,
+      'webhook-timestamp': timestamp,
+      'webhook-signature': `v1,${signature}`,
+    },
+  }
+}
+
+function signRunway(payload) {
+  const secret = requireEnv('RUNWAYML_WEBHOOK_SECRET')
+  const body = JSON.stringify(payload)
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+
+  return {
+    body,
+    headers: {
+      'x-runway-timestamp': timestamp,
+      'x-runway-signature': signature,
+    },
+  }
+}
+
+function signAkool(payload) {
+  const clientId = requireEnv('AKOOL_CLIENT_ID')
+  const clientSecret = requireEnv('AKOOL_CLIENT_SECRET')
+  const cipher = crypto.createCipheriv(
+    `aes-${clientSecret.length * 8}-cbc`,
+    Buffer.from(clientSecret, 'utf8'),
+    Buffer.from(clientId, 'utf8')
+  )
+  const dataEncrypt = cipher.update(JSON.stringify(payload), 'utf8', 'base64') + cipher.final('base64')
+  const timestamp = Date.now()
+  const nonce = crypto.randomBytes(8).toString('hex')
+  const signature = crypto
+    .createHash('sha1')
+    .update([clientId, String(timestamp), nonce, dataEncrypt].sort().join(''))
+    .digest('hex')
+
+  return {
+    body: JSON.stringify({ signature, dataEncrypt, timestamp, nonce }),
+    headers: {},
+  }
+}
+
+async function replayWebhook() {
+  const args = parseArgs(process.argv.slice(2))
+
+  if (!args.fixture) {
+    console.error('Usage: node scripts/replay-webhook.js <fixture> [--job <id>] [--url <base url>] [--times <n>]')
+    process.exit(1)
+  }
+
+  const fixturePath = fs.existsSync(args.fixture)
+    ? args.fixture
+    : path.join(__dirname, 'fixtures/webhooks', args.fixture.endsWith('.json') ? args.fixture : `${args.fixture}.json`)
+  const provider = path.basename(fixturePath).split('-')[0]
+  const payload = JSON.parse(fs.readFileSync(fixturePath, 'utf8'))
+
+  if (args.job) {
+    if (provider === 'akool') payload._id = args.job
+    else payload.id = args.job
+  }
+
+  const signers = { replicate: signReplicate, runway: signRunway, akool: signAkool }
+  if (!signers[provider]) {
+    console.error(`❌ Unknown provider "${provider}" (fixture names must start with replicate-, runway- or akool-)`)
+    process.exit(1)
+  }
+
+  // Sign once so repeated sends are true duplicates of the same delivery
+  const { body, headers } = signers[provider](payload)
+
+  for (let i = 0; i < args.times; i++) {
+    const response = await fetch(`${args.url}/api/webhooks/${provider}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+    })
+    console.log(`📨 Delivery ${i + 1}: ${response.status}`, await response.text())
+  }
+}
+
+replayWebhook().catch((error) => {
+  console.error('❌ Replay failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,58 @@
+-- ============================================================================
+-- Binary Blender Credit Ledger Migration
+-- Purpose: Aggregates behind the credits page: lifetime totals per
+--          transaction type and credit spend over time by tool, model
+--          and project
+-- ============================================================================
+
+-- Ledger pages and exports read a user's transactions newest first
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_user_created
+  ON credit_transactions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_generations_user_created
+  ON generations(user_id, created_at DESC);
+
+-- ============================================================================
+-- get_credit_totals: net amount and count of a user's transactions per type
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_credit_totals(user_uuid UUID)
+RETURNS TABLE (transaction_type VARCHAR, total BIGINT, transactions BIGINT) AS $$
+  SELECT transaction_type, SUM(amount)::BIGINT, COUNT(*)::BIGINT
+  FROM credit_transactions
+  WHERE user_id = user_uuid
+  GROUP BY transaction_type;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- get_credit_usage: credits spent per period, tool, model and project
+-- Uses each generation's settled cost, so refunded runs count as nothing.
+-- Periods start on the day, the Monday or the 1st of the month.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_credit_usage(
+  user_uuid UUID,
+  from_time TIMESTAMP,
+  to_time TIMESTAMP,
+  bucket TEXT DEFAULT 'day' -- 'day', 'week' or 'month'
+)
+RETURNS TABLE (
+  period_start DATE,
+  tool_type VARCHAR,
+  model TEXT,
+  project_id UUID,
+  credits BIGINT,
+  generations BIGINT
+) AS $$
+  SELECT
+    date_trunc(bucket, g.created_at)::DATE,
+    g.tool_type,
+    COALESCE(g.input_data->>'model', g.provider, 'unknown'),
+    g.project_id,
+    SUM(g.credits_used)::BIGINT,
+    COUNT(*)::BIGINT
+  FROM generations g
+  WHERE g.user_id = user_uuid
+    AND g.created_at >= from_time
+    AND g.created_at < to_time
+    AND g.credits_used > 0
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,86 @@
+-- ============================================================================
+-- Binary Blender Credit Metering Migration
+-- Purpose: Reserve credits before provider calls and settle/refund them
+--          once the generation finishes
+-- ============================================================================
+
+-- ============================================================================
+-- deduct_credits: lock the user row so concurrent reservations can't both
+-- pass the balance check
+-- ============================================================================
+CREATE OR REPLACE FUNCTION deduct_credits(
+  user_uuid UUID,
+  credit_amount INTEGER,
+  gen_id UUID,
+  description_text TEXT DEFAULT 'AI Generation'
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_balance INTEGER;
+BEGIN
+  -- Serialize credit changes per user
+  PERFORM 1 FROM users WHERE id = user_uuid FOR UPDATE;
+
+  -- Get current balance
+  SELECT get_user_credit_balance(user_uuid) INTO current_balance;
+
+  -- Check if user has enough credits
+  IF current_balance < credit_amount THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Deduct credits
+  INSERT INTO credit_transactions (user_id, amount, transaction_type, generation_id, description)
+  VALUES (user_uuid, -credit_amount, 'usage', gen_id, description_text);
+
+  -- Update user's credit cache
+  UPDATE users
+  SET credits_remaining = get_user_credit_balance(user_uuid),
+      updated_at = NOW()
+  WHERE id = user_uuid;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- refund_credits: return credits charged against a generation
+-- Never refunds more than the generation's net charge, so calling it twice
+-- (e.g. from a retried failure handler) is harmless.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION refund_credits(
+  user_uuid UUID,
+  gen_id UUID,
+  credit_amount INTEGER,
+  description_text TEXT DEFAULT 'Generation refund'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  net_charged INTEGER;
+  refund_amount INTEGER;
+BEGIN
+  PERFORM 1 FROM users WHERE id = user_uuid FOR UPDATE;
+
+  SELECT COALESCE(-SUM(amount), 0) INTO net_charged
+  FROM credit_transactions
+  WHERE user_id = user_uuid AND generation_id = gen_id;
+
+  refund_amount := LEAST(credit_amount, net_charged);
+
+  IF refund_amount <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, amount, transaction_type, generation_id, description)
+  VALUES (user_uuid, refund_amount, 'refund', gen_id, description_text);
+
+  UPDATE users
+  SET credits_remaining = get_user_credit_balance(user_uuid),
+      updated_at = NOW()
+  WHERE id = user_uuid;
+
+  RETURN refund_amount;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_generation_id ON credit_transactions(generation_id);
@@ -0,0 +1,92 @@
+-- ============================================================================
+-- Binary Blender Generation Jobs Migration
+-- Purpose: Turn the generations table into a persistent job queue so
+--          provider calls no longer block the HTTP request
+-- ============================================================================
+
+-- ============================================================================
+-- Job tracking columns
+-- ============================================================================
+ALTER TABLE generations
+  ADD COLUMN IF NOT EXISTS provider VARCHAR(50), -- 'replicate', 'runway', 'akool'
+  ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS progress REAL DEFAULT 0, -- 0..1 as reported by the provider
+  ADD COLUMN IF NOT EXISTS progress_text TEXT,
+  ADD COLUMN IF NOT EXISTS poll_attempts INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_poll_at TIMESTAMP DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP, -- Lease held by whichever worker is advancing the job
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS asset_ids UUID[] DEFAULT ARRAY[]::UUID[],
+  ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_generations_due_jobs
+  ON generations(next_poll_at)
+  WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_generations_project_id ON generations(project_id);
+
+-- ============================================================================
+-- claim_generation_jobs: lease due jobs to a worker
+-- Rows already leased by another worker are skipped, so the background worker
+-- and the status endpoint can never advance the same job at the same time.
+-- Pass job_uuid to claim only that job (used by the status endpoint).
+-- ============================================================================
+CREATE OR REPLACE FUNCTION claim_generation_jobs(
+  batch_size INTEGER DEFAULT 10,
+  lease_seconds INTEGER DEFAULT 60,
+  job_uuid UUID DEFAULT NULL
+)
+RETURNS SETOF generations AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE generations g
+  SET locked_until = NOW() + make_interval(secs => lease_seconds),
+      updated_at = NOW()
+  WHERE g.id IN (
+    SELECT id FROM generations
+    WHERE status IN ('pending', 'processing')
+      AND (locked_until IS NULL OR locked_until < NOW())
+      AND next_poll_at <= NOW()
+      AND (job_uuid IS NULL OR id = job_uuid)
+    ORDER BY next_poll_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING g.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- extend_generation_lease: keep a job while it is being finalized
+-- Succeeds only if the caller still holds the lease it was given (held_until
+-- is the locked_until it claimed the job with).
+-- ============================================================================
+CREATE OR REPLACE FUNCTION extend_generation_lease(
+  job_uuid UUID,
+  lease_seconds INTEGER,
+  held_until TIMESTAMP
+)
+RETURNS BOOLEAN AS $$
+  WITH extended AS (
+    UPDATE generations
+    SET locked_until = NOW() + make_interval(secs => lease_seconds),
+        updated_at = NOW()
+    WHERE id = job_uuid
+      AND locked_until = held_until
+      AND status IN ('pending', 'processing')
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM extended);
+$$ LANGUAGE sql;
+
+-- ============================================================================
+-- Generation outputs: one asset per (generation, output index), so a job
+-- that is finalized again after losing its lease reuses the assets it saved
+-- ============================================================================
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS generation_id UUID REFERENCES generations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS output_index INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_assets_generation_output
+  ON assets(generation_id, output_index);
@@ -0,0 +1,11 @@
+-- ============================================================================
+-- Binary Blender Media Metadata Migration
+-- Purpose: Store probed media details (codecs, audio format, loudness and
+--          preview strips) alongside the asset
+-- ============================================================================
+
+-- ============================================================================
+-- Media info column
+-- ============================================================================
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS media_info JSONB; -- {"codec": "h264", "format": "mov,mp4", "bit_rate": 1200000, "preview_strip_url": "..."}
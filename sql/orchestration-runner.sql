@@ -0,0 +1,85 @@
+-- ============================================================================
+-- Binary Blender Orchestration Runner Migration
+-- Purpose: Let the app execute orchestration workflows itself, advancing
+--          their workflow_tasks on the same lease model as workflow runs
+-- ============================================================================
+
+-- Only workflows planned by the in-app orchestrator get a schedule; older
+-- rows handed to the TAO Bridge keep NULL and are never claimed
+ALTER TABLE workflows ADD COLUMN IF NOT EXISTS next_advance_at TIMESTAMP;
+ALTER TABLE workflows ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_workflows_due
+  ON workflows(next_advance_at)
+  WHERE status = 'in_progress';
+
+/*
+  workflow_tasks.input_data for generate_* tasks:
+    {
+      "params": { "prompt": "...", "aspectRatio": "16:9" },  -- job input
+      "from_dependency": "imageUrl",  -- filled from the depends_on task's output
+      "deliverable": "1080p MP4 video"
+    }
+
+  workflow_tasks.output_data:
+    { "generation_id": "...", "asset_ids": ["..."], "output_urls": ["https://..."] }
+
+  workflows.result_data once finished:
+    { "deliverables": [{ "task_id": "...", "title": "...", "task_type": "generate_video",
+                         "output_urls": [...], "asset_ids": [...] }] }
+*/
+
+-- ============================================================================
+-- claim_orchestrated_workflows: lease due workflows to a worker
+-- Only the lease holder touches a workflow's tasks, so concurrent workers
+-- and the status endpoint never dispatch the same task twice.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION claim_orchestrated_workflows(
+  batch_size INTEGER DEFAULT 10,
+  lease_seconds INTEGER DEFAULT 60,
+  workflow_uuid UUID DEFAULT NULL,
+  ignore_schedule BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF workflows AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE workflows w
+  SET locked_until = NOW() + make_interval(secs => lease_seconds),
+      updated_at = NOW()
+  WHERE w.id IN (
+    SELECT id FROM workflows
+    WHERE status = 'in_progress'
+      AND next_advance_at IS NOT NULL
+      AND (locked_until IS NULL OR locked_until < NOW())
+      AND (ignore_schedule OR next_advance_at <= NOW())
+      AND (workflow_uuid IS NULL OR id = workflow_uuid)
+    ORDER BY priority DESC, next_advance_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING w.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- extend_orchestrated_workflow_lease: keep a workflow while dispatching tasks
+-- Succeeds only if the caller still holds the lease it was given (held_until
+-- is its current locked_until). Returns the new locked_until, or NULL when
+-- the lease was lost.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION extend_orchestrated_workflow_lease(
+  workflow_uuid UUID,
+  lease_seconds INTEGER,
+  held_until TIMESTAMP
+)
+RETURNS TIMESTAMP AS $$
+  UPDATE workflows
+  SET locked_until = NOW() + make_interval(secs => lease_seconds),
+      updated_at = NOW()
+  WHERE id = workflow_uuid
+    AND locked_until = held_until
+    AND status = 'in_progress'
+  RETURNING locked_until;
+$$ LANGUAGE sql;
+
+COMMENT ON COLUMN workflows.next_advance_at IS 'When the in-app orchestrator should next check this workflow; NULL when it is not managing it';
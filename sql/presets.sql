@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Binary Blender Presets Migration
+-- Purpose: Reusable studio settings. Users save their own presets and may
+--          share them publicly; featured presets are curated by setting
+--          is_featured directly in the database.
+-- ============================================================================
+
+ALTER TABLE presets
+  ALTER COLUMN usage_count SET NOT NULL,
+  ALTER COLUMN is_public SET NOT NULL,
+  ALTER COLUMN is_featured SET NOT NULL;
+
+ALTER TABLE presets DROP CONSTRAINT IF EXISTS presets_tool_type_check;
+ALTER TABLE presets ADD CONSTRAINT presets_tool_type_check
+  CHECK (tool_type IN ('image', 'video', 'lipsync'));
+
+-- Presets holding the creator's media URLs (lipsync inputs) stay private
+UPDATE presets SET is_public = false
+  WHERE is_public AND settings ?| ARRAY['imageUrl', 'audioUrl'];
+ALTER TABLE presets DROP CONSTRAINT IF EXISTS presets_public_media_check;
+ALTER TABLE presets ADD CONSTRAINT presets_public_media_check
+  CHECK (NOT is_public OR NOT settings ?| ARRAY['imageUrl', 'audioUrl']);
+
+-- Names are unique per creator and tool
+CREATE UNIQUE INDEX IF NOT EXISTS idx_presets_creator_name ON presets(created_by, tool_type, name);
+CREATE INDEX IF NOT EXISTS idx_presets_public_usage ON presets(tool_type, usage_count DESC) WHERE is_public;
+CREATE INDEX IF NOT EXISTS idx_presets_featured ON presets(tool_type, usage_count DESC) WHERE is_featured AND is_public;
+
+-- ============================================================================
+-- increment_preset_usage: count one use of a preset the user can see
+-- A single UPDATE, so concurrent uses are never lost. Returns the new count,
+-- or NULL when the preset doesn't exist or is private to someone else.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION increment_preset_usage(preset_uuid UUID, user_uuid UUID)
+RETURNS INTEGER AS $$
+  UPDATE presets
+  SET usage_count = usage_count + 1
+  WHERE id = preset_uuid
+    AND (is_public OR created_by = user_uuid)
+  RETURNING usage_count;
+$$ LANGUAGE sql VOLATILE;
@@ -0,0 +1,96 @@
+-- ============================================================================
+-- Binary Blender Project Budgets Migration
+-- Purpose: Optional credit budgets per project with a soft-warning and a
+--          hard-stop threshold, and the in-app notifications sent when a
+--          project's spend crosses one
+-- ============================================================================
+
+-- NULL budget means the project is unlimited. Thresholds are percentages of
+-- the budget; a NULL stop threshold only warns and never blocks generation.
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS credit_budget INTEGER CHECK (credit_budget IS NULL OR credit_budget > 0),
+  ADD COLUMN IF NOT EXISTS budget_warning_percent INTEGER NOT NULL DEFAULT 80
+    CHECK (budget_warning_percent BETWEEN 1 AND 100),
+  ADD COLUMN IF NOT EXISTS budget_stop_percent INTEGER DEFAULT 100
+    CHECK (budget_stop_percent IS NULL OR budget_stop_percent BETWEEN 1 AND 1000);
+
+-- ============================================================================
+-- notifications: in-app messages shown under the bell in the header
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  type VARCHAR(50) NOT NULL, -- 'budget_warning', 'budget_exceeded'
+  title VARCHAR(255) NOT NULL,
+  message TEXT,
+  link TEXT, -- Page to open when the notification is clicked
+  data JSONB DEFAULT '{}'::jsonb,
+
+  read_at TIMESTAMP WITH TIME ZONE, -- NULL = unread
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+-- ============================================================================
+-- get_project_credit_spend: credits a project's generations have used
+-- Includes credits still reserved by running jobs; refunded runs count as
+-- nothing.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_project_credit_spend(project_uuid UUID)
+RETURNS BIGINT AS $$
+  SELECT COALESCE(SUM(credits_used), 0)::BIGINT
+  FROM generations
+  WHERE project_id = project_uuid;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- project_summaries: add the budget and what has been spent against it
+-- New columns go last so the view can be replaced in place.
+-- ============================================================================
+CREATE OR REPLACE VIEW project_summaries AS
+SELECT
+  p.id,
+  p.user_id,
+  p.name,
+  p.description,
+  p.thumbnail_url,
+  p.color,
+  p.is_archived,
+  p.position,
+  p.created_at,
+  p.updated_at,
+  COALESCE(asset_counts.total_assets, 0) as asset_count,
+  COALESCE(asset_counts.total_credits, 0) as total_credits_used,
+  asset_counts.by_type as assets_by_type,
+  p.credit_budget,
+  p.budget_warning_percent,
+  p.budget_stop_percent,
+  COALESCE(generation_spend.credits, 0) as budget_credits_spent
+FROM projects p
+LEFT JOIN (
+  SELECT
+    project_id,
+    COUNT(*) as total_assets,
+    SUM(credits_used) as total_credits,
+    json_object_agg(asset_type, type_count) as by_type
+  FROM (
+    SELECT
+      project_id,
+      asset_type,
+      COUNT(*) as type_count,
+      SUM(credits_used) as credits_used
+    FROM assets
+    WHERE status = 'active'
+    GROUP BY project_id, asset_type
+  ) asset_type_counts
+  GROUP BY project_id
+) asset_counts ON p.id = asset_counts.project_id
+LEFT JOIN (
+  SELECT project_id, SUM(credits_used)::BIGINT as credits
+  FROM generations
+  WHERE project_id IS NOT NULL
+  GROUP BY project_id
+) generation_spend ON p.id = generation_spend.project_id;
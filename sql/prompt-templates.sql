@@ -0,0 +1,10 @@
+-- ============================================================================
+-- Binary Blender Prompt Templates Migration
+-- Purpose: Declare typed variables for {{placeholder}} prompt templates
+-- ============================================================================
+
+-- ============================================================================
+-- Variables column
+-- ============================================================================
+ALTER TABLE prompts
+  ADD COLUMN IF NOT EXISTS variables JSONB DEFAULT '[]'::jsonb; -- [{"name": "style", "type": "enum", "choices": ["cinematic", "anime"], "default": "cinematic"}]
@@ -0,0 +1,55 @@
+-- ============================================================================
+-- Binary Blender Provider Webhooks Migration
+-- Purpose: Record provider callbacks so duplicate deliveries are ignored,
+--          and let a webhook claim its job without waiting for the schedule
+-- ============================================================================
+
+-- ============================================================================
+-- Webhook events: one row per delivery we have accepted
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider VARCHAR(50) NOT NULL, -- 'replicate', 'runway', 'akool'
+  event_id VARCHAR(255) NOT NULL, -- Provider delivery id, or "<job id>:<status>"
+  external_job_id VARCHAR(255),
+  generation_id UUID REFERENCES generations(id) ON DELETE SET NULL,
+  payload JSONB DEFAULT '{}',
+  received_at TIMESTAMP DEFAULT NOW(),
+  processed_at TIMESTAMP,
+  UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_generation_id ON webhook_events(generation_id);
+CREATE INDEX IF NOT EXISTS idx_generations_external_job ON generations(provider, external_job_id);
+
+-- ============================================================================
+-- claim_generation_jobs: add ignore_schedule so a webhook can take the lease
+-- on its job immediately instead of waiting for next_poll_at
+-- ============================================================================
+DROP FUNCTION IF EXISTS claim_generation_jobs(INTEGER, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION claim_generation_jobs(
+  batch_size INTEGER DEFAULT 10,
+  lease_seconds INTEGER DEFAULT 60,
+  job_uuid UUID DEFAULT NULL,
+  ignore_schedule BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF generations AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE generations g
+  SET locked_until = NOW() + make_interval(secs => lease_seconds),
+      updated_at = NOW()
+  WHERE g.id IN (
+    SELECT id FROM generations
+    WHERE status IN ('pending', 'processing')
+      AND (locked_until IS NULL OR locked_until < NOW())
+      AND (ignore_schedule OR next_poll_at <= NOW())
+      AND (job_uuid IS NULL OR id = job_uuid)
+    ORDER BY next_poll_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING g.*;
+END;
+$$ LANGUAGE plpgsql;
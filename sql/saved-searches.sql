@@ -0,0 +1,38 @@
+-- ============================================================================
+-- Binary Blender Saved Searches Migration
+-- Purpose: Named asset searches shown as smart folders in the asset
+--          repository, optionally scoped to and shared within a project
+-- ============================================================================
+
+-- ============================================================================
+-- saved_searches: a query-language search plus how to sort its results
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Creator
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE, -- NULL = whole library
+
+  name VARCHAR(255) NOT NULL,
+  query TEXT NOT NULL, -- e.g. 'type:image tool:flux-pro rating>=5 created:this-month portrait'
+  sort_by TEXT NOT NULL DEFAULT 'created_at'
+    CHECK (sort_by IN ('created_at', 'updated_at', 'name', 'rating', 'credits_used')),
+  sort_order TEXT NOT NULL DEFAULT 'desc' CHECK (sort_order IN ('asc', 'desc')),
+
+  -- Listed for everyone with access to the project, not just the creator
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER DEFAULT 0,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT saved_searches_shared_in_project CHECK (NOT is_shared OR project_id IS NOT NULL)
+);
+
+-- Names are unique per creator within a scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_searches_name
+  ON saved_searches(user_id, COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::uuid), name);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_project ON saved_searches(project_id, is_shared, position);
+
+DROP TRIGGER IF EXISTS update_saved_searches_updated_at ON saved_searches;
+CREATE TRIGGER update_saved_searches_updated_at BEFORE UPDATE ON saved_searches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
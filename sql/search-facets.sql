@@ -0,0 +1,146 @@
+-- ============================================================================
+-- Binary Blender Search Facets Migration
+-- Purpose: Facet counts for /api/search computed in the database, so they
+--          cover every matching asset rather than the rows one request can
+--          return
+-- ============================================================================
+
+-- ============================================================================
+-- search_condition_sql: one compiled search condition as SQL
+-- Conditions come from the query language compiler (src/lib/search/
+-- query-language.ts) as {column, operator, value}, with the PostgREST
+-- operator names. Columns are allow-listed and values quoted, so the result
+-- is safe to splice into a query.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION search_condition_sql(condition JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  column_name TEXT := condition->>'column';
+  condition_operator TEXT := condition->>'operator';
+  scalar TEXT;
+  list TEXT[];
+BEGIN
+  IF column_name IS NULL OR column_name NOT IN (
+    'asset_type', 'source_app', 'source_tool', 'tags', 'user_rating',
+    'credits_used', 'created_at', 'is_favorite', 'project_id', 'folder_id'
+  ) THEN
+    RAISE EXCEPTION 'Unsupported search column: %', column_name;
+  END IF;
+
+  IF jsonb_typeof(condition->'value') = 'array' THEN
+    list := ARRAY(SELECT jsonb_array_elements_text(condition->'value'));
+  ELSE
+    scalar := condition->>'value';
+  END IF;
+
+  IF condition_operator IN ('eq', 'neq', 'gt', 'gte', 'lt', 'lte') AND scalar IS NOT NULL THEN
+    RETURN format('%I %s %L', column_name,
+      CASE condition_operator
+        WHEN 'eq' THEN '='
+        WHEN 'neq' THEN '<>'
+        WHEN 'gt' THEN '>'
+        WHEN 'gte' THEN '>='
+        WHEN 'lt' THEN '<'
+        ELSE '<='
+      END,
+      scalar);
+  ELSIF condition_operator IN ('in', 'not.in') AND list IS NOT NULL THEN
+    RETURN format(CASE WHEN condition_operator = 'in' THEN '%I::text = ANY(%L::text[])' ELSE 'NOT (%I::text = ANY(%L::text[]))' END,
+      column_name, list);
+  ELSIF condition_operator IN ('ov', 'not.ov') AND list IS NOT NULL THEN
+    RETURN format(CASE WHEN condition_operator = 'ov' THEN '%I && %L::text[]' ELSE 'NOT (%I && %L::text[])' END,
+      column_name, list);
+  ELSIF condition_operator IN ('is', 'not.is') AND scalar IN ('null', 'true') THEN
+    RETURN format('%I IS %s%s', column_name,
+      CASE WHEN condition_operator = 'not.is' THEN 'NOT ' ELSE '' END,
+      upper(scalar));
+  END IF;
+
+  RAISE EXCEPTION 'Unsupported search condition: %', condition;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================================================
+-- search_asset_facets: counts per facet value for the assets a search matches
+-- filters is a list of compiled filters that must all hold; each is a list
+-- of alternatives, and each alternative a list of conditions. Matching by
+-- text: keyword search on text_query, ids from a semantic search, or either
+-- one (hybrid) when both are given. Returns one row per facet value, plus a
+-- 'total' row. Credit buckets come back as the index of the first limit in
+-- credit_limits the cost fits under; tools and tags are cut to value_limit.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION search_asset_facets(
+  user_uuid UUID,
+  facet_names TEXT[],
+  filters JSONB DEFAULT '[]',
+  text_query TEXT DEFAULT NULL,
+  match_ids UUID[] DEFAULT NULL,
+  credit_limits INTEGER[] DEFAULT ARRAY[0, 5, 20, 50],
+  value_limit INTEGER DEFAULT 30
+)
+RETURNS TABLE (facet TEXT, facet_value TEXT, asset_count BIGINT) AS $$
+DECLARE
+  where_sql TEXT := 'user_id = $1 AND status = ''active''';
+  search_filter JSONB;
+BEGIN
+  FOR search_filter IN SELECT jsonb_array_elements(filters) LOOP
+    where_sql := where_sql || ' AND (' || COALESCE((
+      SELECT string_agg('(' || (
+        SELECT string_agg(search_condition_sql(condition), ' AND ')
+        FROM jsonb_array_elements(alternative) AS condition
+      ) || ')', ' OR ')
+      FROM jsonb_array_elements(search_filter) AS alternative
+    ), 'FALSE') || ')';
+  END LOOP;
+
+  IF text_query IS NOT NULL OR match_ids IS NOT NULL THEN
+    where_sql := where_sql || ' AND (' || concat_ws(' OR ',
+      CASE WHEN text_query IS NOT NULL THEN
+        'to_tsvector(''english'', COALESCE(name, '''') || '' '' || COALESCE(notes, '''')) @@ websearch_to_tsquery(''english'', $2)'
+      END,
+      CASE WHEN match_ids IS NOT NULL THEN 'id = ANY($3)' END
+    ) || ')';
+  END IF;
+
+  RETURN QUERY EXECUTE format($query$
+    WITH matched AS MATERIALIZED (
+      SELECT
+        asset_type,
+        source_app,
+        source_tool,
+        tags,
+        COALESCE(user_rating::text, 'none') AS rating,
+        to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM') AS month,
+        (SELECT count(*) FROM unnest($5) AS credit_limit WHERE credit_limit < COALESCE(credits_used, 0)) AS credit_bucket
+      FROM assets
+      WHERE %s
+    )
+    SELECT 'total', NULL::text, count(*) FROM matched
+    UNION ALL
+    SELECT 'asset_types', asset_type::text, count(*) FROM matched
+      WHERE 'asset_types' = ANY($4) GROUP BY asset_type
+    UNION ALL
+    SELECT 'source_apps', source_app::text, count(*) FROM matched
+      WHERE 'source_apps' = ANY($4) AND source_app IS NOT NULL GROUP BY source_app
+    UNION ALL
+    (SELECT 'source_tools', source_tool::text, count(*) FROM matched
+      WHERE 'source_tools' = ANY($4) AND source_tool IS NOT NULL
+      GROUP BY source_tool ORDER BY 3 DESC, 2 LIMIT $6)
+    UNION ALL
+    (SELECT 'tags', tag, count(*) FROM matched
+      CROSS JOIN LATERAL (SELECT DISTINCT unnest(matched.tags) AS tag) AS row_tags
+      WHERE 'tags' = ANY($4)
+      GROUP BY tag ORDER BY 3 DESC, 2 LIMIT $6)
+    UNION ALL
+    SELECT 'ratings', rating, count(*) FROM matched
+      WHERE 'ratings' = ANY($4) GROUP BY rating
+    UNION ALL
+    SELECT 'created', month, count(*) FROM matched
+      WHERE 'created' = ANY($4) GROUP BY month
+    UNION ALL
+    SELECT 'credits', credit_bucket::text, count(*) FROM matched
+      WHERE 'credits' = ANY($4) GROUP BY credit_bucket
+  $query$, where_sql)
+  USING user_uuid, text_query, match_ids, facet_names, credit_limits, value_limit;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,98 @@
+-- ============================================================================
+-- Binary Blender Semantic Search Migration
+-- Purpose: Embedding index over prompts and assets for semantic and hybrid
+--          ranking in /api/search
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- ============================================================================
+-- search_embeddings: one vector per entity per embedding provider
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS search_embeddings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('asset', 'prompt')),
+  entity_id UUID NOT NULL,
+  model TEXT NOT NULL, -- Provider id, e.g. 'local:Xenova/all-MiniLM-L6-v2'
+  content_hash TEXT NOT NULL, -- SHA-256 of the embedded text; unchanged text is not re-embedded
+  embedding vector(384) NOT NULL,
+  source_updated_at TIMESTAMP WITH TIME ZONE NOT NULL, -- The entity's updated_at when last indexed
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT search_embeddings_entity_unique UNIQUE (entity_type, entity_id, model)
+);
+
+-- No vector index: searches are per user, and an approximate index over
+-- everyone's vectors returns too few of one user's (see below)
+CREATE INDEX IF NOT EXISTS idx_search_embeddings_user ON search_embeddings(user_id, model, entity_type);
+DROP INDEX IF EXISTS idx_search_embeddings_vector;
+
+DROP TRIGGER IF EXISTS update_search_embeddings_updated_at ON search_embeddings;
+CREATE TRIGGER update_search_embeddings_updated_at BEFORE UPDATE ON search_embeddings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- find_unindexed_search_entities: what the indexer should embed next
+-- Entities with no vector for the model yet, or edited since they were
+-- indexed. Newest edits first so fresh work becomes searchable quickly.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION find_unindexed_search_entities(
+  model_name TEXT,
+  batch_size INTEGER DEFAULT 50
+)
+RETURNS TABLE (entity_type TEXT, entity_id UUID) AS $$
+  (
+    SELECT 'asset'::TEXT, a.id
+    FROM assets a
+    LEFT JOIN search_embeddings e
+      ON e.entity_type = 'asset' AND e.entity_id = a.id AND e.model = model_name
+    WHERE a.status = 'active'
+      AND (e.id IS NULL OR e.source_updated_at < a.updated_at)
+    ORDER BY a.updated_at DESC
+    LIMIT batch_size
+  )
+  UNION ALL
+  (
+    SELECT 'prompt'::TEXT, p.id
+    FROM prompts p
+    LEFT JOIN search_embeddings e
+      ON e.entity_type = 'prompt' AND e.entity_id = p.id AND e.model = model_name
+    WHERE e.id IS NULL OR e.source_updated_at < p.updated_at
+    ORDER BY p.updated_at DESC
+    LIMIT batch_size
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- match_search_embeddings: nearest neighbours of a query vector
+-- Similarity is cosine similarity (1 = same direction). An exact scan of the
+-- user's own vectors: filtering a global HNSW search down to one user
+-- drops most of the candidates it found, so results came back short. The
+-- MATERIALIZED CTE keeps the planner from ordering by an index scan.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION match_search_embeddings(
+  query_embedding vector(384),
+  match_user_id UUID,
+  model_name TEXT,
+  entity_types TEXT[] DEFAULT ARRAY['asset', 'prompt'],
+  match_count INTEGER DEFAULT 50,
+  min_similarity FLOAT DEFAULT 0
+)
+RETURNS TABLE (entity_type TEXT, entity_id UUID, similarity FLOAT) AS $$
+  WITH scored AS MATERIALIZED (
+    SELECT e.entity_type, e.entity_id, 1 - (e.embedding <=> query_embedding) AS similarity
+    FROM search_embeddings e
+    WHERE e.user_id = match_user_id
+      AND e.model = model_name
+      AND e.entity_type = ANY(entity_types)
+  )
+  SELECT scored.entity_type, scored.entity_id, scored.similarity
+  FROM scored
+  WHERE scored.similarity >= min_similarity
+  ORDER BY scored.similarity DESC
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE search_embeddings IS 'Embedding index for semantic search over asset and prompt text; filled by the background indexer';
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Binary Blender User Preferences Migration
+-- Purpose: Settings page support: where new generations go by default and
+--          studio defaults that match the values the studios send
+-- ============================================================================
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS default_project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS auto_save_to_repository BOOLEAN NOT NULL DEFAULT true;
+
+-- Aspect ratios are stored as the studios send them ('1:1', '16:9', ...)
+ALTER TABLE user_preferences ALTER COLUMN preferred_aspect_ratio SET DEFAULT '1:1';
+UPDATE user_preferences SET preferred_aspect_ratio = '1:1' WHERE preferred_aspect_ratio = 'square';
@@ -0,0 +1,84 @@
+-- ============================================================================
+-- Binary Blender Visual Similarity Migration
+-- Purpose: Perceptual hashes and image embeddings for "find similar" and
+--          near-duplicate detection on image assets
+-- Requires: sql/semantic-search.sql (pgvector)
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- ============================================================================
+-- asset_visual_signatures: one row per indexed image asset
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS asset_visual_signatures (
+  asset_id UUID PRIMARY KEY REFERENCES assets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  perceptual_hash BIT(64), -- 64-bit difference hash; near-duplicates differ in a few bits. NULL if the file couldn't be read
+  model TEXT, -- Image embedding provider id, e.g. 'clip:Xenova/clip-vit-base-patch32'
+  embedding vector(512), -- NULL when image embeddings are turned off or failed
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_visual_signatures_user ON asset_visual_signatures(user_id);
+
+DROP TRIGGER IF EXISTS update_asset_visual_signatures_updated_at ON asset_visual_signatures;
+CREATE TRIGGER update_asset_visual_signatures_updated_at BEFORE UPDATE ON asset_visual_signatures
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- find_unsigned_image_assets: images the backfill should index next
+-- ============================================================================
+CREATE OR REPLACE FUNCTION find_unsigned_image_assets(batch_size INTEGER DEFAULT 20)
+RETURNS TABLE (asset_id UUID) AS $$
+  SELECT a.id
+  FROM assets a
+  LEFT JOIN asset_visual_signatures s ON s.asset_id = a.id
+  WHERE a.asset_type = 'image'
+    AND a.status = 'active'
+    AND a.file_url IS NOT NULL
+    AND s.asset_id IS NULL
+  ORDER BY a.created_at DESC
+  LIMIT batch_size;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- match_similar_assets: the user's images that look like a given one
+-- Scored by embedding similarity when both images have one from the same
+-- model, otherwise by perceptual hash distance (bits that differ, 0-64)
+-- scaled to 0-1. A candidate qualifies on either measure.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION match_similar_assets(
+  source_asset_id UUID,
+  match_user_id UUID,
+  match_count INTEGER DEFAULT 24,
+  min_similarity FLOAT DEFAULT 0.8,
+  max_hash_distance INTEGER DEFAULT 12
+)
+RETURNS TABLE (asset_id UUID, similarity FLOAT, hash_distance INTEGER) AS $$
+  WITH source AS (
+    SELECT perceptual_hash, model, embedding
+    FROM asset_visual_signatures
+    WHERE asset_id = source_asset_id AND user_id = match_user_id
+  ),
+  candidates AS (
+    SELECT
+      s.asset_id,
+      CASE WHEN s.embedding IS NOT NULL AND source.embedding IS NOT NULL AND s.model = source.model
+        THEN 1 - (s.embedding <=> source.embedding)
+      END AS similarity,
+      bit_count(s.perceptual_hash # source.perceptual_hash)::INTEGER AS hash_distance
+    FROM asset_visual_signatures s
+    CROSS JOIN source
+    JOIN assets a ON a.id = s.asset_id AND a.status = 'active'
+    WHERE s.user_id = match_user_id
+      AND s.asset_id <> source_asset_id
+  )
+  SELECT asset_id, similarity, hash_distance
+  FROM candidates
+  WHERE similarity >= min_similarity OR hash_distance <= max_hash_distance
+  ORDER BY COALESCE(similarity, 1 - hash_distance / 64.0) DESC, hash_distance
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE asset_visual_signatures IS 'Perceptual hash and image embedding per image asset, computed at ingest for similarity search and duplicate detection';
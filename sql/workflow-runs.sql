@@ -0,0 +1,117 @@
+-- ============================================================================
+-- Binary Blender Workflow Runs Migration
+-- Purpose: Execute workflow patterns step by step against the generation
+--          providers, recording each run and the status of every step
+-- ============================================================================
+
+-- ============================================================================
+-- Workflow runs: one row per execution of a pattern
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS workflow_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pattern_id UUID REFERENCES workflow_patterns(id) ON DELETE SET NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'partial', 'failed', 'cancelled')),
+  on_failure VARCHAR(20) NOT NULL DEFAULT 'stop' CHECK (on_failure IN ('stop', 'continue')),
+
+  -- Snapshot of the pattern's steps so later edits don't affect the run
+  steps JSONB NOT NULL,
+  user_params JSONB DEFAULT '{}',
+
+  -- Per-step state, in step order
+  step_runs JSONB NOT NULL DEFAULT '[]',
+  /*
+    [
+      {
+        "step": 1,
+        "output_name": "base_image",
+        "status": "completed", -- 'pending', 'running', 'completed', 'failed', 'skipped'
+        "tool_type": "image",
+        "items": [                -- one per generation; several for map steps
+          { "index": 0, "status": "completed", "generation_id": "...", "asset_ids": ["..."], ... }
+        ],
+        "generation_ids": ["..."],
+        "asset_ids": ["..."],
+        "output_urls": ["https://..."],
+        "input_asset_ids": [],
+        "error": null,
+        "skip_reason": null        -- 'condition', 'upstream' or 'stopped' when skipped
+      }
+    ]
+  */
+
+  error_message TEXT,
+
+  -- Scheduling, same lease model as generation jobs
+  next_advance_at TIMESTAMP DEFAULT NOW(),
+  locked_until TIMESTAMP,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_user ON workflow_runs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_pattern ON workflow_runs(pattern_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_due
+  ON workflow_runs(next_advance_at)
+  WHERE status = 'running';
+
+DROP TRIGGER IF EXISTS update_workflow_runs_updated_at ON workflow_runs;
+CREATE TRIGGER update_workflow_runs_updated_at BEFORE UPDATE ON workflow_runs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- claim_workflow_runs: lease due runs to a worker
+-- Only the lease holder touches a run's step_runs, so concurrent workers and
+-- the status endpoint never overwrite each other.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION claim_workflow_runs(
+  batch_size INTEGER DEFAULT 10,
+  lease_seconds INTEGER DEFAULT 60,
+  run_uuid UUID DEFAULT NULL,
+  ignore_schedule BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF workflow_runs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE workflow_runs r
+  SET locked_until = NOW() + make_interval(secs => lease_seconds),
+      updated_at = NOW()
+  WHERE r.id IN (
+    SELECT id FROM workflow_runs
+    WHERE status = 'running'
+      AND (locked_until IS NULL OR locked_until < NOW())
+      AND (ignore_schedule OR next_advance_at <= NOW())
+      AND (run_uuid IS NULL OR id = run_uuid)
+    ORDER BY next_advance_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- extend_workflow_run_lease: keep a run while submitting its steps
+-- Succeeds only if the caller still holds the lease it was given (held_until
+-- is its current locked_until). Returns the new locked_until, or NULL when
+-- the lease was lost.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION extend_workflow_run_lease(
+  run_uuid UUID,
+  lease_seconds INTEGER,
+  held_until TIMESTAMP
+)
+RETURNS TIMESTAMP AS $$
+  UPDATE workflow_runs
+  SET locked_until = NOW() + make_interval(secs => lease_seconds),
+      updated_at = NOW()
+  WHERE id = run_uuid
+    AND locked_until = held_until
+    AND status = 'running'
+  RETURNING locked_until;
+$$ LANGUAGE sql;
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse, SimilarAsset } from '@/lib/types/asset-repository';
+import { findSimilarAssets } from '@/lib/search/visual';
+
+// ============================================================================
+// GET /api/assets/[id]/similar - Find visually similar images
+// ============================================================================
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '24') || 24, 1), 100);
+
+    const { data: asset, error: assetError } = await supabaseAdmin
+      .from('assets')
+      .select('id, asset_type')
+      .eq('id', id)
+      .eq('user_id', session.user.id)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (assetError) {
+      console.error('Error fetching asset for similarity search:', assetError);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to fetch asset' }
+      }, { status: 500 });
+    }
+
+    if (!asset) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Asset not found' }
+      }, { status: 404 });
+    }
+
+    if (asset.asset_type !== 'image') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Similarity search is only available for images' }
+      }, { status: 400 });
+    }
+
+    const similar = await findSimilarAssets(session.user.id, asset.id, limit);
+
+    return NextResponse.json<ApiResponse<SimilarAsset[]>>({
+      success: true,
+      data: similar
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/assets/[id]/similar:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -10,6 +10,7 @@ import {
   AssetType,
   SourceApp
 } from '@/lib/types/asset-repository';
+import { collapseDuplicateAssets } from '@/lib/search/visual';
 
 // ============================================================================
 // GET /api/assets - List assets with filtering
@@ -59,6 +60,7 @@ export async function GET(req: NextRequest) {
     };
 
     const unorganized = searchParams.get('unorganized') === 'true';
+    const collapseDuplicates = searchParams.get('collapse_duplicates') === 'true';
 
     console.log('Assets API Debug:', {
       userId: session.user.id,
@@ -165,9 +167,19 @@ export async function GET(req: NextRequest) {
       }, { status: 500 });
     }
 
+    // Fold near-duplicate images on this page into one entry each. Pagination
+    // still counts every asset, so a collapsed page can be shorter than limit
+    let listed = (assets || []) as Asset[];
+    if (collapseDuplicates) {
+      listed = await collapseDuplicateAssets(listed).catch(collapseError => {
+        console.error('Error collapsing duplicate assets:', collapseError);
+        return listed;
+      });
+    }
+
     return NextResponse.json<ApiResponse<Asset[]>>({
       success: true,
-      data: assets || [],
+      data: listed,
       meta: {
         pagination: {
           page: params.page!,
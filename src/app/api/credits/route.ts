@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { CreditSummary } from '@/lib/types/credits';
+import { getCreditSummary } from '@/lib/credit-ledger';
+
+// ============================================================================
+// GET /api/credits - Current balance and lifetime totals per transaction type
+// ============================================================================
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const summary = await getCreditSummary(session.user.id);
+
+    return NextResponse.json<ApiResponse<CreditSummary>>({
+      success: true,
+      data: summary
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/credits:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { CreditLedgerEntry, CreditTransactionType } from '@/lib/types/credits';
+import {
+  CREDIT_TRANSACTION_TYPES,
+  CreditLedgerFilters,
+  creditLedgerToCsv,
+  exportCreditTransactions,
+  listCreditTransactions
+} from '@/lib/credit-ledger';
+
+// ============================================================================
+// GET /api/credits/transactions - The credit ledger, newest first
+// ?type= filters by transaction_type; from/to (ISO dates) bound created_at,
+// to exclusive. ?format=csv downloads every matching transaction instead of
+// a page.
+// ============================================================================
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const filters: CreditLedgerFilters = {
+      type: searchParams.get('type') as CreditTransactionType || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+    };
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 100);
+
+    if (filters.type && !CREDIT_TRANSACTION_TYPES.includes(filters.type)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `type must be one of: ${CREDIT_TRANSACTION_TYPES.join(', ')}` }
+      }, { status: 400 });
+    }
+
+    if ([filters.from, filters.to].some(date => date && Number.isNaN(Date.parse(date)))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'from and to must be ISO dates' }
+      }, { status: 400 });
+    }
+
+    if (searchParams.get('format') === 'csv') {
+      const { entries, truncated } = await exportCreditTransactions(session.user.id, filters);
+      const filename = `credit-ledger-${new Date().toISOString().slice(0, 10)}.csv`;
+
+      return new NextResponse(creditLedgerToCsv(entries), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-store',
+          // Set when the ledger was longer than one export allows
+          ...(truncated && { 'X-Export-Truncated': 'true' }),
+        }
+      });
+    }
+
+    const { entries, total } = await listCreditTransactions(session.user.id, filters, page, limit);
+
+    return NextResponse.json<ApiResponse<CreditLedgerEntry[]>>({
+      success: true,
+      data: entries,
+      meta: {
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/credits/transactions:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { CreditUsageInterval, CreditUsageReport } from '@/lib/types/credits';
+import { CREDIT_USAGE_INTERVALS, getCreditUsageReport } from '@/lib/credit-ledger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest range one report covers
+const MAX_RANGE_DAYS = 3 * 365;
+
+// ============================================================================
+// GET /api/credits/usage - Credit spend over time by tool, model and project
+// ?days=30 (default) ends now; or from/to as ISO dates. ?interval=day, week
+// or month; by default the range decides.
+// ============================================================================
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const days = parseInt(searchParams.get('days') || '30') || 30;
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : new Date();
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : new Date(to.getTime() - days * DAY_MS);
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'from and to must be ISO dates, with from before to' }
+      }, { status: 400 });
+    }
+
+    const rangeDays = (to.getTime() - from.getTime()) / DAY_MS;
+    if (rangeDays > MAX_RANGE_DAYS) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `Reports cover at most ${MAX_RANGE_DAYS} days` }
+      }, { status: 400 });
+    }
+
+    const interval = (searchParams.get('interval') ||
+      (rangeDays <= 31 ? 'day' : rangeDays <= 120 ? 'week' : 'month')) as CreditUsageInterval;
+    if (!CREDIT_USAGE_INTERVALS.includes(interval)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `interval must be one of: ${CREDIT_USAGE_INTERVALS.join(', ')}` }
+      }, { status: 400 });
+    }
+
+    const report = await getCreditUsageReport(session.user.id, from, to, interval);
+
+    return NextResponse.json<ApiResponse<CreditUsageReport>>({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/credits/usage:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
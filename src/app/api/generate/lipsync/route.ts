@@ -1,121 +1,102 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { InsufficientCreditsError } from '@/lib/credits'
+import { ProjectBudgetExceededError, ProjectNotFoundError } from '@/lib/project-budgets'
+import { resolveGenerationTarget } from '@/lib/user-preferences'
+import { submitGenerationJob } from '@/lib/generation/jobs'
+import { getProvider } from '@/lib/generation/providers'
 
 interface GenerateLipsyncRequest {
   imageUrl: string
   audioUrl: string
+  audioDuration?: number // seconds, used for the up-front credit estimate
+  imageAssetId?: string // set when the inputs were picked from the Asset Repository
+  audioAssetId?: string
+  projectId?: string | null // defaults to the user's default project; null for none
+  saveToRepository?: boolean // defaults to the user's auto-save setting
 }
 
 export async function POST(req: NextRequest) {
   try {
-    const { imageUrl, audioUrl } = await req.json() as GenerateLipsyncRequest
+    const session = await getServerSession(authOptions)
+    const body = await req.json() as GenerateLipsyncRequest
 
-    if (!imageUrl || !imageUrl.trim()) {
+    if (!session?.user?.id) {
       return NextResponse.json(
-        { error: 'Image URL is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
-    if (!audioUrl || !audioUrl.trim()) {
+    // Credits are tracked against the database user, so we need its UUID
+    const isValidUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(session.user.id)
+    if (!isValidUUID) {
       return NextResponse.json(
-        { error: 'Audio URL is required' },
+        { error: 'Please sign out and sign back in' },
         { status: 400 }
       )
     }
 
-    if (!process.env.AKOOL_API_KEY) {
+    const provider = getProvider('lipsync')
+    const parsed = provider.paramSchema.safeParse(body)
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'AKOOL API key not configured' },
-        { status: 500 }
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
       )
     }
 
-    const requestBody = {
-      talking_photo_url: imageUrl.trim(),
-      audio_url: audioUrl.trim(),
+    const configError = provider.getConfigError()
+    if (configError) {
+      return NextResponse.json(
+        { error: configError },
+        { status: 500 }
+      )
     }
 
-    console.log('Talking photo request body:', JSON.stringify(requestBody, null, 2))
+    // Returns as soon as the provider has accepted the job; the client
+    // follows progress via GET /api/generations/[id]
+    const job = await submitGenerationJob(
+      session.user.id,
+      'lipsync',
+      parsed.data,
+      {
+        ...await resolveGenerationTarget(session.user.id, body),
+        inputAssetIds: { image: body.imageAssetId, audio: body.audioAssetId },
+      }
+    )
 
-    const createResponse = await fetch('https://openapi.akool.com/api/open/v3/content/video/createbytalkingphoto', {
-      method: 'POST',
-      headers: {
-        'x-api-key': process.env.AKOOL_API_KEY!,
-        'Content-Type': 'application/json',
+    return NextResponse.json(
+      {
+        id: job.id,
+        status: job.status,
+        creditsReserved: job.credits_used,
       },
-      body: JSON.stringify(requestBody),
-    })
-
-    if (!createResponse.ok) {
-      const errorText = await createResponse.text()
-      console.error('AKOOL API error:', errorText)
-      throw new Error(`AKOOL API error: ${createResponse.status} - ${errorText}`)
+      { status: 202 }
+    )
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, required: error.required, balance: error.balance },
+        { status: 402 }
+      )
     }
 
-    const createData = await createResponse.json()
-
-    if (createData.code !== 1000) {
-      console.error('AKOOL API returned error:', createData)
-      throw new Error(createData.msg || 'AKOOL API error')
+    if (error instanceof ProjectBudgetExceededError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, limit: error.limit, spent: error.spent, required: error.required },
+        { status: 403 }
+      )
     }
 
-    const videoModelId = createData.data._id
-
-    console.log('Task created:', videoModelId)
-
-    let attempts = 0
-    const maxAttempts = 60
-
-    while (attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, 3000))
-
-      const statusResponse = await fetch(`https://openapi.akool.com/api/open/v3/content/video/infobymodelid?video_model_id=${videoModelId}`, {
-        headers: {
-          'x-api-key': process.env.AKOOL_API_KEY!,
-        },
-      })
-
-      if (!statusResponse.ok) {
-        const errorText = await statusResponse.text()
-        console.error('Status check error:', errorText)
-        throw new Error(`Failed to check status: ${statusResponse.status}`)
-      }
-
-      const statusData = await statusResponse.json()
-      console.log(`Status check ${attempts + 1}:`, statusData.data.video_status)
-      console.log('Full status response:', JSON.stringify(statusData, null, 2))
-
-      if (statusData.data.video_status === 4) {
-        throw new Error('Talking photo generation failed')
-      }
-
-      if (statusData.data.video_status === 3) {
-        const videoUrl = statusData.data.video
-
-        if (!videoUrl) {
-          throw new Error('No video URL in response')
-        }
-
-        console.log('Talking photo video generated:', videoUrl)
-        console.log('Full completion response:', JSON.stringify(statusData, null, 2))
-
-        return NextResponse.json({
-          id: videoModelId,
-          output: videoUrl,
-          status: 'completed',
-          metadata: {
-            create_time: statusData.data.create_time,
-            video_lock_duration: statusData.data.video_lock_duration,
-          },
-        })
-      }
-
-      attempts++
+    if (error instanceof ProjectNotFoundError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 404 }
+      )
     }
 
-    throw new Error('Talking photo generation timed out after 3 minutes')
-
-  } catch (error) {
     console.error('Talking photo generation error:', error)
 
     return NextResponse.json(
@@ -1,142 +1,102 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { InsufficientCreditsError } from '@/lib/credits'
+import { ProjectBudgetExceededError, ProjectNotFoundError } from '@/lib/project-budgets'
+import { resolveGenerationTarget } from '@/lib/user-preferences'
+import { submitGenerationJob } from '@/lib/generation/jobs'
+import { getProvider } from '@/lib/generation/providers'
 
 interface GenerateVideoRequest {
   prompt: string
   imageUrl?: string
+  imageAssetId?: string // set when the image was picked from the Asset Repository
   model: string
   duration: number
+  projectId?: string | null // defaults to the user's default project; null for none
+  saveToRepository?: boolean // defaults to the user's auto-save setting
 }
 
 export async function POST(req: NextRequest) {
   try {
-    const { prompt, imageUrl, model, duration } = await req.json() as GenerateVideoRequest
+    const session = await getServerSession(authOptions)
+    const body = await req.json() as GenerateVideoRequest
 
-    if (!prompt || !prompt.trim()) {
+    if (!session?.user?.id) {
       return NextResponse.json(
-        { error: 'Prompt is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
-    if (!process.env.RUNWAYML_API_KEY) {
+    // Credits are tracked against the database user, so we need its UUID
+    const isValidUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(session.user.id)
+    if (!isValidUUID) {
       return NextResponse.json(
-        { error: 'RunwayML API key not configured' },
-        { status: 500 }
+        { error: 'Please sign out and sign back in' },
+        { status: 400 }
       )
     }
 
-    const modelMap: Record<string, string> = {
-      'gen3-alpha-turbo': 'gen3a_turbo',
-      'gen3-alpha': 'gen3a',
-    }
-
-    // Prepare request body based on whether we have an image
-    const hasImage = imageUrl && imageUrl.trim()
-
-    // text-to-video only supports veo3 with duration 8
-    // image-to-video supports gen3a_turbo, gen3a, gen4_turbo, veo3
-    const selectedModel = hasImage
-      ? (modelMap[model] || modelMap['gen3-alpha-turbo'])
-      : 'veo3'
-
-    const requestBody: any = {
-      promptText: prompt.trim(),
-      model: selectedModel,
+    const provider = getProvider('video')
+    const parsed = provider.paramSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
     }
 
-    if (hasImage) {
-      requestBody.promptImage = imageUrl.trim()
-      requestBody.duration = duration
-    } else {
-      requestBody.ratio = '1280:720'
-      requestBody.duration = 8
+    const configError = provider.getConfigError()
+    if (configError) {
+      return NextResponse.json(
+        { error: configError },
+        { status: 500 }
+      )
     }
 
-    // Use appropriate endpoint based on whether we have an image
-    const endpoint = hasImage
-      ? 'https://api.dev.runwayml.com/v1/image_to_video'
-      : 'https://api.dev.runwayml.com/v1/text_to_video'
-
-    console.log('Request body being sent to', endpoint, ':', JSON.stringify(requestBody, null, 2))
+    // Returns as soon as the provider has accepted the job; the client
+    // follows progress via GET /api/generations/[id]
+    const job = await submitGenerationJob(
+      session.user.id,
+      'video',
+      parsed.data,
+      {
+        ...await resolveGenerationTarget(session.user.id, body),
+        inputAssetIds: { image: body.imageAssetId },
+      }
+    )
 
-    // Create generation task
-    const createResponse = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.RUNWAYML_API_KEY}`,
-        'Content-Type': 'application/json',
-        'X-Runway-Version': '2024-11-06',
+    return NextResponse.json(
+      {
+        id: job.id,
+        status: job.status,
+        creditsReserved: job.credits_used,
       },
-      body: JSON.stringify(requestBody),
-    })
-
-    if (!createResponse.ok) {
-      const errorText = await createResponse.text()
-      console.error('RunwayML API error:', errorText)
-      throw new Error(`RunwayML API error: ${createResponse.status} - ${errorText}`)
+      { status: 202 }
+    )
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, required: error.required, balance: error.balance },
+        { status: 402 }
+      )
     }
 
-    const createData = await createResponse.json()
-    const taskId = createData.id
-
-    console.log('Task created:', taskId)
-
-    // Poll for completion (max 3 minutes)
-    let attempts = 0
-    const maxAttempts = 60 // 60 attempts * 3 seconds = 3 minutes
-
-    while (attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, 3000)) // Wait 3 seconds
-
-      const statusResponse = await fetch(`https://api.dev.runwayml.com/v1/tasks/${taskId}`, {
-        headers: {
-          'Authorization': `Bearer ${process.env.RUNWAYML_API_KEY}`,
-          'X-Runway-Version': '2024-11-06',
-        },
-      })
-
-      if (!statusResponse.ok) {
-        const errorText = await statusResponse.text()
-        console.error('Status check error:', errorText)
-        throw new Error(`Failed to check status: ${statusResponse.status}`)
-      }
-
-      const statusData = await statusResponse.json()
-      console.log(`Status check ${attempts + 1}:`, statusData.status)
-      console.log('Full status response:', JSON.stringify(statusData, null, 2))
-
-      if (statusData.status === 'SUCCEEDED') {
-        const videoUrl = statusData.output?.[0] || statusData.artifacts?.[0]?.url
-
-        if (!videoUrl) {
-          throw new Error('No video URL in response')
-        }
-
-        console.log('Video generated:', videoUrl)
-        console.log('Full completion response:', JSON.stringify(statusData, null, 2))
-
-        return NextResponse.json({
-          id: taskId,
-          output: videoUrl,
-          status: 'completed',
-          metadata: {
-            createdAt: statusData.createdAt,
-            progressRatio: statusData.progressRatio,
-            progressText: statusData.progressText,
-          },
-        })
-      }
-
-      if (statusData.status === 'FAILED') {
-        throw new Error(statusData.failure || 'Video generation failed')
-      }
-
-      attempts++
+    if (error instanceof ProjectBudgetExceededError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, limit: error.limit, spent: error.spent, required: error.required },
+        { status: 403 }
+      )
     }
 
-    throw new Error('Video generation timed out after 3 minutes')
+    if (error instanceof ProjectNotFoundError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 404 }
+      )
+    }
 
-  } catch (error) {
     console.error('Video generation error:', error)
 
     return NextResponse.json(
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { GenerationJob, GenerationJobEventType } from '@/lib/types/generation-jobs';
+import {
+  advanceGenerationJob,
+  claimGenerationJobs,
+  getGenerationJob,
+  toGenerationJob,
+} from '@/lib/generation/jobs';
+import { createPollingEventStream } from '@/lib/sse';
+
+export const dynamic = 'force-dynamic';
+
+const STREAM_INTERVAL_MS = 1000;
+
+// ============================================================================
+// GET /api/generations/[id]/events - Stream generation job progress (SSE)
+// ============================================================================
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const generation = await getGenerationJob(id, userId);
+
+    if (!generation) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Generation not found' }
+      }, { status: 404 });
+    }
+
+    let last: GenerationJob | null = null;
+
+    return createPollingEventStream(req.signal, STREAM_INTERVAL_MS, async (send) => {
+      let current = await getGenerationJob(id, userId);
+      if (!current) return true;
+
+      // Advance the job here too if it's due, as GET /api/generations/[id] does
+      if (current.status === 'pending' || current.status === 'processing') {
+        const [claimed] = await claimGenerationJobs(1, current.id);
+        if (claimed) {
+          await advanceGenerationJob(claimed);
+          current = (await getGenerationJob(id, userId)) || current;
+        }
+      }
+
+      const job = toGenerationJob(current);
+      const finished = job.status === 'completed' || job.status === 'failed';
+
+      let event: GenerationJobEventType | null = null;
+      if (finished) {
+        event = job.status === 'completed' ? 'completed' : 'failed';
+      } else if (!last) {
+        event = 'snapshot';
+      } else if (job.status !== last.status) {
+        event = 'status';
+      } else if (job.progress !== last.progress || job.progressText !== last.progressText) {
+        event = 'progress';
+      }
+
+      if (event) send(event, job);
+      last = job;
+      return finished;
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/generations/[id]/events:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' }
+    }, { status: 500 });
+  }
+}
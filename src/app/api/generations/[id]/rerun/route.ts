@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { GenerationJob } from '@/lib/types/generation-jobs';
+import { InsufficientCreditsError } from '@/lib/credits';
+import { ProjectBudgetExceededError, ProjectNotFoundError } from '@/lib/project-budgets';
+import { getProvider } from '@/lib/generation/providers';
+import {
+  getGenerationJob,
+  submitGenerationJob,
+  toGenerationJob,
+} from '@/lib/generation/jobs';
+
+// ============================================================================
+// POST /api/generations/[id]/rerun - Submit a finished generation again
+// Same inputs, project and repository settings; the new job is charged and
+// tracked like any other and records which generation it repeated.
+// ============================================================================
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const generation = await getGenerationJob(id, session.user.id);
+    if (!generation) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Generation not found' }
+      }, { status: 404 });
+    }
+
+    if (generation.status === 'pending' || generation.status === 'processing') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'INVALID_STATE', message: 'Generation is still running' }
+      }, { status: 409 });
+    }
+
+    // Inputs are checked against the provider as it is now, in case its
+    // parameters changed since the original run
+    const provider = getProvider(generation.tool_type);
+    const parsed = provider.paramSchema.safeParse(generation.input_data);
+    if (!parsed.success) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `This generation can't be rerun: ${parsed.error.issues[0]?.message || 'invalid inputs'}`
+        }
+      }, { status: 400 });
+    }
+
+    const configError = provider.getConfigError();
+    if (configError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'PROVIDER_NOT_CONFIGURED', message: configError }
+      }, { status: 500 });
+    }
+
+    const job = await submitGenerationJob(session.user.id, generation.tool_type, parsed.data, {
+      projectId: generation.project_id,
+      saveToRepository: generation.metadata?.saveToRepository !== false,
+      inputAssetIds: generation.metadata?.inputAssetIds,
+      metadata: { rerunOf: generation.id },
+    });
+
+    return NextResponse.json<ApiResponse<GenerationJob>>({
+      success: true,
+      data: toGenerationJob(job)
+    }, { status: 202 });
+
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { required: error.required, balance: error.balance }
+        }
+      }, { status: 402 });
+    }
+
+    if (error instanceof ProjectBudgetExceededError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { limit: error.limit, spent: error.spent, required: error.required }
+        }
+      }, { status: 403 });
+    }
+
+    if (error instanceof ProjectNotFoundError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: error.code, message: error.message }
+      }, { status: 404 });
+    }
+
+    console.error('Error in POST /api/generations/[id]/rerun:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
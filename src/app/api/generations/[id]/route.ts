@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { GenerationJob } from '@/lib/types/generation-jobs';
+import {
+  advanceGenerationJob,
+  claimGenerationJobs,
+  getGenerationJob,
+  toGenerationJob,
+} from '@/lib/generation/jobs';
+
+// ============================================================================
+// GET /api/generations/[id] - Get generation job status
+// ============================================================================
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    let generation = await getGenerationJob(id, session.user.id);
+
+    if (!generation) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Generation not found' }
+      }, { status: 404 });
+    }
+
+    // Advance the job here too if it's due, so progress doesn't depend
+    // solely on the background worker being alive
+    if (generation.status === 'pending' || generation.status === 'processing') {
+      const [claimed] = await claimGenerationJobs(1, generation.id);
+      if (claimed) {
+        await advanceGenerationJob(claimed);
+        generation = (await getGenerationJob(id, session.user.id)) || generation;
+      }
+    }
+
+    return NextResponse.json<ApiResponse<GenerationJob>>({
+      success: true,
+      data: toGenerationJob(generation)
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/generations/[id]:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' }
+    }, { status: 500 });
+  }
+}
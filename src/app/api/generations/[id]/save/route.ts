@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { GenerationJob } from '@/lib/types/generation-jobs';
+import { GenerationOutputUnavailableError } from '@/lib/generation/assets';
+import {
+  getGenerationJob,
+  saveGenerationOutputs,
+  toGenerationJob,
+} from '@/lib/generation/jobs';
+
+// ============================================================================
+// POST /api/generations/[id]/save - Save a finished generation's outputs
+// For generations run with auto-save off: copies the outputs to storage and
+// creates the assets they would have had. Saving again returns the same
+// assets; outputs the provider no longer serves can't be saved (410).
+// ============================================================================
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const generation = await getGenerationJob(id, session.user.id);
+    if (!generation) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Generation not found' }
+      }, { status: 404 });
+    }
+
+    if (generation.status !== 'completed') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'INVALID_STATE', message: 'Only completed generations can be saved' }
+      }, { status: 409 });
+    }
+
+    const assetIds = await saveGenerationOutputs(generation);
+    if (assetIds.length === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'SAVE_FAILED', message: 'Failed to save generation to the repository' }
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse<GenerationJob>>({
+      success: true,
+      data: toGenerationJob({ ...generation, asset_ids: assetIds })
+    });
+
+  } catch (error) {
+    if (error instanceof GenerationOutputUnavailableError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: error.code, message: error.message }
+      }, { status: 410 });
+    }
+
+    console.error('Error in POST /api/generations/[id]/save:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import {
+  GenerationJob,
+  GenerationJobStatus,
+  GenerationToolType
+} from '@/lib/types/generation-jobs';
+import { toGenerationJob } from '@/lib/generation/jobs';
+
+const TOOL_TYPES: GenerationToolType[] = ['image', 'video', 'lipsync'];
+const STATUSES: GenerationJobStatus[] = ['pending', 'processing', 'completed', 'failed'];
+
+// ============================================================================
+// GET /api/generations - List the user's generations, newest first
+// ?tool_type=image|video|lipsync&status=... filter; page/limit paginate
+// ============================================================================
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const toolType = searchParams.get('tool_type') || undefined;
+    const status = searchParams.get('status') || undefined;
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+    if (toolType && !TOOL_TYPES.includes(toolType as GenerationToolType)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `tool_type must be one of: ${TOOL_TYPES.join(', ')}` }
+      }, { status: 400 });
+    }
+
+    if (status && !STATUSES.includes(status as GenerationJobStatus)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `status must be one of: ${STATUSES.join(', ')}` }
+      }, { status: 400 });
+    }
+
+    let query = supabaseAdmin
+      .from('generations')
+      .select('*', { count: 'exact' })
+      .eq('user_id', session.user.id);
+
+    if (toolType) {
+      query = query.eq('tool_type', toolType);
+    }
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    // Pagination
+    const offset = (page - 1) * limit;
+    query = query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    const { data: generations, error, count } = await query;
+
+    if (error) {
+      console.error('Error fetching generations:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to fetch generations' }
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse<GenerationJob[]>>({
+      success: true,
+      data: (generations || []).map(toGenerationJob),
+      meta: {
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / limit)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/generations:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
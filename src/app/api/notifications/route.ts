@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { NotificationList } from '@/lib/types/notifications';
+import { listNotifications, markNotificationsRead } from '@/lib/notifications';
+
+// ============================================================================
+// GET /api/notifications - Recent notifications and the unread count
+// ?limit= caps how many are returned (default 20, max 100)
+// ============================================================================
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+    const list = await listNotifications(session.user.id, limit);
+
+    return NextResponse.json<ApiResponse<NotificationList>>({
+      success: true,
+      data: list
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/notifications:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// PATCH /api/notifications - Mark notifications read
+// Body: { ids: string[] }, or {} to mark everything read
+// ============================================================================
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const body: { ids?: string[] } = await req.json().catch(() => ({}));
+
+    if (body.ids !== undefined &&
+      (!Array.isArray(body.ids) || body.ids.some(id => typeof id !== 'string'))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'ids must be an array of notification ids' }
+      }, { status: 400 });
+    }
+
+    const updated = await markNotificationsRead(session.user.id, body.ids);
+
+    return NextResponse.json<ApiResponse<{ updated: number }>>({
+      success: true,
+      data: { updated }
+    });
+
+  } catch (error) {
+    console.error('Error in PATCH /api/notifications:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  advanceOrchestratedWorkflow,
+  claimOrchestratedWorkflows,
+  getOrchestratedWorkflow,
+  getWorkflowSnapshot,
+} from '@/lib/orchestration/engine';
+import { WorkflowSnapshot } from '@/lib/types/orchestration';
+import { createPollingEventStream } from '@/lib/sse';
+
+/**
+ * Orchestration Engine - Workflow Events Endpoint
+ *
+ * Purpose: Stream a workflow's progress as server-sent events: a snapshot on
+ * connect, then status changes, task transitions (with their asset ids once
+ * completed) and provider progress of running generations, ending with
+ * completed, failed or cancelled
+ */
+
+export const dynamic = 'force-dynamic';
+
+const STREAM_INTERVAL_MS = 2000;
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication check
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please sign in' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const { id: workflowId } = await params;
+
+    // 2. Make sure the workflow exists before opening the stream
+    const workflow = await getOrchestratedWorkflow(workflowId, userId);
+    if (!workflow) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+
+    // 3. Stream changes until the workflow finishes
+    let last: WorkflowSnapshot | null = null;
+
+    return createPollingEventStream(req.signal, STREAM_INTERVAL_MS, async (send) => {
+      // Advance the workflow here too if it's due, as the status endpoint does
+      const current = await getOrchestratedWorkflow(workflowId, userId);
+      if (!current) return true;
+      if (current.status === 'in_progress') {
+        const [claimed] = await claimOrchestratedWorkflows(1, current.id);
+        if (claimed) {
+          await advanceOrchestratedWorkflow(claimed);
+        }
+      }
+
+      const snapshot = await getWorkflowSnapshot(workflowId, userId);
+      if (!snapshot) return true;
+
+      const finished = FINISHED_STATUSES.includes(snapshot.workflow.status);
+      const previous = last;
+      last = snapshot;
+
+      if (!previous) {
+        if (!finished) send('snapshot', snapshot);
+      } else {
+        if (snapshot.workflow.status !== previous.workflow.status && !finished) {
+          send('status', { workflow: snapshot.workflow });
+        }
+
+        for (const task of snapshot.tasks) {
+          const before = previous.tasks.find(item => item.id === task.id);
+          if (!before || before.status !== task.status || before.updated_at !== task.updated_at) {
+            send('task', { task });
+          }
+        }
+
+        for (const progress of snapshot.progress) {
+          const before = previous.progress.find(item => item.task_id === progress.task_id);
+          if (!before || before.progress !== progress.progress || before.progress_text !== progress.progress_text) {
+            send('progress', progress);
+          }
+        }
+      }
+
+      if (finished) {
+        send(snapshot.workflow.status, snapshot);
+      }
+      return finished;
+    });
+
+  } catch (error: any) {
+    console.error('Error in orchestrate/events:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error.message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { resumeOrchestratedWorkflow, WorkflowControlError } from '@/lib/orchestration/control';
+
+/**
+ * Orchestration Engine - Workflow Resume Endpoint
+ *
+ * Purpose: Continue a cancelled workflow from where it stopped, reusing the
+ * outputs of tasks that completed before it was cancelled
+ */
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication check
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please sign in' },
+        { status: 401 }
+      );
+    }
+
+    const { id: workflowId } = await params;
+
+    // 2. Reopen cancelled tasks and dispatch them
+    let workflow;
+    try {
+      workflow = await resumeOrchestratedWorkflow(workflowId, session.user.id);
+    } catch (error) {
+      if (error instanceof WorkflowControlError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({
+      success: true,
+      workflow: {
+        id: workflow.id,
+        title: workflow.title,
+        status: workflow.status,
+        updated_at: workflow.updated_at,
+      },
+      message: 'Workflow resumed.',
+    });
+
+  } catch (error: any) {
+    console.error('Error in orchestrate/resume:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error.message
+      },
+      { status: 500 }
+    );
+  }
+}
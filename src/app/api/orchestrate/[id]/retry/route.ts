@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { retryOrchestratedWorkflow, WorkflowControlError } from '@/lib/orchestration/control';
+
+/**
+ * Orchestration Engine - Workflow Retry Endpoint
+ *
+ * Purpose: Run a failed workflow's failed tasks again. Completed tasks keep their
+ * outputs and are not regenerated
+ */
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication check
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please sign in' },
+        { status: 401 }
+      );
+    }
+
+    const { id: workflowId } = await params;
+
+    // 2. Reopen failed tasks and dispatch them
+    let workflow;
+    try {
+      workflow = await retryOrchestratedWorkflow(workflowId, session.user.id);
+    } catch (error) {
+      if (error instanceof WorkflowControlError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({
+      success: true,
+      workflow: {
+        id: workflow.id,
+        title: workflow.title,
+        status: workflow.status,
+        updated_at: workflow.updated_at,
+      },
+      message: 'Failed tasks have been queued again.',
+    });
+
+  } catch (error: any) {
+    console.error('Error in orchestrate/retry:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error.message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ReviewWorkflowTaskRequest } from '@/lib/types/orchestration';
+import { getOrchestratedWorkflow } from '@/lib/orchestration/engine';
+import { reviewWorkflowTask, WorkflowReviewError } from '@/lib/orchestration/reviews';
+
+/**
+ * Orchestration Engine - Review Action Endpoint
+ *
+ * Purpose: Approve, reject or request changes on a task awaiting review
+ *
+ * Body: { action: 'approve' | 'reject' | 'request_changes', notes?, params? }
+ * - approve: the reviewed output is passed on and the workflow continues
+ * - reject: the workflow fails and remaining tasks are skipped
+ * - request_changes: the reviewed task is generated again (with any param
+ *   overrides) and comes back for review
+ */
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication check
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please sign in' },
+        { status: 401 }
+      );
+    }
+
+    const { id: taskId } = await params;
+
+    // 2. Parse request
+    const body: ReviewWorkflowTaskRequest = await req.json().catch(() => ({}));
+
+    if (!body.action) {
+      return NextResponse.json(
+        { error: 'Missing required field: action' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Apply the decision and move the workflow along
+    let task;
+    try {
+      task = await reviewWorkflowTask(session.user.id, taskId, body);
+    } catch (error) {
+      if (error instanceof WorkflowReviewError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+    const workflow = await getOrchestratedWorkflow(task.workflow_id, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      task: {
+        id: task.id,
+        title: task.title,
+        status: task.status,
+        error_message: task.error_message,
+      },
+      workflow: workflow && {
+        id: workflow.id,
+        status: workflow.status,
+        error_message: workflow.error_message,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('Error in orchestrate/inbox/[id]:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error.message
+      },
+      { status: 500 }
+    );
+  }
+}
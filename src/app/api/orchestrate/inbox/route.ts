@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listReviewInbox } from '@/lib/orchestration/reviews';
+
+/**
+ * Orchestration Engine - Review Inbox Endpoint
+ *
+ * Purpose: List workflow tasks waiting for the signed-in user's sign-off,
+ * with the outputs under review
+ */
+
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Authentication check
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please sign in' },
+        { status: 401 }
+      );
+    }
+
+    // 2. Collect tasks awaiting review
+    const items = await listReviewInbox(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      items,
+      count: items.length,
+    });
+
+  } catch (error: any) {
+    console.error('Error in orchestrate/inbox:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error.message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { supabaseAdmin } from '@/lib/supabase';
+import {
+  advanceOrchestratedWorkflow,
+  claimOrchestratedWorkflows,
+  getOrchestratedWorkflow,
+  listWorkflowTasks,
+} from '@/lib/orchestration/engine';
 
 /**
  * Orchestration Engine - Workflow Status Endpoint
@@ -12,7 +17,7 @@ import { supabaseAdmin } from '@/lib/supabase';
 
 export async function GET(
   req: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     // 1. Authentication check
@@ -24,34 +29,34 @@ export async function GET(
       );
     }
 
-    const workflowId = params.id;
+    const { id: workflowId } = await params;
 
-    // 2. Fetch workflow from database
-    const { data: workflow, error: workflowError } = await supabaseAdmin
-      .from('workflows')
-      .select('*')
-      .eq('id', workflowId)
-      .eq('user_id', session.user.id) // User can only see their own workflows
-      .single();
+    // 2. Fetch workflow from database (users can only see their own)
+    let workflow = await getOrchestratedWorkflow(workflowId, session.user.id);
 
-    if (workflowError || !workflow) {
+    if (!workflow) {
       return NextResponse.json(
         { error: 'Workflow not found' },
         { status: 404 }
       );
     }
 
-    // 3. Fetch related tasks
-    const { data: tasks, error: tasksError } = await supabaseAdmin
-      .from('workflow_tasks')
-      .select('*')
-      .eq('workflow_id', workflowId)
-      .order('execution_order', { ascending: true });
-
-    if (tasksError) {
-      console.error('Error fetching workflow tasks:', tasksError);
+    // Advance the workflow here too if it's due, so progress doesn't depend
+    // solely on the background worker being alive
+    if (workflow.status === 'in_progress') {
+      const [claimed] = await claimOrchestratedWorkflows(1, workflow.id);
+      if (claimed) {
+        await advanceOrchestratedWorkflow(claimed);
+        workflow = (await getOrchestratedWorkflow(workflowId, session.user.id)) || workflow;
+      }
     }
 
+    // 3. Fetch related tasks
+    const tasks = await listWorkflowTasks(workflowId).catch(error => {
+      console.error('Error fetching workflow tasks:', error);
+      return null;
+    });
+
     // 4. Calculate progress
     const totalTasks = tasks?.length || 0;
     const completedTasks = tasks?.filter(t => t.status === 'completed').length || 0;
@@ -90,6 +95,8 @@ export async function GET(
         status: task.status,
         assigned_to: task.assigned_to,
         execution_order: task.execution_order,
+        depends_on: task.depends_on,
+        output: task.output_data,
         created_at: task.created_at,
         started_at: task.started_at,
         completed_at: task.completed_at,
@@ -1,37 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { supabaseAdmin } from '@/lib/supabase';
+import { SubmitOrchestrationRequest } from '@/lib/types/orchestration';
+import { OrchestrationPlanError } from '@/lib/orchestration/planner';
+import { advanceOrchestratedWorkflow, claimOrchestratedWorkflows, createOrchestratedWorkflow } from '@/lib/orchestration/engine';
 
 /**
  * Orchestration Engine - Workflow Submission Endpoint
  *
  * Created: October 20, 2025
- * Purpose: Accept workflow requests from customers and trigger AI coordination via TAO Bridge
+ * Purpose: Accept workflow requests from customers and execute them in-app
  *
  * Workflow:
  * 1. Customer submits workflow request
- * 2. Endpoint creates workflow record in database
- * 3. Sends notification to Aria via TAO Bridge
- * 4. Aria analyzes and breaks down into tasks
- * 5. Aria coordinates with Kai for execution
- * 6. Results returned to customer
+ * 2. Request is broken down into workflow_tasks (see lib/orchestration/planner)
+ * 3. Workflow and tasks are recorded in the database
+ * 4. The configured notifier (TAO Bridge, log or none) is told about it
+ * 5. The orchestrator dispatches tasks to our generation providers as they
+ *    become ready, and records their outputs
+ * 6. Results land in the workflow's result_data
  */
 
-const TAO_BRIDGE_API = process.env.TAO_BRIDGE_API || 'https://tao-bridge-server.fly.dev';
-
-interface WorkflowRequest {
-  title: string;
-  description?: string;
-  request_data: {
-    type?: 'video_generation' | 'image_generation' | 'lipsync' | 'complex_workflow' | 'custom';
-    inputs?: Record<string, any>;
-    deliverables?: string[];
-    constraints?: Record<string, any>;
-  };
-  priority?: number;
-}
-
 export async function POST(req: NextRequest) {
   try {
     // 1. Authentication check
@@ -44,7 +33,7 @@ export async function POST(req: NextRequest) {
     }
 
     // 2. Parse and validate request
-    const body: WorkflowRequest = await req.json();
+    const body: SubmitOrchestrationRequest = await req.json();
 
     if (!body.title) {
       return NextResponse.json(
@@ -60,85 +49,49 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const priority = body.priority && body.priority >= 1 && body.priority <= 5 ? body.priority : 3;
-
-    // 3. Create workflow record in database
-
-    const { data: workflow, error: dbError } = await supabaseAdmin
-      .from('workflows')
-      .insert({
-        user_id: session.user.id,
-        title: body.title,
-        description: body.description || null,
-        request_data: body.request_data,
-        status: 'pending',
-        assigned_to: 'aria', // Always starts with Aria for analysis
-        priority: priority,
-      })
-      .select()
-      .single();
-
-    if (dbError || !workflow) {
-      console.error('Database error creating workflow:', dbError);
-      return NextResponse.json(
-        { error: 'Failed to create workflow', details: dbError?.message },
-        { status: 500 }
-      );
-    }
-
-    // 4. Notify Aria via TAO Bridge
+    // 3. Plan tasks and create the workflow
+    let created;
     try {
-      const taoMessage = {
-        from: 'system',
-        to: 'aria',
-        type: 'workflow_notification',
-        content: `🎯 NEW WORKFLOW SUBMITTED\n\nWorkflow ID: ${workflow.id}\nUser: ${session.user.email}\nTitle: ${body.title}\nDescription: ${body.description || 'No description'}\nPriority: ${priority}\n\nPlease analyze this workflow and coordinate with Kai for execution.\n\nAccess full details:\nGET /api/orchestrate/${workflow.id}`,
-        metadata: {
-          workflow_id: workflow.id,
-          user_id: session.user.id,
-          priority: priority,
-          timestamp: new Date().toISOString(),
-        }
-      };
-
-      const taoResponse = await fetch(`${TAO_BRIDGE_API}/api/messages`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(taoMessage),
-      });
-
-      if (!taoResponse.ok) {
-        console.error('TAO Bridge notification failed:', await taoResponse.text());
-        // Don't fail the request - workflow is created, just log the notification failure
-      } else {
-        console.log(`✅ TAO Bridge notification sent for workflow ${workflow.id}`);
+      created = await createOrchestratedWorkflow(session.user.id, body, session.user.email);
+    } catch (error) {
+      if (error instanceof OrchestrationPlanError) {
+        return NextResponse.json(
+          { error: error.message, details: error.issues },
+          { status: 400 }
+        );
       }
-    } catch (taoError) {
-      console.error('Error sending TAO Bridge notification:', taoError);
-      // Continue - workflow is created even if notification fails
+      throw error;
     }
 
-    // 5. Update workflow status to 'analyzing'
-    await supabaseAdmin
-      .from('workflows')
-      .update({ status: 'analyzing' })
-      .eq('id', workflow.id);
+    const { workflow, tasks } = created;
+
+    // 4. Dispatch the first tasks now rather than waiting for the worker
+    const [claimed] = await claimOrchestratedWorkflows(1, workflow.id, true);
+    if (claimed) {
+      await advanceOrchestratedWorkflow(claimed);
+    }
 
-    // 6. Return success response
+    // 5. Return success response
     return NextResponse.json({
       success: true,
       workflow: {
         id: workflow.id,
         title: workflow.title,
-        status: 'analyzing',
+        status: workflow.status,
         created_at: workflow.created_at,
       },
-      message: 'Workflow submitted successfully. Aria is analyzing your request.',
+      tasks: tasks.map(task => ({
+        id: task.id,
+        title: task.title,
+        type: task.task_type,
+        execution_order: task.execution_order,
+        depends_on: task.depends_on,
+      })),
+      message: `Workflow submitted successfully. ${tasks.length} task${tasks.length === 1 ? '' : 's'} queued.`,
       next_steps: [
         `Check status: GET /api/orchestrate/status/${workflow.id}`,
-        'You will receive updates as the workflow progresses',
+        'Tasks run as soon as the tasks they depend on finish',
+        `Cancel: POST /api/orchestrate/${workflow.id}/cancel (retry and resume are available the same way)`,
         'Expected completion time: varies by complexity'
       ]
     });
@@ -160,7 +113,7 @@ export async function GET() {
   return NextResponse.json({
     endpoint: '/api/orchestrate/submit',
     method: 'POST',
-    description: 'Submit a workflow request for AI-coordinated execution',
+    description: 'Submit a workflow request; it is broken into tasks and executed in-app',
     authentication: 'Required - NextAuth session',
     request_body: {
       title: {
@@ -183,19 +136,23 @@ export async function GET() {
           type: {
             type: 'string',
             enum: ['video_generation', 'image_generation', 'lipsync', 'complex_workflow', 'custom'],
-            description: 'Type of workflow'
+            description: 'Type of workflow. complex_workflow and custom are planned from deliverables'
           },
           inputs: {
             type: 'object',
-            description: 'Input files, URLs, prompts, etc.'
+            description: 'prompt, negative_prompt, aspect_ratio, model, seed, num_outputs, image_url, image_urls, product_images, audio_url, audio_duration, video_prompt, video_model, duration. The description is used as the prompt when none is given'
           },
           deliverables: {
             type: 'array',
-            description: 'List of expected outputs'
+            description: 'List of expected outputs, e.g. "product video", "hero image", "talking head lipsync"'
           },
           constraints: {
             type: 'object',
             description: 'Budget, timeline, quality requirements'
+          },
+          require_approval: {
+            type: 'boolean',
+            description: 'Hold video and lipsync tasks until their inputs are approved in the review inbox (/review)'
           }
         }
       },
@@ -213,9 +170,10 @@ export async function GET() {
       workflow: {
         id: 'uuid',
         title: 'string',
-        status: 'analyzing',
+        status: 'in_progress',
         created_at: 'timestamp'
       },
+      tasks: [{ id: 'uuid', title: 'string', type: 'generate_image | generate_video | generate_lipsync', execution_order: 'number', depends_on: 'uuid | null' }],
       message: 'string',
       next_steps: ['array of strings']
     },
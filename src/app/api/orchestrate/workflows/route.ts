@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listOrchestratedWorkflows } from '@/lib/orchestration/engine';
+import { OrchestratedWorkflowStatus } from '@/lib/types/orchestration';
+
+/**
+ * Orchestration Engine - Workflow List Endpoint
+ *
+ * Purpose: List the user's workflows, newest first. ?status=active limits it
+ * to workflows that haven't finished; a comma-separated list of statuses
+ * filters by those instead
+ */
+
+const ACTIVE_STATUSES: OrchestratedWorkflowStatus[] = ['pending', 'analyzing', 'in_progress'];
+
+const MAX_LIMIT = 100;
+
+export async function GET(req: NextRequest) {
+  try {
+    // 1. Authentication check
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please sign in' },
+        { status: 401 }
+      );
+    }
+
+    // 2. Parse filters
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status');
+    const statuses = status === 'active'
+      ? ACTIVE_STATUSES
+      : status ? status.split(',') as OrchestratedWorkflowStatus[] : undefined;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, MAX_LIMIT);
+
+    // 3. Fetch workflows
+    const workflows = await listOrchestratedWorkflows(session.user.id, statuses, limit);
+
+    return NextResponse.json({
+      success: true,
+      workflows: workflows.map(workflow => ({
+        id: workflow.id,
+        title: workflow.title,
+        description: workflow.description,
+        status: workflow.status,
+        priority: workflow.priority,
+        created_at: workflow.created_at,
+        updated_at: workflow.updated_at,
+        completed_at: workflow.completed_at,
+        error_message: workflow.error_message,
+      })),
+    });
+
+  } catch (error: any) {
+    console.error('Error in orchestrate/workflows:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error.message
+      },
+      { status: 500 }
+    );
+  }
+}
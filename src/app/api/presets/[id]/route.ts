@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { StudioPreset, UpdatePresetRequest } from '@/lib/types/presets';
+import {
+  getVisiblePreset,
+  parsePresetSettings,
+  PRESET_COLUMNS,
+  toStudioPreset,
+  validatePreset,
+  validatePresetSharing
+} from '@/lib/presets';
+
+// ============================================================================
+// GET /api/presets/[id] - Get one of the user's presets or a public one
+// ============================================================================
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const preset = await getVisiblePreset(session.user.id, id);
+
+    if (!preset) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Preset not found' }
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<StudioPreset>>({
+      success: true,
+      data: preset
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/presets/[id]:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// PATCH /api/presets/[id] - Update a preset (creator only)
+// ============================================================================
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const body: UpdatePresetRequest = await req.json();
+
+    const invalid = validatePreset(body);
+    if (invalid) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', ...invalid }
+      }, { status: 400 });
+    }
+
+    // Validate the preset exists and was created by the user
+    const { data: existingPreset, error: fetchError } = await supabaseAdmin
+      .from('presets')
+      .select('id, name, tool_type, settings, is_public')
+      .eq('id', id)
+      .eq('created_by', session.user.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching preset for update:', fetchError);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to fetch preset' }
+      }, { status: 500 });
+    }
+
+    if (!existingPreset) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Preset not found' }
+      }, { status: 404 });
+    }
+
+    // Build update object
+    const updateData: any = {};
+
+    if (body.settings !== undefined) {
+      const parsed = parsePresetSettings(existingPreset.tool_type, body.settings);
+      if (!('settings' in parsed)) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', ...parsed }
+        }, { status: 400 });
+      }
+      updateData.settings = parsed.settings;
+    }
+
+    const unshareable = validatePresetSharing(
+      updateData.settings ?? existingPreset.settings ?? {},
+      body.is_public ?? existingPreset.is_public
+    );
+    if (unshareable) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', ...unshareable }
+      }, { status: 400 });
+    }
+
+    // Check for duplicate name if name is being changed
+    if (body.name && body.name.trim() !== existingPreset.name) {
+      const { data: duplicate } = await supabaseAdmin
+        .from('presets')
+        .select('id')
+        .eq('created_by', session.user.id)
+        .eq('tool_type', existingPreset.tool_type)
+        .eq('name', body.name.trim())
+        .neq('id', id)
+        .maybeSingle();
+
+      if (duplicate) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: { code: 'DUPLICATE_NAME', message: 'A preset with this name already exists' }
+        }, { status: 409 });
+      }
+    }
+
+    if (body.name !== undefined) updateData.name = body.name.trim();
+    if (body.description !== undefined) updateData.description = body.description?.trim() || null;
+    if (body.is_public !== undefined) updateData.is_public = body.is_public;
+
+    const { data: updatedPreset, error: updateError } = await supabaseAdmin
+      .from('presets')
+      .update(updateData)
+      .eq('id', id)
+      .eq('created_by', session.user.id)
+      .select(PRESET_COLUMNS)
+      .single();
+
+    if (updateError) {
+      console.error('Error updating preset:', updateError);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to update preset' }
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse<StudioPreset>>({
+      success: true,
+      data: toStudioPreset(updatedPreset, session.user.id)
+    });
+
+  } catch (error) {
+    console.error('Error in PATCH /api/presets/[id]:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// DELETE /api/presets/[id] - Delete a preset (creator only)
+// ============================================================================
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const { data: deleted, error } = await supabaseAdmin
+      .from('presets')
+      .delete()
+      .eq('id', id)
+      .eq('created_by', session.user.id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting preset:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to delete preset' }
+      }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Preset not found' }
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { id }
+    });
+
+  } catch (error) {
+    console.error('Error in DELETE /api/presets/[id]:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { incrementPresetUsage } from '@/lib/presets';
+
+// ============================================================================
+// POST /api/presets/[id]/use - Count a use of a preset
+// ============================================================================
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const usageCount = await incrementPresetUsage(session.user.id, id);
+
+    if (usageCount === null) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Preset not found' }
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<{ id: string; usage_count: number }>>({
+      success: true,
+      data: { id, usage_count: usageCount }
+    });
+
+  } catch (error) {
+    console.error('Error in POST /api/presets/[id]/use:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { GenerationToolType } from '@/lib/types/generation-jobs';
+import { CreatePresetRequest, PresetScope, StudioPreset } from '@/lib/types/presets';
+import {
+  listPresets,
+  parsePresetSettings,
+  PRESET_COLUMNS,
+  PRESET_SCOPES,
+  PRESET_TOOL_TYPES,
+  toStudioPreset,
+  validatePreset,
+  validatePresetSharing
+} from '@/lib/presets';
+
+// ============================================================================
+// GET /api/presets - Browse presets
+// ?tool_type= filters by studio; ?scope=all (own and public, default), mine,
+// public or featured; ?q= matches names
+// ============================================================================
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const toolType = searchParams.get('tool_type') as GenerationToolType | null;
+    const scope = (searchParams.get('scope') || 'all') as PresetScope;
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 100);
+
+    if (toolType && !PRESET_TOOL_TYPES.includes(toolType)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `tool_type must be one of: ${PRESET_TOOL_TYPES.join(', ')}` }
+      }, { status: 400 });
+    }
+
+    if (!PRESET_SCOPES.includes(scope)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `scope must be one of: ${PRESET_SCOPES.join(', ')}` }
+      }, { status: 400 });
+    }
+
+    const { presets, total } = await listPresets(session.user.id, {
+      toolType: toolType || undefined,
+      scope,
+      search: searchParams.get('q')?.trim() || undefined,
+    }, page, limit);
+
+    return NextResponse.json<ApiResponse<StudioPreset[]>>({
+      success: true,
+      data: presets,
+      meta: {
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/presets:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/presets - Save studio settings as a preset
+// ============================================================================
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    // Check if user ID is a valid UUID
+    const isValidUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(session.user.id);
+    if (!isValidUUID) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'INVALID_SESSION', message: 'Please sign out and sign back in' }
+      }, { status: 400 });
+    }
+
+    const body: CreatePresetRequest = await req.json();
+
+    // Validate required fields
+    if (!body.name || !body.tool_type || !body.settings) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Name, tool_type and settings are required' }
+      }, { status: 400 });
+    }
+
+    if (!PRESET_TOOL_TYPES.includes(body.tool_type)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `tool_type must be one of: ${PRESET_TOOL_TYPES.join(', ')}` }
+      }, { status: 400 });
+    }
+
+    const invalid = validatePreset(body);
+    if (invalid) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', ...invalid }
+      }, { status: 400 });
+    }
+
+    const parsed = parsePresetSettings(body.tool_type, body.settings);
+    if (!('settings' in parsed)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', ...parsed }
+      }, { status: 400 });
+    }
+
+    const unshareable = validatePresetSharing(parsed.settings, body.is_public || false);
+    if (unshareable) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', ...unshareable }
+      }, { status: 400 });
+    }
+
+    // Check for duplicate name for the same tool
+    const { data: duplicate } = await supabaseAdmin
+      .from('presets')
+      .select('id')
+      .eq('created_by', session.user.id)
+      .eq('tool_type', body.tool_type)
+      .eq('name', body.name.trim())
+      .maybeSingle();
+
+    if (duplicate) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DUPLICATE_NAME', message: 'A preset with this name already exists' }
+      }, { status: 409 });
+    }
+
+    const { data: preset, error } = await supabaseAdmin
+      .from('presets')
+      .insert({
+        created_by: session.user.id,
+        name: body.name.trim(),
+        description: body.description?.trim() || null,
+        tool_type: body.tool_type,
+        settings: parsed.settings,
+        is_public: body.is_public || false,
+      })
+      .select(PRESET_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating preset:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to create preset' }
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse<StudioPreset>>({
+      success: true,
+      data: toStudioPreset(preset, session.user.id)
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error in POST /api/presets:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -9,6 +9,7 @@ import {
   ProjectWithStats,
   Asset
 } from '@/lib/types/asset-repository';
+import { validateProjectBudget } from '@/lib/project-budgets';
 
 // ============================================================================
 // GET /api/projects/[id] - Get project details with assets
@@ -126,7 +127,7 @@ export async function PATCH(
     // Validate the project exists and belongs to the user
     const { data: existingProject, error: fetchError } = await supabaseAdmin
       .from('projects')
-      .select('id, name')
+      .select('id, name, budget_warning_percent, budget_stop_percent')
       .eq('id', id)
       .eq('user_id', session.user.id)
       .maybeSingle();
@@ -146,6 +147,22 @@ export async function PATCH(
       }, { status: 404 });
     }
 
+    // Thresholds are checked against each other, so fill in whichever one
+    // isn't changing
+    const budgetError = validateProjectBudget({
+      credit_budget: body.credit_budget,
+      budget_warning_percent: body.budget_warning_percent ?? existingProject.budget_warning_percent,
+      budget_stop_percent: body.budget_stop_percent !== undefined
+        ? body.budget_stop_percent
+        : existingProject.budget_stop_percent,
+    });
+    if (budgetError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: budgetError }
+      }, { status: 400 });
+    }
+
     // Check for duplicate name if name is being changed
     if (body.name && body.name.trim() !== existingProject.name) {
       const { data: duplicateProject } = await supabaseAdmin
@@ -174,6 +191,9 @@ export async function PATCH(
     if (body.color !== undefined) updateData.color = body.color;
     if (body.is_archived !== undefined) updateData.is_archived = body.is_archived;
     if (body.position !== undefined) updateData.position = body.position;
+    if (body.credit_budget !== undefined) updateData.credit_budget = body.credit_budget;
+    if (body.budget_warning_percent !== undefined) updateData.budget_warning_percent = body.budget_warning_percent;
+    if (body.budget_stop_percent !== undefined) updateData.budget_stop_percent = body.budget_stop_percent;
 
     // Update the project
     const { data: updatedProject, error: updateError } = await supabaseAdmin
@@ -8,6 +8,7 @@ import {
   ProjectListParams,
   ProjectWithStats
 } from '@/lib/types/asset-repository';
+import { validateProjectBudget } from '@/lib/project-budgets';
 
 // ============================================================================
 // GET /api/projects - List user's projects
@@ -123,6 +124,14 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
+    const budgetError = validateProjectBudget(body);
+    if (budgetError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: budgetError }
+      }, { status: 400 });
+    }
+
     // Check for duplicate project name
     const { data: existingProject } = await supabaseAdmin
       .from('projects')
@@ -158,6 +167,9 @@ export async function POST(req: NextRequest) {
         description: body.description?.trim() || null,
         color: body.color || '#6366f1',
         position: nextPosition,
+        credit_budget: body.credit_budget ?? null,
+        ...(body.budget_warning_percent !== undefined && { budget_warning_percent: body.budget_warning_percent }),
+        ...(body.budget_stop_percent !== undefined && { budget_stop_percent: body.budget_stop_percent }),
       })
       .select('*')
       .single();
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse, RenderPromptRequest, RenderPromptResponse } from '@/lib/types/asset-repository';
+import { PromptTemplateError, renderPromptTemplate } from '@/lib/prompt-templates';
+
+// ============================================================================
+// POST /api/prompts/[id]/render - Fill template variables and return the prompt
+// ============================================================================
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    // Check if user ID is a valid UUID
+    const isValidUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(session.user.id);
+    if (!isValidUUID) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'INVALID_SESSION', message: 'Please sign out and sign back in' }
+      }, { status: 400 });
+    }
+
+    const body: RenderPromptRequest = await req.json().catch(() => ({}));
+
+    if (body.values !== undefined && (typeof body.values !== 'object' || body.values === null || Array.isArray(body.values))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'values must be an object of variable names to values' }
+      }, { status: 400 });
+    }
+
+    // Own prompts, or public ones shared by others
+    const { data: prompt, error: fetchError } = await supabaseAdmin
+      .from('prompts')
+      .select('id, user_id, prompt_text, negative_prompt, variables, times_used')
+      .eq('id', id)
+      .or(`user_id.eq.${session.user.id},is_public.eq.true`)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching prompt for render:', fetchError);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to fetch prompt' }
+      }, { status: 500 });
+    }
+
+    if (!prompt) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Prompt not found' }
+      }, { status: 404 });
+    }
+
+    let rendered: RenderPromptResponse;
+    try {
+      rendered = renderPromptTemplate(prompt, body.values);
+    } catch (error) {
+      if (error instanceof PromptTemplateError) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Some variables are missing or invalid', details: error.fieldErrors }
+        }, { status: 400 });
+      }
+      throw error;
+    }
+
+    // Sending a rendered prompt to a studio counts as a use
+    if (body.track_usage && prompt.user_id === session.user.id) {
+      const { error: updateError } = await supabaseAdmin
+        .from('prompts')
+        .update({
+          times_used: (prompt.times_used || 0) + 1,
+          last_used_at: new Date().toISOString(),
+        })
+        .eq('id', id);
+
+      if (updateError) {
+        console.error('Error updating prompt usage:', updateError);
+      }
+    }
+
+    return NextResponse.json<ApiResponse<RenderPromptResponse>>({
+      success: true,
+      data: rendered
+    });
+
+  } catch (error) {
+    console.error('Error in POST /api/prompts/[id]/render:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -7,6 +7,7 @@ import {
   UpdatePromptRequest,
   Prompt
 } from '@/lib/types/asset-repository';
+import { pruneVariableDefinitions, validateVariableDefinitions } from '@/lib/prompt-templates';
 
 // ============================================================================
 // GET /api/prompts/[id] - Get prompt details
@@ -81,10 +82,18 @@ export async function PATCH(
 
     const body: UpdatePromptRequest = await req.json();
 
+    const variableErrors = validateVariableDefinitions(body.variables);
+    if (variableErrors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: variableErrors[0], details: variableErrors }
+      }, { status: 400 });
+    }
+
     // Validate the prompt exists and belongs to the user
     const { data: existingPrompt, error: fetchError } = await supabaseAdmin
       .from('prompts')
-      .select('id, name')
+      .select('id, name, prompt_text, negative_prompt, variables')
       .eq('id', id)
       .eq('user_id', session.user.id)
       .maybeSingle();
@@ -134,6 +143,15 @@ export async function PATCH(
     if (body.asset_types !== undefined) updateData.asset_types = body.asset_types;
     if (body.tags !== undefined) updateData.tags = body.tags;
 
+    // Keep declarations in step with the placeholders in the text
+    if (body.variables !== undefined || body.prompt_text !== undefined || body.negative_prompt !== undefined) {
+      updateData.variables = pruneVariableDefinitions({
+        prompt_text: updateData.prompt_text ?? existingPrompt.prompt_text,
+        negative_prompt: body.negative_prompt !== undefined ? updateData.negative_prompt : existingPrompt.negative_prompt,
+        variables: body.variables ?? existingPrompt.variables,
+      });
+    }
+
     // Update the prompt
     const { data: updatedPrompt, error: updateError } = await supabaseAdmin
       .from('prompts')
@@ -10,6 +10,7 @@ import {
   PromptCategory,
   AssetType
 } from '@/lib/types/asset-repository';
+import { pruneVariableDefinitions, validateVariableDefinitions } from '@/lib/prompt-templates';
 
 // ============================================================================
 // GET /api/prompts - List user's prompts
@@ -163,6 +164,14 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
+    const variableErrors = validateVariableDefinitions(body.variables);
+    if (variableErrors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: variableErrors[0], details: variableErrors }
+      }, { status: 400 });
+    }
+
     // Check for duplicate prompt name
     const { data: existingPrompt } = await supabaseAdmin
       .from('prompts')
@@ -189,6 +198,7 @@ export async function POST(req: NextRequest) {
         category: body.category || null,
         asset_types: body.asset_types || null,
         tags: body.tags || null,
+        variables: pruneVariableDefinitions(body),
         times_used: 0,
         is_public: false,
       })
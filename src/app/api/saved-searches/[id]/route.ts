@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  ApiResponse,
+  SavedSearch,
+  UpdateSavedSearchRequest
+} from '@/lib/types/asset-repository';
+import { countSavedSearchAssets, validateSavedSearch } from '@/lib/search/saved-searches';
+
+// ============================================================================
+// PATCH /api/saved-searches/[id] - Update a saved search (creator only)
+// ============================================================================
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const body: UpdateSavedSearchRequest = await req.json();
+
+    const invalid = validateSavedSearch(body);
+    if (invalid) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', ...invalid }
+      }, { status: 400 });
+    }
+
+    // Validate the search exists and was created by the user
+    const { data: existingSearch, error: fetchError } = await supabaseAdmin
+      .from('saved_searches')
+      .select('id, project_id, name')
+      .eq('id', id)
+      .eq('user_id', session.user.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching saved search for update:', fetchError);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to fetch saved search' }
+      }, { status: 500 });
+    }
+
+    if (!existingSearch) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Saved search not found' }
+      }, { status: 404 });
+    }
+
+    if (body.is_shared && !existingSearch.project_id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Only searches scoped to a project can be shared' }
+      }, { status: 400 });
+    }
+
+    // Check for duplicate name if name is being changed
+    if (body.name && body.name.trim() !== existingSearch.name) {
+      let duplicateQuery = supabaseAdmin
+        .from('saved_searches')
+        .select('id')
+        .eq('user_id', session.user.id)
+        .eq('name', body.name.trim())
+        .neq('id', id);
+      duplicateQuery = existingSearch.project_id
+        ? duplicateQuery.eq('project_id', existingSearch.project_id)
+        : duplicateQuery.is('project_id', null);
+
+      const { data: duplicate } = await duplicateQuery.maybeSingle();
+      if (duplicate) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: { code: 'DUPLICATE_NAME', message: 'A saved search with this name already exists' }
+        }, { status: 409 });
+      }
+    }
+
+    // Build update object
+    const updateData: any = {};
+
+    if (body.name !== undefined) updateData.name = body.name.trim();
+    if (body.query !== undefined) updateData.query = body.query.trim();
+    if (body.sort_by !== undefined) updateData.sort_by = body.sort_by;
+    if (body.sort_order !== undefined) updateData.sort_order = body.sort_order;
+    if (body.is_shared !== undefined) updateData.is_shared = body.is_shared;
+    if (body.position !== undefined) updateData.position = body.position;
+
+    const { data: updatedSearch, error: updateError } = await supabaseAdmin
+      .from('saved_searches')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', session.user.id)
+      .select('*')
+      .single();
+
+    if (updateError) {
+      console.error('Error updating saved search:', updateError);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to update saved search' }
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse<SavedSearch>>({
+      success: true,
+      data: { ...updatedSearch, asset_count: await countSavedSearchAssets(updatedSearch, session.user.id) }
+    });
+
+  } catch (error) {
+    console.error('Error in PATCH /api/saved-searches/[id]:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// DELETE /api/saved-searches/[id] - Delete a saved search (creator only)
+// ============================================================================
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const { data: deleted, error } = await supabaseAdmin
+      .from('saved_searches')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', session.user.id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting saved search:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to delete saved search' }
+      }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Saved search not found' }
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { id }
+    });
+
+  } catch (error) {
+    console.error('Error in DELETE /api/saved-searches/[id]:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  ApiResponse,
+  CreateSavedSearchRequest,
+  SavedSearch
+} from '@/lib/types/asset-repository';
+import {
+  canAccessProject,
+  countSavedSearchAssets,
+  listSavedSearches,
+  validateSavedSearch
+} from '@/lib/search/saved-searches';
+
+// ============================================================================
+// GET /api/saved-searches - List saved searches with live asset counts
+// ?project_id= lists what shows in that project: the user's library-wide
+// searches plus the project's own and shared ones
+// ============================================================================
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const projectId = searchParams.get('project_id') || undefined;
+
+    if (projectId && !(await canAccessProject(session.user.id, projectId))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Project not found' }
+      }, { status: 404 });
+    }
+
+    const searches = await listSavedSearches(session.user.id, projectId);
+
+    return NextResponse.json<ApiResponse<SavedSearch[]>>({
+      success: true,
+      data: searches
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/saved-searches:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// POST /api/saved-searches - Save a search as a smart folder
+// ============================================================================
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const body: CreateSavedSearchRequest = await req.json();
+
+    // Validate required fields
+    if (!body.name || !body.query) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Name and query are required' }
+      }, { status: 400 });
+    }
+
+    const invalid = validateSavedSearch(body);
+    if (invalid) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', ...invalid }
+      }, { status: 400 });
+    }
+
+    if (body.is_shared && !body.project_id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Only searches scoped to a project can be shared' }
+      }, { status: 400 });
+    }
+
+    if (body.project_id && !(await canAccessProject(session.user.id, body.project_id))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Project not found' }
+      }, { status: 404 });
+    }
+
+    // Check for duplicate name in the same scope
+    let duplicateQuery = supabaseAdmin
+      .from('saved_searches')
+      .select('id')
+      .eq('user_id', session.user.id)
+      .eq('name', body.name.trim());
+    duplicateQuery = body.project_id
+      ? duplicateQuery.eq('project_id', body.project_id)
+      : duplicateQuery.is('project_id', null);
+
+    const { data: duplicate } = await duplicateQuery.maybeSingle();
+    if (duplicate) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DUPLICATE_NAME', message: 'A saved search with this name already exists' }
+      }, { status: 409 });
+    }
+
+    // New searches go to the end of the list
+    const { data: lastSearch } = await supabaseAdmin
+      .from('saved_searches')
+      .select('position')
+      .eq('user_id', session.user.id)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: search, error } = await supabaseAdmin
+      .from('saved_searches')
+      .insert({
+        user_id: session.user.id,
+        project_id: body.project_id || null,
+        name: body.name.trim(),
+        query: body.query.trim(),
+        sort_by: body.sort_by || 'created_at',
+        sort_order: body.sort_order || 'desc',
+        is_shared: body.is_shared || false,
+        position: (lastSearch?.position || 0) + 1,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating saved search:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to save search' }
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse<SavedSearch>>({
+      success: true,
+      data: { ...search, asset_count: await countSavedSearchAssets(search, session.user.id) }
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error in POST /api/saved-searches:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
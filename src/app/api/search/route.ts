@@ -5,11 +5,42 @@ import { authOptions } from '@/lib/auth';
 import {
   ApiResponse,
   SearchResult,
-  SearchFilters
+  SearchFilters,
+  SearchMode
 } from '@/lib/types/asset-repository';
+import {
+  computeAssetFacets,
+  CREDIT_BUCKET_LIMITS,
+  FacetCountRow,
+  FacetKey,
+  MAX_FACET_VALUES
+} from '@/lib/search/facets';
+import {
+  findSemanticMatches,
+  rankBySimilarity,
+  rankHybrid,
+  SearchEntityType,
+  SemanticMatch
+} from '@/lib/search/semantic';
+import {
+  applySearchClauses,
+  compileSearchClauses,
+  CompiledSearchFilter,
+  parseSearchQuery,
+  SearchClause,
+  SearchCondition
+} from '@/lib/search/query-language';
+
+const SEARCH_MODES: SearchMode[] = ['keyword', 'semantic', 'hybrid'];
 
 // ============================================================================
 // GET /api/search - Universal search across all entities
+// ?mode=keyword (default) matches words; semantic ranks assets and prompts
+// by meaning; hybrid fuses both rankings. Experiments are keyword-only.
+// The query may contain structured terms (type:video rating>=4 -tag:draft);
+// the rest of it is the text that gets matched.
+// ?facets=true adds counts of the matching assets per filter option; the
+// query may then be empty to count everything in scope.
 // ============================================================================
 export async function GET(req: NextRequest) {
   try {
@@ -24,6 +55,7 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const filters: SearchFilters = {
       query: searchParams.get('q') || searchParams.get('query') || '',
+      mode: (searchParams.get('mode') || 'keyword') as SearchMode,
       asset_types: searchParams.get('asset_types')?.split(',').filter(Boolean) as any,
       source_apps: searchParams.get('source_apps')?.split(',').filter(Boolean) as any,
       tags: searchParams.get('tags')?.split(',').filter(Boolean),
@@ -33,21 +65,58 @@ export async function GET(req: NextRequest) {
       date_to: searchParams.get('date_to') || undefined,
       project_id: searchParams.get('project_id') || undefined,
       folder_id: searchParams.get('folder_id') || undefined,
+      unorganized: searchParams.get('unorganized') === 'true',
       include_assets: searchParams.get('include_assets') !== 'false',
       include_prompts: searchParams.get('include_prompts') !== 'false',
       include_experiments: searchParams.get('include_experiments') !== 'false',
       limit: Math.min(parseInt(searchParams.get('limit') || '50'), 100),
     };
+    const includeFacets = searchParams.get('facets') === 'true';
 
-    if (!filters.query) {
+    if (!filters.query && !includeFacets) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: { code: 'VALIDATION_ERROR', message: 'Search query is required' }
       }, { status: 400 });
     }
 
+    if (!SEARCH_MODES.includes(filters.mode!)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `mode must be one of: ${SEARCH_MODES.join(', ')}` }
+      }, { status: 400 });
+    }
+
+    const parsed = parseSearchQuery(filters.query);
+    if (parsed.errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: parsed.errors[0].message, details: parsed.errors }
+      }, { status: 400 });
+    }
+
+    // Entity searches match the free text and apply the clauses as filters
+    const textFilters: SearchFilters = { ...filters, query: parsed.text };
+    const clauses = parsed.clauses;
+
+    // Semantic matches first, so the entity searches below can fetch them
+    let matches: SemanticMatch[] | null = null;
+    if (filters.mode !== 'keyword' && parsed.text) {
+      const entityTypes: SearchEntityType[] = [];
+      if (filters.include_assets) entityTypes.push('asset');
+      if (filters.include_prompts) entityTypes.push('prompt');
+
+      try {
+        matches = await findSemanticMatches(session.user.id, parsed.text, entityTypes, filters.limit!);
+      } catch (error) {
+        // Keyword results are still useful if the embedding backend is down
+        console.error('Semantic search failed; falling back to keyword search:', error);
+      }
+    }
+
     const results: SearchResult = {
       query: filters.query,
+      mode: matches ? filters.mode! : 'keyword',
       assets: [],
       prompts: [],
       experiments: [],
@@ -58,19 +127,19 @@ export async function GET(req: NextRequest) {
 
     // Search assets
     if (filters.include_assets) {
-      const assetSearch = searchAssets(session.user.id, filters);
+      const assetSearch = rankedSearch(textFilters, matches, 'asset', (ids) => searchAssets(session.user.id, textFilters, clauses, ids));
       searchPromises.push(assetSearch);
     }
 
     // Search prompts
     if (filters.include_prompts) {
-      const promptSearch = searchPrompts(session.user.id, filters);
+      const promptSearch = rankedSearch(textFilters, matches, 'prompt', (ids) => searchPrompts(session.user.id, textFilters, clauses, ids));
       searchPromises.push(promptSearch);
     }
 
     // Search experiments
     if (filters.include_experiments) {
-      const experimentSearch = searchExperiments(session.user.id, filters);
+      const experimentSearch = searchExperiments(session.user.id, textFilters, clauses);
       searchPromises.push(experimentSearch);
     }
 
@@ -107,6 +176,21 @@ export async function GET(req: NextRequest) {
       results.prompts.length +
       results.experiments.length;
 
+    if (includeFacets && filters.include_assets) {
+      const semanticIds = matches
+        ? matches.filter(match => match.entity_type === 'asset').map(match => match.entity_id)
+        : null;
+
+      try {
+        results.facets = await computeAssetFacets(clauses, (facetClauses, facets) =>
+          countAssetFacets(session.user.id, textFilters, facetClauses, facets, semanticIds)
+        );
+      } catch (error) {
+        // The results are still useful without counts
+        console.error('Error computing search facets:', error);
+      }
+    }
+
     return NextResponse.json<ApiResponse<SearchResult>>({
       success: true,
       data: results
@@ -125,71 +209,188 @@ export async function GET(req: NextRequest) {
 // Helper Functions
 // ============================================================================
 
-async function searchAssets(userId: string, filters: SearchFilters) {
-  let query = supabaseAdmin
-    .from('assets')
-    .select('id, asset_type, name, thumbnail_url, created_at, tags, user_rating, notes')
-    .eq('user_id', userId)
-    .eq('status', 'active');
+/**
+ * Run an entity search in the requested mode. The search function runs a
+ * keyword search when given no ids, and otherwise fetches those rows with
+ * the same filters applied.
+ */
+async function rankedSearch(
+  filters: SearchFilters,
+  matches: SemanticMatch[] | null,
+  entityType: SearchEntityType,
+  search: (ids?: string[]) => PromiseLike<{ data: any[] | null; error: any }>
+) {
+  if (!matches) {
+    return await search();
+  }
 
-  // Full-text search on name and notes
-  if (filters.query) {
-    query = query.textSearch('name,notes', filters.query, {
-      type: 'websearch',
-      config: 'english'
-    });
+  const semanticIds = matches
+    .filter(match => match.entity_type === entityType)
+    .map(match => match.entity_id);
+  const semantic = semanticIds.length > 0 ? await search(semanticIds) : { data: [], error: null };
+  if (semantic.error) {
+    return semantic;
+  }
+
+  const semanticRows = rankBySimilarity(semantic.data || [], matches);
+  if (filters.mode === 'semantic') {
+    return { data: semanticRows.slice(0, filters.limit), error: null };
+  }
+
+  const keyword = await search();
+  if (keyword.error) {
+    return keyword;
   }
 
-  // Apply filters
+  return { data: rankHybrid(keyword.data || [], semanticRows, filters.limit!), error: null };
+}
+
+// Nothing matches when a clause names a field the entity doesn't have
+const NO_MATCHES = { data: [], error: null };
+
+/**
+ * The request's asset filters as compiled conditions, so the facet counts
+ * can run them too.
+ */
+function assetFilterConditions(filters: SearchFilters): CompiledSearchFilter[] {
+  const conditions: SearchCondition[] = [];
+
   if (filters.asset_types?.length) {
-    query = query.in('asset_type', filters.asset_types);
+    conditions.push({ column: 'asset_type', operator: 'in', value: filters.asset_types });
   }
 
   if (filters.source_apps?.length) {
-    query = query.in('source_app', filters.source_apps);
+    conditions.push({ column: 'source_app', operator: 'in', value: filters.source_apps });
   }
 
-  if (filters.tags?.length) {
-    for (const tag of filters.tags) {
-      query = query.contains('tags', [tag]);
-    }
+  for (const tag of filters.tags || []) {
+    conditions.push({ column: 'tags', operator: 'ov', value: [tag] });
   }
 
   if (filters.min_rating) {
-    query = query.gte('user_rating', filters.min_rating);
+    conditions.push({ column: 'user_rating', operator: 'gte', value: String(filters.min_rating) });
   }
 
   if (filters.date_from) {
-    query = query.gte('created_at', filters.date_from);
+    conditions.push({ column: 'created_at', operator: 'gte', value: filters.date_from });
   }
 
   if (filters.date_to) {
-    query = query.lte('created_at', filters.date_to);
+    conditions.push({ column: 'created_at', operator: 'lte', value: filters.date_to });
   }
 
   if (filters.project_id) {
-    query = query.eq('project_id', filters.project_id);
+    conditions.push({ column: 'project_id', operator: 'eq', value: filters.project_id });
   }
 
   if (filters.folder_id) {
-    query = query.eq('folder_id', filters.folder_id);
+    conditions.push({ column: 'folder_id', operator: 'eq', value: filters.folder_id });
+  }
+
+  if (filters.unorganized) {
+    conditions.push({ column: 'project_id', operator: 'is', value: 'null' });
+  }
+
+  return conditions.map(condition => [[condition]]);
+}
+
+/**
+ * An asset query with the search applied: the user's active assets matching
+ * the text (or the given ids), the request's filters and the clauses.
+ */
+function assetSearchQuery(
+  select: string,
+  userId: string,
+  filters: SearchFilters,
+  clauseFilters: CompiledSearchFilter[],
+  ids?: string[]
+) {
+  let query = supabaseAdmin
+    .from('assets')
+    .select(select)
+    .eq('user_id', userId)
+    .eq('status', 'active');
+
+  if (ids) {
+    query = query.in('id', ids);
+  } else if (filters.query) {
+    // Full-text search on name and notes
+    query = query.textSearch('name,notes', filters.query, {
+      type: 'websearch',
+      config: 'english'
+    });
+  }
+
+  return applySearchClauses(query, [...assetFilterConditions(filters), ...clauseFilters]);
+}
+
+async function searchAssets(userId: string, filters: SearchFilters, clauses: SearchClause[], ids?: string[]) {
+  const clauseFilters = compileSearchClauses(clauses, 'asset');
+  if (!clauseFilters) {
+    return NO_MATCHES;
   }
 
-  query = query
+  const query = assetSearchQuery(
+    'id, project_id, folder_id, asset_type, source_app, source_tool, file_url, thumbnail_url, name, tags, notes, is_favorite, user_rating, credits_used, file_size_bytes, duration_seconds, dimensions, mime_type, status, created_at, updated_at',
+    userId,
+    filters,
+    clauseFilters,
+    ids
+  )
     .order('created_at', { ascending: false })
-    .limit(Math.min(filters.limit || 20, 20));
+    .limit(ids ? ids.length : filters.limit || 20);
 
   return await query;
 }
 
-async function searchPrompts(userId: string, filters: SearchFilters) {
+/**
+ * Facet counts for every asset the search matches, in the same mode as the
+ * results: semantic counts the semantic matches, hybrid adds them to the
+ * keyword matches.
+ */
+async function countAssetFacets(
+  userId: string,
+  filters: SearchFilters,
+  clauses: SearchClause[],
+  facets: FacetKey[],
+  semanticIds: string[] | null
+): Promise<FacetCountRow[]> {
+  const clauseFilters = compileSearchClauses(clauses, 'asset');
+  if (!clauseFilters) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('search_asset_facets', {
+    user_uuid: userId,
+    facet_names: facets,
+    filters: [...assetFilterConditions(filters), ...clauseFilters],
+    text_query: (semanticIds && filters.mode === 'semantic') || !filters.query ? null : filters.query,
+    match_ids: semanticIds,
+    credit_limits: CREDIT_BUCKET_LIMITS,
+    value_limit: MAX_FACET_VALUES,
+  });
+  if (error) {
+    throw new Error(`Failed to count search facets: ${error.message}`);
+  }
+
+  return (data || []) as FacetCountRow[];
+}
+
+async function searchPrompts(userId: string, filters: SearchFilters, clauses: SearchClause[], ids?: string[]) {
+  const clauseFilters = compileSearchClauses(clauses, 'prompt');
+  if (!clauseFilters) {
+    return NO_MATCHES;
+  }
+
   let query = supabaseAdmin
     .from('prompts')
     .select('id, name, prompt_text, category, created_at, tags, times_used')
     .eq('user_id', userId);
 
-  // Search in name and prompt_text
-  if (filters.query) {
+  if (ids) {
+    query = query.in('id', ids);
+  } else if (filters.query) {
+    // Search in name and prompt_text
     query = query.or(
       `name.ilike.%${filters.query}%,prompt_text.ilike.%${filters.query}%`
     );
@@ -214,14 +415,19 @@ async function searchPrompts(userId: string, filters: SearchFilters) {
     query = query.lte('created_at', filters.date_to);
   }
 
-  query = query
+  query = applySearchClauses(query, clauseFilters)
     .order('created_at', { ascending: false })
-    .limit(Math.min(filters.limit || 20, 20));
+    .limit(ids ? ids.length : Math.min(filters.limit || 20, 20));
 
   return await query;
 }
 
-async function searchExperiments(userId: string, filters: SearchFilters) {
+async function searchExperiments(userId: string, filters: SearchFilters, clauses: SearchClause[]) {
+  const clauseFilters = compileSearchClauses(clauses, 'experiment');
+  if (!clauseFilters) {
+    return NO_MATCHES;
+  }
+
   let query = supabaseAdmin
     .from('experiments')
     .select('id, title, hypothesis, outcome, created_at, tags')
@@ -248,7 +454,7 @@ async function searchExperiments(userId: string, filters: SearchFilters) {
     query = query.lte('created_at', filters.date_to);
   }
 
-  query = query
+  query = applySearchClauses(query, clauseFilters)
     .order('created_at', { ascending: false })
     .limit(Math.min(filters.limit || 20, 20));
 
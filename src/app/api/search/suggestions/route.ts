@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+
+// Recent assets sampled for values; older, rarely used ones drop off the list
+const SAMPLE_SIZE = 1000;
+const MAX_VALUES = 50;
+
+interface SearchSuggestions {
+  tags: string[];
+  tools: string[];
+}
+
+// ============================================================================
+// GET /api/search/suggestions - Tag and tool values for query autocomplete
+// Most used first
+// ============================================================================
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const { data: assets, error } = await supabaseAdmin
+      .from('assets')
+      .select('tags, source_tool')
+      .eq('user_id', session.user.id)
+      .eq('status', 'active')
+      .order('created_at', { ascending: false })
+      .limit(SAMPLE_SIZE);
+
+    if (error) {
+      console.error('Error fetching search suggestions:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to fetch suggestions' }
+      }, { status: 500 });
+    }
+
+    const tagCounts = new Map<string, number>();
+    const toolCounts = new Map<string, number>();
+    for (const asset of assets || []) {
+      for (const tag of asset.tags || []) {
+        tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
+      }
+      if (asset.source_tool) {
+        toolCounts.set(asset.source_tool, (toolCounts.get(asset.source_tool) || 0) + 1);
+      }
+    }
+
+    const mostUsed = (counts: Map<string, number>) => Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_VALUES)
+      .map(([value]) => value);
+
+    return NextResponse.json<ApiResponse<SearchSuggestions>>({
+      success: true,
+      data: { tags: mostUsed(tagCounts), tools: mostUsed(toolCounts) }
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/search/suggestions:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { UpdateUserSettingsRequest, UserSettings, UserSettingsResponse } from '@/lib/types/user-preferences';
+import { getUserSettingsResponse, updateUserSettings, validateUserSettings } from '@/lib/user-preferences';
+
+// ============================================================================
+// GET /api/settings - The user's preferences and the choices for each
+// ============================================================================
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    // Sessions from before the user had a database row can't have settings
+    const isValidUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(session.user.id);
+    const response = await getUserSettingsResponse(isValidUUID ? session.user.id : null);
+
+    return NextResponse.json<ApiResponse<UserSettingsResponse>>({
+      success: true,
+      data: response
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/settings:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// PATCH /api/settings - Update some or all preferences
+// ============================================================================
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    // Check if user ID is a valid UUID
+    const isValidUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(session.user.id);
+    if (!isValidUUID) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'INVALID_SESSION', message: 'Please sign out and sign back in' }
+      }, { status: 400 });
+    }
+
+    const body: UpdateUserSettingsRequest = await req.json();
+
+    const validationError = await validateUserSettings(session.user.id, body);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: validationError }
+      }, { status: 400 });
+    }
+
+    const settings = await updateUserSettings(session.user.id, body);
+
+    return NextResponse.json<ApiResponse<UserSettings>>({
+      success: true,
+      data: settings
+    });
+
+  } catch (error) {
+    console.error('Error in PATCH /api/settings:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
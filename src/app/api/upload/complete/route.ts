@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { supabaseAdmin } from '@/lib/supabase';
 import { generateThumbnail } from '@/lib/thumbnail-generator';
+import { getS3PublicUrl } from '@/lib/s3-upload';
+import { processAudioAsset, processVideoAsset } from '@/lib/asset-media';
+import { indexAssetVisuals } from '@/lib/search/visual';
 
 // ============================================================================
 // POST /api/upload/complete - Complete file upload and process asset
@@ -11,7 +14,7 @@ interface UploadCompleteBody {
   asset_id: string;
   file_key: string;
   thumbnail_key?: string;
-  file_url: string;
+  file_url?: string; // Ignored; the URL is rebuilt from the stored key
   name?: string;
   notes?: string;
   tags?: string[];
@@ -33,10 +36,10 @@ export async function POST(req: NextRequest) {
     const body: UploadCompleteBody = await req.json();
 
     // Validate required fields
-    if (!body.asset_id || !body.file_key || !body.file_url) {
+    if (!body.asset_id || !body.file_key) {
       return NextResponse.json({
         success: false,
-        error: { code: 'BAD_REQUEST', message: 'asset_id, file_key, and file_url are required' }
+        error: { code: 'BAD_REQUEST', message: 'asset_id and file_key are required' }
       }, { status: 400 });
     }
 
@@ -55,15 +58,28 @@ export async function POST(req: NextRequest) {
       }, { status: 404 });
     }
 
-    // Generate thumbnail if asset type supports it
+    // The file is wherever /api/upload/request put it: the URL is built from
+    // the key stored with the session, never taken from the client
+    const fileKey: string | undefined = existingAsset.generation_params?.file_key;
+    const thumbnailKey: string | undefined = existingAsset.generation_params?.thumbnail_key;
+    if (!fileKey || fileKey !== body.file_key) {
+      return NextResponse.json({
+        success: false,
+        error: { code: 'BAD_REQUEST', message: 'file_key does not match the upload session' }
+      }, { status: 400 });
+    }
+    const fileUrl = getS3PublicUrl(fileKey);
+
+    // Generate thumbnail if asset type supports it (video and audio get
+    // theirs when the file is probed below)
     let thumbnailUrl = existingAsset.thumbnail_url;
-    if (body.thumbnail_key && ['image', 'video', 'audio'].includes(existingAsset.asset_type)) {
+    if (thumbnailKey && existingAsset.asset_type === 'image') {
       console.log(`🖼️ Generating thumbnail for ${existingAsset.asset_type} asset...`);
 
       const thumbnailResult = await generateThumbnail(
-        existingAsset.asset_type as 'image' | 'video' | 'audio',
-        body.file_url,
-        body.thumbnail_key
+        'image',
+        fileUrl,
+        thumbnailKey
       );
 
       if (thumbnailResult.success) {
@@ -77,7 +93,7 @@ export async function POST(req: NextRequest) {
 
     // Update the asset record with complete information
     const updateData = {
-      file_url: body.file_url,
+      file_url: fileUrl,
       thumbnail_url: thumbnailUrl,
       name: body.name || existingAsset.name,
       notes: body.notes || existingAsset.notes,
@@ -87,6 +103,8 @@ export async function POST(req: NextRequest) {
       generation_params: {
         ...existingAsset.generation_params,
         ...body.generation_params,
+        file_key: fileKey,
+        thumbnail_key: thumbnailKey,
         upload_completed_at: new Date().toISOString(),
       },
       status: 'active', // Mark as active now that upload is complete
@@ -111,6 +129,30 @@ export async function POST(req: NextRequest) {
 
     console.log(`✅ Upload completed for asset ${body.asset_id}`);
 
+    // Hash and embed images for similarity search and duplicate detection
+    if (updatedAsset.asset_type === 'image') {
+      await indexAssetVisuals(updatedAsset.id);
+    }
+
+    // Probe uploaded media for duration/codec etc. and render previews
+    if (updatedAsset.asset_type === 'video' || updatedAsset.asset_type === 'audio') {
+      const processed = updatedAsset.asset_type === 'video'
+        ? await processVideoAsset(updatedAsset.id)
+        : await processAudioAsset(updatedAsset.id);
+      if (processed) {
+        const { data: processedAsset } = await supabaseAdmin
+          .from('assets')
+          .select('*')
+          .eq('id', updatedAsset.id)
+          .single();
+
+        return NextResponse.json({
+          success: true,
+          data: processedAsset || updatedAsset
+        });
+      }
+    }
+
     return NextResponse.json({
       success: true,
       data: updatedAsset
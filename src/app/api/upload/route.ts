@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { supabaseAdmin } from '@/lib/supabase'
+import { processAudioAsset } from '@/lib/asset-media'
 
 const s3Client = new S3Client({
   region: process.env.AWS_REGION || 'us-east-1',
@@ -46,11 +50,18 @@ export async function POST(req: NextRequest) {
 
     const url = `https://${process.env.AWS_S3_BUCKET}.s3.${process.env.AWS_REGION || 'us-east-1'}.amazonaws.com/${key}`
 
+    // Audio is registered as an asset straight away so its duration (and so
+    // the lipsync cost) is known before anything is submitted
+    const audio = file.type.startsWith('audio/')
+      ? await registerAudioAsset(url, file)
+      : null
+
     return NextResponse.json({
       url,
       type: file.type,
       size: file.size,
       name: file.name,
+      ...(audio || {}),
     })
   } catch (error) {
     console.error('Upload error:', error)
@@ -60,3 +71,43 @@ export async function POST(req: NextRequest) {
     )
   }
 }
+
+async function registerAudioAsset(url: string, file: File) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return null
+  }
+
+  const { data: asset, error } = await supabaseAdmin
+    .from('assets')
+    .insert({
+      user_id: session.user.id,
+      asset_type: 'audio',
+      source_app: 'lipsync',
+      source_tool: 'upload',
+      file_url: url,
+      generation_params: { original_filename: file.name },
+      file_size_bytes: file.size,
+      mime_type: file.type,
+      credits_used: 0,
+      name: file.name,
+      status: 'active',
+    })
+    .select('id')
+    .single()
+
+  if (error || !asset) {
+    console.error('Error registering audio asset:', error)
+    return null
+  }
+
+  const metadata = await processAudioAsset(asset.id)
+
+  return {
+    assetId: asset.id,
+    durationSeconds: metadata?.duration_seconds ?? null,
+    sampleRate: metadata?.media_info?.sample_rate ?? null,
+    channels: metadata?.media_info?.channels ?? null,
+    loudnessLufs: metadata?.media_info?.loudness_lufs ?? null,
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  handleProviderWebhook,
+  isWebhookProvider,
+  WebhookVerificationError,
+} from '@/lib/generation/webhooks'
+
+// Signature checks need the exact bytes the provider signed
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params
+
+  if (!isWebhookProvider(provider)) {
+    return NextResponse.json(
+      { error: `Unknown provider: ${provider}` },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const rawBody = await req.text()
+    const result = await handleProviderWebhook(provider, req.headers, rawBody)
+
+    console.log(`Webhook ${provider}:`, result)
+
+    // A non-2xx makes the provider redeliver, which is what we want while
+    // another worker holds the job or its id hasn't been saved yet
+    return NextResponse.json(
+      { received: true, ...result },
+      { status: result.status === 'locked' ? 409 : result.status === 'unknown' ? 404 : 200 }
+    )
+  } catch (error) {
+    if (error instanceof WebhookVerificationError) {
+      console.warn(`Rejected ${provider} webhook:`, error.message)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      )
+    }
+
+    console.error(`Webhook ${provider} error:`, error)
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to process webhook' },
+      { status: 500 }
+    )
+  }
+}
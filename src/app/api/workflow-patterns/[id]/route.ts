@@ -4,8 +4,14 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import {
   ApiResponse,
-  WorkflowPattern
+  ExecuteWorkflowRequest,
+  WorkflowPattern,
+  WorkflowStep
 } from '@/lib/types/asset-repository';
+import { WorkflowRun } from '@/lib/types/workflow-runs';
+import { parseWorkflowSteps, WorkflowValidationError } from '@/lib/workflows/steps';
+import { advanceWorkflowRun, claimWorkflowRuns, getWorkflowRun, startWorkflowRun } from '@/lib/workflows/runs';
+import { ProjectNotFoundError } from '@/lib/project-budgets';
 
 // ============================================================================
 // GET /api/workflow-patterns/[id] - Get workflow pattern details
@@ -81,12 +87,7 @@ export async function PATCH(
     const body: {
       name?: string;
       description?: string;
-      steps?: Array<{
-        step_number: number;
-        action_type: string;
-        parameters: Record<string, any>;
-        notes?: string;
-      }>;
+      steps?: WorkflowStep[];
       tags?: string[];
       is_public?: boolean;
     } = await req.json();
@@ -132,22 +133,19 @@ export async function PATCH(
       }
     }
 
-    // Validate steps if provided
-    if (body.steps) {
-      if (body.steps.length === 0) {
-        return NextResponse.json<ApiResponse>({
-          success: false,
-          error: { code: 'VALIDATION_ERROR', message: 'At least one workflow step is required' }
-        }, { status: 400 });
-      }
-
-      for (const step of body.steps) {
-        if (!step.action_type || typeof step.step_number !== 'number') {
+    // Validate steps if provided (returned sorted by step number)
+    let sortedSteps: WorkflowStep[] | undefined;
+    if (body.steps !== undefined) {
+      try {
+        sortedSteps = parseWorkflowSteps(body.steps);
+      } catch (error) {
+        if (error instanceof WorkflowValidationError) {
           return NextResponse.json<ApiResponse>({
             success: false,
-            error: { code: 'VALIDATION_ERROR', message: 'Each step must have action_type and step_number' }
+            error: { code: 'VALIDATION_ERROR', message: error.message, details: error.issues }
           }, { status: 400 });
         }
+        throw error;
       }
     }
 
@@ -158,10 +156,7 @@ export async function PATCH(
 
     if (body.name !== undefined) updateData.name = body.name.trim();
     if (body.description !== undefined) updateData.description = body.description?.trim() || null;
-    if (body.steps !== undefined) {
-      // Sort steps by step_number
-      updateData.steps = body.steps.sort((a, b) => a.step_number - b.step_number);
-    }
+    if (sortedSteps !== undefined) updateData.steps = sortedSteps;
     if (body.tags !== undefined) updateData.tags = body.tags;
     if (body.is_public !== undefined) updateData.is_public = body.is_public;
 
@@ -285,9 +280,9 @@ export async function POST(
       }, { status: 401 });
     }
 
-    const body: {
+    const body: Partial<ExecuteWorkflowRequest> & {
       action: 'use' | 'duplicate';
-      input_parameters?: Record<string, any>;
+      input_parameters?: Record<string, any>; // Older name for user_params
     } = await req.json();
 
     if (!body.action) {
@@ -313,6 +308,29 @@ export async function POST(
     }
 
     if (body.action === 'use') {
+      let run: WorkflowRun;
+      try {
+        run = await startWorkflowRun(session.user.id, pattern, {
+          user_params: body.user_params || body.input_parameters || {},
+          on_failure: body.on_failure,
+          project_id: body.project_id,
+        });
+      } catch (error) {
+        if (error instanceof WorkflowValidationError) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: { code: 'VALIDATION_ERROR', message: error.message, details: error.issues }
+          }, { status: 400 });
+        }
+        if (error instanceof ProjectNotFoundError) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: { code: error.code, message: error.message }
+          }, { status: 404 });
+        }
+        throw error;
+      }
+
       // Increment usage counter if it's the user's own pattern
       if (pattern.user_id === session.user.id) {
         await supabaseAdmin
@@ -321,14 +339,17 @@ export async function POST(
           .eq('id', id);
       }
 
-      return NextResponse.json<ApiResponse>({
+      // Submit the first step now rather than waiting for the worker
+      const [claimed] = await claimWorkflowRuns(1, run.id, true);
+      if (claimed) {
+        await advanceWorkflowRun(claimed);
+        run = (await getWorkflowRun(run.id, session.user.id)) || run;
+      }
+
+      return NextResponse.json<ApiResponse<WorkflowRun>>({
         success: true,
-        data: {
-          pattern,
-          action: 'ready_for_execution',
-          message: 'Workflow pattern is ready to be executed with your input parameters'
-        }
-      });
+        data: run
+      }, { status: 202 });
 
     } else if (body.action === 'duplicate') {
       // Create a copy of the pattern for the current user
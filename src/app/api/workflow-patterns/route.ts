@@ -4,8 +4,10 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import {
   ApiResponse,
-  WorkflowPattern
+  WorkflowPattern,
+  WorkflowStep
 } from '@/lib/types/asset-repository';
+import { parseWorkflowSteps, WorkflowValidationError } from '@/lib/workflows/steps';
 
 // ============================================================================
 // POST /api/workflow-patterns - Create a workflow pattern
@@ -23,12 +25,7 @@ export async function POST(req: NextRequest) {
     const body: {
       name: string;
       description?: string;
-      steps: Array<{
-        step_number: number;
-        action_type: string;
-        parameters: Record<string, any>;
-        notes?: string;
-      }>;
+      steps: WorkflowStep[];
       tags?: string[];
       is_public?: boolean;
     } = await req.json();
@@ -41,26 +38,21 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
-    if (!body.steps || body.steps.length === 0) {
-      return NextResponse.json<ApiResponse>({
-        success: false,
-        error: { code: 'VALIDATION_ERROR', message: 'At least one workflow step is required' }
-      }, { status: 400 });
-    }
-
-    // Validate steps
-    for (const step of body.steps) {
-      if (!step.action_type || typeof step.step_number !== 'number') {
+    // Validate steps (sorted by step number); whether they can be executed
+    // is checked when a run starts
+    let sortedSteps: WorkflowStep[];
+    try {
+      sortedSteps = parseWorkflowSteps(body.steps);
+    } catch (error) {
+      if (error instanceof WorkflowValidationError) {
         return NextResponse.json<ApiResponse>({
           success: false,
-          error: { code: 'VALIDATION_ERROR', message: 'Each step must have action_type and step_number' }
+          error: { code: 'VALIDATION_ERROR', message: error.message, details: error.issues }
         }, { status: 400 });
       }
+      throw error;
     }
 
-    // Sort steps by step_number
-    const sortedSteps = body.steps.sort((a, b) => a.step_number - b.step_number);
-
     // Check for duplicate pattern name
     const { data: existingPattern } = await supabaseAdmin
       .from('workflow_patterns')
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { WorkflowRun } from '@/lib/types/workflow-runs';
+import { advanceWorkflowRun, claimWorkflowRuns, getWorkflowRun } from '@/lib/workflows/runs';
+
+// ============================================================================
+// GET /api/workflow-runs/[id] - Get workflow run status with per-step state
+// ============================================================================
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    let run = await getWorkflowRun(id, session.user.id);
+
+    if (!run) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Workflow run not found' }
+      }, { status: 404 });
+    }
+
+    // Advance the run here too if it's due, so progress doesn't depend
+    // solely on the background worker being alive
+    if (run.status === 'running') {
+      const [claimed] = await claimWorkflowRuns(1, run.id);
+      if (claimed) {
+        await advanceWorkflowRun(claimed);
+        run = (await getWorkflowRun(id, session.user.id)) || run;
+      }
+    }
+
+    return NextResponse.json<ApiResponse<WorkflowRun>>({
+      success: true,
+      data: run
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/workflow-runs/[id]:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' }
+    }, { status: 500 });
+  }
+}
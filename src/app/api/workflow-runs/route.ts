@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ApiResponse } from '@/lib/types/asset-repository';
+import { WorkflowRun } from '@/lib/types/workflow-runs';
+
+// ============================================================================
+// GET /api/workflow-runs - List the user's workflow runs
+// ============================================================================
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' }
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const params = {
+      pattern_id: searchParams.get('pattern_id') || undefined,
+      status: searchParams.get('status') || undefined,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: Math.min(parseInt(searchParams.get('limit') || '20'), 100),
+    };
+
+    let query = supabaseAdmin
+      .from('workflow_runs')
+      .select('*', { count: 'exact' })
+      .eq('user_id', session.user.id);
+
+    if (params.pattern_id) {
+      query = query.eq('pattern_id', params.pattern_id);
+    }
+    if (params.status) {
+      query = query.eq('status', params.status);
+    }
+
+    const offset = (params.page - 1) * params.limit;
+    query = query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + params.limit - 1);
+
+    const { data: runs, error, count } = await query;
+
+    if (error) {
+      console.error('Error fetching workflow runs:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: { code: 'DATABASE_ERROR', message: 'Failed to fetch workflow runs' }
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse<WorkflowRun[]>>({
+      success: true,
+      data: runs || [],
+      meta: {
+        pagination: {
+          page: params.page,
+          limit: params.limit,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / params.limit)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/workflow-runs:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+    }, { status: 500 });
+  }
+}
@@ -25,20 +25,32 @@ import {
   FileText,
   Settings,
   Trash2,
+  Layers,
   MoreVertical
 } from 'lucide-react'
-import { Asset, Project, Folder, AssetType } from '@/lib/types/asset-repository'
+import { Asset, Project, ProjectWithStats, Folder, AssetType, SavedSearch, SearchFacets } from '@/lib/types/asset-repository'
+import { parseSearchQuery } from '@/lib/search/query-language'
+import { startOfDay, subDays, subMonths, subYears } from 'date-fns'
 import ProjectBrowser from '@/components/assets/project-browser'
 import AssetGallery from '@/components/assets/asset-gallery'
 import AssetDetailsModal from '@/components/assets/asset-details-modal'
 import FolderNavigation from '@/components/assets/folder-navigation'
-import SearchFilter from '@/components/assets/search-filter'
+import SearchFilter, { DEFAULT_FILTERS, FilterState } from '@/components/assets/search-filter'
 import CreateProjectModal from '@/components/assets/create-project-modal'
 import AssetMigrationPanel from '@/components/assets/asset-migration-panel'
 
+const SEARCH_DEBOUNCE_MS = 300
+
+const DATE_RANGE_START: Record<Exclude<FilterState['dateRange'], 'all'>, () => Date> = {
+  today: () => startOfDay(new Date()),
+  week: () => subDays(new Date(), 7),
+  month: () => subMonths(new Date(), 1),
+  year: () => subYears(new Date(), 1)
+}
+
 export default function AssetsPage() {
   const { data: session } = useSession()
-  const [projects, setProjects] = useState<Project[]>([])
+  const [projects, setProjects] = useState<ProjectWithStats[]>([])
   const [selectedProject, setSelectedProject] = useState<Project | null>(null)
   const [currentFolder, setCurrentFolder] = useState<Folder | null>(null)
   const [assets, setAssets] = useState<Asset[]>([])
@@ -46,11 +58,15 @@ export default function AssetsPage() {
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null)
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
   const [loading, setLoading] = useState(true)
-  const [searchQuery, setSearchQuery] = useState('')
-  const [selectedAssetType, setSelectedAssetType] = useState<AssetType | 'all'>('all')
-  const [sortBy, setSortBy] = useState<'created_at' | 'name' | 'rating'>('created_at')
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
-  const [showFavorites, setShowFavorites] = useState(false)
+  const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS)
+  // Assets matching filters.search, or null when there is no query
+  const [searchResults, setSearchResults] = useState<Asset[] | null>(null)
+  // Filter option counts for the current search and scope
+  const [facets, setFacets] = useState<SearchFacets | null>(null)
+  // The smart folder that was opened; it stays open until its query is edited
+  const [openedSavedSearch, setOpenedSavedSearch] = useState<SavedSearch | null>(null)
+  const [savedSearchesVersion, setSavedSearchesVersion] = useState(0)
+  const [collapseDuplicates, setCollapseDuplicates] = useState(true)
   const [showCreateProject, setShowCreateProject] = useState(false)
 
   // Load projects on mount
@@ -65,35 +81,114 @@ export default function AssetsPage() {
     if (session) {
       loadAssets()
     }
-  }, [selectedProject?.id, currentFolder?.id, session?.user?.id])
+  }, [selectedProject?.id, currentFolder?.id, collapseDuplicates, session?.user?.id])
 
-  // Filter and sort assets
+  const activeSavedSearch = openedSavedSearch && filters.search === openedSavedSearch.query
+    ? openedSavedSearch
+    : null
+
+  // Run the search query (free text and structured terms) on the server,
+  // with facet counts. With no query this only counts the scope's assets.
+  // While a query has mistakes the last good results stay up
   useEffect(() => {
-    let filtered = [...assets]
-
-    // Search filter
-    if (searchQuery) {
-      filtered = filtered.filter(asset =>
-        asset.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        asset.notes?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        asset.tags?.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()))
-      )
+    const query = filters.search.trim()
+    if (!session) {
+      return
+    }
+    if (!query) {
+      setSearchResults(null)
+    }
+    if (parseSearchQuery(query).errors.length > 0) {
+      return
+    }
+
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({
+          q: query,
+          include_prompts: 'false',
+          include_experiments: 'false',
+          limit: '100',
+          facets: 'true'
+        })
+        if (activeSavedSearch) {
+          // Smart folders search their own scope, whatever folder is open
+          if (activeSavedSearch.project_id) {
+            params.append('project_id', activeSavedSearch.project_id)
+          }
+        } else if (selectedProject) {
+          params.append('project_id', selectedProject.id)
+          if (currentFolder) {
+            params.append('folder_id', currentFolder.id)
+          }
+        } else {
+          params.append('unorganized', 'true')
+        }
+
+        const response = await fetch(`/api/search?${params}`)
+        const data = await response.json()
+        if (cancelled) return
+        if (data.success) {
+          setSearchResults(query ? data.data.assets : null)
+          setFacets(data.data.facets || null)
+        } else {
+          console.error('Error searching assets:', data.error)
+        }
+      } catch (error) {
+        console.error('Error searching assets:', error)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
     }
+  }, [filters.search, activeSavedSearch?.id, selectedProject?.id, currentFolder?.id, session?.user?.id, savedSearchesVersion])
+
+  // Filter and sort assets
+  useEffect(() => {
+    let filtered = [...(searchResults ?? assets)]
 
     // Asset type filter
-    if (selectedAssetType !== 'all') {
-      filtered = filtered.filter(asset => asset.asset_type === selectedAssetType)
+    if (filters.assetType !== 'all') {
+      filtered = filtered.filter(asset => asset.asset_type === filters.assetType)
     }
 
     // Favorites filter
-    if (showFavorites) {
+    if (filters.favoritesOnly) {
       filtered = filtered.filter(asset => asset.is_favorite)
     }
 
+    if (filters.minRating > 0) {
+      filtered = filtered.filter(asset => (asset.user_rating || 0) >= filters.minRating)
+    }
+
+    if (filters.maxCredits < 100) {
+      filtered = filtered.filter(asset => (asset.credits_used || 0) <= filters.maxCredits)
+    }
+
+    if (filters.dateRange !== 'all') {
+      const since = DATE_RANGE_START[filters.dateRange]()
+      filtered = filtered.filter(asset => new Date(asset.created_at) >= since)
+    }
+
+    if (filters.tags.length > 0) {
+      filtered = filtered.filter(asset => filters.tags.every(tag => asset.tags?.includes(tag)))
+    }
+
+    if (filters.sourceApp) {
+      filtered = filtered.filter(asset => asset.source_app === filters.sourceApp)
+    }
+
+    if (filters.sourceTool) {
+      filtered = filtered.filter(asset => asset.source_tool === filters.sourceTool)
+    }
+
     // Sort
     filtered.sort((a, b) => {
       let aVal, bVal
-      switch (sortBy) {
+      switch (filters.sortBy) {
         case 'name':
           aVal = a.name || ''
           bVal = b.name || ''
@@ -102,12 +197,20 @@ export default function AssetsPage() {
           aVal = a.user_rating || 0
           bVal = b.user_rating || 0
           break
+        case 'credits_used':
+          aVal = a.credits_used || 0
+          bVal = b.credits_used || 0
+          break
+        case 'updated_at':
+          aVal = new Date(a.updated_at).getTime()
+          bVal = new Date(b.updated_at).getTime()
+          break
         default:
           aVal = new Date(a.created_at).getTime()
           bVal = new Date(b.created_at).getTime()
       }
 
-      if (sortOrder === 'asc') {
+      if (filters.sortOrder === 'asc') {
         return aVal > bVal ? 1 : -1
       } else {
         return aVal < bVal ? 1 : -1
@@ -115,7 +218,7 @@ export default function AssetsPage() {
     })
 
     setFilteredAssets(filtered)
-  }, [assets, searchQuery, selectedAssetType, sortBy, sortOrder, showFavorites])
+  }, [assets, searchResults, filters])
 
   const loadProjects = async () => {
     try {
@@ -152,11 +255,17 @@ export default function AssetsPage() {
         params.append('unorganized', 'true')
       }
 
+      if (collapseDuplicates) {
+        params.append('collapse_duplicates', 'true')
+      }
+
       const url = `/api/assets?${params}`
       const response = await fetch(url)
       const data = await response.json()
       if (data.success) {
         setAssets(data.data)
+        // Asset edits can change smart folder counts
+        setSavedSearchesVersion(version => version + 1)
       } else {
         console.error('Error loading assets:', data.error)
       }
@@ -165,6 +274,21 @@ export default function AssetsPage() {
     }
   }
 
+  const handleSelectSavedSearch = (search: SavedSearch) => {
+    setOpenedSavedSearch(search)
+    setFilters({
+      ...DEFAULT_FILTERS,
+      search: search.query,
+      sortBy: search.sort_by,
+      sortOrder: search.sort_order
+    })
+  }
+
+  const handleSearchSaved = (search: SavedSearch) => {
+    handleSelectSavedSearch(search)
+    setSavedSearchesVersion(version => version + 1)
+  }
+
   const getAssetIcon = (assetType: AssetType) => {
     switch (assetType) {
       case 'image':
@@ -178,14 +302,6 @@ export default function AssetsPage() {
     }
   }
 
-  const assetTypeOptions = [
-    { value: 'all', label: 'All Types' },
-    { value: 'image', label: 'Images' },
-    { value: 'video', label: 'Videos' },
-    { value: 'audio', label: 'Audio' },
-    { value: 'text', label: 'Text' }
-  ]
-
   if (loading && projects.length === 0) {
     return (
       <DashboardLayout>
@@ -217,6 +333,15 @@ export default function AssetsPage() {
               >
                 {viewMode === 'grid' ? <List className="w-4 h-4" /> : <Grid className="w-4 h-4" />}
               </Button>
+              <Button
+                variant={collapseDuplicates ? "default" : "outline"}
+                size="sm"
+                onClick={() => setCollapseDuplicates(!collapseDuplicates)}
+                title={collapseDuplicates ? 'Show duplicate images' : 'Collapse duplicate images'}
+                className={collapseDuplicates ? "bg-binary-orange" : "border-gray-600 text-gray-300 hover:bg-gray-700"}
+              >
+                <Layers className="w-4 h-4" />
+              </Button>
               <Button
                 size="sm"
                 onClick={() => setShowCreateProject(true)}
@@ -229,53 +354,14 @@ export default function AssetsPage() {
           </div>
 
           {/* Search and Filters */}
-          <div className="flex flex-col lg:flex-row gap-4">
-            <div className="flex-1">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-                <Input
-                  placeholder="Search assets, tags, or notes..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10 bg-gray-700 border-gray-600 text-white placeholder-gray-400"
-                />
-              </div>
-            </div>
-            <div className="flex items-center space-x-3">
-              <Select value={selectedAssetType} onValueChange={(value: AssetType | 'all') => setSelectedAssetType(value)}>
-                <SelectTrigger className="w-32 bg-gray-700 border-gray-600 text-white">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent className="bg-gray-700 border-gray-600">
-                  {assetTypeOptions.map(option => (
-                    <SelectItem key={option.value} value={option.value} className="text-white hover:bg-gray-600">
-                      {option.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-
-              <Select value={sortBy} onValueChange={(value: 'created_at' | 'name' | 'rating') => setSortBy(value)}>
-                <SelectTrigger className="w-32 bg-gray-700 border-gray-600 text-white">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent className="bg-gray-700 border-gray-600">
-                  <SelectItem value="created_at" className="text-white hover:bg-gray-600">Date</SelectItem>
-                  <SelectItem value="name" className="text-white hover:bg-gray-600">Name</SelectItem>
-                  <SelectItem value="rating" className="text-white hover:bg-gray-600">Rating</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Button
-                variant={showFavorites ? "default" : "outline"}
-                size="sm"
-                onClick={() => setShowFavorites(!showFavorites)}
-                className={showFavorites ? "bg-binary-orange" : "border-gray-600 text-gray-300 hover:bg-gray-700"}
-              >
-                <Heart className={`w-4 h-4 ${showFavorites ? 'fill-current' : ''}`} />
-              </Button>
-            </div>
-          </div>
+          <SearchFilter
+            filters={filters}
+            onFiltersChange={setFilters}
+            onReset={() => setFilters(DEFAULT_FILTERS)}
+            projectId={selectedProject?.id}
+            onSearchSaved={handleSearchSaved}
+            facets={facets}
+          />
         </div>
 
         {/* Main Content */}
@@ -288,6 +374,7 @@ export default function AssetsPage() {
               onSelectProject={setSelectedProject}
               currentFolder={currentFolder}
               onSelectFolder={setCurrentFolder}
+              onProjectUpdated={loadProjects}
             />
           </div>
 
@@ -301,6 +388,9 @@ export default function AssetsPage() {
                     project={selectedProject}
                     currentFolder={currentFolder}
                     onNavigate={setCurrentFolder}
+                    activeSavedSearchId={activeSavedSearch?.id}
+                    onSelectSavedSearch={handleSelectSavedSearch}
+                    refreshKey={savedSearchesVersion}
                   />
                 </div>
 
@@ -345,6 +435,7 @@ export default function AssetsPage() {
             asset={selectedAsset}
             onClose={() => setSelectedAsset(null)}
             onUpdate={loadAssets}
+            onSelectAsset={setSelectedAsset}
           />
         )}
 
@@ -0,0 +1,331 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import DashboardLayout from '@/components/layout/dashboard-layout'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import CreditUsageChart from '@/components/credits/credit-usage-chart'
+import {
+  ArrowDownRight,
+  ArrowUpRight,
+  ChevronLeft,
+  ChevronRight,
+  CreditCard,
+  Download,
+  Loader2,
+  RotateCcw,
+  Zap
+} from 'lucide-react'
+import {
+  CreditLedgerEntry,
+  CreditSummary,
+  CreditTransactionType,
+  CreditUsageDimension,
+  CreditUsageReport
+} from '@/lib/types/credits'
+import { format } from 'date-fns'
+
+const PAGE_SIZE = 25
+
+const USAGE_RANGES = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' }
+]
+
+const TYPE_LABELS: Record<CreditTransactionType, string> = {
+  purchase: 'Purchase',
+  usage: 'Usage',
+  refund: 'Refund',
+  bonus: 'Bonus',
+  monthly_allocation: 'Monthly allocation'
+}
+
+const TYPE_CLASSES: Record<CreditTransactionType, string> = {
+  purchase: 'bg-green-600/20 text-green-400 border-green-600/30',
+  usage: 'bg-binary-orange/20 text-binary-orange border-binary-orange/30',
+  refund: 'bg-sky-600/20 text-sky-400 border-sky-600/30',
+  bonus: 'bg-violet-600/20 text-violet-400 border-violet-600/30',
+  monthly_allocation: 'bg-gray-600/40 text-gray-300 border-gray-600'
+}
+
+export default function CreditsPage() {
+  const [summary, setSummary] = useState<CreditSummary | null>(null)
+  const [usage, setUsage] = useState<CreditUsageReport | null>(null)
+  const [usageDays, setUsageDays] = useState('30')
+  const [dimension, setDimension] = useState<CreditUsageDimension>('tool')
+  const [entries, setEntries] = useState<CreditLedgerEntry[]>([])
+  const [ledgerType, setLedgerType] = useState<CreditTransactionType | 'all'>('all')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(0)
+  const [loadingLedger, setLoadingLedger] = useState(true)
+
+  useEffect(() => {
+    loadSummary()
+  }, [])
+
+  useEffect(() => {
+    loadUsage()
+  }, [usageDays])
+
+  useEffect(() => {
+    loadLedger()
+  }, [ledgerType, page])
+
+  const loadSummary = async () => {
+    try {
+      const response = await fetch('/api/credits')
+      const data = await response.json()
+      if (data.success) {
+        setSummary(data.data)
+      }
+    } catch (error) {
+      console.error('Error loading credit summary:', error)
+    }
+  }
+
+  const loadUsage = async () => {
+    try {
+      const response = await fetch(`/api/credits/usage?days=${usageDays}`)
+      const data = await response.json()
+      if (data.success) {
+        setUsage(data.data)
+      }
+    } catch (error) {
+      console.error('Error loading credit usage:', error)
+    }
+  }
+
+  const loadLedger = async () => {
+    try {
+      setLoadingLedger(true)
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+      if (ledgerType !== 'all') params.append('type', ledgerType)
+
+      const response = await fetch(`/api/credits/transactions?${params}`)
+      const data = await response.json()
+      if (data.success) {
+        setEntries(data.data)
+        setTotalPages(data.meta?.pagination?.totalPages || 0)
+      }
+    } catch (error) {
+      console.error('Error loading credit ledger:', error)
+    } finally {
+      setLoadingLedger(false)
+    }
+  }
+
+  const exportUrl = `/api/credits/transactions?format=csv${ledgerType !== 'all' ? `&type=${ledgerType}` : ''}`
+
+  const added = summary
+    ? summary.totals.purchase.total + summary.totals.bonus.total + summary.totals.monthly_allocation.total
+    : 0
+  // Usage is negative in the ledger; refunds give some of it back
+  const spent = summary ? -(summary.totals.usage.total + summary.totals.refund.total) : 0
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Credits</h1>
+            <p className="text-gray-400 mt-1">
+              Your balance, where credits went, and every transaction
+            </p>
+          </div>
+          <Button asChild variant="outline">
+            <a href={exportUrl} download>
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="bg-gray-800 border-gray-700">
+            <CardContent className="p-5">
+              <div className="flex items-center text-sm text-gray-400 mb-2">
+                <CreditCard className="w-4 h-4 mr-2" />
+                Balance
+              </div>
+              <p className="text-3xl font-bold text-white tabular-nums">{summary?.balance ?? '—'}</p>
+            </CardContent>
+          </Card>
+          <Card className="bg-gray-800 border-gray-700">
+            <CardContent className="p-5">
+              <div className="flex items-center text-sm text-gray-400 mb-2">
+                <ArrowUpRight className="w-4 h-4 mr-2 text-green-400" />
+                Added
+              </div>
+              <p className="text-3xl font-bold text-white tabular-nums">{summary ? added : '—'}</p>
+            </CardContent>
+          </Card>
+          <Card className="bg-gray-800 border-gray-700">
+            <CardContent className="p-5">
+              <div className="flex items-center text-sm text-gray-400 mb-2">
+                <ArrowDownRight className="w-4 h-4 mr-2 text-binary-orange" />
+                Spent
+              </div>
+              <p className="text-3xl font-bold text-white tabular-nums">{summary ? spent : '—'}</p>
+            </CardContent>
+          </Card>
+          <Card className="bg-gray-800 border-gray-700">
+            <CardContent className="p-5">
+              <div className="flex items-center text-sm text-gray-400 mb-2">
+                <RotateCcw className="w-4 h-4 mr-2 text-sky-400" />
+                Refunded
+              </div>
+              <p className="text-3xl font-bold text-white tabular-nums">{summary?.totals.refund.total ?? '—'}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Usage Analytics */}
+        <Card className="bg-gray-800 border-gray-700">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-white flex items-center">
+                <Zap className="w-5 h-5 mr-2 text-binary-orange" />
+                Spend
+                {usage && (
+                  <span className="ml-3 text-sm font-normal text-gray-400">
+                    {usage.credits} credits across {usage.generations} generation{usage.generations === 1 ? '' : 's'}
+                  </span>
+                )}
+              </CardTitle>
+              <div className="flex items-center gap-3">
+                <Tabs value={dimension} onValueChange={(value) => setDimension(value as CreditUsageDimension)}>
+                  <TabsList className="bg-gray-700">
+                    <TabsTrigger value="tool" className="data-[state=active]:bg-binary-orange">Tool</TabsTrigger>
+                    <TabsTrigger value="model" className="data-[state=active]:bg-binary-orange">Model</TabsTrigger>
+                    <TabsTrigger value="project" className="data-[state=active]:bg-binary-orange">Project</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <Select value={usageDays} onValueChange={setUsageDays}>
+                  <SelectTrigger className="w-40 bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    {USAGE_RANGES.map(option => (
+                      <SelectItem key={option.value} value={option.value} className="text-white hover:bg-gray-600">
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {usage ? (
+              <CreditUsageChart report={usage} dimension={dimension} />
+            ) : (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Ledger */}
+        <Card className="bg-gray-800 border-gray-700">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-white">Transactions</CardTitle>
+              <Select
+                value={ledgerType}
+                onValueChange={(value) => {
+                  setLedgerType(value as CreditTransactionType | 'all')
+                  setPage(1)
+                }}
+              >
+                <SelectTrigger className="w-48 bg-gray-700 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600">
+                  <SelectItem value="all" className="text-white hover:bg-gray-600">All Transactions</SelectItem>
+                  {(Object.keys(TYPE_LABELS) as CreditTransactionType[]).map(type => (
+                    <SelectItem key={type} value={type} className="text-white hover:bg-gray-600">
+                      {TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loadingLedger ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-center text-gray-400 py-12">No transactions</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="pb-2 font-medium">Date</th>
+                    <th className="pb-2 font-medium">Type</th>
+                    <th className="pb-2 font-medium">Description</th>
+                    <th className="pb-2 font-medium">Tool</th>
+                    <th className="pb-2 font-medium text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map(entry => (
+                    <tr key={entry.id} className="border-b border-gray-700/50 text-gray-300">
+                      <td className="py-2 whitespace-nowrap">{format(new Date(entry.created_at), 'MMM d, yyyy HH:mm')}</td>
+                      <td className="py-2">
+                        <Badge variant="outline" className={TYPE_CLASSES[entry.transaction_type]}>
+                          {TYPE_LABELS[entry.transaction_type] || entry.transaction_type}
+                        </Badge>
+                      </td>
+                      <td className="py-2 max-w-xs truncate">{entry.description || '—'}</td>
+                      <td className="py-2 text-gray-400">
+                        {entry.tool_type ? `${entry.tool_type}${entry.model ? ` · ${entry.model}` : ''}` : '—'}
+                      </td>
+                      <td className={`py-2 text-right tabular-nums font-medium ${entry.amount < 0 ? 'text-binary-orange' : 'text-green-400'}`}>
+                        {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-6">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => setPage(page - 1)}
+                  className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span className="text-sm text-gray-400">Page {page} of {totalPages}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= totalPages}
+                  onClick={() => setPage(page + 1)}
+                  className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -1,5 +1,6 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import { useSession } from 'next-auth/react'
 import DashboardLayout from '@/components/layout/dashboard-layout'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -15,6 +16,9 @@ import {
   Zap
 } from 'lucide-react'
 import Link from 'next/link'
+import WorkflowProgressCard from '@/components/orchestration/workflow-progress-card'
+import { OrchestratedWorkflow } from '@/lib/types/orchestration'
+import { StudioPreset } from '@/lib/types/presets'
 
 const toolCards = [
   {
@@ -73,29 +77,33 @@ const recentGenerations = [
   },
 ]
 
-const featuredPresets = [
-  {
-    name: 'Portrait Photo',
-    type: 'image',
-    description: 'Professional portrait style',
-    usageCount: 234,
-  },
-  {
-    name: 'Cinematic Video',
-    type: 'video',
-    description: 'Movie-like video generation',
-    usageCount: 156,
-  },
-  {
-    name: 'Product Demo',
-    type: 'lipsync',
-    description: 'Perfect for product presentations',
-    usageCount: 89,
-  },
-]
-
 export default function DashboardPage() {
   const { data: session } = useSession()
+  const [activeWorkflows, setActiveWorkflows] = useState<Pick<OrchestratedWorkflow, 'id' | 'title' | 'status'>[]>([])
+  const [featuredPresets, setFeaturedPresets] = useState<StudioPreset[]>([])
+
+  // Workflows already running when the page opens; each card follows its own
+  useEffect(() => {
+    fetch('/api/orchestrate/workflows?status=active&limit=5')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setActiveWorkflows(data.workflows)
+        }
+      })
+      .catch(error => console.error('Error loading active workflows:', error))
+  }, [])
+
+  useEffect(() => {
+    fetch('/api/presets?scope=featured&limit=3')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setFeaturedPresets(data.data)
+        }
+      })
+      .catch(error => console.error('Error loading featured presets:', error))
+  }, [])
 
   return (
     <DashboardLayout>
@@ -169,6 +177,26 @@ export default function DashboardPage() {
           </Card>
         </div>
 
+        {/* Active Workflows */}
+        {activeWorkflows.length > 0 && (
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-white">Active Workflows</h2>
+              <Link href="/review">
+                <Button variant="ghost" className="text-binary-orange hover:text-binary-orange/80">
+                  Review Inbox
+                  <ArrowRight className="w-4 h-4 ml-2" />
+                </Button>
+              </Link>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {activeWorkflows.map(workflow => (
+                <WorkflowProgressCard key={workflow.id} workflow={workflow} />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* AI Tools */}
         <div className="mb-8">
           <h2 className="text-2xl font-bold text-white mb-6">AI Tools</h2>
@@ -265,21 +293,26 @@ export default function DashboardPage() {
               </Button>
             </div>
             <div className="space-y-4">
-              {featuredPresets.map((preset, index) => (
-                <Card key={index} className="bg-gray-800 border-gray-700 hover:border-binary-orange/50 transition-colors cursor-pointer">
-                  <CardContent className="p-4">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="font-medium text-white">{preset.name}</p>
-                        <p className="text-sm text-gray-400">{preset.description}</p>
-                      </div>
-                      <div className="flex items-center text-sm text-gray-400">
-                        <Star className="w-4 h-4 mr-1" />
-                        {preset.usageCount}
+              {featuredPresets.length === 0 && (
+                <p className="text-sm text-gray-400">No featured presets yet</p>
+              )}
+              {featuredPresets.map((preset) => (
+                <Link key={preset.id} href={`/${preset.tool_type}?preset=${preset.id}`} className="block">
+                  <Card className="bg-gray-800 border-gray-700 hover:border-binary-orange/50 transition-colors cursor-pointer">
+                    <CardContent className="p-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium text-white">{preset.name}</p>
+                          <p className="text-sm text-gray-400">{preset.description}</p>
+                        </div>
+                        <div className="flex items-center text-sm text-gray-400">
+                          <Star className="w-4 h-4 mr-1" />
+                          {preset.usage_count}
+                        </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
+                    </CardContent>
+                  </Card>
+                </Link>
               ))}
             </div>
           </div>
@@ -0,0 +1,381 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import DashboardLayout from '@/components/layout/dashboard-layout'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/components/ui/use-toast'
+import {
+  AlertCircle,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  Clock,
+  ExternalLink,
+  History,
+  Image as ImageIcon,
+  Loader2,
+  Mic,
+  RefreshCw,
+  RotateCcw,
+  Video,
+  Zap
+} from 'lucide-react'
+import { GenerationJob, GenerationJobStatus, GenerationToolType } from '@/lib/types/generation-jobs'
+import { formatDistanceToNow } from 'date-fns'
+
+const PAGE_SIZE = 20
+
+// Running jobs are refreshed until they finish
+const RUNNING_REFRESH_MS = 5000
+
+const TOOL_ICONS: Record<GenerationToolType, typeof ImageIcon> = {
+  image: ImageIcon,
+  video: Video,
+  lipsync: Mic
+}
+
+const TOOL_LABELS: Record<GenerationToolType, string> = {
+  image: 'Image',
+  video: 'Video',
+  lipsync: 'Lip Sync'
+}
+
+const STATUS_CLASSES: Record<GenerationJobStatus, string> = {
+  pending: 'bg-gray-600 text-gray-200',
+  processing: 'bg-blue-600 text-white',
+  completed: 'bg-green-600 text-white',
+  failed: 'bg-red-600 text-white'
+}
+
+const isRunning = (job: GenerationJob) => job.status === 'pending' || job.status === 'processing'
+
+function formatDuration(seconds: number) {
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+export default function HistoryPage() {
+  const [generations, setGenerations] = useState<GenerationJob[]>([])
+  const [loading, setLoading] = useState(true)
+  const [toolType, setToolType] = useState<GenerationToolType | 'all'>('all')
+  const [status, setStatus] = useState<GenerationJobStatus | 'all'>('all')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(0)
+  const [total, setTotal] = useState(0)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [rerunning, setRerunning] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    loadGenerations()
+  }, [toolType, status, page])
+
+  useEffect(() => {
+    if (!generations.some(isRunning)) return
+    const interval = setInterval(loadGenerations, RUNNING_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [generations, toolType, status, page])
+
+  const loadGenerations = async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+      if (toolType !== 'all') params.append('tool_type', toolType)
+      if (status !== 'all') params.append('status', status)
+
+      const response = await fetch(`/api/generations?${params}`)
+      const data = await response.json()
+      if (data.success) {
+        setGenerations(data.data)
+        setTotal(data.meta?.pagination?.total || 0)
+        setTotalPages(data.meta?.pagination?.totalPages || 0)
+      } else {
+        console.error('Error loading generation history:', data.error)
+      }
+    } catch (error) {
+      console.error('Error loading generation history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRerun = async (job: GenerationJob) => {
+    setRerunning(job.id)
+    try {
+      const response = await fetch(`/api/generations/${job.id}/rerun`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to rerun generation')
+      }
+
+      toast({
+        title: 'Rerun started',
+        description: `${data.data.creditsUsed} credits reserved`
+      })
+      if (page === 1) {
+        loadGenerations()
+      } else {
+        setPage(1)
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to rerun generation',
+        variant: 'destructive'
+      })
+    } finally {
+      setRerunning(null)
+    }
+  }
+
+  const renderPreview = (job: GenerationJob) => {
+    const Icon = TOOL_ICONS[job.toolType]
+    const url = job.thumbnailUrl || job.output[0]
+
+    if (url && job.toolType === 'image') {
+      return <img src={url} alt={job.input.prompt || 'Generated image'} className="w-full h-full object-cover" />
+    }
+    if (url) {
+      return <video src={url} className="w-full h-full object-cover" muted preload="metadata" />
+    }
+    return isRunning(job)
+      ? <Loader2 className="w-6 h-6 text-gray-500 animate-spin" />
+      : <Icon className="w-6 h-6 text-gray-500" />
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Generation History</h1>
+            <p className="text-gray-400 mt-1">
+              Every image, video and lip sync run, with its inputs and results
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadGenerations}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex items-center gap-3 mb-6">
+          <Select
+            value={toolType}
+            onValueChange={(value) => {
+              setToolType(value as GenerationToolType | 'all')
+              setPage(1)
+            }}
+          >
+            <SelectTrigger className="w-40 bg-gray-700 border-gray-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-700 border-gray-600">
+              <SelectItem value="all" className="text-white hover:bg-gray-600">All Tools</SelectItem>
+              {(Object.keys(TOOL_LABELS) as GenerationToolType[]).map(tool => (
+                <SelectItem key={tool} value={tool} className="text-white hover:bg-gray-600">
+                  {TOOL_LABELS[tool]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as GenerationJobStatus | 'all')
+              setPage(1)
+            }}
+          >
+            <SelectTrigger className="w-40 bg-gray-700 border-gray-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-700 border-gray-600">
+              <SelectItem value="all" className="text-white hover:bg-gray-600">All Statuses</SelectItem>
+              {(Object.keys(STATUS_CLASSES) as GenerationJobStatus[]).map(option => (
+                <SelectItem key={option} value={option} className="text-white hover:bg-gray-600 capitalize">
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <span className="text-sm text-gray-400 ml-auto">
+            {total} generation{total === 1 ? '' : 's'}
+          </span>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+          </div>
+        ) : generations.length === 0 ? (
+          <div className="text-center py-12">
+            <History className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400">No generations yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {generations.map(job => {
+              const isExpanded = expanded === job.id
+              return (
+                <Card key={job.id} className="bg-gray-800 border-gray-700">
+                  <CardContent className="p-4">
+                    <div className="flex gap-4">
+                      <div className="w-24 h-24 flex-none rounded bg-gray-900 overflow-hidden flex items-center justify-center">
+                        {renderPreview(job)}
+                      </div>
+
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <Badge variant="secondary" className="bg-gray-700 text-gray-200">
+                            {TOOL_LABELS[job.toolType]}
+                          </Badge>
+                          <Badge className={`${STATUS_CLASSES[job.status]} capitalize`}>
+                            {job.status}
+                          </Badge>
+                          {job.rerunOf && (
+                            <Badge variant="outline" className="border-gray-600 text-gray-400">
+                              Rerun
+                            </Badge>
+                          )}
+                          {isRunning(job) && job.progress > 0 && (
+                            <span className="text-xs text-gray-400">
+                              {Math.round(job.progress * 100)}%{job.progressText ? ` · ${job.progressText}` : ''}
+                            </span>
+                          )}
+                        </div>
+
+                        <p className="text-white truncate">
+                          {job.input.prompt || (job.toolType === 'lipsync' ? 'Talking photo' : 'Untitled generation')}
+                        </p>
+
+                        <div className="flex items-center flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400 mt-2">
+                          <span>{formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}</span>
+                          {job.input.model && <span>{job.input.model}</span>}
+                          {job.processingTimeSeconds != null && (
+                            <span className="flex items-center">
+                              <Clock className="w-3 h-3 mr-1" />
+                              {formatDuration(job.processingTimeSeconds)}
+                            </span>
+                          )}
+                          <span className="flex items-center">
+                            <Zap className="w-3 h-3 mr-1 text-binary-orange" />
+                            {job.creditsUsed} credits
+                          </span>
+                          {job.output.length > 1 && <span>{job.output.length} outputs</span>}
+                        </div>
+
+                        {job.status === 'failed' && job.error && (
+                          <div className="flex items-start mt-3 p-2 rounded bg-red-900/30 border border-red-800 text-sm text-red-300">
+                            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-none" />
+                            <span className={isExpanded ? 'break-words' : 'truncate'}>{job.error}</span>
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="flex flex-col items-end gap-2 flex-none">
+                        <Button
+                          size="sm"
+                          onClick={() => handleRerun(job)}
+                          disabled={isRunning(job) || rerunning === job.id}
+                          className="bg-binary-orange hover:bg-binary-orange/90"
+                        >
+                          {rerunning === job.id
+                            ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            : <RotateCcw className="w-4 h-4 mr-2" />}
+                          Rerun
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setExpanded(isExpanded ? null : job.id)}
+                          className="text-gray-400 hover:text-white"
+                        >
+                          Details
+                          {isExpanded ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+                        </Button>
+                      </div>
+                    </div>
+
+                    {isExpanded && (
+                      <div className="mt-4 pt-4 border-t border-gray-700 grid grid-cols-2 gap-4 text-sm">
+                        <div className="space-y-1 text-gray-400">
+                          <p>Provider: <span className="text-gray-200">{job.provider || 'Unknown'}</span></p>
+                          <p>
+                            Provider job:{' '}
+                            <span className="text-gray-200 font-mono text-xs">{job.externalJobId || 'Not submitted'}</span>
+                          </p>
+                          <p>
+                            Started:{' '}
+                            <span className="text-gray-200">{job.startedAt ? new Date(job.startedAt).toLocaleString() : '—'}</span>
+                          </p>
+                          <p>
+                            Finished:{' '}
+                            <span className="text-gray-200">{job.completedAt ? new Date(job.completedAt).toLocaleString() : '—'}</span>
+                          </p>
+                          {job.output.length > 0 && (
+                            <div className="pt-2 space-y-1">
+                              {job.output.map((url, index) => (
+                                <a
+                                  key={url}
+                                  href={url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex items-center text-binary-orange hover:underline"
+                                >
+                                  <ExternalLink className="w-3 h-3 mr-1" />
+                                  Output {index + 1}
+                                </a>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <div>
+                          <p className="text-gray-400 mb-1">Inputs</p>
+                          <pre className="text-xs text-gray-300 bg-gray-900 rounded p-2 overflow-auto max-h-48">
+                            {JSON.stringify(job.input, null, 2)}
+                          </pre>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-4 mt-6">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+              className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm text-gray-400">Page {page} of {totalPages}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages}
+              onClick={() => setPage(page + 1)}
+              className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -1,31 +1,107 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import DashboardLayout from '@/components/layout/dashboard-layout'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Loader2, Download, Sparkles } from 'lucide-react'
+import { Loader2, Download, Sparkles, Check, Trash2, Undo2, Save } from 'lucide-react'
+import { Progress } from '@/components/ui/progress'
 import { useToast } from '@/components/ui/use-toast'
+import { useGenerationJob } from '@/lib/hooks/use-generation-job'
+import { useUserSettings } from '@/lib/hooks/use-user-settings'
+import PresetPicker from '@/components/presets/preset-picker'
+import { ImagePresetSettings, StudioPreset } from '@/lib/types/presets'
+import { GenerationJob } from '@/lib/types/generation-jobs'
 
 type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4'
 type Model = 'flux-pro' | 'flux-dev' | 'sdxl'
 
-interface GenerationResult {
-  id: string
-  output: string[]
-  status: string
+interface GeneratedImage {
+  jobId: string
+  url: string
+  assetId?: string
+  seed: number | null
+  saved: boolean
 }
 
 export default function ImageGeneratorPage() {
   const [prompt, setPrompt] = useState('')
+  const [negativePrompt, setNegativePrompt] = useState('')
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1')
   const [model, setModel] = useState<Model>('flux-pro')
-  const [isGenerating, setIsGenerating] = useState(false)
-  const [generatedImages, setGeneratedImages] = useState<string[]>([])
+  const [numOutputs, setNumOutputs] = useState('1')
+  const [seed, setSeed] = useState('')
+  const [seedIncrement, setSeedIncrement] = useState('1')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([])
+  const [updatingAssetId, setUpdatingAssetId] = useState<string | null>(null)
+  const [savingJobId, setSavingJobId] = useState<string | null>(null)
   const { toast } = useToast()
+  const userSettings = useUserSettings()
+  const presetApplied = useRef(false)
+
+  // Start from the defaults picked on the settings page, unless a preset
+  // has already been applied
+  useEffect(() => {
+    if (presetApplied.current) return
+    if (userSettings?.default_image_model) setModel(userSettings.default_image_model as Model)
+    if (userSettings?.preferred_aspect_ratio) setAspectRatio(userSettings.preferred_aspect_ratio as AspectRatio)
+  }, [userSettings])
+
+  // Prompts sent over from the Prompt Library arrive as query params
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const sentPrompt = params.get('prompt')
+    if (sentPrompt) setPrompt(sentPrompt)
+    const sentNegativePrompt = params.get('negativePrompt')
+    if (sentNegativePrompt) setNegativePrompt(sentNegativePrompt)
+  }, [])
+
+  const getPresetSettings = (): ImagePresetSettings => ({
+    ...(prompt.trim() && { prompt }),
+    ...(negativePrompt.trim() && { negativePrompt }),
+    aspectRatio,
+    model,
+    numOutputs: Number(numOutputs),
+    ...(seed.trim() && { seed: Number(seed) }),
+    seedIncrement: Number(seedIncrement) || 0,
+  })
+
+  const applyPreset = (preset: StudioPreset) => {
+    const settings = preset.settings as ImagePresetSettings
+    presetApplied.current = true
+    if (settings.prompt !== undefined) setPrompt(settings.prompt)
+    if (settings.negativePrompt !== undefined) setNegativePrompt(settings.negativePrompt || '')
+    if (settings.aspectRatio) setAspectRatio(settings.aspectRatio as AspectRatio)
+    if (settings.model) setModel(settings.model as Model)
+    if (settings.numOutputs !== undefined) setNumOutputs(String(settings.numOutputs))
+    if (settings.seed !== undefined) setSeed(settings.seed === null ? '' : String(settings.seed))
+    if (settings.seedIncrement !== undefined) setSeedIncrement(String(settings.seedIncrement))
+  }
+
+  const { jobs, isRunning, submit } = useGenerationJob('image', {
+    onCompleted: (job) => {
+      const images = job.output.map((url, index) => ({
+        jobId: job.id,
+        url,
+        assetId: job.assetIds[index],
+        seed: job.input.seed ?? null,
+        saved: !!job.assetIds[index],
+      }))
+      setGeneratedImages(previous => [...previous, ...images])
+    },
+    onFailed: (job) => {
+      toast({
+        title: 'Error',
+        description: job.error || 'Failed to generate image',
+        variant: 'destructive',
+      })
+    },
+  })
+  const isGenerating = isSubmitting || isRunning
 
   const handleGenerate = async () => {
     if (!prompt.trim()) {
@@ -37,36 +113,19 @@ export default function ImageGeneratorPage() {
       return
     }
 
-    setIsGenerating(true)
+    setIsSubmitting(true)
     setGeneratedImages([])
 
     try {
-      const response = await fetch('/api/generate/image', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          prompt,
-          aspectRatio,
-          model,
-        }),
+      await submit('/api/generate/image', {
+        prompt,
+        aspectRatio,
+        model,
+        numOutputs: Number(numOutputs),
+        seed: seed.trim() ? Number(seed) : undefined,
+        seedIncrement: Number(seedIncrement) || 0,
+        negativePrompt: supportsNegativePrompt && negativePrompt.trim() ? negativePrompt : undefined,
       })
-
-      if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.error || 'Failed to generate image')
-      }
-
-      const data: GenerationResult = await response.json()
-
-      if (data.output && data.output.length > 0) {
-        setGeneratedImages(data.output)
-        toast({
-          title: 'Success!',
-          description: 'Your image has been generated',
-        })
-      }
     } catch (error) {
       console.error('Generation error:', error)
       toast({
@@ -75,7 +134,7 @@ export default function ImageGeneratorPage() {
         variant: 'destructive',
       })
     } finally {
-      setIsGenerating(false)
+      setIsSubmitting(false)
     }
   }
 
@@ -100,6 +159,70 @@ export default function ImageGeneratorPage() {
     }
   }
 
+  // Generated images are saved to the repository; discarding soft-deletes
+  // the asset and saving restores it
+  const handleToggleSaved = async (image: GeneratedImage) => {
+    if (!image.assetId) return
+
+    setUpdatingAssetId(image.assetId)
+    try {
+      const response = image.saved
+        ? await fetch(`/api/assets/${image.assetId}`, { method: 'DELETE' })
+        : await fetch(`/api/assets/${image.assetId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ status: 'active' }),
+          })
+
+      if (!response.ok) {
+        throw new Error('Failed to update asset')
+      }
+
+      setGeneratedImages(previous => previous.map(item =>
+        item.assetId === image.assetId ? { ...item, saved: !image.saved } : item
+      ))
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: image.saved ? 'Failed to discard image' : 'Failed to save image',
+        variant: 'destructive',
+      })
+    } finally {
+      setUpdatingAssetId(null)
+    }
+  }
+
+  // With auto-save off the images have no assets yet; saving creates them
+  // for every image of the job
+  const handleSaveJob = async (jobId: string) => {
+    setSavingJobId(jobId)
+    try {
+      const response = await fetch(`/api/generations/${jobId}/save`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || 'Failed to save image')
+      }
+
+      const job: GenerationJob = result.data
+      setGeneratedImages(previous => {
+        let index = 0
+        return previous.map(item => {
+          if (item.jobId !== jobId) return item
+          const assetId = job.assetIds[index++]
+          return assetId ? { ...item, assetId, saved: true } : item
+        })
+      })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save image',
+        variant: 'destructive',
+      })
+    } finally {
+      setSavingJobId(null)
+    }
+  }
+
   const aspectRatioOptions = [
     { value: '1:1', label: 'Square (1:1)' },
     { value: '16:9', label: 'Landscape (16:9)' },
@@ -109,10 +232,12 @@ export default function ImageGeneratorPage() {
   ]
 
   const modelOptions = [
-    { value: 'flux-pro', label: 'Flux Pro (Fast, High Quality)' },
-    { value: 'flux-dev', label: 'Flux Dev (Experimental)' },
-    { value: 'sdxl', label: 'SDXL (Versatile)' },
+    { value: 'flux-pro', label: 'Flux Pro (Fast, High Quality)', supportsNegativePrompt: false },
+    { value: 'flux-dev', label: 'Flux Dev (Experimental)', supportsNegativePrompt: false },
+    { value: 'sdxl', label: 'SDXL (Versatile)', supportsNegativePrompt: true },
   ]
+  const supportsNegativePrompt = modelOptions.some(option => option.value === model && option.supportsNegativePrompt)
+  const pendingJobs = jobs.filter(item => item.status === 'pending' || item.status === 'processing')
 
   return (
     <DashboardLayout>
@@ -128,10 +253,20 @@ export default function ImageGeneratorPage() {
           <div>
             <Card className="bg-gray-800 border-gray-700">
               <CardHeader>
-                <CardTitle className="text-white">Generation Settings</CardTitle>
-                <CardDescription className="text-gray-400">
-                  Configure your image generation parameters
-                </CardDescription>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-white">Generation Settings</CardTitle>
+                    <CardDescription className="text-gray-400">
+                      Configure your image generation parameters
+                    </CardDescription>
+                  </div>
+                  <PresetPicker
+                    toolType="image"
+                    getSettings={getPresetSettings}
+                    onApply={applyPreset}
+                    disabled={isGenerating}
+                  />
+                </div>
               </CardHeader>
               <CardContent className="space-y-6">
                 <div className="space-y-2">
@@ -181,6 +316,63 @@ export default function ImageGeneratorPage() {
                   </Select>
                 </div>
 
+                {supportsNegativePrompt && (
+                  <div className="space-y-2">
+                    <Label htmlFor="negativePrompt" className="text-white">Negative Prompt</Label>
+                    <Input
+                      id="negativePrompt"
+                      placeholder="What to leave out (e.g. blurry, text, watermark)"
+                      value={negativePrompt}
+                      onChange={(e) => setNegativePrompt(e.target.value)}
+                      className="bg-gray-900 border-gray-700 text-white placeholder:text-gray-500"
+                      disabled={isGenerating}
+                    />
+                  </div>
+                )}
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="numOutputs" className="text-white">Images</Label>
+                    <Select value={numOutputs} onValueChange={setNumOutputs} disabled={isGenerating}>
+                      <SelectTrigger id="numOutputs" className="bg-gray-900 border-gray-700 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-900 border-gray-700">
+                        {['1', '2', '3', '4'].map((count) => (
+                          <SelectItem key={count} value={count} className="text-white">
+                            {count}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="seed" className="text-white">Seed</Label>
+                    <Input
+                      id="seed"
+                      type="number"
+                      min={0}
+                      placeholder="Random"
+                      value={seed}
+                      onChange={(e) => setSeed(e.target.value)}
+                      className="bg-gray-900 border-gray-700 text-white placeholder:text-gray-500"
+                      disabled={isGenerating}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="seedIncrement" className="text-white">Seed Step</Label>
+                    <Input
+                      id="seedIncrement"
+                      type="number"
+                      min={0}
+                      value={seedIncrement}
+                      onChange={(e) => setSeedIncrement(e.target.value)}
+                      className="bg-gray-900 border-gray-700 text-white placeholder:text-gray-500"
+                      disabled={isGenerating || numOutputs === '1'}
+                    />
+                  </div>
+                </div>
+
                 <div className="pt-4">
                   <Button
                     onClick={handleGenerate}
@@ -195,12 +387,12 @@ export default function ImageGeneratorPage() {
                     ) : (
                       <>
                         <Sparkles className="w-4 h-4 mr-2" />
-                        Generate Image
+                        {numOutputs === '1' ? 'Generate Image' : `Generate ${numOutputs} Images`}
                       </>
                     )}
                   </Button>
                   <p className="text-xs text-gray-500 text-center mt-2">
-                    Cost: 1-2 credits per generation
+                    Cost: 1-2 credits per image
                   </p>
                 </div>
               </CardContent>
@@ -236,32 +428,87 @@ export default function ImageGeneratorPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {isGenerating ? (
-                  <div className="flex flex-col items-center justify-center py-20 space-y-4">
-                    <Loader2 className="w-12 h-12 text-binary-orange animate-spin" />
-                    <p className="text-gray-400">Creating your masterpiece...</p>
-                    <p className="text-xs text-gray-500">This may take 10-30 seconds</p>
-                  </div>
-                ) : generatedImages.length > 0 ? (
-                  <div className="space-y-4">
-                    {generatedImages.map((imageUrl, index) => (
-                      <div key={index} className="relative group">
-                        <img
-                          src={imageUrl}
-                          alt={`Generated image ${index + 1}`}
-                          className="w-full rounded-lg"
-                        />
-                        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center">
-                          <Button
-                            onClick={() => handleDownload(imageUrl, index)}
-                            className="bg-binary-orange hover:bg-binary-orange/90 text-white"
-                          >
-                            <Download className="w-4 h-4 mr-2" />
-                            Download
-                          </Button>
+                {generatedImages.length > 0 || pendingJobs.length > 0 ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    {generatedImages.map((image, index) => (
+                      <div key={`${image.jobId}-${index}`} className="space-y-2">
+                        <div className="relative group">
+                          <img
+                            src={image.url}
+                            alt={`Generated image ${index + 1}`}
+                            className={`w-full rounded-lg ${image.saved ? '' : 'opacity-40'}`}
+                          />
+                          <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center">
+                            <Button
+                              onClick={() => handleDownload(image.url, index)}
+                              className="bg-binary-orange hover:bg-binary-orange/90 text-white"
+                            >
+                              <Download className="w-4 h-4 mr-2" />
+                              Download
+                            </Button>
+                          </div>
+                        </div>
+                        <div className="flex items-center justify-between text-xs text-gray-400">
+                          <span>{image.seed !== null ? `Seed ${image.seed}` : 'Random seed'}</span>
+                          {image.assetId ? (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleToggleSaved(image)}
+                              disabled={updatingAssetId === image.assetId}
+                              className="h-7 text-gray-300 hover:text-white"
+                            >
+                              {image.saved ? (
+                                <>
+                                  <Check className="w-3 h-3 mr-1 text-green-400" />
+                                  Saved
+                                  <Trash2 className="w-3 h-3 ml-2" />
+                                </>
+                              ) : (
+                                <>
+                                  <Undo2 className="w-3 h-3 mr-1" />
+                                  Save
+                                </>
+                              )}
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleSaveJob(image.jobId)}
+                              disabled={savingJobId === image.jobId}
+                              className="h-7 text-gray-300 hover:text-white"
+                            >
+                              {savingJobId === image.jobId ? (
+                                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                              ) : (
+                                <Save className="w-3 h-3 mr-1" />
+                              )}
+                              Save
+                            </Button>
+                          )}
                         </div>
                       </div>
                     ))}
+                    {pendingJobs.map(pendingJob => (
+                      <div
+                        key={pendingJob.id}
+                        className="aspect-square rounded-lg bg-gray-900 border border-gray-700 flex flex-col items-center justify-center space-y-2 px-4"
+                      >
+                        <Progress value={pendingJob.progress * 100} />
+                        <p className="text-xs text-gray-400 text-center">{pendingJob.progressText || 'Creating your masterpiece...'}</p>
+                      </div>
+                    ))}
+                    {pendingJobs.length > 0 && (
+                      <p className="col-span-2 text-xs text-gray-500 text-center">
+                        This may take 10-30 seconds. You can leave this page and come back.
+                      </p>
+                    )}
+                  </div>
+                ) : isGenerating ? (
+                  <div className="flex flex-col items-center justify-center py-20 space-y-4">
+                    <Loader2 className="w-12 h-12 text-binary-orange animate-spin" />
+                    <p className="text-gray-400">Starting generation...</p>
                   </div>
                 ) : (
                   <div className="flex flex-col items-center justify-center py-20 text-center">
@@ -1,24 +1,31 @@
 'use client'
 
-import { useState, useRef } from 'react'
+import { useState, useRef, useEffect } from 'react'
 import DashboardLayout from '@/components/layout/dashboard-layout'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Loader2, Download, Video as VideoIcon, Image as ImageIcon, Music, Upload } from 'lucide-react'
+import { Progress } from '@/components/ui/progress'
 import { useToast } from '@/components/ui/use-toast'
-
-interface GenerationResult {
-  id: string
-  output: string
-  status: string
+import { useGenerationJob } from '@/lib/hooks/use-generation-job'
+import { calculateLipSyncCreditCost } from '@/lib/utils'
+import PresetPicker from '@/components/presets/preset-picker'
+import { LipsyncPresetSettings, StudioPreset } from '@/lib/types/presets'
+
+function formatAudioLength(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const remainder = Math.round(seconds % 60)
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`
 }
 
 export default function LipsyncPage() {
   const [imageUrl, setImageUrl] = useState('')
   const [audioUrl, setAudioUrl] = useState('')
-  const [isGenerating, setIsGenerating] = useState(false)
+  const [audioAssetId, setAudioAssetId] = useState<string | null>(null)
+  const [audioDuration, setAudioDuration] = useState<number | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
   const [isUploadingImage, setIsUploadingImage] = useState(false)
   const [isUploadingAudio, setIsUploadingAudio] = useState(false)
   const [generatedVideo, setGeneratedVideo] = useState<string>('')
@@ -27,6 +34,67 @@ export default function LipsyncPage() {
   const audioInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
 
+  const { job, isRunning, submit } = useGenerationJob('lipsync', {
+    onCompleted: (job) => {
+      setGeneratedVideo(job.output[0] || '')
+      toast({
+        title: 'Success!',
+        description: 'Your lip sync video has been generated',
+      })
+    },
+    onFailed: (job) => {
+      toast({
+        title: 'Error',
+        description: job.error || 'Failed to generate lip sync',
+        variant: 'destructive',
+      })
+    },
+  })
+  const isGenerating = isSubmitting || isRunning
+
+  // Uploads are probed server-side; for pasted URLs read the length from the
+  // browser so the cost estimate still shows
+  useEffect(() => {
+    if (!audioUrl.trim() || audioAssetId) return
+
+    setAudioDuration(null)
+    const audio = new Audio()
+    const handleMetadata = () => {
+      if (Number.isFinite(audio.duration)) {
+        setAudioDuration(audio.duration)
+      }
+    }
+    audio.addEventListener('loadedmetadata', handleMetadata)
+    audio.preload = 'metadata'
+    audio.src = audioUrl
+
+    return () => {
+      audio.removeEventListener('loadedmetadata', handleMetadata)
+      audio.src = ''
+    }
+  }, [audioUrl, audioAssetId])
+
+  // Lipsync presets hold the user's own file URLs, so they're never shared
+  const getPresetSettings = (): LipsyncPresetSettings => ({
+    ...(imageUrl.trim() && { imageUrl }),
+    ...(audioUrl.trim() && { audioUrl }),
+  })
+
+  // The audio length is read again from the URL by the effect above
+  const applyPreset = (preset: StudioPreset) => {
+    const settings = preset.settings as LipsyncPresetSettings
+    if (settings.imageUrl) {
+      setImageUrl(settings.imageUrl)
+      setImagePreview(settings.imageUrl)
+    }
+    if (settings.audioUrl) {
+      setAudioAssetId(null)
+      setAudioUrl(settings.audioUrl)
+    }
+  }
+
+  const estimatedCredits = audioDuration ? calculateLipSyncCreditCost(audioDuration) : null
+
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
@@ -103,6 +171,8 @@ export default function LipsyncPage() {
       }
 
       const data = await response.json()
+      setAudioAssetId(data.assetId || null)
+      setAudioDuration(data.durationSeconds || null)
       setAudioUrl(data.url)
 
       toast({
@@ -130,35 +200,16 @@ export default function LipsyncPage() {
       return
     }
 
-    setIsGenerating(true)
+    setIsSubmitting(true)
     setGeneratedVideo('')
 
     try {
-      const response = await fetch('/api/generate/lipsync', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          imageUrl,
-          audioUrl,
-        }),
+      await submit('/api/generate/lipsync', {
+        imageUrl,
+        audioUrl,
+        audioDuration: audioDuration || undefined,
+        audioAssetId: audioAssetId || undefined,
       })
-
-      if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.error || 'Failed to generate lip sync')
-      }
-
-      const data: GenerationResult = await response.json()
-
-      if (data.output) {
-        setGeneratedVideo(data.output)
-        toast({
-          title: 'Success!',
-          description: 'Your lip sync video has been generated',
-        })
-      }
     } catch (error) {
       console.error('Generation error:', error)
       toast({
@@ -167,7 +218,7 @@ export default function LipsyncPage() {
         variant: 'destructive',
       })
     } finally {
-      setIsGenerating(false)
+      setIsSubmitting(false)
     }
   }
 
@@ -206,10 +257,21 @@ export default function LipsyncPage() {
           <div>
             <Card className="bg-gray-800 border-gray-700">
               <CardHeader>
-                <CardTitle className="text-white">Generation Settings</CardTitle>
-                <CardDescription className="text-gray-400">
-                  Upload or provide URLs for image and audio files
-                </CardDescription>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-white">Generation Settings</CardTitle>
+                    <CardDescription className="text-gray-400">
+                      Upload or provide URLs for image and audio files
+                    </CardDescription>
+                  </div>
+                  <PresetPicker
+                    toolType="lipsync"
+                    getSettings={getPresetSettings}
+                    onApply={applyPreset}
+                    disabled={isGenerating}
+                    allowPublic={false}
+                  />
+                </div>
               </CardHeader>
               <CardContent className="space-y-6">
                 <div className="space-y-2">
@@ -266,7 +328,10 @@ export default function LipsyncPage() {
                       id="audioUrl"
                       placeholder="https://example.com/audio.mp3 or upload below"
                       value={audioUrl}
-                      onChange={(e) => setAudioUrl(e.target.value)}
+                      onChange={(e) => {
+                        setAudioAssetId(null)
+                        setAudioUrl(e.target.value)
+                      }}
                       className="bg-gray-900 border-gray-700 text-white placeholder:text-gray-500"
                       disabled={isGenerating || isUploadingAudio}
                     />
@@ -297,6 +362,11 @@ export default function LipsyncPage() {
                       </audio>
                     </div>
                   )}
+                  {audioDuration && (
+                    <p className="text-xs text-gray-400">
+                      Length: {formatAudioLength(audioDuration)}
+                    </p>
+                  )}
                   <p className="text-xs text-gray-500">
                     MP3, WAV, or other audio formats
                   </p>
@@ -321,7 +391,9 @@ export default function LipsyncPage() {
                     )}
                   </Button>
                   <p className="text-xs text-gray-500 text-center mt-2">
-                    Cost: 5 credits per generation (takes 30-60 seconds)
+                    {estimatedCredits
+                      ? `Estimated cost: ${estimatedCredits} credits (takes 30-60 seconds)`
+                      : 'Cost depends on audio length (takes 30-60 seconds)'}
                   </p>
                 </div>
               </CardContent>
@@ -359,18 +431,30 @@ export default function LipsyncPage() {
               <CardContent>
                 {isGenerating ? (
                   <div className="flex flex-col items-center justify-center py-20 space-y-4">
-                    <Loader2 className="w-12 h-12 text-binary-orange animate-spin" />
-                    <p className="text-gray-400">Creating your lip sync video...</p>
-                    <p className="text-xs text-gray-500">This may take 30-60 seconds</p>
+                    <Progress value={(job?.progress || 0) * 100} className="max-w-sm" />
+                    <p className="text-gray-400">{job?.progressText || 'Creating your lip sync video...'}</p>
+                    {job && job.progress > 0 && (
+                      <p className="text-sm text-gray-400">{Math.round(job.progress * 100)}%</p>
+                    )}
+                    <p className="text-xs text-gray-500">This may take 30-60 seconds. You can leave this page and come back.</p>
                   </div>
                 ) : generatedVideo ? (
                   <div className="space-y-4">
                     <div className="relative group">
-                      <video
-                        src={generatedVideo}
-                        controls
-                        className="w-full rounded-lg"
-                      />
+                      {/* The mock provider returns an animated WebP preview instead of an MP4 */}
+                      {generatedVideo.startsWith('data:image/') ? (
+                        <img
+                          src={generatedVideo}
+                          alt="Generated preview"
+                          className="w-full rounded-lg"
+                        />
+                      ) : (
+                        <video
+                          src={generatedVideo}
+                          controls
+                          className="w-full rounded-lg"
+                        />
+                      )}
                       <div className="mt-4 flex gap-2">
                         <Button
                           onClick={() => handleDownload(generatedVideo)}
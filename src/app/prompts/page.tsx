@@ -25,9 +25,13 @@ import {
   Image,
   Video,
   Mic,
-  MoreVertical
+  MoreVertical,
+  Wand2
 } from 'lucide-react'
-import { Prompt, AssetType } from '@/lib/types/asset-repository'
+import { Prompt, AssetType, PromptVariable } from '@/lib/types/asset-repository'
+import { extractTemplateVariables } from '@/lib/prompt-templates'
+import PromptVariablesEditor from '@/components/prompts/prompt-variables-editor'
+import PromptRenderDialog from '@/components/prompts/prompt-render-dialog'
 import { formatDistanceToNow } from 'date-fns'
 
 export default function PromptsPage() {
@@ -42,6 +46,7 @@ export default function PromptsPage() {
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
   const [editingPrompt, setEditingPrompt] = useState<Prompt | null>(null)
+  const [renderingPrompt, setRenderingPrompt] = useState<Prompt | null>(null)
 
   // Form state for creating/editing prompts
   const [formData, setFormData] = useState({
@@ -50,7 +55,8 @@ export default function PromptsPage() {
     negative_prompt: '',
     category: '',
     asset_types: [] as AssetType[],
-    tags: [] as string[]
+    tags: [] as string[],
+    variables: [] as PromptVariable[]
   })
 
   useEffect(() => {
@@ -207,7 +213,8 @@ export default function PromptsPage() {
       negative_prompt: '',
       category: '',
       asset_types: [],
-      tags: []
+      tags: [],
+      variables: []
     })
   }
 
@@ -218,7 +225,8 @@ export default function PromptsPage() {
       negative_prompt: prompt.negative_prompt || '',
       category: prompt.category || '',
       asset_types: prompt.asset_types || [],
-      tags: prompt.tags || []
+      tags: prompt.tags || [],
+      variables: prompt.variables || []
     })
     setEditingPrompt(prompt)
   }
@@ -322,6 +330,12 @@ export default function PromptsPage() {
                   className="bg-gray-700 border-gray-600 text-white"
                   rows={2}
                 />
+                <PromptVariablesEditor
+                  promptText={formData.prompt_text}
+                  negativePrompt={formData.negative_prompt}
+                  variables={formData.variables}
+                  onChange={(variables) => setFormData(prev => ({ ...prev, variables }))}
+                />
                 <div className="grid grid-cols-2 gap-4">
                   <Select value={formData.category} onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}>
                     <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
@@ -434,6 +448,11 @@ export default function PromptsPage() {
                           {prompt.category}
                         </Badge>
                       )}
+                      {extractTemplateVariables(prompt.prompt_text, prompt.negative_prompt).length > 0 && (
+                        <Badge variant="outline" className="border-binary-orange/60 text-binary-orange text-xs">
+                          Template
+                        </Badge>
+                      )}
                       {prompt.asset_types && prompt.asset_types.map(type => (
                         <Badge key={type} variant="outline" className="border-gray-600 text-gray-400 text-xs">
                           {getAssetTypeIcon(type)}
@@ -505,6 +524,15 @@ export default function PromptsPage() {
                     <Copy className="w-3 h-3 mr-2" />
                     Copy
                   </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setRenderingPrompt(prompt)}
+                    className="flex-1 border-gray-600 text-gray-300 hover:bg-gray-700"
+                  >
+                    <Wand2 className="w-3 h-3 mr-2" />
+                    Use
+                  </Button>
                   <Button
                     size="sm"
                     variant="outline"
@@ -547,6 +575,13 @@ export default function PromptsPage() {
           </div>
         )}
 
+        {/* Template Render Modal */}
+        <PromptRenderDialog
+          prompt={renderingPrompt}
+          onClose={() => setRenderingPrompt(null)}
+          onUsed={loadPrompts}
+        />
+
         {/* Edit Modal */}
         <Dialog open={!!editingPrompt} onOpenChange={() => setEditingPrompt(null)}>
           <DialogContent className="max-w-2xl bg-gray-800 border-gray-700 text-white">
@@ -574,6 +609,12 @@ export default function PromptsPage() {
                 className="bg-gray-700 border-gray-600 text-white"
                 rows={2}
               />
+              <PromptVariablesEditor
+                promptText={formData.prompt_text}
+                negativePrompt={formData.negative_prompt}
+                variables={formData.variables}
+                onChange={(variables) => setFormData(prev => ({ ...prev, variables }))}
+              />
               <div className="grid grid-cols-2 gap-4">
                 <Select value={formData.category} onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}>
                   <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
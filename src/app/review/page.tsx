@@ -0,0 +1,200 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import DashboardLayout from '@/components/layout/dashboard-layout'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/use-toast'
+import { Check, X, RotateCcw, RefreshCw, ClipboardCheck, Loader2 } from 'lucide-react'
+import { ReviewInboxItem, WorkflowReviewDecision } from '@/lib/types/orchestration'
+import { formatDistanceToNow } from 'date-fns'
+
+const VIDEO_EXTENSIONS = /\.(mp4|webm|mov)(\?|$)/i
+
+export default function ReviewInboxPage() {
+  const [items, setItems] = useState<ReviewInboxItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [actingOn, setActingOn] = useState<string | null>(null)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [revisedPrompts, setRevisedPrompts] = useState<Record<string, string>>({})
+  const { toast } = useToast()
+
+  useEffect(() => {
+    loadInbox()
+  }, [])
+
+  const loadInbox = async () => {
+    try {
+      const response = await fetch('/api/orchestrate/inbox')
+      const data = await response.json()
+      if (data.success) {
+        setItems(data.items)
+      }
+    } catch (error) {
+      console.error('Error loading review inbox:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDecision = async (item: ReviewInboxItem, action: WorkflowReviewDecision) => {
+    const revisedPrompt = revisedPrompts[item.task.id]?.trim()
+    setActingOn(item.task.id)
+
+    try {
+      const response = await fetch(`/api/orchestrate/inbox/${item.task.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          notes: notes[item.task.id] || undefined,
+          params: action === 'request_changes' && revisedPrompt ? { prompt: revisedPrompt } : undefined,
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit review')
+      }
+
+      toast({
+        title: action === 'approve' ? 'Approved' : action === 'reject' ? 'Rejected' : 'Changes requested',
+        description: action === 'request_changes'
+          ? `${item.reviewed_task?.title} will be generated again and come back for review`
+          : `${item.workflow.title} is now ${data.workflow?.status?.replace('_', ' ') || 'updated'}`,
+      })
+      loadInbox()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit review',
+        variant: 'destructive',
+      })
+    } finally {
+      setActingOn(null)
+    }
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Review Inbox</h1>
+            <p className="text-gray-400 mt-1">
+              Sign off on workflow steps before they move on to video and lipsync
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadInbox}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12">
+            <ClipboardCheck className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400">Nothing is waiting for your review</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {items.map(item => (
+              <Card key={item.task.id} className="bg-gray-800 border-gray-700">
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <CardTitle className="text-white">{item.task.title}</CardTitle>
+                      <p className="text-sm text-gray-400 mt-1">
+                        {item.workflow.title}
+                        {item.task.started_at && ` · waiting ${formatDistanceToNow(new Date(item.task.started_at))}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {(item.task.output_data.reviews?.length || 0) > 0 && (
+                        <Badge variant="outline" className="border-gray-600 text-gray-400 text-xs">
+                          Revision {item.task.output_data.reviews!.length + 1}
+                        </Badge>
+                      )}
+                      <Badge variant="outline" className="border-gray-600 text-gray-400 text-xs">
+                        Priority {item.workflow.priority}
+                      </Badge>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {item.output_urls.length > 0 ? (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                      {item.output_urls.map(url => VIDEO_EXTENSIONS.test(url) ? (
+                        <video key={url} src={url} controls className="w-full rounded-lg bg-black" />
+                      ) : (
+                        <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                          <img src={url} alt={item.task.title} className="w-full rounded-lg object-cover" />
+                        </a>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500">No outputs to preview</p>
+                  )}
+
+                  <Textarea
+                    placeholder="Notes for the record (optional)..."
+                    value={notes[item.task.id] || ''}
+                    onChange={(e) => setNotes(prev => ({ ...prev, [item.task.id]: e.target.value }))}
+                    className="bg-gray-700 border-gray-600 text-white"
+                    rows={2}
+                  />
+
+                  {item.reviewed_task && (
+                    <Input
+                      placeholder="Revised prompt for the regenerated version (optional)..."
+                      value={revisedPrompts[item.task.id] || ''}
+                      onChange={(e) => setRevisedPrompts(prev => ({ ...prev, [item.task.id]: e.target.value }))}
+                      className="bg-gray-700 border-gray-600 text-white"
+                    />
+                  )}
+
+                  <div className="flex justify-end space-x-2">
+                    <Button
+                      variant="outline"
+                      disabled={actingOn === item.task.id}
+                      onClick={() => handleDecision(item, 'reject')}
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Reject
+                    </Button>
+                    {item.reviewed_task && (
+                      <Button
+                        variant="outline"
+                        disabled={actingOn === item.task.id}
+                        onClick={() => handleDecision(item, 'request_changes')}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Request Changes
+                      </Button>
+                    )}
+                    <Button
+                      disabled={actingOn === item.task.id}
+                      onClick={() => handleDecision(item, 'approve')}
+                      className="bg-binary-orange hover:bg-binary-orange/90"
+                    >
+                      <Check className="w-4 h-4 mr-2" />
+                      Approve
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,275 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import DashboardLayout from '@/components/layout/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/components/ui/use-toast'
+import { Bell, FolderOpen, Loader2, Save, Sparkles } from 'lucide-react'
+import { Project } from '@/lib/types/asset-repository'
+import { UserSettings, UserSettingsResponse } from '@/lib/types/user-preferences'
+
+// Select items need a value, so "no preference" gets a placeholder one
+const NONE = 'none'
+
+const ASPECT_RATIO_LABELS: Record<string, string> = {
+  '1:1': 'Square (1:1)',
+  '16:9': 'Landscape (16:9)',
+  '9:16': 'Portrait (9:16)',
+  '4:3': 'Standard (4:3)',
+  '3:4': 'Portrait (3:4)'
+}
+
+export default function SettingsPage() {
+  const { toast } = useToast()
+  const [saved, setSaved] = useState<UserSettings | null>(null)
+  const [settings, setSettings] = useState<UserSettings | null>(null)
+  const [options, setOptions] = useState<UserSettingsResponse['options'] | null>(null)
+  const [projects, setProjects] = useState<Project[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadSettings()
+    loadProjects()
+  }, [])
+
+  const loadSettings = async () => {
+    try {
+      const response = await fetch('/api/settings')
+      const data = await response.json()
+      if (data.success) {
+        setSaved(data.data.settings)
+        setSettings(data.data.settings)
+        setOptions(data.data.options)
+      }
+    } catch (error) {
+      console.error('Error loading settings:', error)
+    }
+  }
+
+  const loadProjects = async () => {
+    try {
+      const response = await fetch('/api/projects?limit=100')
+      const data = await response.json()
+      if (data.success) {
+        setProjects(data.data)
+      }
+    } catch (error) {
+      console.error('Error loading projects:', error)
+    }
+  }
+
+  const update = <K extends keyof UserSettings>(field: K, value: UserSettings[K]) => {
+    setSettings(previous => previous && { ...previous, [field]: value })
+  }
+
+  const changes = settings && saved
+    ? Object.fromEntries(
+        (Object.keys(settings) as Array<keyof UserSettings>)
+          .filter(field => settings[field] !== saved[field])
+          .map(field => [field, settings[field]])
+      )
+    : {}
+  const hasChanges = Object.keys(changes).length > 0
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch('/api/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to save settings')
+      }
+
+      setSaved(data.data)
+      setSettings(data.data)
+      toast({
+        title: 'Settings saved',
+        description: 'New generations will use your updated defaults'
+      })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save settings',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const optionalSelect = (
+    id: string,
+    value: string | null,
+    onChange: (value: string | null) => void,
+    items: Array<{ id: string, label: string }>,
+    noneLabel: string
+  ) => (
+    <Select value={value || NONE} onValueChange={(selected) => onChange(selected === NONE ? null : selected)}>
+      <SelectTrigger id={id} className="bg-gray-900 border-gray-700 text-white">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-gray-900 border-gray-700">
+        <SelectItem value={NONE} className="text-white">{noneLabel}</SelectItem>
+        {items.map(item => (
+          <SelectItem key={item.id} value={item.id} className="text-white">
+            {item.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Settings</h1>
+            <p className="text-gray-400 mt-1">
+              Defaults for the studios and where your generations are saved
+            </p>
+          </div>
+          <Button
+            onClick={handleSave}
+            disabled={!hasChanges || saving}
+            className="bg-binary-orange hover:bg-binary-orange/90"
+          >
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Changes
+          </Button>
+        </div>
+
+        {!settings || !options ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <>
+            {/* Studio Defaults */}
+            <Card className="bg-gray-800 border-gray-700">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center">
+                  <Sparkles className="w-5 h-5 mr-2 text-binary-orange" />
+                  Studio Defaults
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  What Image Studio and Video Studio start with. You can still change them per generation.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="defaultImageModel" className="text-white">Image Model</Label>
+                    {optionalSelect(
+                      'defaultImageModel',
+                      settings.default_image_model,
+                      (value) => update('default_image_model', value),
+                      options.image_models,
+                      'Studio default'
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="preferredAspectRatio" className="text-white">Aspect Ratio</Label>
+                    {optionalSelect(
+                      'preferredAspectRatio',
+                      settings.preferred_aspect_ratio,
+                      (value) => update('preferred_aspect_ratio', value),
+                      options.aspect_ratios.map(ratio => ({ id: ratio, label: ASPECT_RATIO_LABELS[ratio] || ratio })),
+                      'Studio default'
+                    )}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="defaultVideoModel" className="text-white">Video Model</Label>
+                  {optionalSelect(
+                    'defaultVideoModel',
+                    settings.default_video_model,
+                    (value) => update('default_video_model', value),
+                    options.video_models,
+                    'Studio default'
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Saving Generations */}
+            <Card className="bg-gray-800 border-gray-700">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center">
+                  <FolderOpen className="w-5 h-5 mr-2 text-binary-orange" />
+                  Saving Generations
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  Applies to every studio when a generation doesn&apos;t pick a project itself.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="defaultProject" className="text-white">Default Project</Label>
+                  {optionalSelect(
+                    'defaultProject',
+                    settings.default_project_id,
+                    (value) => update('default_project_id', value),
+                    projects.map(project => ({ id: project.id, label: project.name })),
+                    'No project'
+                  )}
+                  <p className="text-xs text-gray-500">
+                    Generations count against this project&apos;s credit budget, if it has one
+                  </p>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="autoSave" className="text-white">Save to Asset Repository</Label>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Keep every output as an asset. When off, outputs are only shown in the studio and history.
+                    </p>
+                  </div>
+                  <Switch
+                    id="autoSave"
+                    checked={settings.auto_save_to_repository}
+                    onCheckedChange={(checked) => update('auto_save_to_repository', checked)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Notifications */}
+            <Card className="bg-gray-800 border-gray-700">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center">
+                  <Bell className="w-5 h-5 mr-2 text-binary-orange" />
+                  Notifications
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="emailNotifications" className="text-white">Email Notifications</Label>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Receive account emails from Binary Blender
+                    </p>
+                  </div>
+                  <Switch
+                    id="emailNotifications"
+                    checked={settings.email_notifications}
+                    onCheckedChange={(checked) => update('email_notifications', checked)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import DashboardLayout from '@/components/layout/dashboard-layout'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -8,24 +8,78 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Loader2, Download, Video as VideoIcon, Upload } from 'lucide-react'
+import { Progress } from '@/components/ui/progress'
 import { useToast } from '@/components/ui/use-toast'
+import { useGenerationJob } from '@/lib/hooks/use-generation-job'
+import { useUserSettings } from '@/lib/hooks/use-user-settings'
+import PresetPicker from '@/components/presets/preset-picker'
+import { StudioPreset, VideoPresetSettings } from '@/lib/types/presets'
 
 type Model = 'gen3-alpha-turbo' | 'gen3-alpha'
 
-interface GenerationResult {
-  id: string
-  output: string
-  status: string
-}
-
 export default function VideoGeneratorPage() {
   const [prompt, setPrompt] = useState('')
   const [imageUrl, setImageUrl] = useState('')
   const [model, setModel] = useState<Model>('gen3-alpha-turbo')
   const [duration, setDuration] = useState('5')
-  const [isGenerating, setIsGenerating] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
   const [generatedVideo, setGeneratedVideo] = useState<string>('')
   const { toast } = useToast()
+  const userSettings = useUserSettings()
+  const presetApplied = useRef(false)
+
+  // Start from the model picked on the settings page, if this studio offers
+  // it and no preset has been applied
+  useEffect(() => {
+    if (presetApplied.current) return
+    const preferred = userSettings?.default_video_model
+    if (preferred && modelOptions.some(option => option.value === preferred)) {
+      setModel(preferred as Model)
+    }
+  }, [userSettings])
+
+  // Prompts sent over from the Prompt Library arrive as query params
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const sentPrompt = params.get('prompt')
+    if (sentPrompt) setPrompt(sentPrompt)
+  }, [])
+
+  const getPresetSettings = (): VideoPresetSettings => ({
+    ...(prompt.trim() && { prompt }),
+    ...(imageUrl.trim() && { imageUrl }),
+    model,
+    duration: parseInt(duration),
+  })
+
+  const applyPreset = (preset: StudioPreset) => {
+    const settings = preset.settings as VideoPresetSettings
+    presetApplied.current = true
+    if (settings.prompt !== undefined) setPrompt(settings.prompt)
+    if (settings.imageUrl !== undefined) setImageUrl(settings.imageUrl || '')
+    if (settings.model && modelOptions.some(option => option.value === settings.model)) {
+      setModel(settings.model as Model)
+    }
+    if (settings.duration !== undefined) setDuration(String(settings.duration))
+  }
+
+  const { job, isRunning, submit } = useGenerationJob('video', {
+    onCompleted: (job) => {
+      setGeneratedVideo(job.output[0] || '')
+      toast({
+        title: 'Success!',
+        description: 'Your video has been generated',
+      })
+    },
+    onFailed: (job) => {
+      toast({
+        title: 'Error',
+        description: job.error || 'Failed to generate video',
+        variant: 'destructive',
+      })
+    },
+  })
+  const isGenerating = isSubmitting || isRunning
 
   const handleGenerate = async () => {
     if (!prompt.trim() && !imageUrl.trim()) {
@@ -37,37 +91,16 @@ export default function VideoGeneratorPage() {
       return
     }
 
-    setIsGenerating(true)
+    setIsSubmitting(true)
     setGeneratedVideo('')
 
     try {
-      const response = await fetch('/api/generate/video', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          prompt,
-          imageUrl: imageUrl || undefined,
-          model,
-          duration: parseInt(duration),
-        }),
+      await submit('/api/generate/video', {
+        prompt,
+        imageUrl: imageUrl || undefined,
+        model,
+        duration: parseInt(duration),
       })
-
-      if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.error || 'Failed to generate video')
-      }
-
-      const data: GenerationResult = await response.json()
-
-      if (data.output) {
-        setGeneratedVideo(data.output)
-        toast({
-          title: 'Success!',
-          description: 'Your video has been generated',
-        })
-      }
     } catch (error) {
       console.error('Generation error:', error)
       toast({
@@ -76,7 +109,7 @@ export default function VideoGeneratorPage() {
         variant: 'destructive',
       })
     } finally {
-      setIsGenerating(false)
+      setIsSubmitting(false)
     }
   }
 
@@ -103,6 +136,7 @@ export default function VideoGeneratorPage() {
 
   const modelOptions = [
     { value: 'gen3-alpha-turbo', label: 'Gen-3 Alpha Turbo (5-10s)' },
+    { value: 'gen3-alpha', label: 'Gen-3 Alpha' },
   ]
 
   const durationOptions = [
@@ -124,10 +158,20 @@ export default function VideoGeneratorPage() {
           <div>
             <Card className="bg-gray-800 border-gray-700">
               <CardHeader>
-                <CardTitle className="text-white">Generation Settings</CardTitle>
-                <CardDescription className="text-gray-400">
-                  Configure your video generation parameters
-                </CardDescription>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-white">Generation Settings</CardTitle>
+                    <CardDescription className="text-gray-400">
+                      Configure your video generation parameters
+                    </CardDescription>
+                  </div>
+                  <PresetPicker
+                    toolType="video"
+                    getSettings={getPresetSettings}
+                    onApply={applyPreset}
+                    disabled={isGenerating}
+                  />
+                </div>
               </CardHeader>
               <CardContent className="space-y-6">
                 <div className="space-y-2">
@@ -252,18 +296,30 @@ export default function VideoGeneratorPage() {
               <CardContent>
                 {isGenerating ? (
                   <div className="flex flex-col items-center justify-center py-20 space-y-4">
-                    <Loader2 className="w-12 h-12 text-binary-orange animate-spin" />
-                    <p className="text-gray-400">Creating your video...</p>
-                    <p className="text-xs text-gray-500">This may take 60-120 seconds</p>
+                    <Progress value={(job?.progress || 0) * 100} className="max-w-sm" />
+                    <p className="text-gray-400">{job?.progressText || 'Creating your video...'}</p>
+                    {job && job.progress > 0 && (
+                      <p className="text-sm text-gray-400">{Math.round(job.progress * 100)}%</p>
+                    )}
+                    <p className="text-xs text-gray-500">This may take 60-120 seconds. You can leave this page and come back.</p>
                   </div>
                 ) : generatedVideo ? (
                   <div className="space-y-4">
                     <div className="relative group">
-                      <video
-                        src={generatedVideo}
-                        controls
-                        className="w-full rounded-lg"
-                      />
+                      {/* The mock provider returns an animated WebP preview instead of an MP4 */}
+                      {generatedVideo.startsWith('data:image/') ? (
+                        <img
+                          src={generatedVideo}
+                          alt="Generated preview"
+                          className="w-full rounded-lg"
+                        />
+                      ) : (
+                        <video
+                          src={generatedVideo}
+                          controls
+                          className="w-full rounded-lg"
+                        />
+                      )}
                       <div className="mt-4 flex gap-2">
                         <Button
                           onClick={() => handleDownload(generatedVideo)}
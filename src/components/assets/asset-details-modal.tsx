@@ -27,21 +27,25 @@ import {
   Mic,
   FileText,
   Save,
+  ScanSearch,
+  Loader2,
   X
 } from 'lucide-react'
-import { Asset, AssetType } from '@/lib/types/asset-repository'
+import { Asset, AssetType, SimilarAsset } from '@/lib/types/asset-repository'
 import { formatDistanceToNow } from 'date-fns'
 
 interface AssetDetailsModalProps {
   asset: Asset
   onClose: () => void
   onUpdate: () => void
+  onSelectAsset?: (asset: Asset) => void
 }
 
 export default function AssetDetailsModal({
   asset,
   onClose,
-  onUpdate
+  onUpdate,
+  onSelectAsset
 }: AssetDetailsModalProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editedAsset, setEditedAsset] = useState(asset)
@@ -49,9 +53,14 @@ export default function AssetDetailsModal({
   const [parentAssets, setParentAssets] = useState<Asset[]>([])
   const [childAssets, setChildAssets] = useState<Asset[]>([])
   const [versions, setVersions] = useState([])
+  const [activeTab, setActiveTab] = useState('details')
+  const [similarAssets, setSimilarAssets] = useState<SimilarAsset[] | null>(null)
+  const [loadingSimilar, setLoadingSimilar] = useState(false)
 
   useEffect(() => {
     setEditedAsset(asset)
+    setSimilarAssets(null)
+    setActiveTab('details')
     loadAssetDetails()
   }, [asset])
 
@@ -69,6 +78,27 @@ export default function AssetDetailsModal({
     }
   }
 
+  const loadSimilarAssets = async () => {
+    try {
+      setLoadingSimilar(true)
+      const response = await fetch(`/api/assets/${asset.id}/similar`)
+      const data = await response.json()
+      setSimilarAssets(data.success ? data.data : [])
+    } catch (error) {
+      console.error('Error loading similar assets:', error)
+      setSimilarAssets([])
+    } finally {
+      setLoadingSimilar(false)
+    }
+  }
+
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab)
+    if (tab === 'similar' && similarAssets === null && !loadingSimilar) {
+      loadSimilarAssets()
+    }
+  }
+
   const handleSave = async () => {
     try {
       setLoading(true)
@@ -319,6 +349,17 @@ export default function AssetDetailsModal({
                     <Button size="sm" variant="outline" className="border-gray-600 text-gray-300 hover:bg-gray-700">
                       <Share className="w-4 h-4" />
                     </Button>
+                    {asset.asset_type === 'image' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleTabChange('similar')}
+                        title="Find similar images"
+                        className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                      >
+                        <ScanSearch className="w-4 h-4" />
+                      </Button>
+                    )}
                     <Button
                       size="sm"
                       variant="outline"
@@ -366,11 +407,14 @@ export default function AssetDetailsModal({
 
           {/* Right Column - Asset Details */}
           <div className="space-y-4">
-            <Tabs defaultValue="details" className="w-full">
-              <TabsList className="grid w-full grid-cols-3 bg-gray-700">
+            <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
+              <TabsList className={`grid w-full ${asset.asset_type === 'image' ? 'grid-cols-4' : 'grid-cols-3'} bg-gray-700`}>
                 <TabsTrigger value="details" className="data-[state=active]:bg-binary-orange">Details</TabsTrigger>
                 <TabsTrigger value="lineage" className="data-[state=active]:bg-binary-orange">Lineage</TabsTrigger>
                 <TabsTrigger value="generation" className="data-[state=active]:bg-binary-orange">Generation</TabsTrigger>
+                {asset.asset_type === 'image' && (
+                  <TabsTrigger value="similar" className="data-[state=active]:bg-binary-orange">Similar</TabsTrigger>
+                )}
               </TabsList>
 
               <TabsContent value="details" className="space-y-4">
@@ -571,6 +615,54 @@ export default function AssetDetailsModal({
                   )}
                 </div>
               </TabsContent>
+
+              {asset.asset_type === 'image' && (
+                <TabsContent value="similar" className="space-y-4">
+                  {loadingSimilar || similarAssets === null ? (
+                    <div className="flex justify-center py-8">
+                      <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+                    </div>
+                  ) : similarAssets.length === 0 ? (
+                    <Card className="bg-gray-700 border-gray-600">
+                      <CardContent className="p-8 text-center">
+                        <p className="text-gray-400">No similar images found</p>
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-3">
+                      {similarAssets.map(({ asset: similar, similarity, hash_distance, near_duplicate }) => (
+                        <button
+                          key={similar.id}
+                          type="button"
+                          onClick={() => onSelectAsset?.(similar)}
+                          className="text-left bg-gray-700 rounded-lg overflow-hidden hover:ring-2 hover:ring-binary-orange"
+                        >
+                          <div className="relative aspect-square bg-gray-800">
+                            <img
+                              src={similar.thumbnail_url || similar.file_url}
+                              alt={similar.name || 'Similar image'}
+                              className="w-full h-full object-cover"
+                            />
+                            {near_duplicate && (
+                              <Badge className="absolute top-1 left-1 bg-binary-orange text-white text-xs">
+                                Near duplicate
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="p-2">
+                            <p className="text-xs font-medium text-white truncate">{similar.name || 'Untitled'}</p>
+                            <p className="text-xs text-gray-400">
+                              {similarity !== null
+                                ? `${Math.round(similarity * 100)}% similar`
+                                : `${hash_distance} bits apart`}
+                            </p>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+              )}
             </Tabs>
           </div>
         </div>
@@ -212,6 +212,15 @@ export default function AssetGallery({
                       <Heart className="w-4 h-4 text-red-400 fill-current" />
                     </div>
                   )}
+
+                  {/* Collapsed Duplicates */}
+                  {asset.duplicate_ids?.length ? (
+                    <div className="absolute bottom-2 right-2">
+                      <Badge variant="secondary" className="text-xs bg-gray-900/80 text-gray-200 border-0">
+                        +{asset.duplicate_ids.length} {asset.duplicate_ids.length === 1 ? 'duplicate' : 'duplicates'}
+                      </Badge>
+                    </div>
+                  ) : null}
                 </div>
 
                 {/* Asset Info */}
@@ -306,6 +315,11 @@ export default function AssetGallery({
                     {asset.is_favorite && (
                       <Heart className="w-4 h-4 text-red-400 fill-current" />
                     )}
+                    {asset.duplicate_ids?.length ? (
+                      <Badge variant="outline" className="text-xs border-gray-600 text-gray-400">
+                        +{asset.duplicate_ids.length} {asset.duplicate_ids.length === 1 ? 'duplicate' : 'duplicates'}
+                      </Badge>
+                    ) : null}
                   </div>
 
                   <div className="flex items-center space-x-4 text-sm text-gray-400">
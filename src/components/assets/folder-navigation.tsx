@@ -1,20 +1,82 @@
 'use client'
 
-import { ChevronRight, Home, Folder } from 'lucide-react'
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { ChevronRight, Home, Folder, Sparkles, Users, X } from 'lucide-react'
 import { Button } from '@/components/ui/button'
-import { Project, Folder as FolderType } from '@/lib/types/asset-repository'
+import { Badge } from '@/components/ui/badge'
+import { Project, Folder as FolderType, SavedSearch } from '@/lib/types/asset-repository'
+
+// Smart folder counts follow the library while the page is open
+const SAVED_SEARCH_REFRESH_MS = 30000
 
 interface FolderNavigationProps {
   project: Project
   currentFolder: FolderType | null
   onNavigate: (folder: FolderType | null) => void
+  activeSavedSearchId?: string
+  onSelectSavedSearch?: (search: SavedSearch) => void
+  // Bump to reload smart folders, e.g. after saving one or editing assets
+  refreshKey?: number
 }
 
 export default function FolderNavigation({
   project,
   currentFolder,
-  onNavigate
+  onNavigate,
+  activeSavedSearchId,
+  onSelectSavedSearch,
+  refreshKey
 }: FolderNavigationProps) {
+  const { data: session } = useSession()
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+
+  useEffect(() => {
+    loadSavedSearches()
+    const interval = setInterval(loadSavedSearches, SAVED_SEARCH_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [project.id, refreshKey])
+
+  const loadSavedSearches = async () => {
+    try {
+      const response = await fetch(`/api/saved-searches?project_id=${project.id}`)
+      const data = await response.json()
+      if (data.success) {
+        setSavedSearches(data.data)
+      }
+    } catch (error) {
+      console.error('Error loading saved searches:', error)
+    }
+  }
+
+  const handleToggleShared = async (search: SavedSearch) => {
+    try {
+      const response = await fetch(`/api/saved-searches/${search.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_shared: !search.is_shared })
+      })
+      if (response.ok) {
+        loadSavedSearches()
+      }
+    } catch (error) {
+      console.error('Error sharing saved search:', error)
+    }
+  }
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!confirm(`Delete the smart folder "${search.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/saved-searches/${search.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        setSavedSearches(prev => prev.filter(existing => existing.id !== search.id))
+      }
+    } catch (error) {
+      console.error('Error deleting saved search:', error)
+    }
+  }
+
   // Build breadcrumb path
   const buildBreadcrumbPath = () => {
     const path = []
@@ -34,50 +96,109 @@ export default function FolderNavigation({
   const breadcrumbPath = buildBreadcrumbPath()
 
   return (
-    <div className="flex items-center space-x-2 text-sm">
-      {/* Project Root */}
-      <Button
-        variant="ghost"
-        size="sm"
-        onClick={() => onNavigate(null)}
-        className={`p-2 h-auto ${
-          !currentFolder
-            ? 'text-binary-orange bg-binary-orange/10'
-            : 'text-gray-400 hover:text-white hover:bg-gray-700'
-        }`}
-      >
-        <Home className="w-4 h-4 mr-1" />
-        <span className="font-medium">{project.name}</span>
-      </Button>
-
-      {/* Breadcrumb Path */}
-      {breadcrumbPath.map((folder, index) => (
-        <div key={folder.id} className="flex items-center space-x-2">
-          <ChevronRight className="w-4 h-4 text-gray-500" />
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => onNavigate(folder)}
-            className={`p-2 h-auto ${
-              index === breadcrumbPath.length - 1
-                ? 'text-binary-orange bg-binary-orange/10'
-                : 'text-gray-400 hover:text-white hover:bg-gray-700'
-            }`}
-          >
-            <Folder className="w-4 h-4 mr-1" />
-            <span>{folder.name}</span>
-          </Button>
-        </div>
-      ))}
-
-      {/* Current folder indicator if we have a folder selected */}
-      {currentFolder && breadcrumbPath.length === 0 && (
-        <div className="flex items-center space-x-2">
-          <ChevronRight className="w-4 h-4 text-gray-500" />
-          <div className="flex items-center p-2 text-binary-orange bg-binary-orange/10 rounded">
-            <Folder className="w-4 h-4 mr-1" />
-            <span>{currentFolder.name}</span>
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2 text-sm">
+        {/* Project Root */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onNavigate(null)}
+          className={`p-2 h-auto ${
+            !currentFolder
+              ? 'text-binary-orange bg-binary-orange/10'
+              : 'text-gray-400 hover:text-white hover:bg-gray-700'
+          }`}
+        >
+          <Home className="w-4 h-4 mr-1" />
+          <span className="font-medium">{project.name}</span>
+        </Button>
+
+        {/* Breadcrumb Path */}
+        {breadcrumbPath.map((folder, index) => (
+          <div key={folder.id} className="flex items-center space-x-2">
+            <ChevronRight className="w-4 h-4 text-gray-500" />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onNavigate(folder)}
+              className={`p-2 h-auto ${
+                index === breadcrumbPath.length - 1
+                  ? 'text-binary-orange bg-binary-orange/10'
+                  : 'text-gray-400 hover:text-white hover:bg-gray-700'
+              }`}
+            >
+              <Folder className="w-4 h-4 mr-1" />
+              <span>{folder.name}</span>
+            </Button>
+          </div>
+        ))}
+
+        {/* Current folder indicator if we have a folder selected */}
+        {currentFolder && breadcrumbPath.length === 0 && (
+          <div className="flex items-center space-x-2">
+            <ChevronRight className="w-4 h-4 text-gray-500" />
+            <div className="flex items-center p-2 text-binary-orange bg-binary-orange/10 rounded">
+              <Folder className="w-4 h-4 mr-1" />
+              <span>{currentFolder.name}</span>
+            </div>
           </div>
+        )}
+      </div>
+
+      {/* Smart Folders */}
+      {savedSearches.length > 0 && (
+        <div className="flex items-center flex-wrap gap-2 text-sm">
+          {savedSearches.map(search => {
+            const isOwn = search.user_id === session?.user?.id
+            return (
+              <div
+                key={search.id}
+                className={`group flex items-center rounded-md ${
+                  search.id === activeSavedSearchId
+                    ? 'text-binary-orange bg-binary-orange/10'
+                    : 'text-gray-400 hover:text-white hover:bg-gray-700'
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelectSavedSearch?.(search)}
+                  title={search.query}
+                  className="flex items-center px-2 py-1"
+                >
+                  <Sparkles className="w-4 h-4 mr-1" />
+                  <span>{search.name}</span>
+                  {search.asset_count !== null && search.asset_count !== undefined && (
+                    <Badge variant="secondary" className="ml-2 bg-gray-700 text-gray-300 text-xs">
+                      {search.asset_count}
+                    </Badge>
+                  )}
+                  {search.is_shared && !isOwn && <Users className="w-3 h-3 ml-1" />}
+                </button>
+                {isOwn && (
+                  <div className="hidden group-hover:flex items-center pr-1">
+                    {search.project_id && (
+                      <button
+                        type="button"
+                        onClick={() => handleToggleShared(search)}
+                        title={search.is_shared ? 'Stop sharing with project' : 'Share with project'}
+                        className={`p-1 ${search.is_shared ? 'text-binary-orange' : 'text-gray-500 hover:text-white'}`}
+                      >
+                        <Users className="w-3 h-3" />
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(search)}
+                      title="Delete smart folder"
+                      className="p-1 text-gray-500 hover:text-red-400"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
         </div>
       )}
     </div>
@@ -17,17 +17,19 @@ import {
   ChevronRight,
   ChevronDown
 } from 'lucide-react'
-import { Project, Folder as FolderType } from '@/lib/types/asset-repository'
+import { Project, ProjectWithStats, Folder as FolderType } from '@/lib/types/asset-repository'
+import { ProjectBudgetBar, ProjectBudgetPopover } from './project-budget'
 
 interface ProjectBrowserProps {
-  projects: Project[]
+  projects: ProjectWithStats[]
   selectedProject: Project | null
   onSelectProject: (project: Project) => void
   currentFolder: FolderType | null
   onSelectFolder: (folder: FolderType | null) => void
+  onProjectUpdated?: () => void
 }
 
-interface ProjectWithFolders extends Project {
+interface ProjectWithFolders extends ProjectWithStats {
   folders?: FolderType[]
   expanded?: boolean
 }
@@ -37,7 +39,8 @@ export default function ProjectBrowser({
   selectedProject,
   onSelectProject,
   currentFolder,
-  onSelectFolder
+  onSelectFolder,
+  onProjectUpdated
 }: ProjectBrowserProps) {
   const [projectsWithFolders, setProjectsWithFolders] = useState<ProjectWithFolders[]>([])
   const [searchTerm, setSearchTerm] = useState('')
@@ -187,6 +190,11 @@ export default function ProjectBrowser({
                         {project.description}
                       </p>
                     )}
+                    {!project.expanded && (
+                      <div className="mt-2">
+                        <ProjectBudgetBar project={project} />
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -206,6 +214,7 @@ export default function ProjectBrowser({
                       <ChevronRight className="w-3 h-3" />
                     )}
                   </Button>
+                  <ProjectBudgetPopover project={project} onUpdated={onProjectUpdated} />
                   <Button
                     size="sm"
                     variant="ghost"
@@ -225,6 +234,13 @@ export default function ProjectBrowser({
                   <span>{new Date(project.created_at).toLocaleDateString()}</span>
                 </div>
 
+                {/* Budget */}
+                {project.credit_budget != null && (
+                  <div className="mb-3">
+                    <ProjectBudgetBar project={project} detailed />
+                  </div>
+                )}
+
                 {/* Folders */}
                 <div className="space-y-1">
                   {/* Root folder option */}
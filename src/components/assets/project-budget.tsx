@@ -0,0 +1,212 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { useToast } from '@/components/ui/use-toast'
+import { Coins } from 'lucide-react'
+import { ProjectWithStats } from '@/lib/types/asset-repository'
+
+/**
+ * How far through its budget a project is: 'warning' once spend reaches the
+ * warning threshold, 'stopped' once new generations would be refused.
+ */
+export function projectBudgetStatus(project: ProjectWithStats): 'ok' | 'warning' | 'stopped' | null {
+  if (!project.credit_budget) return null
+  const percent = ((project.budget_credits_spent || 0) / project.credit_budget) * 100
+  if (project.budget_stop_percent != null && percent >= project.budget_stop_percent) return 'stopped'
+  if (percent >= project.budget_warning_percent) return 'warning'
+  return 'ok'
+}
+
+const STATUS_BAR_CLASSES = {
+  ok: 'bg-binary-orange',
+  warning: 'bg-yellow-500',
+  stopped: 'bg-red-500'
+}
+
+/** Spend against the budget as a bar, with a marker at the warning threshold. */
+export function ProjectBudgetBar({ project, detailed = false }: { project: ProjectWithStats, detailed?: boolean }) {
+  const status = projectBudgetStatus(project)
+  if (!status || !project.credit_budget) return null
+
+  const spent = project.budget_credits_spent || 0
+  const percent = Math.round((spent / project.credit_budget) * 100)
+
+  return (
+    <div className="space-y-1">
+      <div className="relative w-full bg-gray-700 rounded-full h-1.5 overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-300 ${STATUS_BAR_CLASSES[status]}`}
+          style={{ width: `${Math.min(100, percent)}%` }}
+        />
+        {project.budget_warning_percent < 100 && (
+          <div
+            className="absolute top-0 h-full w-px bg-gray-400"
+            style={{ left: `${project.budget_warning_percent}%` }}
+          />
+        )}
+      </div>
+      {detailed && (
+        <div className={`flex items-center justify-between text-xs ${
+          status === 'stopped' ? 'text-red-400' : status === 'warning' ? 'text-yellow-400' : 'text-gray-400'
+        }`}>
+          <span>{spent} / {project.credit_budget} credits</span>
+          <span>
+            {status === 'stopped' ? 'Generation paused' : `${percent}%`}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ProjectBudgetPopoverProps {
+  project: ProjectWithStats
+  onUpdated?: () => void
+}
+
+/** Set, change or remove a project's credit budget and its thresholds. */
+export function ProjectBudgetPopover({ project, onUpdated }: ProjectBudgetPopoverProps) {
+  const { toast } = useToast()
+  const [isOpen, setIsOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [budget, setBudget] = useState('')
+  const [warningPercent, setWarningPercent] = useState('')
+  const [stopPercent, setStopPercent] = useState('')
+  const [hardStop, setHardStop] = useState(true)
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setBudget(project.credit_budget ? String(project.credit_budget) : '')
+      setWarningPercent(String(project.budget_warning_percent ?? 80))
+      setStopPercent(String(project.budget_stop_percent ?? 100))
+      setHardStop(project.budget_stop_percent !== null)
+    }
+    setIsOpen(open)
+  }
+
+  const saveBudget = async (clear: boolean) => {
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/projects/${project.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(clear ? { credit_budget: null } : {
+          credit_budget: Number(budget),
+          budget_warning_percent: Number(warningPercent),
+          budget_stop_percent: hardStop ? Number(stopPercent) : null
+        })
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to update budget')
+      }
+
+      toast({
+        title: clear ? 'Budget removed' : 'Budget saved',
+        description: clear ? `${project.name} no longer has a credit budget` : `${project.name} has a ${budget} credit budget`
+      })
+      setIsOpen(false)
+      onUpdated?.()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update budget',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          title="Credit budget"
+          onClick={(e) => e.stopPropagation()}
+          className="w-6 h-6 p-0 text-gray-400 hover:text-white"
+        >
+          <Coins className="w-3 h-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-72 bg-gray-800 border-gray-700 space-y-4"
+        align="end"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <p className="text-sm font-medium text-white mb-1">Credit budget</p>
+          <p className="text-xs text-gray-400">
+            {project.budget_credits_spent || 0} credits spent in {project.name} so far
+          </p>
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm text-gray-300">Budget (credits)</label>
+          <Input
+            type="number"
+            min={1}
+            placeholder="e.g., 500"
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+            className="bg-gray-700 border-gray-600 text-white placeholder-gray-400"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm text-gray-300">Warn at (% of budget)</label>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            value={warningPercent}
+            onChange={(e) => setWarningPercent(e.target.value)}
+            className="bg-gray-700 border-gray-600 text-white"
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="text-sm text-gray-300">Stop generating</label>
+          <Switch checked={hardStop} onCheckedChange={setHardStop} />
+        </div>
+        {hardStop && (
+          <div className="space-y-1">
+            <label className="text-sm text-gray-300">Stop at (% of budget)</label>
+            <Input
+              type="number"
+              min={1}
+              value={stopPercent}
+              onChange={(e) => setStopPercent(e.target.value)}
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+          </div>
+        )}
+        <div className="flex gap-2">
+          {project.credit_budget != null && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={saving}
+              onClick={() => saveBudget(true)}
+              className="flex-1 border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+              Remove
+            </Button>
+          )}
+          <Button
+            size="sm"
+            disabled={!(Number(budget) > 0) || saving}
+            onClick={() => saveBudget(false)}
+            className="flex-1 bg-binary-orange hover:bg-binary-orange/90"
+          >
+            Save Budget
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Check, Star } from 'lucide-react'
+import { SearchFacets as SearchFacetCounts } from '@/lib/types/asset-repository'
+import { CREDIT_BUCKETS, FACET_FIELDS, FacetKey, RATING_BUCKETS } from '@/lib/search/facets'
+import { getSelectedQueryValues, QueryFieldName } from '@/lib/search/query-language'
+
+// Months shown before "Show all"
+const VISIBLE_MONTHS = 12
+
+const FACET_TITLES: Record<FacetKey, string> = {
+  asset_types: 'Type',
+  source_apps: 'Studio',
+  source_tools: 'Tool',
+  tags: 'Tags',
+  ratings: 'Rating',
+  created: 'Created',
+  credits: 'Credits'
+}
+
+const titleCase = (value: string) =>
+  value.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+
+function optionLabel(facet: FacetKey, value: string) {
+  switch (facet) {
+    case 'asset_types':
+    case 'source_apps':
+      return titleCase(value)
+    case 'tags':
+      return `#${value}`
+    case 'ratings':
+      return value === 'none' ? 'Unrated' : (
+        <span className="flex items-center">
+          {value}
+          <Star className="w-3 h-3 ml-1 text-yellow-400 fill-current" />
+        </span>
+      )
+    case 'created':
+      return format(new Date(`${value}-01T00:00:00`), 'MMM yyyy')
+    case 'credits':
+      if (value === '0') return 'Free'
+      return value.endsWith('..') ? `${value.slice(0, -2)}+` : value.replace('..', '–')
+    default:
+      return value
+  }
+}
+
+// Fixed buckets keep their order; the rest come sorted from the server
+function facetOptions(facet: FacetKey, counts: Record<string, number>, selected: string[]) {
+  const keys = facet === 'ratings' ? RATING_BUCKETS
+    : facet === 'credits' ? CREDIT_BUCKETS
+    : Object.keys(counts).sort((a, b) =>
+      facet === 'created' ? b.localeCompare(a) : (counts[b] - counts[a]) || a.localeCompare(b)
+    )
+
+  // A selection keeps its checkbox even when nothing matches it any more
+  const missing = selected.filter(value => !keys.includes(value))
+  return [...keys, ...missing].map(value => ({ value, count: counts[value] || 0 }))
+}
+
+interface SearchFacetsProps {
+  facets: SearchFacetCounts
+  query: string
+  onToggle: (field: QueryFieldName, value: string) => void
+}
+
+/**
+ * Drill-down panel: every filter option with the number of matching
+ * assets. Checking options adds them to the query as field:a,b terms, so
+ * several values of one field widen the search and different fields
+ * narrow it.
+ */
+export default function SearchFacets({ facets, query, onToggle }: SearchFacetsProps) {
+  const [showAllMonths, setShowAllMonths] = useState(false)
+
+  const groups = useMemo(() => (Object.keys(FACET_FIELDS) as FacetKey[]).map(facet => {
+    const field = FACET_FIELDS[facet]
+    const selected = getSelectedQueryValues(query, field)
+    return { facet, field, selected, options: facetOptions(facet, facets[facet], selected) }
+  }), [facets, query])
+
+  const maxMonthCount = Math.max(1, ...Object.values(facets.created))
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>{facets.total} matching asset{facets.total === 1 ? '' : 's'}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-4">
+        {groups.map(({ facet, field, selected, options }) => {
+          const visible = facet === 'created' && !showAllMonths
+            ? options.filter((option, index) => index < VISIBLE_MONTHS || selected.includes(option.value))
+            : options
+
+          return (
+            <div key={facet} className="min-w-0">
+              <h4 className="text-xs font-medium uppercase tracking-wide text-gray-400 mb-2">
+                {FACET_TITLES[facet]}
+              </h4>
+              {visible.length === 0 ? (
+                <p className="text-xs text-gray-500">None</p>
+              ) : (
+                <div className="space-y-1 max-h-56 overflow-auto pr-1">
+                  {visible.map(({ value, count }) => {
+                    const checked = selected.includes(value)
+                    return (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => onToggle(field, value)}
+                        className={`relative w-full flex items-center text-left text-sm rounded px-1.5 py-1 hover:bg-gray-700 ${
+                          checked ? 'text-white' : count === 0 ? 'text-gray-500' : 'text-gray-300'
+                        }`}
+                      >
+                        {facet === 'created' && (
+                          <span
+                            className="absolute inset-y-0 left-0 rounded bg-binary-orange/10"
+                            style={{ width: `${(count / maxMonthCount) * 100}%` }}
+                          />
+                        )}
+                        <span className={`relative flex-none w-3.5 h-3.5 mr-2 rounded-sm border flex items-center justify-center ${
+                          checked ? 'bg-binary-orange border-binary-orange' : 'border-gray-500'
+                        }`}>
+                          {checked && <Check className="w-3 h-3 text-white" />}
+                        </span>
+                        <span className="relative flex-1 truncate">{optionLabel(facet, value)}</span>
+                        <span className="relative ml-2 text-xs text-gray-400 tabular-nums">{count}</span>
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+              {facet === 'created' && options.length > VISIBLE_MONTHS && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setShowAllMonths(!showAllMonths)}
+                  className="mt-1 h-auto p-1 text-xs text-gray-400 hover:text-white"
+                >
+                  {showAllMonths ? 'Show fewer' : `Show all ${options.length}`}
+                </Button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
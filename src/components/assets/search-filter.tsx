@@ -9,8 +9,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { Slider } from '@/components/ui/slider'
 import { Switch } from '@/components/ui/switch'
+import { useToast } from '@/components/ui/use-toast'
+import SearchQueryInput from './search-query-input'
+import SearchFacetsPanel from './search-facets'
 import {
-  Search,
   Filter,
   X,
   Star,
@@ -18,11 +20,14 @@ import {
   Calendar,
   Tag,
   Zap,
+  Bookmark,
   SlidersHorizontal
 } from 'lucide-react'
-import { AssetType } from '@/lib/types/asset-repository'
+import { AssetType, SavedSearch, SearchFacets } from '@/lib/types/asset-repository'
+import { QueryFieldName, toggleQueryValue } from '@/lib/search/query-language'
 
-interface FilterState {
+export interface FilterState {
+  // Free text plus query-language terms, matched by /api/search
   search: string
   assetType: AssetType | 'all'
   minRating: number
@@ -36,19 +41,74 @@ interface FilterState {
   sortOrder: 'asc' | 'desc'
 }
 
+export const DEFAULT_FILTERS: FilterState = {
+  search: '',
+  assetType: 'all',
+  minRating: 0,
+  maxCredits: 100,
+  favoritesOnly: false,
+  dateRange: 'all',
+  tags: [],
+  sourceApp: '',
+  sourceTool: '',
+  sortBy: 'created_at',
+  sortOrder: 'desc'
+}
+
+const DATE_RANGE_TERMS: Record<Exclude<FilterState['dateRange'], 'all'>, string> = {
+  today: 'created:today',
+  week: 'created>=7d',
+  month: 'created>=1m',
+  year: 'created>=1y'
+}
+
+const quoteTerm = (value: string) => /\s/.test(value) ? `"${value}"` : value
+
+/**
+ * The filters as one query-language string, so a saved search can rerun
+ * them server-side.
+ */
+export function buildFilterQuery(filters: FilterState): string {
+  const terms = [filters.search.trim()]
+  if (filters.assetType !== 'all') terms.push(`type:${filters.assetType}`)
+  if (filters.favoritesOnly) terms.push('is:favorite')
+  if (filters.minRating > 0) terms.push(`rating>=${filters.minRating}`)
+  if (filters.maxCredits < 100) terms.push(`credits<=${filters.maxCredits}`)
+  if (filters.dateRange !== 'all') terms.push(DATE_RANGE_TERMS[filters.dateRange])
+  filters.tags.forEach(tag => terms.push(`tag:${quoteTerm(tag)}`))
+  if (filters.sourceApp) terms.push(`app:${quoteTerm(filters.sourceApp)}`)
+  if (filters.sourceTool) terms.push(`tool:${quoteTerm(filters.sourceTool)}`)
+  return terms.filter(Boolean).join(' ')
+}
+
 interface SearchFilterProps {
   filters: FilterState
   onFiltersChange: (filters: FilterState) => void
   onReset: () => void
+  // Offer to scope and share saved searches in this project
+  projectId?: string
+  onSearchSaved?: (search: SavedSearch) => void
+  // Counts for the current search; shown in the Refine panel
+  facets?: SearchFacets | null
 }
 
 export default function SearchFilter({
   filters,
   onFiltersChange,
-  onReset
+  onReset,
+  projectId,
+  onSearchSaved,
+  facets
 }: SearchFilterProps) {
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false)
+  const [isRefineOpen, setIsRefineOpen] = useState(false)
   const [tagInput, setTagInput] = useState('')
+  const [isSaveOpen, setIsSaveOpen] = useState(false)
+  const [saveName, setSaveName] = useState('')
+  const [saveToProject, setSaveToProject] = useState(true)
+  const [shareWithProject, setShareWithProject] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
 
   const assetTypeOptions = [
     { value: 'all', label: 'All Types' },
@@ -118,28 +178,60 @@ export default function SearchFilter({
 
   const hasActiveFilters = getActiveFilterCount() > 0
 
+  // Facet options are query terms, so drilling down edits the search itself
+  const toggleFacetValue = (field: QueryFieldName, value: string) => {
+    updateFilter('search', toggleQueryValue(filters.search, field, value))
+  }
+
+  const handleSaveSearch = async () => {
+    const scopedToProject = !!projectId && saveToProject
+    try {
+      setSaving(true)
+      const response = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: saveName,
+          query: buildFilterQuery(filters),
+          sort_by: filters.sortBy,
+          sort_order: filters.sortOrder,
+          project_id: scopedToProject ? projectId : undefined,
+          is_shared: scopedToProject && shareWithProject
+        })
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to save search')
+      }
+
+      toast({
+        title: 'Search saved',
+        description: `${data.data.name} is now a smart folder`
+      })
+      setIsSaveOpen(false)
+      setSaveName('')
+      onSearchSaved?.(data.data)
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save search',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
   return (
     <div className="space-y-4">
       {/* Main Search Bar */}
-      <div className="flex items-center space-x-3">
-        <div className="flex-1 relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-          <Input
-            placeholder="Search assets, tags, or notes..."
+      <div className="flex items-start space-x-3">
+        <div className="flex-1">
+          <SearchQueryInput
             value={filters.search}
-            onChange={(e) => updateFilter('search', e.target.value)}
-            className="pl-10 bg-gray-700 border-gray-600 text-white placeholder-gray-400"
+            onChange={(value) => updateFilter('search', value)}
           />
-          {filters.search && (
-            <Button
-              size="sm"
-              variant="ghost"
-              onClick={() => updateFilter('search', '')}
-              className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-white p-1 h-auto"
-            >
-              <X className="w-4 h-4" />
-            </Button>
-          )}
         </div>
 
         <Select value={filters.assetType} onValueChange={(value) => updateFilter('assetType', value)}>
@@ -186,6 +278,69 @@ export default function SearchFilter({
           <Heart className={`w-4 h-4 ${filters.favoritesOnly ? 'fill-current' : ''}`} />
         </Button>
 
+        <Button
+          variant={isRefineOpen ? "default" : "outline"}
+          size="sm"
+          disabled={!facets}
+          onClick={() => setIsRefineOpen(!isRefineOpen)}
+          title="Refine by type, tool, tag, rating, date and cost"
+          className={isRefineOpen ? "bg-binary-orange" : "border-gray-600 text-gray-300 hover:bg-gray-700"}
+        >
+          <Filter className="w-4 h-4 mr-2" />
+          Refine
+        </Button>
+
+        <Popover open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!hasActiveFilters}
+              title="Save as smart folder"
+              className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+              <Bookmark className="w-4 h-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 bg-gray-800 border-gray-700 space-y-4" align="end">
+            <div>
+              <p className="text-sm font-medium text-white mb-1">Save as smart folder</p>
+              <p className="text-xs text-gray-400 font-mono break-all">{buildFilterQuery(filters)}</p>
+            </div>
+            <Input
+              placeholder="e.g., 5-star Flux Pro portraits this month"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveName.trim() && handleSaveSearch()}
+              className="bg-gray-700 border-gray-600 text-white placeholder-gray-400"
+            />
+            {projectId && (
+              <>
+                <div className="flex items-center justify-between">
+                  <label className="text-sm text-gray-300">Only this project</label>
+                  <Switch checked={saveToProject} onCheckedChange={setSaveToProject} />
+                </div>
+                <div className="flex items-center justify-between">
+                  <label className="text-sm text-gray-300">Share with project</label>
+                  <Switch
+                    checked={saveToProject && shareWithProject}
+                    disabled={!saveToProject}
+                    onCheckedChange={setShareWithProject}
+                  />
+                </div>
+              </>
+            )}
+            <Button
+              size="sm"
+              disabled={!saveName.trim() || saving}
+              onClick={handleSaveSearch}
+              className="w-full bg-binary-orange hover:bg-binary-orange/90"
+            >
+              Save Search
+            </Button>
+          </PopoverContent>
+        </Popover>
+
         <Popover open={isAdvancedOpen} onOpenChange={setIsAdvancedOpen}>
           <PopoverTrigger asChild>
             <Button
@@ -339,6 +494,11 @@ export default function SearchFilter({
         </Popover>
       </div>
 
+      {/* Facet Drill-down */}
+      {isRefineOpen && facets && (
+        <SearchFacetsPanel facets={facets} query={filters.search} onToggle={toggleFacetValue} />
+      )}
+
       {/* Active Filters Display */}
       {hasActiveFilters && (
         <div className="flex items-center space-x-2 flex-wrap">
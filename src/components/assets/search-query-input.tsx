@@ -0,0 +1,195 @@
+'use client'
+
+import { useState, useEffect, useRef, useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Search, X, AlertCircle } from 'lucide-react'
+import { getQueryCompletions, parseSearchQuery, QuerySegment } from '@/lib/search/query-language'
+
+const SEGMENT_CLASSES: Record<QuerySegment['kind'], string> = {
+  text: 'text-white',
+  space: '',
+  field: 'text-binary-orange',
+  value: 'text-sky-300',
+  error: 'text-red-400 underline decoration-wavy decoration-red-400',
+}
+
+interface SearchQueryInputProps {
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+}
+
+/**
+ * Search box for the structured query language: highlights field terms
+ * and mistakes as you type and autocompletes field names, tags and tools.
+ * The text itself is transparent; a styled copy is drawn underneath.
+ */
+export default function SearchQueryInput({
+  value,
+  onChange,
+  placeholder = 'Search, or filter: type:video rating>=4 tag:hero -tag:draft'
+}: SearchQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const [cursor, setCursor] = useState(0)
+  const [focused, setFocused] = useState(false)
+  const [dismissed, setDismissed] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const [knownValues, setKnownValues] = useState<{ tags: string[]; tools: string[] }>({ tags: [], tools: [] })
+
+  useEffect(() => {
+    loadSuggestions()
+  }, [])
+
+  const loadSuggestions = async () => {
+    try {
+      const response = await fetch('/api/search/suggestions')
+      const data = await response.json()
+      if (data.success) {
+        setKnownValues(data.data)
+      }
+    } catch (error) {
+      console.error('Error loading search suggestions:', error)
+    }
+  }
+
+  const parsed = useMemo(() => parseSearchQuery(value), [value])
+  const completions = useMemo(
+    () => focused && !dismissed ? getQueryCompletions(value, cursor, knownValues) : null,
+    [value, cursor, focused, dismissed, knownValues]
+  )
+
+  const syncCursor = () => {
+    const input = inputRef.current
+    if (!input) return
+    setCursor(input.selectionStart ?? input.value.length)
+    if (overlayRef.current) {
+      overlayRef.current.scrollLeft = input.scrollLeft
+    }
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value)
+    setCursor(e.target.selectionStart ?? e.target.value.length)
+    setDismissed(false)
+    setHighlighted(0)
+  }
+
+  const acceptSuggestion = (index: number) => {
+    if (!completions) return
+    const { insert } = completions.suggestions[index]
+    let rest = value.slice(completions.end)
+    if (insert.endsWith(' ')) {
+      rest = rest.replace(/^\s+/, '')
+    }
+
+    const nextCursor = completions.start + insert.length
+    onChange(value.slice(0, completions.start) + insert + rest)
+    setCursor(nextCursor)
+    setHighlighted(0)
+
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor)
+      syncCursor()
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!completions) return
+    const count = completions.suggestions.length
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlighted((highlighted + 1) % count)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlighted((highlighted - 1 + count) % count)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      acceptSuggestion(Math.min(highlighted, count - 1))
+    } else if (e.key === 'Escape') {
+      setDismissed(true)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4 z-10" />
+
+        {/* Highlighted copy of the query */}
+        <div
+          ref={overlayRef}
+          aria-hidden
+          className="absolute inset-0 flex items-center pl-10 pr-10 border border-transparent text-sm whitespace-pre overflow-hidden pointer-events-none"
+        >
+          {parsed.segments.map(segment => (
+            <span key={segment.start} className={SEGMENT_CLASSES[segment.kind]}>
+              {value.slice(segment.start, segment.end)}
+            </span>
+          ))}
+        </div>
+
+        <Input
+          ref={inputRef}
+          placeholder={placeholder}
+          value={value}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onKeyUp={syncCursor}
+          onClick={syncCursor}
+          onSelect={syncCursor}
+          onScroll={syncCursor}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          spellCheck={false}
+          autoComplete="off"
+          className="pl-10 pr-10 bg-gray-700 border-gray-600 text-transparent caret-white placeholder-gray-400"
+        />
+
+        {value && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => onChange('')}
+            className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-white p-1 h-auto"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+
+        {/* Autocomplete */}
+        {completions && (
+          <div className="absolute z-50 mt-1 w-full bg-gray-800 border border-gray-700 rounded-md shadow-lg py-1">
+            {completions.suggestions.map((suggestion, index) => (
+              <button
+                key={suggestion.label}
+                type="button"
+                // Keep focus in the input
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  acceptSuggestion(index)
+                }}
+                className={`w-full flex items-center justify-between px-3 py-1.5 text-sm text-left ${
+                  index === highlighted ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                <span>{suggestion.label}</span>
+                {suggestion.hint && <span className="text-xs text-gray-500">{suggestion.hint}</span>}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {parsed.errors.map(error => (
+        <p key={error.start} className="flex items-center text-xs text-red-400">
+          <AlertCircle className="w-3 h-3 mr-1 flex-none" />
+          <span className="font-mono mr-1">{value.slice(error.start, error.end)}</span>
+          {error.message}
+        </p>
+      ))}
+    </div>
+  )
+}
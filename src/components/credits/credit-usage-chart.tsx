@@ -0,0 +1,121 @@
+'use client'
+
+import { format } from 'date-fns'
+import { CreditUsageDimension, CreditUsageReport } from '@/lib/types/credits'
+
+// Series colours, biggest spender first; the rest are grouped as Other
+const SERIES_COLORS = ['bg-binary-orange', 'bg-sky-500', 'bg-emerald-500', 'bg-violet-500', 'bg-amber-400']
+const OTHER_COLOR = 'bg-gray-500'
+const OTHER_KEY = '__other__'
+
+const CHART_HEIGHT = 192
+
+interface CreditUsageChartProps {
+  report: CreditUsageReport
+  dimension: CreditUsageDimension
+}
+
+/**
+ * Stacked columns of credit spend per period, split by the chosen
+ * dimension, with a legend that doubles as the breakdown table.
+ */
+export default function CreditUsageChart({ report, dimension }: CreditUsageChartProps) {
+  const breakdown = report.breakdowns[dimension]
+  const series = breakdown.slice(0, SERIES_COLORS.length)
+  const others = breakdown.slice(SERIES_COLORS.length)
+  const maxCredits = Math.max(1, ...report.timeline.map(point => point.credits))
+
+  const periodLabel = (periodStart: string) => {
+    const date = new Date(`${periodStart}T00:00:00`)
+    return report.interval === 'month' ? format(date, 'MMM yyyy') : format(date, 'MMM d')
+  }
+
+  // Label every nth column so they don't overlap
+  const labelEvery = Math.max(1, Math.ceil(report.timeline.length / 10))
+
+  return (
+    <div className="space-y-6">
+      {report.credits === 0 ? (
+        <div className="flex items-center justify-center text-gray-500" style={{ height: CHART_HEIGHT }}>
+          No credits spent in this period
+        </div>
+      ) : (
+        <div>
+          <div className="flex items-end gap-1" style={{ height: CHART_HEIGHT }}>
+            {report.timeline.map(point => {
+              const segments = [
+                ...series.map((item, index) => ({
+                  key: item.key,
+                  label: item.label,
+                  credits: point.by[dimension][item.key] || 0,
+                  color: SERIES_COLORS[index]
+                })),
+                {
+                  key: OTHER_KEY,
+                  label: 'Other',
+                  credits: others.reduce((total, item) => total + (point.by[dimension][item.key] || 0), 0),
+                  color: OTHER_COLOR
+                }
+              ].filter(segment => segment.credits > 0)
+
+              return (
+                <div
+                  key={point.period_start}
+                  className="flex-1 flex flex-col-reverse rounded-t overflow-hidden bg-gray-700/30"
+                  style={{ height: `${(point.credits / maxCredits) * 100}%` }}
+                  title={`${periodLabel(point.period_start)}: ${point.credits} credits`}
+                >
+                  {segments.map(segment => (
+                    <div
+                      key={segment.key}
+                      className={segment.color}
+                      style={{ height: `${(segment.credits / point.credits) * 100}%` }}
+                      title={`${segment.label}: ${segment.credits} credits`}
+                    />
+                  ))}
+                </div>
+              )
+            })}
+          </div>
+          <div className="flex gap-1 mt-2">
+            {report.timeline.map((point, index) => (
+              <div key={point.period_start} className="flex-1 text-[10px] text-gray-500 text-center truncate">
+                {index % labelEvery === 0 ? periodLabel(point.period_start) : ''}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {breakdown.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-700">
+              <th className="pb-2 font-medium">{dimension === 'tool' ? 'Tool' : dimension === 'model' ? 'Model' : 'Project'}</th>
+              <th className="pb-2 font-medium text-right">Generations</th>
+              <th className="pb-2 font-medium text-right">Credits</th>
+              <th className="pb-2 font-medium text-right">Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.map((item, index) => (
+              <tr key={item.key} className="border-b border-gray-700/50 text-gray-300">
+                <td className="py-2">
+                  <span className="flex items-center">
+                    <span className={`w-2.5 h-2.5 rounded-sm mr-2 ${SERIES_COLORS[index] || OTHER_COLOR}`} />
+                    {item.label}
+                  </span>
+                </td>
+                <td className="py-2 text-right tabular-nums">{item.generations}</td>
+                <td className="py-2 text-right tabular-nums">{item.credits}</td>
+                <td className="py-2 text-right tabular-nums text-gray-400">
+                  {Math.round((item.credits / report.credits) * 100)}%
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import { useRouter, usePathname } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
+import NotificationBell from './notification-bell'
 import {
   Menu,
   X,
@@ -22,6 +23,7 @@ import {
   FolderOpen,
   FileText,
   FlaskConical,
+  ClipboardCheck,
 } from 'lucide-react'
 
 interface DashboardLayoutProps {
@@ -36,6 +38,7 @@ const navigationItems = [
   { name: 'Assets', href: '/assets', icon: FolderOpen },
   { name: 'Prompts', href: '/prompts', icon: FileText },
   { name: 'Experiments', href: '/experiments', icon: FlaskConical },
+  { name: 'Review', href: '/review', icon: ClipboardCheck },
   { name: 'History', href: '/history', icon: History },
   { name: 'Profile', href: '/profile', icon: User },
   { name: 'Credits', href: '/credits', icon: CreditCard },
@@ -75,7 +78,7 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
       <div className="hidden lg:flex lg:w-64 lg:flex-col">
         <div className="flex flex-col flex-grow bg-gray-800 border-r border-gray-700">
           {/* Logo */}
-          <div className="flex items-center h-16 px-6 bg-gray-900">
+          <div className="flex items-center justify-between h-16 px-6 bg-gray-900">
             <div className="flex items-center">
               <div className="w-8 h-8 bg-binary-orange rounded-full flex items-center justify-center mr-3">
                 <svg className="w-5 h-5 text-white" fill="currentColor" viewBox="0 0 24 24">
@@ -84,6 +87,7 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
               </div>
               <span className="text-xl font-bold text-white">Binary AI</span>
             </div>
+            <NotificationBell />
           </div>
 
           {/* Credits Display */}
@@ -179,14 +183,17 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
             </div>
             <span className="text-xl font-bold text-white">Binary AI</span>
           </div>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
-            className="text-gray-300 hover:text-white hover:bg-gray-700"
-          >
-            {isMobileMenuOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
-          </Button>
+          <div className="flex items-center">
+            <NotificationBell />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+              className="text-gray-300 hover:text-white hover:bg-gray-700"
+            >
+              {isMobileMenuOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
+            </Button>
+          </div>
         </div>
 
         {/* Mobile Menu */}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { AlertTriangle, Bell, OctagonX } from 'lucide-react'
+import { AppNotification } from '@/lib/types/notifications'
+import { formatDistanceToNow } from 'date-fns'
+
+const POLL_INTERVAL_MS = 60000
+
+/**
+ * Header bell with the unread count. Opening it lists recent notifications;
+ * clicking one marks it read and follows its link.
+ */
+export default function NotificationBell() {
+  const router = useRouter()
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [isOpen, setIsOpen] = useState(false)
+
+  useEffect(() => {
+    loadNotifications()
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  const loadNotifications = async () => {
+    try {
+      const response = await fetch('/api/notifications')
+      const data = await response.json()
+      if (data.success) {
+        setNotifications(data.data.notifications)
+        setUnreadCount(data.data.unread_count)
+      }
+    } catch (error) {
+      console.error('Error loading notifications:', error)
+    }
+  }
+
+  const markRead = async (ids?: string[]) => {
+    const readAt = new Date().toISOString()
+    setNotifications(prev => prev.map(notification =>
+      !notification.read_at && (!ids || ids.includes(notification.id))
+        ? { ...notification, read_at: readAt }
+        : notification
+    ))
+    setUnreadCount(prev => (ids ? Math.max(0, prev - ids.length) : 0))
+
+    try {
+      await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {})
+      })
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+    }
+  }
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.read_at) {
+      markRead([notification.id])
+    }
+    if (notification.link) {
+      setIsOpen(false)
+      router.push(notification.link)
+    }
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Notifications"
+          className="relative text-gray-300 hover:text-white hover:bg-gray-700"
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 min-w-[16px] h-4 px-1 rounded-full bg-binary-orange text-[10px] font-bold text-white flex items-center justify-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0 bg-gray-800 border-gray-700" align="start">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <p className="text-sm font-medium text-white">Notifications</p>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markRead()}
+              className="text-xs text-binary-orange hover:underline"
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-auto">
+          {notifications.length === 0 ? (
+            <p className="text-center text-sm text-gray-400 py-8">No notifications</p>
+          ) : (
+            notifications.map(notification => {
+              const Icon = notification.type === 'budget_exceeded' ? OctagonX : AlertTriangle
+              return (
+                <button
+                  key={notification.id}
+                  onClick={() => openNotification(notification)}
+                  className={`flex w-full text-left px-4 py-3 border-b border-gray-700/50 hover:bg-gray-700 transition-colors ${
+                    notification.read_at ? 'opacity-60' : ''
+                  }`}
+                >
+                  <Icon className={`w-4 h-4 mr-3 mt-0.5 flex-shrink-0 ${
+                    notification.type === 'budget_exceeded' ? 'text-red-400' : 'text-yellow-400'
+                  }`} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white">{notification.title}</p>
+                    {notification.message && (
+                      <p className="text-xs text-gray-400 mt-0.5">{notification.message}</p>
+                    )}
+                    <p className="text-[10px] text-gray-500 mt-1">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.read_at && (
+                    <span className="w-2 h-2 rounded-full bg-binary-orange ml-2 mt-1.5 flex-shrink-0" />
+                  )}
+                </button>
+              )
+            })
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { useWorkflowEvents } from '@/lib/hooks/use-workflow-events'
+import { OrchestratedWorkflow } from '@/lib/types/orchestration'
+
+interface WorkflowProgressCardProps {
+  workflow: Pick<OrchestratedWorkflow, 'id' | 'title' | 'status'>
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+  cancelled: 'bg-gray-500/20 text-gray-400',
+}
+
+/**
+ * Live progress of one orchestrated workflow: overall task completion, the
+ * task currently running with its provider progress, and tasks waiting on
+ * review.
+ */
+export default function WorkflowProgressCard({ workflow }: WorkflowProgressCardProps) {
+  const { snapshot } = useWorkflowEvents(workflow.id)
+
+  const status = snapshot?.workflow.status || workflow.status
+  const tasks = snapshot?.tasks || []
+  const settled = tasks.filter(task => task.status !== 'pending' && task.status !== 'in_progress').length
+  const running = tasks.filter(task => task.status === 'in_progress')
+  const awaitingReview = running.filter(task => task.assigned_to === 'human')
+  const generating = running.find(task => task.assigned_to !== 'human')
+  const generatingProgress = generating && snapshot?.progress.find(item => item.task_id === generating.id)
+
+  // Count the running generation's own progress towards the total
+  const overall = tasks.length > 0
+    ? ((settled + (generatingProgress?.progress || 0)) / tasks.length) * 100
+    : 0
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium text-white truncate">
+            {snapshot?.workflow.title || workflow.title}
+          </p>
+          <div className={`px-2 py-1 rounded-full text-xs ${STATUS_STYLES[status] || 'bg-yellow-500/20 text-yellow-400'}`}>
+            {status.replace('_', ' ')}
+          </div>
+        </div>
+        <Progress value={status === 'completed' ? 100 : overall} />
+        <div className="flex items-center justify-between text-xs text-gray-400">
+          <span>
+            {generating
+              ? `${generating.title}: ${generatingProgress?.progress_text || 'Generating'}`
+              : snapshot?.workflow.error_message || (snapshot ? 'Waiting' : 'Connecting...')}
+          </span>
+          <span>{settled}/{tasks.length} tasks</span>
+        </div>
+        {awaitingReview.length > 0 && (
+          <Badge variant="outline" className="border-binary-orange/50 text-binary-orange text-xs">
+            {awaitingReview.length} awaiting review
+          </Badge>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,299 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { useToast } from '@/components/ui/use-toast'
+import { BookmarkPlus, Globe, Layers, Loader2, Search, Star, Trash2 } from 'lucide-react'
+import { GenerationToolType } from '@/lib/types/generation-jobs'
+import { PresetScope, PresetSettings, StudioPreset } from '@/lib/types/presets'
+
+interface PresetPickerProps {
+  toolType: GenerationToolType
+  // The studio's current form values, for saving as a preset
+  getSettings: () => PresetSettings
+  onApply: (preset: StudioPreset) => void
+  disabled?: boolean
+  // Off for studios whose settings include the user's own files
+  allowPublic?: boolean
+}
+
+const SCOPE_TABS: Array<{ value: PresetScope, label: string }> = [
+  { value: 'mine', label: 'Mine' },
+  { value: 'featured', label: 'Featured' },
+  { value: 'public', label: 'Public' }
+]
+
+/**
+ * Preset controls for a studio: browse your own, featured and public presets
+ * and apply one to the form, or save the form as a new preset. A preset id
+ * in the ?preset= query param is applied when the studio opens.
+ */
+export default function PresetPicker({ toolType, getSettings, onApply, disabled, allowPublic = true }: PresetPickerProps) {
+  const { toast } = useToast()
+  const [isBrowseOpen, setIsBrowseOpen] = useState(false)
+  const [isSaveOpen, setIsSaveOpen] = useState(false)
+  const [scope, setScope] = useState<PresetScope>('mine')
+  const [search, setSearch] = useState('')
+  const [presets, setPresets] = useState<StudioPreset[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saveName, setSaveName] = useState('')
+  const [saveDescription, setSaveDescription] = useState('')
+  const [savePublic, setSavePublic] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  // Presets linked from elsewhere, e.g. the dashboard's featured list
+  useEffect(() => {
+    const presetId = new URLSearchParams(window.location.search).get('preset')
+    if (!presetId) return
+
+    const loadLinkedPreset = async () => {
+      try {
+        const response = await fetch(`/api/presets/${presetId}`)
+        const data = await response.json()
+        if (data.success && data.data.tool_type === toolType) {
+          applyPreset(data.data)
+        }
+      } catch (error) {
+        console.error('Error loading preset:', error)
+      }
+    }
+    loadLinkedPreset()
+  }, [toolType])
+
+  useEffect(() => {
+    if (!isBrowseOpen) return
+    const timeout = setTimeout(loadPresets, search ? 300 : 0)
+    return () => clearTimeout(timeout)
+  }, [isBrowseOpen, scope, search])
+
+  const loadPresets = async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ tool_type: toolType, scope })
+      if (search.trim()) params.append('q', search.trim())
+
+      const response = await fetch(`/api/presets?${params}`)
+      const data = await response.json()
+      if (data.success) {
+        setPresets(data.data)
+      }
+    } catch (error) {
+      console.error('Error loading presets:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const applyPreset = (preset: StudioPreset) => {
+    onApply(preset)
+    setIsBrowseOpen(false)
+    toast({
+      title: 'Preset applied',
+      description: preset.name
+    })
+
+    fetch(`/api/presets/${preset.id}/use`, { method: 'POST' })
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setPresets(previous => previous.map(item =>
+            item.id === preset.id ? { ...item, usage_count: data.data.usage_count } : item
+          ))
+        }
+      })
+      .catch(error => console.error('Error counting preset use:', error))
+  }
+
+  const handleDelete = async (preset: StudioPreset) => {
+    try {
+      const response = await fetch(`/api/presets/${preset.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to delete preset')
+      }
+      setPresets(previous => previous.filter(item => item.id !== preset.id))
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete preset',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch('/api/presets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: saveName,
+          description: saveDescription || undefined,
+          tool_type: toolType,
+          settings: getSettings(),
+          is_public: allowPublic && savePublic
+        })
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to save preset')
+      }
+
+      toast({
+        title: 'Preset saved',
+        description: `${data.data.name} is in your presets`
+      })
+      setIsSaveOpen(false)
+      setSaveName('')
+      setSaveDescription('')
+      setSavePublic(false)
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save preset',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Popover open={isBrowseOpen} onOpenChange={setIsBrowseOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            className="border-gray-600 text-gray-300 hover:bg-gray-700"
+          >
+            <Layers className="w-4 h-4 mr-2" />
+            Presets
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-96 p-0 bg-gray-800 border-gray-700" align="end">
+          <div className="p-3 space-y-3 border-b border-gray-700">
+            <Tabs value={scope} onValueChange={(value) => setScope(value as PresetScope)}>
+              <TabsList className="bg-gray-700 w-full">
+                {SCOPE_TABS.map(tab => (
+                  <TabsTrigger key={tab.value} value={tab.value} className="flex-1 data-[state=active]:bg-binary-orange">
+                    {tab.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <Input
+                placeholder="Search presets..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10 bg-gray-700 border-gray-600 text-white placeholder-gray-400 text-sm"
+              />
+            </div>
+          </div>
+          <div className="max-h-80 overflow-auto">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+              </div>
+            ) : presets.length === 0 ? (
+              <p className="text-center text-sm text-gray-400 py-8">
+                {scope === 'mine' ? 'No presets yet. Save your current settings to create one.' : 'No presets found'}
+              </p>
+            ) : (
+              presets.map(preset => (
+                <div
+                  key={preset.id}
+                  onClick={() => applyPreset(preset)}
+                  className="flex items-start px-4 py-3 border-b border-gray-700/50 hover:bg-gray-700 cursor-pointer transition-colors"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center">
+                      <p className="text-sm font-medium text-white truncate">{preset.name}</p>
+                      {preset.is_featured && <Star className="w-3 h-3 ml-2 text-binary-orange fill-binary-orange flex-shrink-0" />}
+                      {preset.is_own && preset.is_public && <Globe className="w-3 h-3 ml-2 text-gray-400 flex-shrink-0" />}
+                    </div>
+                    {preset.description && (
+                      <p className="text-xs text-gray-400 truncate mt-0.5">{preset.description}</p>
+                    )}
+                    <p className="text-[10px] text-gray-500 mt-1">
+                      {!preset.is_own && preset.creator_name ? `by ${preset.creator_name} · ` : ''}
+                      {preset.usage_count} use{preset.usage_count === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  {preset.is_own && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Delete preset"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleDelete(preset)
+                      }}
+                      className="w-6 h-6 p-0 ml-2 text-gray-400 hover:text-red-400"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Popover open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            title="Save current settings as preset"
+            className="border-gray-600 text-gray-300 hover:bg-gray-700"
+          >
+            <BookmarkPlus className="w-4 h-4 mr-2" />
+            Save as Preset
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 bg-gray-800 border-gray-700 space-y-4" align="end">
+          <p className="text-sm font-medium text-white">Save current settings as preset</p>
+          <Input
+            placeholder="e.g., Cinematic widescreen"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveName.trim() && handleSave()}
+            className="bg-gray-700 border-gray-600 text-white placeholder-gray-400"
+          />
+          <Input
+            placeholder="Description (optional)"
+            value={saveDescription}
+            onChange={(e) => setSaveDescription(e.target.value)}
+            className="bg-gray-700 border-gray-600 text-white placeholder-gray-400"
+          />
+          {allowPublic && (
+            <div className="flex items-center justify-between">
+              <label className="text-sm text-gray-300">Share publicly</label>
+              <Switch checked={savePublic} onCheckedChange={setSavePublic} />
+            </div>
+          )}
+          <Button
+            size="sm"
+            disabled={!saveName.trim() || saving}
+            onClick={handleSave}
+            className="w-full bg-binary-orange hover:bg-binary-orange/90"
+          >
+            Save Preset
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Image, Loader2, Video, Wand2 } from 'lucide-react'
+import { resolveTemplateVariables } from '@/lib/prompt-templates'
+import { Prompt, RenderPromptResponse } from '@/lib/types/asset-repository'
+
+interface PromptRenderDialogProps {
+  prompt: Prompt | null
+  onClose: () => void
+  onUsed?: () => void
+}
+
+type StudioTarget = 'image' | 'video'
+
+/**
+ * Fill in a template prompt's variables, preview the result and hand it to
+ * Image or Video Studio. Validation happens server-side so the preview
+ * matches exactly what gets sent.
+ */
+export default function PromptRenderDialog({ prompt, onClose, onUsed }: PromptRenderDialogProps) {
+  const router = useRouter()
+  const [values, setValues] = useState<Record<string, string | boolean>>({})
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [rendered, setRendered] = useState<RenderPromptResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isRendering, setIsRendering] = useState(false)
+
+  const variables = prompt ? resolveTemplateVariables(prompt) : []
+
+  // Start each prompt from its defaults
+  useEffect(() => {
+    if (!prompt) return
+    const initial: Record<string, string | boolean> = {}
+    for (const variable of resolveTemplateVariables(prompt)) {
+      if (variable.type === 'boolean') {
+        initial[variable.name] = variable.default === true || variable.default === 'true'
+      } else if (variable.default !== undefined) {
+        initial[variable.name] = String(variable.default)
+      }
+    }
+    setValues(initial)
+    setFieldErrors({})
+    setRendered(null)
+    setError(null)
+  }, [prompt])
+
+  const renderPrompt = async (trackUsage: boolean) => {
+    if (!prompt) return null
+    setIsRendering(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/prompts/${prompt.id}/render`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ values, track_usage: trackUsage })
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        setFieldErrors(data.error?.code === 'VALIDATION_ERROR' && data.error.details ? data.error.details : {})
+        setError(data.error?.message || 'Failed to render prompt')
+        setRendered(null)
+        return null
+      }
+
+      setFieldErrors({})
+      setRendered(data.data)
+      return data.data as RenderPromptResponse
+    } catch (renderError) {
+      console.error('Error rendering prompt:', renderError)
+      setError('Failed to render prompt')
+      return null
+    } finally {
+      setIsRendering(false)
+    }
+  }
+
+  const sendToStudio = async (target: StudioTarget) => {
+    const result = await renderPrompt(true)
+    if (!result) return
+
+    const query = new URLSearchParams({ prompt: result.prompt_text })
+    if (target === 'image' && result.negative_prompt) {
+      query.set('negativePrompt', result.negative_prompt)
+    }
+    onUsed?.()
+    router.push(`/${target}?${query.toString()}`)
+  }
+
+  const setValue = (name: string, value: string | boolean) => {
+    setValues(prev => ({ ...prev, [name]: value }))
+    setRendered(null)
+  }
+
+  return (
+    <Dialog open={!!prompt} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl bg-gray-800 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle>{prompt?.name}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Fill in the variables, then send the prompt to a studio.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {variables.map(variable => (
+            <div key={variable.name} className="space-y-1">
+              <Label htmlFor={`variable-${variable.name}`} className="text-white">
+                {variable.label || variable.name}
+                {variable.required !== false && variable.default === undefined && (
+                  <span className="text-red-400 ml-1">*</span>
+                )}
+              </Label>
+              {variable.type === 'enum' ? (
+                <Select
+                  value={typeof values[variable.name] === 'string' ? values[variable.name] as string : undefined}
+                  onValueChange={(value) => setValue(variable.name, value)}
+                >
+                  <SelectTrigger id={`variable-${variable.name}`} className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue placeholder="Select..." />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    {(variable.choices || []).map(choice => (
+                      <SelectItem key={choice} value={choice} className="text-white hover:bg-gray-600">
+                        {choice}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : variable.type === 'boolean' ? (
+                <div className="flex items-center h-10">
+                  <Switch
+                    id={`variable-${variable.name}`}
+                    checked={values[variable.name] === true}
+                    onCheckedChange={(checked) => setValue(variable.name, checked)}
+                  />
+                </div>
+              ) : (
+                <Input
+                  id={`variable-${variable.name}`}
+                  type={variable.type === 'number' ? 'number' : 'text'}
+                  min={variable.min}
+                  max={variable.max}
+                  value={typeof values[variable.name] === 'string' ? values[variable.name] as string : ''}
+                  onChange={(e) => setValue(variable.name, e.target.value)}
+                  className={`bg-gray-700 text-white ${fieldErrors[variable.name] ? 'border-red-500' : 'border-gray-600'}`}
+                />
+              )}
+              {variable.description && (
+                <p className="text-xs text-gray-400">{variable.description}</p>
+              )}
+              {fieldErrors[variable.name] && (
+                <p className="text-xs text-red-400">{fieldErrors[variable.name]}</p>
+              )}
+            </div>
+          ))}
+
+          {error && Object.keys(fieldErrors).length === 0 && (
+            <p className="text-sm text-red-400">{error}</p>
+          )}
+
+          {rendered && (
+            <div className="bg-gray-700 rounded-lg p-3 space-y-2">
+              <p className="text-sm text-gray-200 whitespace-pre-wrap">{rendered.prompt_text}</p>
+              {rendered.negative_prompt && (
+                <p className="text-xs text-gray-400">
+                  <span className="font-medium">Negative:</span> {rendered.negative_prompt}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => renderPrompt(false)}
+              disabled={isRendering}
+              className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+              {isRendering ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Wand2 className="w-4 h-4 mr-2" />}
+              Preview
+            </Button>
+            <Button
+              onClick={() => sendToStudio('image')}
+              disabled={isRendering}
+              className="bg-binary-orange hover:bg-binary-orange/90"
+            >
+              <Image className="w-4 h-4 mr-2" />
+              Image Studio
+            </Button>
+            <Button
+              onClick={() => sendToStudio('video')}
+              disabled={isRendering}
+              className="bg-binary-orange hover:bg-binary-orange/90"
+            >
+              <Video className="w-4 h-4 mr-2" />
+              Video Studio
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
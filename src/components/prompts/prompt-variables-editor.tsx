@@ -0,0 +1,112 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { extractTemplateVariables } from '@/lib/prompt-templates'
+import { PromptVariable, PromptVariableType } from '@/lib/types/asset-repository'
+
+interface PromptVariablesEditorProps {
+  promptText: string
+  negativePrompt?: string
+  variables: PromptVariable[]
+  onChange: (variables: PromptVariable[]) => void
+}
+
+const variableTypes: { value: PromptVariableType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'enum', label: 'Choice' },
+  { value: 'boolean', label: 'Yes / No' },
+]
+
+/**
+ * Declare a type, default and choices for each {{placeholder}} found in the
+ * prompt. Placeholders without a declaration are treated as text.
+ */
+export default function PromptVariablesEditor({
+  promptText,
+  negativePrompt,
+  variables,
+  onChange,
+}: PromptVariablesEditorProps) {
+  const placeholders = extractTemplateVariables(promptText, negativePrompt)
+
+  if (placeholders.length === 0) {
+    return (
+      <p className="text-xs text-gray-400">
+        Add variables with {'{{name}}'} or {'{{name|default}}'} to turn this prompt into a template.
+      </p>
+    )
+  }
+
+  const updateVariable = (name: string, changes: Partial<PromptVariable>) => {
+    const existing = variables.find(variable => variable.name === name) || { name, type: 'text' as const }
+    const updated = { ...existing, ...changes }
+    onChange([...variables.filter(variable => variable.name !== name), updated])
+  }
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-white">Template Variables</Label>
+      {placeholders.map(({ name, inlineDefault }) => {
+        const variable = variables.find(item => item.name === name) || { name, type: 'text' as const }
+        return (
+          <div key={name} className="grid grid-cols-12 gap-2 items-center">
+            <span className="col-span-3 text-sm text-gray-300 font-mono truncate">{name}</span>
+            <div className="col-span-3">
+              <Select
+                value={variable.type}
+                onValueChange={(value: PromptVariableType) => updateVariable(name, {
+                  type: value,
+                  default: undefined,
+                  choices: value === 'enum' ? variable.choices || (inlineDefault ? [inlineDefault] : []) : undefined,
+                })}
+              >
+                <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600">
+                  {variableTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value} className="text-white hover:bg-gray-600">
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-4">
+              {variable.type === 'enum' ? (
+                <Input
+                  key={`${name}-choices`}
+                  placeholder="Choices (comma-separated)"
+                  defaultValue={(variable.choices || []).join(', ')}
+                  onBlur={(e) => updateVariable(name, {
+                    choices: e.target.value.split(',').map(choice => choice.trim()).filter(Boolean)
+                  })}
+                  className="bg-gray-700 border-gray-600 text-white"
+                />
+              ) : (
+                <Input
+                  type={variable.type === 'number' ? 'number' : 'text'}
+                  placeholder={inlineDefault ? `Default: ${inlineDefault}` : variable.type === 'boolean' ? 'Default: true or false' : 'Default (optional)'}
+                  value={variable.default === undefined ? '' : String(variable.default)}
+                  onChange={(e) => updateVariable(name, { default: e.target.value === '' ? undefined : e.target.value })}
+                  className="bg-gray-700 border-gray-600 text-white"
+                />
+              )}
+            </div>
+            <div className="col-span-2 flex items-center space-x-2">
+              <Switch
+                checked={variable.required !== false}
+                onCheckedChange={(checked) => updateVariable(name, { required: checked ? undefined : false })}
+              />
+              <span className="text-xs text-gray-400">Required</span>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
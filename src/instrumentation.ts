@@ -0,0 +1,12 @@
+// Runs once when the Next.js server starts
+
+export async function register() {
+  // The worker needs Node APIs and a long-lived process; skip it on the edge
+  // runtime or when GENERATION_WORKER=off (e.g. a dedicated worker elsewhere)
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.GENERATION_WORKER === 'off') {
+    return
+  }
+
+  const { startGenerationWorker } = await import('@/lib/generation/worker')
+  startGenerationWorker()
+}
@@ -0,0 +1,183 @@
+// Binary Blender Asset Media Enrichment
+// Probes an asset's file after upload or generation and writes the real
+// duration, dimensions, codec, loudness, thumbnail/waveform and preview
+// frames back to the row.
+
+import { supabaseAdmin } from './supabase';
+import { MediaInfo } from './types/asset-repository';
+import { probeMedia, withLocalMedia } from './media-processing';
+import {
+  extractAudioMetadata,
+  generateAudioWaveform,
+  generateVideoPreviews,
+  generateVideoThumbnail,
+} from './storage';
+
+export interface VideoProcessingOptions {
+  thumbnailOffsetSeconds?: number;
+  previewFrameCount?: number;
+}
+
+// Defaults can be tuned per deployment
+const DEFAULT_THUMBNAIL_OFFSET_SECONDS = Number(process.env.VIDEO_THUMBNAIL_OFFSET_SECONDS) || 1;
+const DEFAULT_PREVIEW_FRAME_COUNT = Number(process.env.VIDEO_PREVIEW_FRAME_COUNT) || 6;
+
+/**
+ * Probe a video asset and update it with its metadata, a thumbnail and a
+ * preview strip. Each step is best-effort; whatever succeeded is saved.
+ * Returns false if the asset couldn't be processed at all.
+ */
+export async function processVideoAsset(
+  assetId: string,
+  options: VideoProcessingOptions = {}
+): Promise<boolean> {
+  const { data: asset, error } = await supabaseAdmin
+    .from('assets')
+    .select('id, user_id, asset_type, file_url, mime_type, file_size_bytes, media_info')
+    .eq('id', assetId)
+    .maybeSingle();
+
+  if (error || !asset?.file_url || asset.asset_type !== 'video') {
+    console.error('Video asset not found for processing:', assetId, error);
+    return false;
+  }
+
+  // Animated image stand-ins (mock provider) are already their own preview
+  if (asset.mime_type?.startsWith('image/')) {
+    return false;
+  }
+
+  const thumbnailOffset = options.thumbnailOffsetSeconds ?? DEFAULT_THUMBNAIL_OFFSET_SECONDS;
+  const frameCount = options.previewFrameCount ?? DEFAULT_PREVIEW_FRAME_COUNT;
+  let updates: Record<string, any>;
+
+  try {
+    // Download once; the thumbnail and preview helpers accept the local path
+    updates = await withLocalMedia(asset.file_url, async (filePath) => {
+      const probe = await probeMedia(filePath);
+      const probed: Record<string, any> = {};
+
+      if (probe.video) {
+        probed.dimensions = {
+          width: probe.video.width,
+          height: probe.video.height,
+          fps: probe.video.fps,
+        };
+      }
+      if (probe.durationSeconds) {
+        probed.duration_seconds = Math.round(probe.durationSeconds * 100) / 100;
+      }
+      if (probe.sizeBytes && !asset.file_size_bytes) {
+        probed.file_size_bytes = probe.sizeBytes;
+      }
+
+      const mediaInfo: MediaInfo = {
+        ...asset.media_info,
+        codec: probe.video?.codec,
+        format: probe.format,
+        bit_rate: probe.bitRate,
+        audio_codec: probe.audio?.codec,
+      };
+
+      try {
+        probed.thumbnail_url = await generateVideoThumbnail(filePath, asset.user_id, asset.id, thumbnailOffset);
+      } catch (thumbnailError) {
+        console.error('Error generating thumbnail for video asset:', thumbnailError);
+      }
+
+      if (frameCount > 0) {
+        try {
+          const previews = await generateVideoPreviews(filePath, asset.user_id, asset.id, frameCount);
+          probed.preview_urls = previews.frameUrls;
+          mediaInfo.preview_strip_url = previews.stripUrl;
+        } catch (previewError) {
+          console.error('Error generating previews for video asset:', previewError);
+        }
+      }
+
+      probed.media_info = mediaInfo;
+      return probed;
+    });
+  } catch (probeError) {
+    console.error('Error probing video asset:', probeError);
+    return false;
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('assets')
+    .update(updates)
+    .eq('id', asset.id);
+
+  if (updateError) {
+    console.error('Error saving video metadata:', updateError);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Probe an audio asset for duration, sample rate, channels and loudness and
+ * give it a waveform thumbnail. Returns the saved fields, or null if the
+ * file couldn't be decoded.
+ */
+export async function processAudioAsset(assetId: string): Promise<Record<string, any> | null> {
+  const { data: asset, error } = await supabaseAdmin
+    .from('assets')
+    .select('id, user_id, asset_type, file_url, file_size_bytes, media_info')
+    .eq('id', assetId)
+    .maybeSingle();
+
+  if (error || !asset?.file_url || asset.asset_type !== 'audio') {
+    console.error('Audio asset not found for processing:', assetId, error);
+    return null;
+  }
+
+  let updates: Record<string, any>;
+
+  try {
+    updates = await withLocalMedia(asset.file_url, async (filePath) => {
+      const metadata = await extractAudioMetadata(filePath);
+      const probed: Record<string, any> = {
+        mime_type: metadata.type,
+        media_info: {
+          ...asset.media_info,
+          audio_codec: metadata.codec,
+          sample_rate: metadata.sampleRate,
+          channels: metadata.channels,
+          loudness_lufs: metadata.loudnessLufs,
+        } as MediaInfo,
+      };
+
+      if (metadata.duration) {
+        probed.duration_seconds = Math.round(metadata.duration * 100) / 100;
+      }
+      if (metadata.size && !asset.file_size_bytes) {
+        probed.file_size_bytes = metadata.size;
+      }
+
+      try {
+        probed.thumbnail_url = await generateAudioWaveform(filePath, asset.user_id, asset.id);
+      } catch (waveformError) {
+        console.error('Error generating waveform for audio asset:', waveformError);
+      }
+
+      return probed;
+    });
+  } catch (probeError) {
+    console.error('Error probing audio asset:', probeError);
+    return null;
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('assets')
+    .update(updates)
+    .eq('id', asset.id);
+
+  if (updateError) {
+    console.error('Error saving audio metadata:', updateError);
+    return null;
+  }
+
+  return updates;
+}
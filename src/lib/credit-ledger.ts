@@ -0,0 +1,307 @@
+// Binary Blender Credit Ledger
+// The read side of credit metering: balance and lifetime totals, the
+// paginated transaction ledger and its CSV export for reconciliation, and
+// credit spend over time broken down by tool, model and project.
+
+import { supabaseAdmin } from './supabase';
+import { embeddedRow } from './utils';
+import { getCreditBalance } from './credits';
+import {
+  CreditLedgerEntry,
+  CreditSummary,
+  CreditTransactionType,
+  CreditUsageBreakdown,
+  CreditUsageDimension,
+  CreditUsageInterval,
+  CreditUsagePoint,
+  CreditUsageReport,
+} from './types/credits';
+import { GenerationToolType } from './types/generation-jobs';
+
+export const CREDIT_TRANSACTION_TYPES: CreditTransactionType[] = ['purchase', 'usage', 'refund', 'bonus', 'monthly_allocation'];
+export const CREDIT_USAGE_INTERVALS: CreditUsageInterval[] = ['day', 'week', 'month'];
+
+// Rows per request when reading a whole ledger; responses are capped
+const LEDGER_CHUNK_SIZE = 1000;
+
+// Largest ledger exported in one file
+export const MAX_EXPORT_ROWS = 50000;
+
+// Transactions with the generation they paid for, if any
+const LEDGER_COLUMNS = 'id, amount, transaction_type, description, generation_id, created_at, generation:generations(tool_type, project_id, provider, model:input_data->>model)';
+
+const TOOL_LABELS: Record<GenerationToolType, string> = {
+  image: 'Image',
+  video: 'Video',
+  lipsync: 'Lip Sync',
+};
+
+export interface CreditLedgerFilters {
+  type?: CreditTransactionType;
+  from?: string; // Inclusive
+  to?: string; // Exclusive
+}
+
+// ============================================================================
+// Balance
+// ============================================================================
+
+export async function getCreditSummary(userId: string): Promise<CreditSummary> {
+  const [balance, { data, error }] = await Promise.all([
+    getCreditBalance(userId),
+    supabaseAdmin.rpc('get_credit_totals', { user_uuid: userId }),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch credit totals: ${error.message}`);
+  }
+
+  const totals = Object.fromEntries(
+    CREDIT_TRANSACTION_TYPES.map(type => [type, { total: 0, transactions: 0 }])
+  ) as CreditSummary['totals'];
+  for (const row of (data || []) as Array<{ transaction_type: CreditTransactionType; total: number; transactions: number }>) {
+    totals[row.transaction_type] = { total: Number(row.total), transactions: Number(row.transactions) };
+  }
+
+  return { balance, totals };
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+function ledgerQuery(userId: string, filters: CreditLedgerFilters) {
+  let query = supabaseAdmin
+    .from('credit_transactions')
+    .select(LEDGER_COLUMNS, { count: 'exact' })
+    .eq('user_id', userId);
+
+  if (filters.type) {
+    query = query.eq('transaction_type', filters.type);
+  }
+
+  if (filters.from) {
+    query = query.gte('created_at', filters.from);
+  }
+
+  if (filters.to) {
+    query = query.lt('created_at', filters.to);
+  }
+
+  return query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+}
+
+function toLedgerEntry(row: any): CreditLedgerEntry {
+  const generation = embeddedRow(row.generation);
+  return {
+    id: row.id,
+    amount: row.amount,
+    transaction_type: row.transaction_type,
+    description: row.description,
+    generation_id: row.generation_id,
+    tool_type: generation?.tool_type || null,
+    model: generation ? generation.model || generation.provider || null : null,
+    project_id: generation?.project_id || null,
+    created_at: row.created_at,
+  };
+}
+
+export async function listCreditTransactions(
+  userId: string,
+  filters: CreditLedgerFilters,
+  page: number,
+  limit: number
+): Promise<{ entries: CreditLedgerEntry[]; total: number }> {
+  const offset = (page - 1) * limit;
+  const { data, error, count } = await ledgerQuery(userId, filters).range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch credit transactions: ${error.message}`);
+  }
+
+  return { entries: (data || []).map(toLedgerEntry), total: count || 0 };
+}
+
+/**
+ * Every transaction matching the filters, newest first, up to
+ * MAX_EXPORT_ROWS. truncated is set when there were more.
+ */
+export async function exportCreditTransactions(
+  userId: string,
+  filters: CreditLedgerFilters
+): Promise<{ entries: CreditLedgerEntry[]; truncated: boolean }> {
+  const entries: CreditLedgerEntry[] = [];
+
+  while (entries.length < MAX_EXPORT_ROWS) {
+    const { data, error, count } = await ledgerQuery(userId, filters)
+      .range(entries.length, entries.length + LEDGER_CHUNK_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to export credit transactions: ${error.message}`);
+    }
+
+    entries.push(...(data || []).map(toLedgerEntry));
+    if (!data?.length || entries.length >= (count || 0)) {
+      return { entries, truncated: false };
+    }
+  }
+
+  return { entries: entries.slice(0, MAX_EXPORT_ROWS), truncated: true };
+}
+
+// Quote fields that need it, and keep spreadsheets from running text that
+// looks like a formula
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function creditLedgerToCsv(entries: CreditLedgerEntry[]): string {
+  const header = ['created_at', 'transaction_id', 'transaction_type', 'amount', 'description', 'generation_id', 'tool_type', 'model', 'project_id'];
+  const rows = entries.map(entry => [
+    entry.created_at,
+    entry.id,
+    entry.transaction_type,
+    entry.amount,
+    entry.description,
+    entry.generation_id,
+    entry.tool_type,
+    entry.model,
+    entry.project_id,
+  ].map(csvField).join(','));
+
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// Usage Analytics
+// ============================================================================
+
+// The start of the period a date falls in (UTC; weeks start on Monday)
+function periodStart(date: Date, interval: CreditUsageInterval): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (interval === 'week') start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  if (interval === 'month') start.setUTCDate(1);
+  return start;
+}
+
+function nextPeriod(date: Date, interval: CreditUsageInterval): Date {
+  const next = new Date(date);
+  if (interval === 'month') next.setUTCMonth(next.getUTCMonth() + 1);
+  else next.setUTCDate(next.getUTCDate() + (interval === 'week' ? 7 : 1));
+  return next;
+}
+
+function sortedBreakdown(
+  totals: Map<string, { credits: number; generations: number }>,
+  label: (key: string) => string
+): CreditUsageBreakdown[] {
+  return Array.from(totals.entries())
+    .map(([key, total]) => ({ key, label: label(key), ...total }))
+    .sort((a, b) => b.credits - a.credits || a.label.localeCompare(b.label));
+}
+
+/**
+ * Credits spent on generations between from and to, per period and broken
+ * down by tool, model and project. Uses each generation's settled cost.
+ */
+export async function getCreditUsageReport(
+  userId: string,
+  from: Date,
+  to: Date,
+  interval: CreditUsageInterval
+): Promise<CreditUsageReport> {
+  const { data, error } = await supabaseAdmin.rpc('get_credit_usage', {
+    user_uuid: userId,
+    from_time: from.toISOString(),
+    to_time: to.toISOString(),
+    bucket: interval,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch credit usage: ${error.message}`);
+  }
+
+  const rows = (data || []) as Array<{
+    period_start: string;
+    tool_type: GenerationToolType;
+    model: string;
+    project_id: string | null;
+    credits: number;
+    generations: number;
+  }>;
+
+  // Every period in range, so gaps show as empty rather than missing
+  const timeline = new Map<string, CreditUsagePoint>();
+  for (let period = periodStart(from, interval); period < to; period = nextPeriod(period, interval)) {
+    const key = period.toISOString().slice(0, 10);
+    timeline.set(key, { period_start: key, credits: 0, by: { tool: {}, model: {}, project: {} } });
+  }
+
+  const totals: Record<CreditUsageDimension, Map<string, { credits: number; generations: number }>> = {
+    tool: new Map(),
+    model: new Map(),
+    project: new Map(),
+  };
+  let credits = 0;
+  let generations = 0;
+
+  for (const row of rows) {
+    const rowCredits = Number(row.credits);
+    const rowGenerations = Number(row.generations);
+    const keys: Record<CreditUsageDimension, string> = {
+      tool: row.tool_type,
+      model: row.model,
+      project: row.project_id || 'none',
+    };
+
+    const point = timeline.get(row.period_start);
+    if (point) {
+      point.credits += rowCredits;
+    }
+
+    for (const dimension of Object.keys(keys) as CreditUsageDimension[]) {
+      const key = keys[dimension];
+      if (point) {
+        point.by[dimension][key] = (point.by[dimension][key] || 0) + rowCredits;
+      }
+      const total = totals[dimension].get(key) || { credits: 0, generations: 0 };
+      totals[dimension].set(key, { credits: total.credits + rowCredits, generations: total.generations + rowGenerations });
+    }
+
+    credits += rowCredits;
+    generations += rowGenerations;
+  }
+
+  const projectIds = Array.from(totals.project.keys()).filter(key => key !== 'none');
+  const projectNames = new Map<string, string>();
+  if (projectIds.length > 0) {
+    const { data: projects } = await supabaseAdmin
+      .from('projects')
+      .select('id, name')
+      .in('id', projectIds);
+    for (const project of projects || []) {
+      projectNames.set(project.id, project.name);
+    }
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    interval,
+    credits,
+    generations,
+    timeline: Array.from(timeline.values()),
+    breakdowns: {
+      tool: sortedBreakdown(totals.tool, key => TOOL_LABELS[key as GenerationToolType] || key),
+      model: sortedBreakdown(totals.model, key => key),
+      project: sortedBreakdown(totals.project, key =>
+        key === 'none' ? 'No project' : projectNames.get(key) || 'Deleted project'
+      ),
+    },
+  };
+}
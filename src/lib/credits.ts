@@ -0,0 +1,159 @@
+// Binary Blender Credit Metering
+// Reserves credits before a provider call and settles or refunds them once
+// the generation finishes. Every movement is a credit_transactions row
+// linked to the generation it paid for.
+
+import { supabaseAdmin } from './supabase';
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class InsufficientCreditsError extends Error {
+  readonly code = 'INSUFFICIENT_CREDITS' as const;
+
+  constructor(
+    public readonly required: number,
+    public readonly balance: number
+  ) {
+    super(`Insufficient credits: ${required} required, ${balance} available`);
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+// ============================================================================
+// Balance
+// ============================================================================
+
+export async function getCreditBalance(userId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('get_user_credit_balance', {
+    user_uuid: userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch credit balance: ${error.message}`);
+  }
+
+  return data ?? 0;
+}
+
+// ============================================================================
+// Reservation Lifecycle
+// ============================================================================
+
+export interface CreditReservation {
+  userId: string;
+  generationId: string;
+  amount: number;
+}
+
+/**
+ * Charge the estimated cost up front. Throws InsufficientCreditsError if the
+ * balance can't cover it.
+ */
+export async function reserveCredits(
+  userId: string,
+  generationId: string,
+  amount: number,
+  description: string = 'AI Generation'
+): Promise<CreditReservation> {
+  const reservation = { userId, generationId, amount: Math.max(0, Math.ceil(amount)) };
+
+  if (reservation.amount === 0) {
+    return reservation;
+  }
+
+  const { data: deducted, error } = await supabaseAdmin.rpc('deduct_credits', {
+    user_uuid: userId,
+    credit_amount: reservation.amount,
+    gen_id: generationId,
+    description_text: description,
+  });
+
+  if (error) {
+    throw new Error(`Failed to reserve credits: ${error.message}`);
+  }
+
+  if (!deducted) {
+    const balance = await getCreditBalance(userId);
+    throw new InsufficientCreditsError(reservation.amount, balance);
+  }
+
+  await supabaseAdmin
+    .from('generations')
+    .update({ credits_used: reservation.amount })
+    .eq('id', generationId);
+
+  return reservation;
+}
+
+/**
+ * Finalize a reservation once the job has completed. If the actual cost
+ * differs from the reserved amount the difference is charged or refunded.
+ */
+export async function settleCredits(
+  reservation: CreditReservation,
+  actualAmount: number = reservation.amount
+): Promise<number> {
+  const actual = Math.max(0, Math.ceil(actualAmount));
+  const difference = actual - reservation.amount;
+
+  if (difference < 0) {
+    await refundCredits(reservation, 'Unused reserved credits', -difference);
+  } else if (difference > 0) {
+    const { data: deducted, error } = await supabaseAdmin.rpc('deduct_credits', {
+      user_uuid: reservation.userId,
+      credit_amount: difference,
+      gen_id: reservation.generationId,
+      description_text: 'Additional usage on settlement',
+    });
+
+    if (error || !deducted) {
+      // The work is already done; record what we could charge and move on
+      console.error('Failed to charge settlement difference:', error || 'insufficient balance');
+      return reservation.amount;
+    }
+  }
+
+  await supabaseAdmin
+    .from('generations')
+    .update({ credits_used: actual })
+    .eq('id', reservation.generationId);
+
+  return actual;
+}
+
+/**
+ * Return reserved credits to the user, e.g. when the provider call fails.
+ * Safe to call more than once for the same generation.
+ */
+export async function refundCredits(
+  reservation: CreditReservation,
+  reason: string = 'Generation failed',
+  amount: number = reservation.amount
+): Promise<number> {
+  if (amount <= 0) {
+    return 0;
+  }
+
+  const { data: refunded, error } = await supabaseAdmin.rpc('refund_credits', {
+    user_uuid: reservation.userId,
+    gen_id: reservation.generationId,
+    credit_amount: Math.ceil(amount),
+    description_text: reason,
+  });
+
+  if (error) {
+    console.error('Failed to refund credits:', error);
+    return 0;
+  }
+
+  if (amount >= reservation.amount) {
+    await supabaseAdmin
+      .from('generations')
+      .update({ credits_used: 0 })
+      .eq('id', reservation.generationId);
+  }
+
+  return refunded ?? 0;
+}
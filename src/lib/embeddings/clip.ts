@@ -0,0 +1,53 @@
+// Binary Blender CLIP Image Embeddings
+// Runs CLIP's vision tower in-process on the CPU. Images that look alike
+// (subject, composition, style) land close together, which catches
+// variations a perceptual hash misses. Shares the model directory and cache
+// settings of the local text model.
+
+import type { CLIPVisionModelWithProjection, Processor } from '@huggingface/transformers';
+import { ImageEmbeddingProvider } from './types';
+import { loadTransformers } from './local';
+
+// 512-dimensional output, matching IMAGE_EMBEDDING_DIMENSIONS
+const DEFAULT_CLIP_MODEL = 'Xenova/clip-vit-base-patch32';
+
+interface ClipModel {
+  processor: Processor;
+  vision: CLIPVisionModelWithProjection;
+}
+
+let clip: Promise<ClipModel> | null = null;
+
+function loadClip(model: string): Promise<ClipModel> {
+  if (!clip) {
+    clip = loadTransformers().then(async ({ AutoProcessor, CLIPVisionModelWithProjection }) => ({
+      processor: await AutoProcessor.from_pretrained(model),
+      vision: await CLIPVisionModelWithProjection.from_pretrained(model, { dtype: 'q8' }),
+    }));
+
+    // Let a later call try again rather than caching the failure
+    clip.catch(() => {
+      clip = null;
+    });
+  }
+
+  return clip;
+}
+
+export function createClipImageEmbeddingProvider(model: string = process.env.IMAGE_EMBEDDING_MODEL || DEFAULT_CLIP_MODEL): ImageEmbeddingProvider {
+  return {
+    id: `clip:${model}`,
+
+    async embedImage(image) {
+      const [{ processor, vision }, { RawImage }] = await Promise.all([loadClip(model), loadTransformers()]);
+
+      const raw = await RawImage.fromBlob(new Blob([new Uint8Array(image)]));
+      const inputs = await processor(raw);
+      const { image_embeds } = await vision(inputs);
+
+      const vector = Array.from(image_embeds.data as Float32Array);
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    },
+  };
+}
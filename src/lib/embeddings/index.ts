@@ -0,0 +1,43 @@
+// Binary Blender Embeddings
+// Registry of embedding backends for semantic search. Set
+// EMBEDDING_PROVIDER=openai to use OpenAI's API (needs OPENAI_API_KEY),
+// local (the default) to run a small model on the CPU, or none to turn
+// semantic search off. Switching providers re-indexes everything under the
+// new provider's id; the old vectors are simply no longer queried.
+// Visual similarity uses a local CLIP model unless IMAGE_EMBEDDING_PROVIDER
+// is none, in which case it falls back to perceptual hashes alone.
+
+import { EmbeddingProvider, ImageEmbeddingProvider } from './types';
+import { createLocalEmbeddingProvider } from './local';
+import { createOpenAIEmbeddingProvider } from './openai';
+import { createClipImageEmbeddingProvider } from './clip';
+
+let provider: EmbeddingProvider | null | undefined;
+let imageProvider: ImageEmbeddingProvider | null | undefined;
+
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (provider === undefined) {
+    switch (process.env.EMBEDDING_PROVIDER || 'local') {
+      case 'local': provider = createLocalEmbeddingProvider(); break;
+      case 'openai': provider = createOpenAIEmbeddingProvider(); break;
+      default: provider = null;
+    }
+  }
+
+  return provider;
+}
+
+export function getImageEmbeddingProvider(): ImageEmbeddingProvider | null {
+  if (imageProvider === undefined) {
+    imageProvider = (process.env.IMAGE_EMBEDDING_PROVIDER || 'local') === 'local'
+      ? createClipImageEmbeddingProvider()
+      : null;
+  }
+
+  return imageProvider;
+}
+
+export * from './types';
+export { createLocalEmbeddingProvider } from './local';
+export { createOpenAIEmbeddingProvider } from './openai';
+export { createClipImageEmbeddingProvider } from './clip';
@@ -0,0 +1,78 @@
+// Binary Blender Local Embeddings
+// Runs a small sentence-transformer in-process on the CPU via
+// @huggingface/transformers, so semantic search works without any external
+// API. The model is downloaded from the Hugging Face hub on first use and
+// cached; for fully offline hosts, put the model files under
+// EMBEDDING_MODEL_DIR (e.g. EMBEDDING_MODEL_DIR/Xenova/all-MiniLM-L6-v2)
+// and remote downloads are turned off.
+
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { EmbeddingProvider } from './types';
+
+// 384-dimensional output, matching EMBEDDING_DIMENSIONS. An override must
+// produce the same size
+const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+// Texts per forward pass; keeps peak memory flat on small machines
+const LOCAL_BATCH_SIZE = 16;
+
+let transformers: Promise<typeof import('@huggingface/transformers')> | null = null;
+let extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+/**
+ * Import @huggingface/transformers, pointed at EMBEDDING_MODEL_DIR and
+ * EMBEDDING_CACHE_DIR when they're set. Shared with the image model.
+ */
+export function loadTransformers(): Promise<typeof import('@huggingface/transformers')> {
+  if (!transformers) {
+    transformers = import('@huggingface/transformers').then(module => {
+      if (process.env.EMBEDDING_MODEL_DIR) {
+        module.env.localModelPath = process.env.EMBEDDING_MODEL_DIR;
+        module.env.allowRemoteModels = false;
+      }
+      if (process.env.EMBEDDING_CACHE_DIR) {
+        module.env.cacheDir = process.env.EMBEDDING_CACHE_DIR;
+      }
+      return module;
+    });
+  }
+
+  return transformers;
+}
+
+function loadExtractor(model: string): Promise<FeatureExtractionPipeline> {
+  if (!extractor) {
+    extractor = loadTransformers().then(({ pipeline }) =>
+      // The 8-bit quantized weights are a fraction of the size and plenty accurate for search
+      pipeline<'feature-extraction'>('feature-extraction', model, { dtype: 'q8' })
+    );
+
+    // Let a later call try again rather than caching the failure
+    extractor.catch(() => {
+      extractor = null;
+    });
+  }
+
+  return extractor;
+}
+
+export function createLocalEmbeddingProvider(model: string = process.env.EMBEDDING_LOCAL_MODEL || DEFAULT_LOCAL_MODEL): EmbeddingProvider {
+  return {
+    id: `local:${model}`,
+
+    async embed(texts) {
+      const extract = await loadExtractor(model);
+      const vectors: number[][] = [];
+
+      for (let start = 0; start < texts.length; start += LOCAL_BATCH_SIZE) {
+        const output = await extract(texts.slice(start, start + LOCAL_BATCH_SIZE), {
+          pooling: 'mean',
+          normalize: true,
+        });
+        vectors.push(...(output.tolist() as number[][]));
+      }
+
+      return vectors;
+    },
+  };
+}
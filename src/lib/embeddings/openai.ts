@@ -0,0 +1,51 @@
+// Binary Blender OpenAI Embeddings
+// Hosted alternative to the local model. text-embedding-3 models can
+// shorten their output, so vectors are requested at EMBEDDING_DIMENSIONS.
+
+import { EMBEDDING_DIMENSIONS, EmbeddingProvider } from './types';
+
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+
+// The API accepts up to 2048 inputs per request; stay well below it
+const OPENAI_BATCH_SIZE = 256;
+
+export function createOpenAIEmbeddingProvider(model: string = process.env.EMBEDDING_OPENAI_MODEL || DEFAULT_OPENAI_MODEL): EmbeddingProvider {
+  return {
+    id: `openai:${model}`,
+
+    async embed(texts) {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY is required for EMBEDDING_PROVIDER=openai');
+      }
+
+      const vectors: number[][] = [];
+      for (let start = 0; start < texts.length; start += OPENAI_BATCH_SIZE) {
+        const response = await fetch(OPENAI_EMBEDDINGS_URL, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model,
+            input: texts.slice(start, start + OPENAI_BATCH_SIZE),
+            dimensions: EMBEDDING_DIMENSIONS,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`OpenAI embeddings responded ${response.status}: ${await response.text()}`);
+        }
+
+        const result = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+        vectors.push(...result.data
+          .sort((a, b) => a.index - b.index)
+          .map(item => item.embedding));
+      }
+
+      return vectors;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+// Binary Blender Embedding Provider Types
+// Contracts the text and image embedding backends implement. Vectors from
+// different models live in different spaces, so each is stored and queried
+// under its provider's id and never compared with another's.
+
+// Every backend produces vectors of this size so they fit the same
+// search_embeddings column (see sql/semantic-search.sql)
+export const EMBEDDING_DIMENSIONS = 384;
+
+export interface EmbeddingProvider {
+  // Stored with each vector, e.g. "local:Xenova/all-MiniLM-L6-v2"
+  id: string;
+  /**
+   * Embed texts into unit-length vectors of EMBEDDING_DIMENSIONS, in the
+   * same order as the input.
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Image vectors are compared only with other image vectors, so they have
+// their own size (see sql/visual-similarity.sql)
+export const IMAGE_EMBEDDING_DIMENSIONS = 512;
+
+export interface ImageEmbeddingProvider {
+  id: string;
+  /**
+   * Embed an encoded image (PNG, JPEG, WebP...) into a unit-length vector
+   * of IMAGE_EMBEDDING_DIMENSIONS.
+   */
+  embedImage(image: Buffer): Promise<number[]>;
+}
@@ -0,0 +1,611 @@
+// Binary Blender Generation Assets
+// Saves finished generation outputs into the Asset Repository and copies
+// the files to S3 so they outlive the provider's temporary URLs.
+
+import { supabaseAdmin, Generation } from '../supabase';
+import { uploadUrlToS3, generateAssetKey } from '../s3-upload';
+import { processAudioAsset, processVideoAsset } from '../asset-media';
+import { indexAssetVisuals } from '../search/visual';
+import { isStorageUrl } from '../media-sources';
+import { getImageDimensions, resolveAspectRatio, resolveImageModel } from './providers';
+
+// Helper function to extract tags from prompt
+export function extractTagsFromPrompt(prompt: string): string[] {
+  const commonWords = new Set(['a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'can']);
+
+  return prompt
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ') // Remove punctuation
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !commonWords.has(word))
+    .slice(0, 8); // Limit to 8 tags
+}
+
+/**
+ * Raised when a finished generation's outputs can no longer be fetched,
+ * usually because the provider's temporary URLs have expired.
+ */
+export class GenerationOutputUnavailableError extends Error {
+  readonly code = 'OUTPUT_UNAVAILABLE' as const;
+
+  constructor(message: string = "This generation's outputs are no longer available from the provider") {
+    super(message);
+    this.name = 'GenerationOutputUnavailableError';
+  }
+}
+
+export interface GenerationOutput {
+  outputUrls: string[];
+  creditsUsed: number;
+  processingTimeSeconds?: number;
+  outputDurationSeconds?: number;
+}
+
+type InputRole = 'image' | 'audio';
+
+interface InputRef {
+  role: InputRole;
+  url?: string;
+  assetId?: string;
+}
+
+// Fallback MIME types when the URL doesn't say
+const DEFAULT_MIME_TYPES: Record<InputRole | 'video', string> = {
+  image: 'image/png',
+  audio: 'audio/mpeg',
+  video: 'video/mp4',
+};
+
+function guessMimeType(url: string, kind: InputRole | 'video'): string {
+  if (url.startsWith('data:')) {
+    return url.slice(5).split(/[;,]/)[0] || DEFAULT_MIME_TYPES[kind];
+  }
+
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'webp':
+      return 'image/webp';
+    case 'gif':
+      return 'image/gif';
+    case 'mov':
+      return 'video/quicktime';
+    case 'wav':
+      return 'audio/wav';
+    case 'm4a':
+      return 'audio/mp4';
+    default:
+      return DEFAULT_MIME_TYPES[kind];
+  }
+}
+
+/**
+ * Copy an asset's file to S3 and point the asset at the copy. Returns the
+ * S3 URL, or null if the copy failed (the provider URL is kept).
+ */
+async function copyAssetToS3(
+  userId: string,
+  assetId: string,
+  sourceUrl: string,
+  contentType: string
+): Promise<string | null> {
+  // Already stored (outputs saved after the fact are copied up front)
+  if (isStorageUrl(sourceUrl)) {
+    return sourceUrl;
+  }
+
+  try {
+    const key = generateAssetKey(userId, assetId, 'file', sourceUrl);
+    const uploadResult = await uploadUrlToS3(sourceUrl, key, contentType);
+
+    if (!uploadResult.success || !uploadResult.url) {
+      console.error('Failed to upload asset to S3:', uploadResult.error);
+      return null;
+    }
+
+    // Images double as their own thumbnail; video thumbnails are generated separately
+    const { error } = await supabaseAdmin
+      .from('assets')
+      .update({
+        file_url: uploadResult.url,
+        file_size_bytes: uploadResult.size ?? null,
+        ...(contentType.startsWith('image/') ? { thumbnail_url: uploadResult.url } : {}),
+      })
+      .eq('id', assetId);
+
+    if (error) {
+      console.error('Error updating asset with S3 URLs:', error);
+    }
+
+    return uploadResult.url;
+  } catch (s3Error) {
+    // Don't fail the generation if S3 upload fails
+    console.error('Error uploading to S3:', s3Error);
+    return null;
+  }
+}
+
+// ============================================================================
+// Input Lineage
+// ============================================================================
+
+/**
+ * Find the asset a job input came from: the asset id the client sent, else
+ * one of the user's assets with the same file URL. Inputs that were uploaded
+ * or pasted directly are registered as assets so the lineage is kept.
+ */
+async function resolveInputAsset(job: Generation, input: InputRef): Promise<string | null> {
+  if (input.assetId) {
+    const { data } = await supabaseAdmin
+      .from('assets')
+      .select('id')
+      .eq('id', input.assetId)
+      .eq('user_id', job.user_id)
+      .maybeSingle();
+
+    if (data) {
+      return data.id;
+    }
+  }
+
+  if (!input.url) {
+    return null;
+  }
+
+  if (!input.url.startsWith('data:')) {
+    const { data } = await supabaseAdmin
+      .from('assets')
+      .select('id')
+      .eq('user_id', job.user_id)
+      .eq('file_url', input.url)
+      .eq('status', 'active')
+      .limit(1)
+      .maybeSingle();
+
+    if (data) {
+      return data.id;
+    }
+  }
+
+  // Registered by an earlier attempt at finalizing this job; its file_url
+  // now points at the S3 copy
+  const { data: registered } = await supabaseAdmin
+    .from('assets')
+    .select('id')
+    .eq('user_id', job.user_id)
+    .eq('asset_type', input.role)
+    .eq('generation_params->>uploaded_for_generation_id', job.id)
+    .limit(1)
+    .maybeSingle();
+
+  if (registered) {
+    return registered.id;
+  }
+
+  const mimeType = guessMimeType(input.url, input.role);
+  const { data: asset, error } = await supabaseAdmin
+    .from('assets')
+    .insert({
+      user_id: job.user_id,
+      project_id: job.project_id,
+      asset_type: input.role,
+      source_app: job.tool_type === 'lipsync' ? 'lipsync' : 'video_studio',
+      source_tool: 'upload',
+      // Data URLs are too large to store; the S3 copy fills this in
+      file_url: input.url.startsWith('data:') ? null : input.url,
+      thumbnail_url: input.role === 'image' && !input.url.startsWith('data:') ? input.url : null,
+      generation_params: { uploaded_for_generation_id: job.id },
+      mime_type: mimeType,
+      credits_used: 0,
+      name: `${input.role === 'image' ? 'Input image' : 'Input audio'} (${new Date().toLocaleDateString()})`,
+      status: 'active',
+    })
+    .select('id')
+    .single();
+
+  if (error || !asset) {
+    console.error('Error registering input asset:', error);
+    return null;
+  }
+
+  // Only inline data is copied; a pasted URL stays a reference, since the
+  // server doesn't fetch hosts the user picked
+  if (input.url.startsWith('data:')) {
+    const copied = await copyAssetToS3(job.user_id, asset.id, input.url, mimeType);
+    if (copied && input.role === 'audio') {
+      await processAudioAsset(asset.id);
+    }
+  }
+  return asset.id;
+}
+
+async function resolveInputAssets(job: Generation, inputs: InputRef[]): Promise<Map<InputRole, string>> {
+  const resolved = new Map<InputRole, string>();
+
+  for (const input of inputs) {
+    if (!input.url && !input.assetId) {
+      continue;
+    }
+
+    const assetId = await resolveInputAsset(job, input);
+    if (assetId) {
+      resolved.set(input.role, assetId);
+    }
+  }
+
+  return resolved;
+}
+
+async function linkInputAssets(childAssetId: string, parents: Map<InputRole, string>): Promise<void> {
+  if (parents.size === 0) {
+    return;
+  }
+
+  const relationships = Array.from(parents.entries()).map(([role, parentId]) => ({
+    parent_asset_id: parentId,
+    child_asset_id: childAssetId,
+    relationship_type: 'input',
+    notes: `${role} input`,
+  }));
+
+  const { error } = await supabaseAdmin
+    .from('asset_relationships')
+    .insert(relationships);
+
+  if (error) {
+    console.error('Error creating asset relationships:', error);
+  }
+}
+
+/**
+ * Link an image to the other outputs of its batch as variations. Always
+ * written from the lower to the higher batch index so two jobs finishing at
+ * once converge on the same rows.
+ */
+async function linkBatchVariations(userId: string, batchId: string, assetId: string): Promise<void> {
+  const { data: siblings, error } = await supabaseAdmin
+    .from('assets')
+    .select('id, generation_params')
+    .eq('user_id', userId)
+    .eq('generation_params->>batch_id', batchId);
+
+  if (error || !siblings) {
+    console.error('Error loading batch siblings:', error);
+    return;
+  }
+
+  const current = siblings.find(sibling => sibling.id === assetId);
+  const currentIndex = current?.generation_params?.batch_index ?? 0;
+
+  const relationships = siblings
+    .filter(sibling => sibling.id !== assetId)
+    .map(sibling => {
+      const siblingFirst = (sibling.generation_params?.batch_index ?? 0) < currentIndex;
+      return {
+        parent_asset_id: siblingFirst ? sibling.id : assetId,
+        child_asset_id: siblingFirst ? assetId : sibling.id,
+        relationship_type: 'variation',
+        notes: `Batch ${batchId}`,
+      };
+    });
+
+  if (relationships.length === 0) {
+    return;
+  }
+
+  const { error: linkError } = await supabaseAdmin
+    .from('asset_relationships')
+    .upsert(relationships, {
+      onConflict: 'parent_asset_id,child_asset_id,relationship_type',
+      ignoreDuplicates: true,
+    });
+
+  if (linkError) {
+    console.error('Error linking batch variations:', linkError);
+  }
+}
+
+// ============================================================================
+// Savers
+// ============================================================================
+
+/**
+ * Insert one output of a generation as an asset. Outputs are unique per
+ * (generation_id, output_index), so when a job is finalized again after
+ * losing its lease the asset saved the first time is returned instead, with
+ * created false and nothing left to do for it.
+ */
+async function insertOutputAsset(
+  job: Generation,
+  index: number,
+  asset: Record<string, any>
+): Promise<{ id: string; created: boolean } | null> {
+  const { data, error } = await supabaseAdmin
+    .from('assets')
+    .insert({ ...asset, generation_id: job.id, output_index: index })
+    .select('id')
+    .single();
+
+  if (data) {
+    return { id: data.id, created: true };
+  }
+
+  if (error?.code === '23505') {
+    const { data: existing } = await supabaseAdmin
+      .from('assets')
+      .select('id')
+      .eq('generation_id', job.id)
+      .eq('output_index', index)
+      .maybeSingle();
+
+    if (existing) {
+      return { id: existing.id, created: false };
+    }
+  }
+
+  console.error('Error saving asset to repository:', error);
+  return null;
+}
+
+async function saveImageAssets(job: Generation, output: GenerationOutput): Promise<string[]> {
+  const { outputUrls, creditsUsed, processingTimeSeconds } = output;
+  const { prompt, model } = job.input_data;
+  const aspectRatio = resolveAspectRatio(job.input_data.aspectRatio);
+  const providerInput = job.metadata?.providerInput || {};
+  const batchId: string | undefined = job.metadata?.batchId;
+  const assetIds: string[] = [];
+
+  // Only the first output carries the charge so per-asset totals add up
+  for (const [index, imageUrl] of outputUrls.entries()) {
+    const asset = await insertOutputAsset(job, index, {
+      user_id: job.user_id,
+      project_id: job.project_id,
+      asset_type: 'image',
+      source_app: 'image_studio',
+      source_tool: model === 'flux-dev' || model === 'sdxl' ? model : 'flux-pro',
+      file_url: imageUrl,
+      thumbnail_url: imageUrl, // Same as file_url for images
+      generation_params: {
+        prompt,
+        model: resolveImageModel(model),
+        aspect_ratio: aspectRatio,
+        seed: job.input_data.seed ?? null,
+        negative_prompt: job.input_data.negativePrompt || null,
+        prediction_id: job.external_job_id,
+        generation_id: job.id,
+        ...(batchId && { batch_id: batchId, batch_index: job.metadata?.batchIndex }),
+        ...providerInput,
+      },
+      file_size_bytes: null, // We don't have this info from Replicate
+      dimensions: getImageDimensions(aspectRatio),
+      mime_type: 'image/png',
+      credits_used: index === 0 ? creditsUsed : 0,
+      generation_time_seconds: Math.round(processingTimeSeconds || 0),
+      name: `Generated image: ${prompt.slice(0, 50)}${prompt.length > 50 ? '...' : ''}`,
+      tags: extractTagsFromPrompt(prompt),
+      status: 'active',
+    });
+
+    if (!asset) {
+      continue;
+    }
+
+    assetIds.push(asset.id);
+    if (!asset.created) {
+      continue;
+    }
+
+    await copyAssetToS3(job.user_id, asset.id, imageUrl, 'image/png');
+    await indexAssetVisuals(asset.id);
+    if (batchId) {
+      await linkBatchVariations(job.user_id, batchId, asset.id);
+    }
+  }
+
+  return assetIds;
+}
+
+/**
+ * Parse a provider ratio such as "1280:720" into pixel dimensions.
+ */
+function parseRatioDimensions(ratio: unknown): { width: number; height: number } {
+  const [width, height] = typeof ratio === 'string' ? ratio.split(':').map(Number) : [];
+  return width && height ? { width, height } : { width: 1280, height: 720 };
+}
+
+async function saveVideoOutput(
+  job: Generation,
+  index: number,
+  videoUrl: string,
+  asset: Record<string, any>,
+  parents: Map<InputRole, string>
+): Promise<string | null> {
+  const mimeType = guessMimeType(videoUrl, 'video');
+  const saved = await insertOutputAsset(job, index, {
+    user_id: job.user_id,
+    project_id: job.project_id,
+    asset_type: 'video',
+    file_url: videoUrl,
+    // Mock outputs are animated images and can be shown directly
+    thumbnail_url: mimeType.startsWith('image/') ? videoUrl : null,
+    parent_asset_ids: parents.size > 0 ? Array.from(parents.values()) : null,
+    mime_type: mimeType,
+    status: 'active',
+    ...asset,
+  });
+
+  if (!saved || !saved.created) {
+    return saved?.id || null;
+  }
+
+  await linkInputAssets(saved.id, parents);
+  await copyAssetToS3(job.user_id, saved.id, videoUrl, mimeType);
+  // Real duration, codec, thumbnail and preview frames from the file itself
+  await processVideoAsset(saved.id);
+  return saved.id;
+}
+
+async function saveVideoAssets(job: Generation, output: GenerationOutput): Promise<string[]> {
+  const { prompt, model, duration, imageUrl } = job.input_data;
+  const providerInput = job.metadata?.providerInput || {};
+  const inputAssetIds = job.metadata?.inputAssetIds || {};
+  const text = prompt || 'Image to video';
+  const parents = await resolveInputAssets(job, [{ role: 'image', url: imageUrl, assetId: inputAssetIds.image }]);
+  const assetIds: string[] = [];
+
+  for (const [index, videoUrl] of output.outputUrls.entries()) {
+    const assetId = await saveVideoOutput(job, index, videoUrl, {
+      source_app: 'video_studio',
+      source_tool: providerInput.model || model,
+      generation_params: {
+        ...job.input_data,
+        task_id: job.external_job_id,
+        generation_id: job.id,
+        provider: job.provider,
+        ...providerInput,
+      },
+      duration_seconds: output.outputDurationSeconds ?? providerInput.duration ?? duration ?? null,
+      dimensions: parseRatioDimensions(providerInput.ratio),
+      credits_used: index === 0 ? output.creditsUsed : 0,
+      generation_time_seconds: Math.round(output.processingTimeSeconds || 0),
+      name: `Generated video: ${text.slice(0, 50)}${text.length > 50 ? '...' : ''}`,
+      tags: prompt ? extractTagsFromPrompt(prompt) : [],
+    }, parents);
+
+    if (assetId) {
+      assetIds.push(assetId);
+    }
+  }
+
+  return assetIds;
+}
+
+async function saveLipsyncAssets(job: Generation, output: GenerationOutput): Promise<string[]> {
+  const { imageUrl, audioUrl, audioDuration } = job.input_data;
+  const providerInput = job.metadata?.providerInput || {};
+  const inputAssetIds = job.metadata?.inputAssetIds || {};
+  const parents = await resolveInputAssets(job, [
+    { role: 'image', url: imageUrl, assetId: inputAssetIds.image },
+    { role: 'audio', url: audioUrl, assetId: inputAssetIds.audio },
+  ]);
+  const assetIds: string[] = [];
+
+  for (const [index, videoUrl] of output.outputUrls.entries()) {
+    const assetId = await saveVideoOutput(job, index, videoUrl, {
+      source_app: 'lipsync',
+      source_tool: job.provider === 'mock' ? 'mock' : 'akool-talking-photo',
+      generation_params: {
+        image_url: imageUrl,
+        audio_url: audioUrl,
+        task_id: job.external_job_id,
+        generation_id: job.id,
+        provider: job.provider,
+        ...providerInput,
+      },
+      duration_seconds: output.outputDurationSeconds ?? audioDuration ?? null,
+      dimensions: { width: 1280, height: 720 },
+      credits_used: index === 0 ? output.creditsUsed : 0,
+      generation_time_seconds: Math.round(output.processingTimeSeconds || 0),
+      name: `Talking photo (${new Date().toLocaleDateString()})`,
+      tags: ['lipsync', 'talking-photo'],
+    }, parents);
+
+    if (assetId) {
+      assetIds.push(assetId);
+    }
+  }
+
+  return assetIds;
+}
+
+export interface StoredGenerationOutput {
+  assetIds: string[];
+  outputUrls: string[];
+}
+
+/**
+ * The outputs of completed generations as later work should use them: the
+ * assets saved for each and their stored file URLs. Provider URLs can
+ * expire, so they're only passed on when nothing was stored.
+ */
+export async function loadStoredOutputs(
+  generations: Array<{ id: string; status: string; output_urls: string[] | null; asset_ids: string[] | null }>
+): Promise<Map<string, StoredGenerationOutput>> {
+  const completed = generations.filter(generation => generation.status === 'completed');
+  const assetIds = completed.flatMap(generation => generation.asset_ids || []);
+
+  const urlByAssetId = new Map<string, string>();
+  if (assetIds.length > 0) {
+    const { data: assets } = await supabaseAdmin
+      .from('assets')
+      .select('id, file_url')
+      .in('id', assetIds);
+    (assets || []).forEach(asset => asset.file_url && urlByAssetId.set(asset.id, asset.file_url));
+  }
+
+  return new Map(completed.map(generation => {
+    const outputAssetIds = generation.asset_ids || [];
+    const storedUrls = outputAssetIds.map(assetId => urlByAssetId.get(assetId)).filter((url): url is string => !!url);
+    return [generation.id, {
+      assetIds: outputAssetIds,
+      outputUrls: storedUrls.length > 0 ? storedUrls : generation.output_urls || [],
+    }];
+  }));
+}
+
+/**
+ * Copy a finished job's outputs to S3 ahead of saving them after the fact.
+ * Unlike the copies made as a job finishes this isn't best-effort: by now
+ * the provider URLs may have expired, and an asset left pointing at one
+ * wouldn't load. Returns the stored URLs in output order; throws
+ * GenerationOutputUnavailableError if any output can't be fetched.
+ */
+export async function storeGenerationOutputs(job: Generation): Promise<string[]> {
+  const storedUrls: string[] = [];
+
+  for (const [index, outputUrl] of (job.output_urls || []).entries()) {
+    if (isStorageUrl(outputUrl)) {
+      storedUrls.push(outputUrl);
+      continue;
+    }
+
+    const key = generateAssetKey(job.user_id, `${job.id}-${index}`, 'file', outputUrl);
+    const contentType = guessMimeType(outputUrl, job.tool_type === 'image' ? 'image' : 'video');
+    const uploadResult = await uploadUrlToS3(outputUrl, key, contentType);
+    if (!uploadResult.success || !uploadResult.url) {
+      console.error(`Failed to copy output ${index} of generation ${job.id}:`, uploadResult.error);
+      throw new GenerationOutputUnavailableError();
+    }
+    storedUrls.push(uploadResult.url);
+  }
+
+  return storedUrls;
+}
+
+/**
+ * Persist a completed job's outputs as assets. Returns the new asset ids.
+ * Failures are logged rather than thrown; the generation itself succeeded.
+ */
+export async function saveGenerationAssets(job: Generation, output: GenerationOutput): Promise<string[]> {
+  if (job.metadata?.saveToRepository === false) {
+    return [];
+  }
+
+  try {
+    switch (job.tool_type) {
+      case 'image':
+        return await saveImageAssets(job, output);
+      case 'video':
+        return await saveVideoAssets(job, output);
+      case 'lipsync':
+        return await saveLipsyncAssets(job, output);
+      default:
+        return [];
+    }
+  } catch (error) {
+    console.error('Error saving to Asset Repository:', error);
+    return [];
+  }
+}
@@ -0,0 +1,81 @@
+// Binary Blender Generation Batches
+// Fans one image request out into several jobs, one per output, so every
+// image gets its own seed, progress and asset. Jobs in a batch share a
+// batch id in their metadata; their assets are linked as variations.
+
+import crypto from 'crypto';
+import { Generation } from '../supabase';
+import { getCreditBalance, InsufficientCreditsError } from '../credits';
+import { checkProjectBudget } from '../project-budgets';
+import { ImageBatchOptions, ImageJobInput } from '../types/generation-jobs';
+import { submitGenerationJob, SubmitGenerationJobOptions } from './jobs';
+import { getProvider, MAX_IMAGE_SEED } from './providers';
+
+export interface SubmittedBatch {
+  batchId: string;
+  jobs: Generation[];
+}
+
+/**
+ * Expand a request into per-output inputs. Output i uses
+ * seed + i * seedIncrement; without an explicit seed a random base is
+ * picked so each image can still be reproduced from its asset.
+ */
+export function expandImageBatch(input: ImageJobInput, batch: ImageBatchOptions): ImageJobInput[] {
+  const span = (batch.numOutputs - 1) * batch.seedIncrement;
+  const baseSeed = input.seed ?? crypto.randomInt(0, Math.max(1, MAX_IMAGE_SEED - span));
+
+  return Array.from({ length: batch.numOutputs }, (_, i) => ({
+    ...input,
+    seed: (baseSeed + i * batch.seedIncrement) % (MAX_IMAGE_SEED + 1),
+  }));
+}
+
+/**
+ * Submit every output of an image batch. The whole batch must be affordable
+ * and fit the project's budget up front, so we don't start half of it. If a
+ * later job fails to submit, the jobs already running are returned; it only
+ * throws when none started.
+ */
+export async function submitImageBatch(
+  userId: string,
+  input: ImageJobInput,
+  batch: ImageBatchOptions,
+  options: SubmitGenerationJobOptions = {}
+): Promise<SubmittedBatch> {
+  const provider = getProvider('image');
+  const inputs = expandImageBatch(input, batch);
+  const batchId = crypto.randomUUID();
+
+  const required = inputs.reduce((total, item) => total + Math.ceil(provider.estimateCost(item)), 0);
+  const balance = await getCreditBalance(userId);
+  if (balance < required) {
+    throw new InsufficientCreditsError(required, balance);
+  }
+  if (options.projectId) {
+    await checkProjectBudget(userId, options.projectId, required);
+  }
+
+  const jobs: Generation[] = [];
+  for (const [index, item] of inputs.entries()) {
+    try {
+      jobs.push(await submitGenerationJob(userId, 'image', item, {
+        ...options,
+        metadata: {
+          ...options.metadata,
+          batchId,
+          batchIndex: index,
+          batchSize: inputs.length,
+        },
+      }));
+    } catch (error) {
+      if (jobs.length === 0) {
+        throw error;
+      }
+      console.error(`Batch ${batchId} stopped after ${jobs.length} of ${inputs.length} jobs:`, error);
+      break;
+    }
+  }
+
+  return { batchId, jobs };
+}
@@ -0,0 +1,257 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabaseAdmin } from '@/lib/supabase';
+import { FakeSupabase } from '@/test/fake-supabase';
+import { ProjectNotFoundError } from '@/lib/project-budgets';
+import { uploadUrlToS3 } from '@/lib/s3-upload';
+import { GenerationOutputUnavailableError } from './assets';
+import {
+  advanceGenerationJob,
+  applyProviderResult,
+  claimGenerationJobs,
+  getGenerationJob,
+  saveGenerationOutputs,
+  submitGenerationJob,
+} from './jobs';
+import { getProvider, MOCK_FAILURE_TOKEN } from './providers';
+
+vi.mock('@/lib/supabase', async () => {
+  const { FakeSupabase } = await import('@/test/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase() };
+});
+
+vi.mock('@/lib/s3-upload', () => ({
+  generateAssetKey: () => 'assets/test-key',
+  uploadUrlToS3: vi.fn(async () => ({ success: false, error: 'S3 disabled in tests' })),
+}));
+vi.mock('@/lib/asset-media', () => ({
+  processAudioAsset: async () => null,
+  processVideoAsset: async () => null,
+}));
+vi.mock('@/lib/search/visual', () => ({
+  indexAssetVisuals: async () => false,
+}));
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+const USER_ID = '0b7d7c1e-5a8a-4f0e-8c1b-3d2f6a9e4b21';
+const STARTING_CREDITS = 100;
+
+const IMAGE_INPUT = { prompt: 'A red fox in fresh snow', aspectRatio: '1:1', model: 'flux-pro', seed: 42 };
+
+function balance(): number {
+  return db.table('credit_transactions')
+    .filter(transaction => transaction.user_id === USER_ID)
+    .reduce((total, transaction) => total + transaction.amount, 0);
+}
+
+function generation(id: string) {
+  return db.table('generations').find(job => job.id === id)!;
+}
+
+/**
+ * Claim a submitted job as if the mock provider had been running it for a
+ * while, and advance it once.
+ */
+async function runJob(id: string, elapsedSeconds: number = 60) {
+  generation(id).started_at = new Date(Date.now() - elapsedSeconds * 1000).toISOString();
+  const [claimed] = await claimGenerationJobs(1, id, true);
+  expect(claimed).toBeDefined();
+  await advanceGenerationJob(claimed);
+  return generation(id);
+}
+
+beforeAll(() => {
+  process.env.GENERATION_PROVIDER = 'mock';
+});
+
+beforeEach(() => {
+  db.reset();
+  db.table('credit_transactions').push({
+    id: crypto.randomUUID(),
+    user_id: USER_ID,
+    amount: STARTING_CREDITS,
+    transaction_type: 'purchase',
+    generation_id: null,
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('generation pipeline with the mock provider', () => {
+  it('reserves credits and hands the job to the provider', async () => {
+    const cost = getProvider('image').estimateCost(IMAGE_INPUT);
+
+    const job = await submitGenerationJob(USER_ID, 'image', IMAGE_INPUT);
+
+    expect(job.status).toBe('processing');
+    expect(job.provider).toBe('mock');
+    expect(job.external_job_id).toMatch(/^mock_/);
+    expect(job.credits_used).toBe(cost);
+    expect(balance()).toBe(STARTING_CREDITS - cost);
+  });
+
+  it('refuses a project that belongs to someone else', async () => {
+    db.table('projects').push({ id: crypto.randomUUID(), user_id: crypto.randomUUID(), name: 'Not yours' });
+    const [project] = db.table('projects');
+
+    await expect(submitGenerationJob(USER_ID, 'image', IMAGE_INPUT, { projectId: project.id }))
+      .rejects.toBeInstanceOf(ProjectNotFoundError);
+    expect(db.table('generations')).toHaveLength(0);
+    expect(balance()).toBe(STARTING_CREDITS);
+  });
+
+  it('keeps polling while the job is still running', async () => {
+    const job = await submitGenerationJob(USER_ID, 'image', IMAGE_INPUT);
+
+    const advanced = await runJob(job.id, 1);
+
+    expect(advanced.status).toBe('processing');
+    expect(advanced.progress).toBeGreaterThan(0);
+    expect(advanced.poll_attempts).toBe(1);
+    expect(advanced.locked_until).toBeNull();
+  });
+
+  it('finalizes an image job: settles credits and saves the output as an asset', async () => {
+    const job = await submitGenerationJob(USER_ID, 'image', IMAGE_INPUT);
+
+    const completed = await runJob(job.id);
+
+    expect(completed.status).toBe('completed');
+    expect(completed.output_urls).toHaveLength(1);
+    expect(completed.output_urls[0]).toMatch(/^data:image\/png;base64,/);
+    expect(balance()).toBe(STARTING_CREDITS - completed.credits_used);
+
+    const [asset] = db.table('assets');
+    expect(asset).toMatchObject({
+      user_id: USER_ID,
+      asset_type: 'image',
+      generation_id: job.id,
+      output_index: 0,
+      credits_used: completed.credits_used,
+    });
+    expect(asset.generation_params).toMatchObject({ prompt: IMAGE_INPUT.prompt, seed: 42 });
+    expect(completed.asset_ids).toEqual([asset.id]);
+  });
+
+  it('saves the outputs of a job run with auto-save off when asked', async () => {
+    vi.stubEnv('AWS_S3_BUCKET', 'bb-assets');
+    const storedUrl = 'https://bb-assets.s3.amazonaws.com/assets/test-key.png';
+    vi.mocked(uploadUrlToS3).mockResolvedValueOnce({ success: true, url: storedUrl });
+
+    const job = await submitGenerationJob(USER_ID, 'image', IMAGE_INPUT, { saveToRepository: false });
+    const completed = await runJob(job.id);
+    expect(completed.asset_ids).toEqual([]);
+    expect(db.table('assets')).toHaveLength(0);
+
+    const assetIds = await saveGenerationOutputs((await getGenerationJob(job.id, USER_ID))!);
+    const again = await saveGenerationOutputs((await getGenerationJob(job.id, USER_ID))!);
+
+    const [asset] = db.table('assets');
+    expect(asset).toMatchObject({ generation_id: job.id, output_index: 0, file_url: storedUrl, credits_used: completed.credits_used });
+    expect(assetIds).toEqual([asset.id]);
+    expect(again).toEqual(assetIds);
+    expect(generation(job.id).asset_ids).toEqual(assetIds);
+    expect(uploadUrlToS3).toHaveBeenCalledTimes(1);
+  });
+
+  it("saves nothing after the fact when the outputs can't be copied", async () => {
+    const job = await submitGenerationJob(USER_ID, 'image', IMAGE_INPUT, { saveToRepository: false });
+    await runJob(job.id);
+
+    await expect(saveGenerationOutputs((await getGenerationJob(job.id, USER_ID))!))
+      .rejects.toBeInstanceOf(GenerationOutputUnavailableError);
+    expect(db.table('assets')).toHaveLength(0);
+    expect(generation(job.id).asset_ids).toEqual([]);
+  });
+
+  it('renders the same output for the same input', async () => {
+    const first = await submitGenerationJob(USER_ID, 'image', IMAGE_INPUT);
+    const second = await submitGenerationJob(USER_ID, 'image', IMAGE_INPUT);
+    const other = await submitGenerationJob(USER_ID, 'image', { ...IMAGE_INPUT, seed: 43 });
+
+    const [a, b, c] = [await runJob(first.id), await runJob(second.id), await runJob(other.id)];
+
+    expect(a.output_urls[0]).toBe(b.output_urls[0]);
+    expect(c.output_urls[0]).not.toBe(a.output_urls[0]);
+  });
+
+  it('fails and refunds a job whose prompt asks the mock to fail', async () => {
+    const job = await submitGenerationJob(USER_ID, 'image', { ...IMAGE_INPUT, prompt: `A fox ${MOCK_FAILURE_TOKEN}` });
+
+    const failed = await runJob(job.id);
+
+    expect(failed.status).toBe('failed');
+    expect(failed.error_message).toBe('Mock provider failure requested');
+    expect(balance()).toBe(STARTING_CREDITS);
+    expect(db.table('assets')).toHaveLength(0);
+  });
+
+  it('saves a lipsync output with its inputs registered as parent assets', async () => {
+    const input = { imageUrl: 'https://example.com/face.png', audioUrl: 'https://example.com/voice.mp3', audioDuration: 8 };
+    const job = await submitGenerationJob(USER_ID, 'lipsync', input);
+
+    const completed = await runJob(job.id);
+
+    expect(completed.status).toBe('completed');
+    const output = db.table('assets').find(asset => asset.generation_id === job.id)!;
+    expect(output).toMatchObject({ asset_type: 'video', source_app: 'lipsync', output_index: 0 });
+
+    const parents = db.table('asset_relationships').filter(link => link.child_asset_id === output.id);
+    const parentTypes = parents.map(link => db.table('assets').find(asset => asset.id === link.parent_asset_id)!.asset_type);
+    expect(parentTypes.sort()).toEqual(['audio', 'image']);
+  });
+
+  it('reuses saved assets when a job is finalized again after losing its lease', async () => {
+    const job = await submitGenerationJob(USER_ID, 'lipsync', {
+      imageUrl: 'https://example.com/face.png',
+      audioUrl: 'https://example.com/voice.mp3',
+    });
+    const first = await runJob(job.id);
+    const assetCount = db.table('assets').length;
+    const relationshipCount = db.table('asset_relationships').length;
+
+    // As if the worker died after saving but before the job was marked done
+    Object.assign(first, { status: 'processing', locked_until: null, asset_ids: [] });
+    const second = await runJob(job.id);
+
+    expect(second.status).toBe('completed');
+    expect(db.table('assets')).toHaveLength(assetCount);
+    expect(db.table('asset_relationships')).toHaveLength(relationshipCount);
+    expect(second.asset_ids).toHaveLength(1);
+  });
+
+  it('leaves a job alone when another worker has taken over its lease', async () => {
+    const job = await submitGenerationJob(USER_ID, 'image', IMAGE_INPUT);
+    const [claimed] = await claimGenerationJobs(1, job.id, true);
+    // The lease ran out and another worker claimed the job
+    generation(job.id).locked_until = new Date(Date.now() + 120 * 1000).toISOString();
+
+    await applyProviderResult(claimed, { status: 'succeeded', outputUrls: ['https://example.com/out.png'] });
+
+    expect(generation(job.id).status).toBe('processing');
+    expect(db.table('assets')).toHaveLength(0);
+  });
+});
+
+describe('provider request validation', () => {
+  it('accepts only the video durations the provider offers', () => {
+    const schema = getProvider('video').paramSchema;
+
+    expect(schema.safeParse({ prompt: 'Waves', duration: 10 }).success).toBe(true);
+    expect(schema.safeParse({ prompt: 'Waves', duration: 7 }).success).toBe(false);
+  });
+
+  it('accepts only http(s) URLs as lipsync inputs', () => {
+    const schema = getProvider('lipsync').paramSchema;
+    const audioUrl = 'https://example.com/voice.mp3';
+
+    expect(schema.safeParse({ imageUrl: 'https://example.com/face.png', audioUrl }).success).toBe(true);
+    expect(schema.safeParse({ imageUrl: 'file:///etc/passwd', audioUrl }).success).toBe(false);
+    expect(schema.safeParse({ imageUrl: '/etc/passwd', audioUrl }).success).toBe(false);
+  });
+});
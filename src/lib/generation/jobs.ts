@@ -0,0 +1,448 @@
+// Binary Blender Generation Jobs
+// Persistent job queue on top of the generations table. Submitting a job
+// reserves credits and hands the work to the provider; advancing a job polls
+// the provider once and finalizes it (settle credits, save assets) when done.
+
+import { supabaseAdmin, Generation } from '../supabase';
+import { refundCredits, reserveCredits, settleCredits } from '../credits';
+import { createGenerationRecord, completeGenerationRecord, failGenerationRecord } from '../generations';
+import { checkProjectBudget, getProjectSpend, notifyProjectBudgetCrossings, ProjectBudgetExceededError } from '../project-budgets';
+import {
+  GenerationJob,
+  GenerationJobInput,
+  GenerationToolType,
+} from '../types/generation-jobs';
+import { getProvider, getProviderByName, ProviderPollResult } from './providers';
+import { saveGenerationAssets, storeGenerationOutputs } from './assets';
+
+// Seconds between provider polls per tool
+const POLL_INTERVAL_SECONDS: Record<GenerationToolType, number> = {
+  image: 2,
+  video: 5,
+  lipsync: 5,
+};
+
+// Jobs still running after this long are failed and refunded
+const JOB_TIMEOUT_MINUTES = 30;
+
+// Jobs with a webhook registered are still polled as a fallback, just less often
+const WEBHOOK_POLL_MULTIPLIER = 5;
+
+// How long a worker may hold a job before another worker can pick it up
+const JOB_LEASE_SECONDS = 60;
+
+// Lease taken before finalizing: S3 copies, video processing and visual
+// indexing can take much longer than one poll
+const FINALIZE_LEASE_SECONDS = 15 * 60;
+
+export interface SubmitGenerationJobOptions {
+  projectId?: string | null;
+  saveToRepository?: boolean;
+  // Assets the inputs were picked from, recorded as parents of the outputs
+  inputAssetIds?: { image?: string; audio?: string };
+  // Extra job metadata, e.g. batch membership
+  metadata?: Record<string, any>;
+}
+
+// ============================================================================
+// Submit
+// ============================================================================
+
+/**
+ * Create a generation record, reserve credits and submit the job to the
+ * provider. Returns as soon as the provider has accepted the job.
+ * Throws InsufficientCreditsError if the user can't afford it,
+ * ProjectNotFoundError if the project isn't the user's, and
+ * ProjectBudgetExceededError if it would take the project past its budget.
+ */
+export async function submitGenerationJob(
+  userId: string,
+  toolType: GenerationToolType,
+  input: GenerationJobInput,
+  options: SubmitGenerationJobOptions = {}
+): Promise<Generation> {
+  const provider = getProvider(toolType);
+  const creditCost = provider.estimateCost(input);
+  const budget = options.projectId
+    ? await checkProjectBudget(userId, options.projectId, Math.ceil(creditCost))
+    : null;
+
+  const generation = await createGenerationRecord(userId, toolType, input, {
+    status: 'pending',
+    provider: provider.name,
+    projectId: options.projectId,
+    metadata: {
+      ...options.metadata,
+      saveToRepository: options.saveToRepository !== false,
+      inputAssetIds: options.inputAssetIds || {},
+    },
+  });
+
+  let reservation;
+  try {
+    reservation = await reserveCredits(userId, generation.id, creditCost, `${toolType} generation (${provider.name})`);
+  } catch (error) {
+    await failGenerationRecord(
+      generation.id,
+      error instanceof Error ? error.message : 'Failed to reserve credits'
+    );
+    throw error;
+  }
+
+  if (budget) {
+    // Re-check with this job's credits counted, in case concurrent jobs
+    // passed the first check together
+    const spent = await getProjectSpend(budget.projectId);
+    if (budget.stopAt !== null && spent > budget.stopAt) {
+      await refundCredits(reservation, `${toolType} generation stopped by project budget`);
+      await failGenerationRecord(generation.id, 'Project budget exceeded');
+      throw new ProjectBudgetExceededError(budget.projectId, budget.stopAt, spent - reservation.amount, reservation.amount);
+    }
+    await notifyProjectBudgetCrossings(budget, spent - reservation.amount, spent);
+  }
+
+  try {
+    const submission = await provider.submit(input);
+    const startedAt = new Date();
+
+    const { data: job, error } = await supabaseAdmin
+      .from('generations')
+      .update({
+        status: 'processing',
+        external_job_id: submission.externalJobId,
+        started_at: startedAt.toISOString(),
+        next_poll_at: new Date(startedAt.getTime() + POLL_INTERVAL_SECONDS[toolType] * 1000).toISOString(),
+        metadata: {
+          ...generation.metadata,
+          providerInput: submission.providerInput,
+          webhookUrl: submission.webhookUrl || null,
+        },
+      })
+      .eq('id', generation.id)
+      .select('*')
+      .single();
+
+    if (error || !job) {
+      throw new Error(`Failed to update generation job: ${error?.message}`);
+    }
+
+    return job;
+  } catch (error) {
+    console.error('Error submitting generation job:', error);
+    await refundCredits(reservation, `${toolType} generation failed to start`);
+    await failGenerationRecord(
+      generation.id,
+      error instanceof Error ? error.message : 'Failed to submit generation'
+    );
+    throw error;
+  }
+}
+
+// ============================================================================
+// Advance
+// ============================================================================
+
+async function failJob(job: Generation, errorMessage: string): Promise<void> {
+  await refundCredits(
+    { userId: job.user_id, generationId: job.id, amount: job.credits_used },
+    `${job.tool_type} generation failed`
+  );
+  await failGenerationRecord(job.id, errorMessage);
+}
+
+/**
+ * Extend the lease on a claimed job. Returns false if the lease was lost,
+ * i.e. it ran out and another worker has claimed the job since.
+ */
+async function extendJobLease(job: Generation, leaseSeconds: number): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('extend_generation_lease', {
+    job_uuid: job.id,
+    lease_seconds: leaseSeconds,
+    held_until: job.locked_until,
+  });
+
+  if (error) {
+    console.error('Error extending generation job lease:', error);
+    return false;
+  }
+
+  return data === true;
+}
+
+async function finalizeJob(job: Generation, result: ProviderPollResult): Promise<void> {
+  if (!(await extendJobLease(job, FINALIZE_LEASE_SECONDS))) {
+    console.warn(`Lost the lease on generation ${job.id}; leaving it to the current holder`);
+    return;
+  }
+
+  const outputUrls = result.outputUrls || [];
+  const reservation = { userId: job.user_id, generationId: job.id, amount: job.credits_used };
+
+  // Lipsync is billed on the real output length when the provider reports it
+  const provider = getProviderByName(job.provider || '', job.tool_type);
+  const actualCredits = provider && job.tool_type === 'lipsync' && result.outputDurationSeconds
+    ? provider.estimateCost({ ...job.input_data, audioDuration: result.outputDurationSeconds })
+    : undefined;
+
+  const creditsUsed = await settleCredits(reservation, actualCredits);
+  const processingTimeSeconds = result.processingTimeSeconds ??
+    (job.started_at ? (Date.now() - new Date(job.started_at).getTime()) / 1000 : undefined);
+
+  const assetIds = await saveGenerationAssets(job, {
+    outputUrls,
+    creditsUsed,
+    processingTimeSeconds,
+    outputDurationSeconds: result.outputDurationSeconds,
+  });
+
+  await completeGenerationRecord(job.id, {
+    outputUrls,
+    externalJobId: job.external_job_id || undefined,
+    thumbnailUrl: job.tool_type === 'image' ? outputUrls[0] : undefined,
+    processingTimeSeconds,
+    assetIds,
+  });
+}
+
+async function rescheduleJob(job: Generation, updates: Record<string, any> = {}): Promise<void> {
+  const attempts = (job.poll_attempts || 0) + 1;
+  // Back off gently on long-running jobs so we don't hammer the provider
+  const intervalSeconds = POLL_INTERVAL_SECONDS[job.tool_type] *
+    (attempts > 60 ? 3 : 1) *
+    (job.metadata?.webhookUrl ? WEBHOOK_POLL_MULTIPLIER : 1);
+
+  const { error } = await supabaseAdmin
+    .from('generations')
+    .update({
+      ...updates,
+      poll_attempts: attempts,
+      next_poll_at: new Date(Date.now() + intervalSeconds * 1000).toISOString(),
+      locked_until: null,
+    })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error('Error rescheduling generation job:', error);
+  }
+}
+
+function isTimedOut(job: Generation): boolean {
+  const startedAt = new Date(job.started_at || job.created_at).getTime();
+  return Date.now() - startedAt > JOB_TIMEOUT_MINUTES * 60 * 1000;
+}
+
+/**
+ * Poll the provider once for a claimed job and move it forward. Callers must
+ * hold the job's lease (see claimGenerationJobs).
+ */
+export async function advanceGenerationJob(job: Generation): Promise<void> {
+  if (job.status !== 'pending' && job.status !== 'processing') {
+    return;
+  }
+
+  if (!job.external_job_id) {
+    // The submit request died before the provider accepted the job
+    if (isTimedOut(job) || Date.now() - new Date(job.created_at).getTime() > 5 * 60 * 1000) {
+      await failJob(job, 'Generation was never submitted to the provider');
+    } else {
+      await rescheduleJob(job);
+    }
+    return;
+  }
+
+  const provider = getProviderByName(job.provider || '', job.tool_type);
+  if (!provider) {
+    await failJob(job, `Unknown provider: ${job.provider}`);
+    return;
+  }
+
+  let result: ProviderPollResult;
+  try {
+    result = await provider.poll({
+      externalJobId: job.external_job_id,
+      input: job.input_data,
+      startedAt: job.started_at,
+    });
+  } catch (error) {
+    // Treat provider errors as transient until the job times out
+    console.error(`Error polling ${job.provider} job ${job.external_job_id}:`, error);
+    if (isTimedOut(job)) {
+      await failJob(job, error instanceof Error ? error.message : 'Failed to check status');
+    } else {
+      await rescheduleJob(job);
+    }
+    return;
+  }
+
+  await applyProviderResult(job, result);
+}
+
+/**
+ * Move a claimed job forward from a provider status, whether it came from a
+ * poll or a webhook delivery.
+ */
+export async function applyProviderResult(job: Generation, result: ProviderPollResult): Promise<void> {
+  if (result.status === 'succeeded') {
+    await finalizeJob(job, result);
+  } else if (result.status === 'failed') {
+    await failJob(job, result.error || 'Generation failed');
+  } else if (isTimedOut(job)) {
+    await failJob(job, `Generation timed out after ${JOB_TIMEOUT_MINUTES} minutes`);
+  } else {
+    await rescheduleJob(job, {
+      progress: result.progress ?? job.progress ?? 0,
+      progress_text: result.progressText || null,
+    });
+  }
+}
+
+/**
+ * Stop a claimed job: ask the provider to cancel it where its API allows,
+ * then fail the job and refund its reserved credits. Callers must hold the
+ * job's lease (see claimGenerationJobs).
+ */
+export async function cancelGenerationJob(job: Generation, reason: string = 'Cancelled'): Promise<void> {
+  if (job.status !== 'pending' && job.status !== 'processing') {
+    return;
+  }
+
+  const provider = getProviderByName(job.provider || '', job.tool_type);
+  if (provider?.cancel && job.external_job_id) {
+    try {
+      await provider.cancel({
+        externalJobId: job.external_job_id,
+        input: job.input_data,
+        startedAt: job.started_at,
+      });
+    } catch (error) {
+      // The job may have just finished; its output is discarded either way
+      console.error(`Error cancelling ${job.provider} job ${job.external_job_id}:`, error);
+    }
+  }
+
+  await failJob(job, reason);
+}
+
+/**
+ * Save a completed job's outputs as assets after the fact, for jobs that ran
+ * with saveToRepository off. The outputs are copied to S3 first, and nothing
+ * is saved if that fails (GenerationOutputUnavailableError). A job that's
+ * already saved returns its assets. Records the asset ids on the generation
+ * and returns them.
+ */
+export async function saveGenerationOutputs(job: Generation): Promise<string[]> {
+  const assetIds = job.asset_ids || [];
+  if (assetIds.length > 0 && assetIds.length >= (job.output_urls || []).length) {
+    return assetIds;
+  }
+
+  const storedUrls = await storeGenerationOutputs(job);
+  const savedIds = await saveGenerationAssets(
+    { ...job, metadata: { ...job.metadata, saveToRepository: true } },
+    {
+      outputUrls: storedUrls,
+      creditsUsed: job.credits_used,
+      processingTimeSeconds: job.processing_time_seconds ?? undefined,
+    }
+  );
+
+  if (savedIds.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('generations')
+      .update({ asset_ids: savedIds })
+      .eq('id', job.id);
+
+    if (error) {
+      throw new Error(`Failed to record saved assets: ${error.message}`);
+    }
+  }
+
+  return savedIds;
+}
+
+// ============================================================================
+// Claim / Read
+// ============================================================================
+
+/**
+ * Lease jobs that are due for a poll. Pass jobId to claim only that job, and
+ * ignoreSchedule to claim it even if its next poll isn't due yet.
+ */
+export async function claimGenerationJobs(
+  limit: number = 10,
+  jobId?: string,
+  ignoreSchedule: boolean = false
+): Promise<Generation[]> {
+  const { data, error } = await supabaseAdmin.rpc('claim_generation_jobs', {
+    batch_size: limit,
+    lease_seconds: JOB_LEASE_SECONDS,
+    job_uuid: jobId || null,
+    ignore_schedule: ignoreSchedule,
+  });
+
+  if (error) {
+    console.error('Error claiming generation jobs:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export async function getGenerationJob(
+  jobId: string,
+  userId: string
+): Promise<Generation | null> {
+  const { data, error } = await supabaseAdmin
+    .from('generations')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch generation: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function findGenerationByExternalJobId(
+  provider: string,
+  externalJobId: string
+): Promise<Generation | null> {
+  const { data, error } = await supabaseAdmin
+    .from('generations')
+    .select('*')
+    .eq('provider', provider)
+    .eq('external_job_id', externalJobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up generation: ${error.message}`);
+  }
+
+  return data;
+}
+
+export function toGenerationJob(generation: Generation): GenerationJob {
+  return {
+    id: generation.id,
+    toolType: generation.tool_type,
+    status: generation.status,
+    provider: generation.provider,
+    externalJobId: generation.external_job_id,
+    progress: generation.progress || 0,
+    progressText: generation.progress_text,
+    input: generation.input_data,
+    output: generation.output_urls || [],
+    assetIds: generation.asset_ids || [],
+    creditsUsed: generation.credits_used,
+    error: generation.error_message,
+    thumbnailUrl: generation.thumbnail_url,
+    processingTimeSeconds: generation.processing_time_seconds,
+    rerunOf: generation.metadata?.rerunOf || null,
+    createdAt: generation.created_at,
+    startedAt: generation.started_at,
+    completedAt: generation.completed_at,
+  };
+}
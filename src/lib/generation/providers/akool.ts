@@ -0,0 +1,111 @@
+// AKOOL adapter (lipsync talking photo)
+
+import { calculateLipSyncCreditCost } from '../../utils';
+import { LipsyncJobInput } from '../../types/generation-jobs';
+import { GenerationProvider, ProviderPollResult } from './types';
+import { getWebhookUrl, lipsyncParamSchema } from './shared';
+
+const AKOOL_API_BASE = 'https://openapi.akool.com/api/open/v3';
+
+export const akoolProvider: GenerationProvider<LipsyncJobInput> = {
+  name: 'akool',
+  toolType: 'lipsync',
+
+  capabilities: {
+    models: [{ id: 'talking-photo', label: 'AKOOL Talking Photo', providerModel: 'talking_photo' }],
+    defaultModel: 'talking-photo',
+    maxOutputs: 1,
+    supportsWebhooks: true,
+  },
+
+  paramSchema: lipsyncParamSchema,
+
+  getConfigError() {
+    return process.env.AKOOL_API_KEY ? null : 'AKOOL API key not configured';
+  },
+
+  estimateCost(input) {
+    // Until the audio has been probed we assume a single 10 second block
+    return calculateLipSyncCreditCost(input.audioDuration || 10);
+  },
+
+  async submit(input) {
+    const webhookUrl = getWebhookUrl('akool');
+    const body = {
+      talking_photo_url: input.imageUrl.trim(),
+      audio_url: input.audioUrl.trim(),
+      ...(webhookUrl && { webhookUrl }),
+    };
+
+    const response = await fetch(`${AKOOL_API_BASE}/content/video/createbytalkingphoto`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': process.env.AKOOL_API_KEY!,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`AKOOL API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    if (data.code !== 1000) {
+      throw new Error(data.msg || 'AKOOL API error');
+    }
+
+    return { externalJobId: data.data._id, providerInput: body, webhookUrl };
+  },
+
+  async poll(job) {
+    const response = await fetch(
+      `${AKOOL_API_BASE}/content/video/infobymodelid?video_model_id=${job.externalJobId}`,
+      {
+        headers: {
+          'x-api-key': process.env.AKOOL_API_KEY!,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to check status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return akoolProvider.normalize(data.data || {});
+  },
+
+  /**
+   * Accepts the video record from infobymodelid or a decrypted webhook body;
+   * webhook bodies use `status` and `url` instead of `video_status` and `video`.
+   */
+  normalize(video): ProviderPollResult {
+    const videoStatus = video.video_status ?? video.status;
+    const videoUrl = video.video ?? video.url;
+
+    // 1 = queued, 2 = processing, 3 = completed, 4 = failed
+    if (videoStatus === 4) {
+      return { status: 'failed', error: 'Talking photo generation failed' };
+    }
+
+    if (videoStatus !== 3) {
+      return {
+        status: 'processing',
+        progressText: videoStatus === 1 ? 'Queued' : 'Generating',
+      };
+    }
+
+    if (!videoUrl) {
+      return { status: 'failed', error: 'No video URL in response' };
+    }
+
+    return {
+      status: 'succeeded',
+      progress: 1,
+      outputUrls: [videoUrl],
+      outputDurationSeconds: Number(video.video_lock_duration) || undefined,
+    };
+  },
+};
@@ -0,0 +1,56 @@
+// Binary Blender Generation Providers
+// Registry of provider adapters. Set GENERATION_PROVIDER=mock to route every
+// tool through the offline mock provider.
+
+import { GenerationToolType } from '../../types/generation-jobs';
+import { GenerationProvider } from './types';
+import { replicateProvider } from './replicate';
+import { runwayProvider } from './runway';
+import { akoolProvider } from './akool';
+import { createMockProvider } from './mock';
+
+const PROVIDERS: Record<GenerationToolType, GenerationProvider> = {
+  image: replicateProvider,
+  video: runwayProvider,
+  lipsync: akoolProvider,
+};
+
+const MOCK_PROVIDERS: Record<GenerationToolType, GenerationProvider> = {
+  image: createMockProvider(replicateProvider),
+  video: createMockProvider(runwayProvider),
+  lipsync: createMockProvider(akoolProvider),
+};
+
+export function isMockProviderEnabled(): boolean {
+  return process.env.GENERATION_PROVIDER === 'mock';
+}
+
+/**
+ * The provider new jobs for this tool should be submitted to.
+ */
+export function getProvider(toolType: GenerationToolType): GenerationProvider {
+  return isMockProviderEnabled() ? MOCK_PROVIDERS[toolType] : PROVIDERS[toolType];
+}
+
+/**
+ * Look up the provider that owns an existing job. The mock provider serves
+ * every tool, so it needs the tool type to pick the right adapter.
+ */
+export function getProviderByName(name: string, toolType?: GenerationToolType): GenerationProvider | null {
+  if (name === 'mock') {
+    return toolType ? MOCK_PROVIDERS[toolType] : null;
+  }
+
+  return Object.values(PROVIDERS).find(provider => provider.name === name) || null;
+}
+
+export * from './types';
+export {
+  getWebhookUrl,
+  getImageDimensions,
+  imageBatchParamSchema,
+  MAX_IMAGE_SEED,
+  resolveAspectRatio,
+} from './shared';
+export { resolveImageModel } from './replicate';
+export { MOCK_FAILURE_TOKEN } from './mock';
@@ -0,0 +1,175 @@
+// Mock adapter (all tools)
+// Offline stand-in for the real providers. Jobs "run" for a few seconds and
+// then return placeholder media rendered locally with sharp, derived only
+// from the job input, so the same request always yields the same bytes.
+// Enable with GENERATION_PROVIDER=mock.
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { GenerationToolType } from '../../types/generation-jobs';
+import { GenerationProvider, ProviderPollResult } from './types';
+import { getImageDimensions } from './shared';
+
+// How long each mock job pretends to take
+const MOCK_DURATION_MS: Record<GenerationToolType, number> = {
+  image: 3000,
+  video: 8000,
+  lipsync: 6000,
+};
+
+// Include this in a prompt to exercise the failure/refund path
+export const MOCK_FAILURE_TOKEN = '[mock:fail]';
+
+const ANIMATION_FRAMES = 8;
+const ANIMATION_FRAME_DELAY_MS = 250;
+
+// Media is rendered at a fraction of the real size to keep data URLs small
+const RENDER_SCALE = 0.25;
+
+function hashInput(input: Record<string, any>): string {
+  const stable = JSON.stringify(input, Object.keys(input).sort());
+  return crypto.createHash('sha256').update(stable).digest('hex');
+}
+
+function hueFromHash(hash: string, offset: number = 0): number {
+  return (parseInt(hash.slice(offset, offset + 4), 16) % 360);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c] as string));
+}
+
+function renderFrameSvg(
+  width: number,
+  height: number,
+  hash: string,
+  label: string,
+  frame: number = 0,
+  frameCount: number = 1
+): Buffer {
+  const background = `hsl(${hueFromHash(hash)}, 45%, 25%)`;
+  const accent = `hsl(${hueFromHash(hash, 4)}, 70%, 60%)`;
+  const radius = Math.min(width, height) / 5;
+  // Animated outputs move the circle across the frame
+  const cx = width * (0.2 + 0.6 * (frameCount > 1 ? frame / (frameCount - 1) : 0.5));
+  const fontSize = Math.max(10, Math.round(Math.min(width, height) / 14));
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<rect width="100%" height="100%" fill="${background}"/>` +
+      `<circle cx="${cx}" cy="${height / 2}" r="${radius}" fill="${accent}"/>` +
+      `<text x="50%" y="${height - fontSize}" font-family="sans-serif" font-size="${fontSize}" fill="#ffffff" text-anchor="middle">${escapeXml(label)}</text>` +
+    `</svg>`
+  );
+}
+
+async function renderImage(width: number, height: number, hash: string, label: string): Promise<string> {
+  const png = await sharp(renderFrameSvg(width, height, hash, label)).png().toBuffer();
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+async function renderAnimation(width: number, height: number, hash: string, label: string): Promise<string> {
+  const frames = await Promise.all(
+    Array.from({ length: ANIMATION_FRAMES }, (_, i) =>
+      sharp(renderFrameSvg(width, height, hash, label, i, ANIMATION_FRAMES)).png().toBuffer()
+    )
+  );
+
+  const webp = await sharp(frames, { join: { animated: true } })
+    .webp({ loop: 0, delay: ANIMATION_FRAME_DELAY_MS })
+    .toBuffer();
+
+  return `data:image/webp;base64,${webp.toString('base64')}`;
+}
+
+async function renderOutput(toolType: GenerationToolType, input: Record<string, any>): Promise<string> {
+  const hash = hashInput(input);
+  const label = `MOCK ${toolType.toUpperCase()} ${hash.slice(0, 8)}`;
+
+  if (toolType === 'image') {
+    const { width, height } = getImageDimensions(input.aspectRatio);
+    return renderImage(Math.round(width * RENDER_SCALE), Math.round(height * RENDER_SCALE), hash, label);
+  }
+
+  // 1280x720 is what the real video providers return
+  return renderAnimation(Math.round(1280 * RENDER_SCALE), Math.round(720 * RENDER_SCALE), hash, label);
+}
+
+/**
+ * Wrap a real adapter so the mock accepts the same parameters, advertises the
+ * same capabilities and charges the same credits.
+ */
+export function createMockProvider(real: GenerationProvider<any>): GenerationProvider<any> {
+  const toolType = real.toolType;
+
+  const mockProvider: GenerationProvider<any> = {
+    name: 'mock',
+    toolType,
+    capabilities: { ...real.capabilities, supportsWebhooks: false },
+    paramSchema: real.paramSchema,
+
+    getConfigError() {
+      return null;
+    },
+
+    estimateCost(input) {
+      return real.estimateCost(input);
+    },
+
+    async submit(input) {
+      return {
+        externalJobId: `mock_${crypto.randomUUID()}`,
+        providerInput: { ...input, mock: true },
+      };
+    },
+
+    async poll(job) {
+      const startedAt = job.startedAt ? new Date(job.startedAt).getTime() : Date.now();
+      const elapsed = Date.now() - startedAt;
+      const duration = MOCK_DURATION_MS[toolType];
+
+      if (elapsed < duration) {
+        return mockProvider.normalize({ status: 'processing', progress: elapsed / duration });
+      }
+
+      if (JSON.stringify(job.input).includes(MOCK_FAILURE_TOKEN)) {
+        return mockProvider.normalize({ status: 'failed', error: 'Mock provider failure requested' });
+      }
+
+      return mockProvider.normalize({
+        status: 'succeeded',
+        output: [await renderOutput(toolType, job.input)],
+        duration_seconds: toolType === 'image' ? undefined : (job.input.duration || job.input.audioDuration || 5),
+        elapsed_seconds: duration / 1000,
+      });
+    },
+
+    async cancel() {
+      // Nothing runs in the background, so there's nothing to stop
+    },
+
+    normalize(raw): ProviderPollResult {
+      if (raw.status === 'failed') {
+        return { status: 'failed', error: raw.error };
+      }
+
+      if (raw.status !== 'succeeded') {
+        return {
+          status: 'processing',
+          progress: Math.min(0.99, raw.progress || 0),
+          progressText: 'Rendering mock output',
+        };
+      }
+
+      return {
+        status: 'succeeded',
+        progress: 1,
+        outputUrls: raw.output,
+        processingTimeSeconds: raw.elapsed_seconds,
+        outputDurationSeconds: raw.duration_seconds,
+      };
+    },
+  };
+
+  return mockProvider;
+}
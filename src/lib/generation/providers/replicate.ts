@@ -0,0 +1,154 @@
+// Replicate adapter (image)
+
+import Replicate from 'replicate';
+import { calculateImageCreditCost } from '../../utils';
+import { ImageJobInput } from '../../types/generation-jobs';
+import { GenerationProvider, ProviderPollResult } from './types';
+import {
+  getImageDimensions,
+  getWebhookUrl,
+  IMAGE_ASPECT_RATIOS,
+  imageParamSchema,
+  resolveAspectRatio,
+} from './shared';
+
+const replicate = new Replicate({
+  auth: process.env.REPLICATE_API_TOKEN,
+});
+
+const MODELS = [
+  { id: 'flux-pro', label: 'Flux Pro (Fast, High Quality)', providerModel: 'black-forest-labs/flux-pro' },
+  { id: 'flux-dev', label: 'Flux Dev (Experimental)', providerModel: 'black-forest-labs/flux-dev' },
+  { id: 'sdxl', label: 'SDXL (Versatile)', providerModel: 'stability-ai/sdxl:39ed52f2a78e934b3ba6e2a89f5b1c712de7dfea535525255b1aa35c5565e08b', supportsNegativePrompt: true },
+];
+
+export function resolveImageModel(model: string): string {
+  return (MODELS.find(m => m.id === model) || MODELS[0]).providerModel;
+}
+
+function buildReplicateInput(input: ImageJobInput): Record<string, any> {
+  const aspectRatio = resolveAspectRatio(input.aspectRatio);
+  const providerInput: Record<string, any> = {
+    prompt: input.prompt.trim(),
+  };
+
+  if (input.seed != null) {
+    providerInput.seed = input.seed;
+  }
+
+  if (input.model === 'sdxl') {
+    const { width, height } = getImageDimensions(aspectRatio);
+    providerInput.width = width;
+    providerInput.height = height;
+    if (input.negativePrompt) {
+      providerInput.negative_prompt = input.negativePrompt;
+    }
+  } else {
+    providerInput.aspect_ratio = aspectRatio;
+    providerInput.output_format = 'png';
+    providerInput.output_quality = 90;
+  }
+
+  return providerInput;
+}
+
+function extractReplicateUrls(output: any): string[] {
+  if (typeof output === 'string') {
+    return [output];
+  }
+
+  if (Array.isArray(output)) {
+    return output
+      .map((item) => {
+        if (typeof item === 'string') return item;
+        if (item && typeof item === 'object' && 'url' in item) return String(item.url);
+        return null;
+      })
+      .filter((url): url is string => !!url);
+  }
+
+  return [];
+}
+
+export const replicateProvider: GenerationProvider<ImageJobInput> = {
+  name: 'replicate',
+  toolType: 'image',
+
+  capabilities: {
+    models: MODELS,
+    defaultModel: 'flux-pro',
+    aspectRatios: [...IMAGE_ASPECT_RATIOS],
+    maxOutputs: 4, // Submitted as one prediction per output so each has its own seed
+    supportsWebhooks: true,
+  },
+
+  paramSchema: imageParamSchema
+    .refine(
+      input => MODELS.some(m => m.id === input.model),
+      { message: 'Unsupported image model', path: ['model'] }
+    )
+    .refine(
+      input => !input.negativePrompt || MODELS.some(m => m.id === input.model && m.supportsNegativePrompt),
+      { message: 'This model does not support negative prompts', path: ['negativePrompt'] }
+    ),
+
+  getConfigError() {
+    return process.env.REPLICATE_API_TOKEN ? null : 'Replicate API token not configured';
+  },
+
+  estimateCost(input) {
+    // Flux Pro is billed at the HD rate
+    return calculateImageCreditCost(1, input.model === 'flux-pro');
+  },
+
+  async submit(input) {
+    const selectedModel = resolveImageModel(input.model);
+    const providerInput = buildReplicateInput(input);
+    const webhook = getWebhookUrl('replicate');
+
+    const prediction = await replicate.predictions.create({
+      version: selectedModel.includes(':') ? selectedModel.split(':')[1] : selectedModel,
+      input: providerInput,
+      ...(webhook && { webhook, webhook_events_filter: ['completed' as const] }),
+    });
+
+    return { externalJobId: prediction.id, providerInput, webhookUrl: webhook };
+  },
+
+  async poll(job) {
+    const prediction = await replicate.predictions.get(job.externalJobId);
+    return replicateProvider.normalize(prediction);
+  },
+
+  async cancel(job) {
+    await replicate.predictions.cancel(job.externalJobId);
+  },
+
+  normalize(prediction): ProviderPollResult {
+    if (prediction.status === 'failed' || prediction.status === 'canceled') {
+      return {
+        status: 'failed',
+        error: 'Image generation failed: ' + (prediction.error || prediction.status),
+      };
+    }
+
+    if (prediction.status !== 'succeeded') {
+      return {
+        status: 'processing',
+        progressText: prediction.status === 'starting' ? 'Starting model' : 'Generating',
+      };
+    }
+
+    const outputUrls = extractReplicateUrls(prediction.output);
+    if (outputUrls.length === 0) {
+      return { status: 'failed', error: 'No image URL in response' };
+    }
+
+    const processingTimeSeconds = prediction.metrics?.predict_time ||
+      (prediction.completed_at && prediction.started_at
+        ? (new Date(prediction.completed_at).getTime() - new Date(prediction.started_at).getTime()) / 1000
+        : undefined);
+
+    return { status: 'succeeded', progress: 1, outputUrls, processingTimeSeconds };
+  },
+};
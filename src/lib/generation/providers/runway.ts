@@ -0,0 +1,153 @@
+// RunwayML adapter (video)
+
+import { calculateVideoCreditCost } from '../../utils';
+import { VideoJobInput } from '../../types/generation-jobs';
+import { GenerationProvider, ProviderPollResult } from './types';
+import { videoParamSchema } from './shared';
+
+const RUNWAY_API_BASE = 'https://api.dev.runwayml.com/v1';
+const RUNWAY_API_VERSION = '2024-11-06';
+
+const MODELS = [
+  { id: 'gen3-alpha-turbo', label: 'Gen-3 Alpha Turbo (5-10s)', providerModel: 'gen3a_turbo' },
+  { id: 'gen3-alpha', label: 'Gen-3 Alpha', providerModel: 'gen3a' },
+];
+
+// Clip lengths image_to_video accepts, in seconds
+const DURATIONS = [5, 10];
+
+/**
+ * text-to-video only supports veo3 at 8 seconds; image-to-video uses the
+ * requested Gen-3 model and duration.
+ */
+export function buildRunwayRequest(input: VideoJobInput): { endpoint: string; body: Record<string, any> } {
+  const imageUrl = input.imageUrl?.trim();
+
+  if (imageUrl) {
+    return {
+      endpoint: `${RUNWAY_API_BASE}/image_to_video`,
+      body: {
+        promptText: input.prompt.trim(),
+        model: (MODELS.find(m => m.id === input.model) || MODELS[0]).providerModel,
+        promptImage: imageUrl,
+        duration: input.duration,
+      },
+    };
+  }
+
+  return {
+    endpoint: `${RUNWAY_API_BASE}/text_to_video`,
+    body: {
+      promptText: input.prompt.trim(),
+      model: 'veo3',
+      ratio: '1280:720',
+      duration: 8,
+    },
+  };
+}
+
+export const runwayProvider: GenerationProvider<VideoJobInput> = {
+  name: 'runway',
+  toolType: 'video',
+
+  capabilities: {
+    models: MODELS,
+    defaultModel: 'gen3-alpha-turbo',
+    durations: DURATIONS,
+    maxOutputs: 1,
+    // RunwayML doesn't take a per-task callback URL; deliveries configured
+    // on the Runway side are still accepted by /api/webhooks/runway
+    supportsWebhooks: false,
+  },
+
+  paramSchema: videoParamSchema
+    .refine(
+      input => MODELS.some(m => m.id === input.model),
+      { message: 'Unsupported video model', path: ['model'] }
+    )
+    .refine(
+      input => DURATIONS.includes(input.duration),
+      { message: `Duration must be ${DURATIONS.join(' or ')} seconds`, path: ['duration'] }
+    ),
+
+  getConfigError() {
+    return process.env.RUNWAYML_API_KEY ? null : 'RunwayML API key not configured';
+  },
+
+  estimateCost(input) {
+    return Math.ceil(calculateVideoCreditCost(buildRunwayRequest(input).body.duration));
+  },
+
+  async submit(input) {
+    const { endpoint, body } = buildRunwayRequest(input);
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.RUNWAYML_API_KEY}`,
+        'Content-Type': 'application/json',
+        'X-Runway-Version': RUNWAY_API_VERSION,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`RunwayML API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return { externalJobId: data.id, providerInput: body };
+  },
+
+  async poll(job) {
+    const response = await fetch(`${RUNWAY_API_BASE}/tasks/${job.externalJobId}`, {
+      headers: {
+        'Authorization': `Bearer ${process.env.RUNWAYML_API_KEY}`,
+        'X-Runway-Version': RUNWAY_API_VERSION,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to check status: ${response.status}`);
+    }
+
+    return runwayProvider.normalize(await response.json());
+  },
+
+  async cancel(job) {
+    // Cancels a running task (and deletes a finished one)
+    const response = await fetch(`${RUNWAY_API_BASE}/tasks/${job.externalJobId}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${process.env.RUNWAYML_API_KEY}`,
+        'X-Runway-Version': RUNWAY_API_VERSION,
+      },
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to cancel task: ${response.status}`);
+    }
+  },
+
+  normalize(task): ProviderPollResult {
+    if (task.status === 'FAILED' || task.status === 'CANCELLED') {
+      return { status: 'failed', error: task.failure || 'Video generation failed' };
+    }
+
+    if (task.status !== 'SUCCEEDED') {
+      return {
+        status: 'processing',
+        progress: typeof task.progress === 'number' ? task.progress : task.progressRatio,
+        progressText: task.progressText || (task.status === 'PENDING' ? 'Queued' : 'Generating'),
+      };
+    }
+
+    const videoUrl = task.output?.[0] || task.artifacts?.[0]?.url;
+    if (!videoUrl) {
+      return { status: 'failed', error: 'No video URL in response' };
+    }
+
+    return { status: 'succeeded', progress: 1, outputUrls: [videoUrl] };
+  },
+};
@@ -0,0 +1,78 @@
+// Binary Blender Provider Helpers
+// Settings shared by more than one provider adapter
+
+import { z } from 'zod';
+import { ProviderName } from './types';
+
+/**
+ * Public callback URL for a provider, or null when webhooks aren't
+ * configured (e.g. local development) and we rely on polling alone.
+ */
+export function getWebhookUrl(provider: ProviderName): string | null {
+  const baseUrl = process.env.WEBHOOK_BASE_URL;
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}/api/webhooks/${provider}` : null;
+}
+
+// ============================================================================
+// Images
+// ============================================================================
+
+export const IMAGE_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'] as const;
+
+const IMAGE_DIMENSIONS: Record<string, { width: number; height: number }> = {
+  '1:1': { width: 1024, height: 1024 },
+  '16:9': { width: 1344, height: 768 },
+  '9:16': { width: 768, height: 1344 },
+  '4:3': { width: 1152, height: 896 },
+  '3:4': { width: 896, height: 1152 },
+};
+
+export function resolveAspectRatio(aspectRatio: string): string {
+  return IMAGE_DIMENSIONS[aspectRatio] ? aspectRatio : '1:1';
+}
+
+export function getImageDimensions(aspectRatio: string): { width: number; height: number } {
+  return IMAGE_DIMENSIONS[resolveAspectRatio(aspectRatio)];
+}
+
+// ============================================================================
+// Request Schemas
+// ============================================================================
+
+// Largest seed every image model accepts
+export const MAX_IMAGE_SEED = 2147483647;
+
+export const imageParamSchema = z.object({
+  prompt: z.string().trim().min(1, 'Prompt is required'),
+  aspectRatio: z.enum(IMAGE_ASPECT_RATIOS).default('1:1'),
+  model: z.string().default('flux-pro'),
+  seed: z.coerce.number().int('Seed must be a whole number').min(0).max(MAX_IMAGE_SEED).nullish(),
+  negativePrompt: z.string().trim().max(1000).nullish().transform(value => value || null),
+});
+
+export const imageBatchParamSchema = z.object({
+  numOutputs: z.coerce.number().int().min(1, 'At least one output is required').default(1),
+  seedIncrement: z.coerce.number().int().min(0).default(1),
+});
+
+export const videoParamSchema = z.object({
+  prompt: z.string().trim().min(1, 'Prompt is required'),
+  imageUrl: z.string().trim().url('Image URL must be a valid URL').nullish().or(z.literal('').transform(() => null)),
+  model: z.string().default('gen3-alpha-turbo'),
+  duration: z.coerce.number().int().min(1).max(10).default(5),
+});
+
+// Inputs the provider downloads itself, so they must be public web URLs
+function httpUrlSchema(label: string) {
+  return z.string({ error: `${label} is required` })
+    .trim()
+    .min(1, `${label} is required`)
+    .url(`${label} must be a valid URL`)
+    .refine(value => /^https?:\/\//i.test(value), `${label} must be an http(s) URL`);
+}
+
+export const lipsyncParamSchema = z.object({
+  imageUrl: httpUrlSchema('Image URL'),
+  audioUrl: httpUrlSchema('Audio URL'),
+  audioDuration: z.coerce.number().positive().nullish(),
+});
@@ -0,0 +1,64 @@
+// Binary Blender Generation Provider Types
+// Contract every provider adapter implements. The job subsystem only talks
+// to providers through this interface.
+
+import { z } from 'zod';
+import { GenerationJobInput, GenerationToolType } from '../../types/generation-jobs';
+
+export type ProviderName = 'replicate' | 'runway' | 'akool' | 'mock';
+
+export interface ProviderModelOption {
+  id: string; // Our model id, as sent by the studio pages
+  label: string;
+  providerModel: string; // The provider's own model/version identifier
+  supportsNegativePrompt?: boolean;
+}
+
+export interface ProviderCapabilities {
+  models: ProviderModelOption[];
+  defaultModel: string;
+  aspectRatios?: string[];
+  durations?: number[]; // seconds
+  maxOutputs: number;
+  supportsWebhooks: boolean;
+}
+
+export interface ProviderSubmission {
+  externalJobId: string;
+  providerInput: Record<string, any>; // Exact payload sent to the provider
+  webhookUrl?: string | null; // Set when the provider will call us back
+}
+
+export interface ProviderPollResult {
+  status: 'processing' | 'succeeded' | 'failed';
+  progress?: number;
+  progressText?: string;
+  outputUrls?: string[];
+  error?: string;
+  processingTimeSeconds?: number;
+  outputDurationSeconds?: number;
+}
+
+// What a provider needs to know about a job in order to poll it
+export interface ProviderJobRef {
+  externalJobId: string;
+  input: Record<string, any>;
+  startedAt: string | null;
+}
+
+export interface GenerationProvider<TInput extends GenerationJobInput = GenerationJobInput> {
+  name: ProviderName;
+  toolType: GenerationToolType;
+  capabilities: ProviderCapabilities;
+  // Validates and fills defaults for the request body of the generate route
+  paramSchema: z.ZodType<TInput>;
+  // Returns an error message when the provider can't be used (e.g. no API key)
+  getConfigError(): string | null;
+  estimateCost(input: TInput): number;
+  submit(input: TInput): Promise<ProviderSubmission>;
+  poll(job: ProviderJobRef): Promise<ProviderPollResult>;
+  // Stops a running job at the provider; omitted when the API can't
+  cancel?(job: ProviderJobRef): Promise<void>;
+  // Maps a raw provider payload (API response or webhook body) to a result
+  normalize(raw: any): ProviderPollResult;
+}
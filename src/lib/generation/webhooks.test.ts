@@ -0,0 +1,234 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabaseAdmin } from '@/lib/supabase';
+import { FakeSupabase } from '@/test/fake-supabase';
+import {
+  loadWebhookFixture,
+  signAkool,
+  signReplicate,
+  signRunway,
+  SignedDelivery,
+  WEBHOOK_SECRETS,
+} from '@/test/webhook-signing';
+import { handleProviderWebhook, WebhookVerificationError } from './webhooks';
+
+vi.mock('@/lib/supabase', async () => {
+  const { FakeSupabase } = await import('@/test/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase() };
+});
+
+// Outputs stay at the provider URL; copying and media processing are out of scope
+vi.mock('@/lib/s3-upload', () => ({
+  generateAssetKey: () => 'assets/test-key',
+  uploadUrlToS3: async () => ({ success: false, error: 'S3 disabled in tests' }),
+}));
+vi.mock('@/lib/asset-media', () => ({
+  processAudioAsset: async () => null,
+  processVideoAsset: async () => null,
+}));
+vi.mock('@/lib/search/visual', () => ({
+  indexAssetVisuals: async () => false,
+}));
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+const USER_ID = '6f1c2a4e-0d6b-4c55-9a57-0b8f6f1f2d11';
+const STARTING_CREDITS = 100;
+const RESERVED_CREDITS = 4;
+
+type Provider = 'replicate' | 'runway' | 'akool';
+
+const PROVIDERS: Array<{
+  provider: Provider;
+  toolType: 'image' | 'video' | 'lipsync';
+  input: Record<string, any>;
+  sign: (payload: any, signedAt?: number) => SignedDelivery;
+  jobId: (payload: any) => string;
+}> = [
+  {
+    provider: 'replicate',
+    toolType: 'image',
+    input: { prompt: 'A lighthouse on a cliff at golden hour', aspectRatio: '16:9', model: 'flux-pro' },
+    sign: signReplicate,
+    jobId: payload => payload.id,
+  },
+  {
+    provider: 'runway',
+    toolType: 'video',
+    input: { prompt: 'Waves rolling in', model: 'gen3-alpha-turbo', duration: 5 },
+    sign: signRunway,
+    jobId: payload => payload.id,
+  },
+  {
+    provider: 'akool',
+    toolType: 'lipsync',
+    input: { imageUrl: 'https://example.com/face.png', audioUrl: 'https://example.com/voice.mp3', audioDuration: 12 },
+    sign: signAkool,
+    jobId: payload => payload._id,
+  },
+];
+
+function balance(): number {
+  return db.table('credit_transactions')
+    .filter(transaction => transaction.user_id === USER_ID)
+    .reduce((total, transaction) => total + transaction.amount, 0);
+}
+
+function seedJob(provider: Provider, toolType: string, input: Record<string, any>, externalJobId: string) {
+  const generationId = crypto.randomUUID();
+  db.table('generations').push({
+    id: generationId,
+    user_id: USER_ID,
+    tool_type: toolType,
+    input_data: input,
+    status: 'processing',
+    provider,
+    external_job_id: externalJobId,
+    credits_used: RESERVED_CREDITS,
+    project_id: null,
+    poll_attempts: 0,
+    started_at: new Date(Date.now() - 30 * 1000).toISOString(),
+    next_poll_at: new Date(Date.now() + 60 * 1000).toISOString(),
+    locked_until: null,
+    asset_ids: [],
+    metadata: { saveToRepository: true, inputAssetIds: {} },
+    created_at: new Date(Date.now() - 30 * 1000).toISOString(),
+  });
+  db.table('credit_transactions').push({
+    id: crypto.randomUUID(),
+    user_id: USER_ID,
+    amount: -RESERVED_CREDITS,
+    transaction_type: 'usage',
+    generation_id: generationId,
+  });
+  return db.table('generations').find(job => job.id === generationId)!;
+}
+
+beforeAll(() => {
+  Object.assign(process.env, WEBHOOK_SECRETS);
+});
+
+beforeEach(() => {
+  db.reset();
+  db.table('credit_transactions').push({
+    id: crypto.randomUUID(),
+    user_id: USER_ID,
+    amount: STARTING_CREDITS,
+    transaction_type: 'purchase',
+    generation_id: null,
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe.each(PROVIDERS)('$provider webhooks', ({ provider, toolType, input, sign, jobId }) => {
+  const succeeded = loadWebhookFixture(`${provider}-succeeded`);
+  const failed = loadWebhookFixture(`${provider}-failed`);
+
+  it('finalizes the job from a signed success callback', async () => {
+    const job = seedJob(provider, toolType, input, jobId(succeeded));
+    const delivery = sign(succeeded);
+
+    const result = await handleProviderWebhook(provider, delivery.headers, delivery.body);
+
+    expect(result).toEqual({ status: 'processed', generationId: job.id });
+    expect(job.status).toBe('completed');
+    expect(job.output_urls).toHaveLength(1);
+    expect(job.locked_until).toBeNull();
+
+    const outputs = db.table('assets').filter(asset => asset.generation_id === job.id);
+    expect(outputs).toHaveLength(1);
+    expect(job.asset_ids).toEqual([outputs[0].id]);
+    expect(outputs[0].file_url).toBe(job.output_urls[0]);
+
+    expect(balance()).toBe(STARTING_CREDITS - job.credits_used);
+    expect(db.table('webhook_events')).toHaveLength(1);
+    expect(db.table('webhook_events')[0].processed_at).toBeTruthy();
+  });
+
+  it('acknowledges a redelivery without finalizing again', async () => {
+    const job = seedJob(provider, toolType, input, jobId(succeeded));
+    const delivery = sign(succeeded);
+
+    await handleProviderWebhook(provider, delivery.headers, delivery.body);
+    const assetCount = db.table('assets').length;
+    const ledgerCount = db.table('credit_transactions').length;
+
+    const redelivery = await handleProviderWebhook(provider, delivery.headers, delivery.body);
+
+    expect(redelivery).toEqual({ status: 'duplicate', generationId: job.id });
+    expect(db.table('assets')).toHaveLength(assetCount);
+    expect(db.table('credit_transactions')).toHaveLength(ledgerCount);
+    expect(db.table('webhook_events')).toHaveLength(1);
+  });
+
+  it('fails the job and refunds its credits from a failure callback', async () => {
+    const job = seedJob(provider, toolType, input, jobId(failed));
+    const delivery = sign(failed);
+
+    const result = await handleProviderWebhook(provider, delivery.headers, delivery.body);
+
+    expect(result.status).toBe('processed');
+    expect(job.status).toBe('failed');
+    expect(job.error_message).toBeTruthy();
+    expect(balance()).toBe(STARTING_CREDITS);
+    expect(db.table('assets')).toHaveLength(0);
+  });
+
+  it('rejects a delivery whose body was changed after signing', async () => {
+    const job = seedJob(provider, toolType, input, jobId(succeeded));
+    const delivery = sign(succeeded);
+    const tampered = provider === 'akool'
+      ? JSON.stringify({ ...JSON.parse(delivery.body), nonce: 'replayed' })
+      : delivery.body.replace(jobId(succeeded), `${jobId(succeeded)}x`);
+
+    await expect(handleProviderWebhook(provider, delivery.headers, tampered))
+      .rejects.toBeInstanceOf(WebhookVerificationError);
+    expect(job.status).toBe('processing');
+    expect(db.table('webhook_events')).toHaveLength(0);
+  });
+
+  it('rejects a delivery signed outside the replay window', async () => {
+    seedJob(provider, toolType, input, jobId(succeeded));
+    const delivery = sign(succeeded, Date.now() - 10 * 60 * 1000);
+
+    await expect(handleProviderWebhook(provider, delivery.headers, delivery.body))
+      .rejects.toThrow('Webhook timestamp outside tolerance');
+  });
+
+  it('releases the delivery when another worker holds the job', async () => {
+    const job = seedJob(provider, toolType, input, jobId(succeeded));
+    job.locked_until = new Date(Date.now() + 60 * 1000).toISOString();
+    const delivery = sign(succeeded);
+
+    const result = await handleProviderWebhook(provider, delivery.headers, delivery.body);
+
+    expect(result).toEqual({ status: 'locked', generationId: job.id });
+    expect(job.status).toBe('processing');
+    // Released so the provider's retry is not taken for a duplicate
+    expect(db.table('webhook_events')).toHaveLength(0);
+  });
+
+  it('ignores callbacks for jobs that already finished', async () => {
+    const job = seedJob(provider, toolType, input, jobId(succeeded));
+    job.status = 'failed';
+    const delivery = sign(succeeded);
+
+    const result = await handleProviderWebhook(provider, delivery.headers, delivery.body);
+
+    expect(result).toMatchObject({ status: 'ignored', generationId: job.id });
+    expect(db.table('assets')).toHaveLength(0);
+  });
+
+  it('leaves callbacks for unknown jobs to the provider\'s retry', async () => {
+    const delivery = sign(succeeded);
+
+    const result = await handleProviderWebhook(provider, delivery.headers, delivery.body);
+
+    expect(result).toEqual({ status: 'unknown', reason: 'Unknown job' });
+    // Nothing recorded, so the redelivery is not taken for a duplicate
+    expect(db.table('webhook_events')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,324 @@
+// Binary Blender Provider Webhooks
+// Verifies provider callbacks, maps them to generation jobs and finalizes the
+// job through the same path the poller uses. Pure request-in/result-out so it
+// can be driven by the API route or by replaying recorded fixtures.
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../supabase';
+import {
+  applyProviderResult,
+  claimGenerationJobs,
+  findGenerationByExternalJobId,
+} from './jobs';
+import { getProviderByName, ProviderName, ProviderPollResult } from './providers';
+
+// Reject deliveries signed more than this long ago (replay protection)
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParsedWebhook {
+  eventId: string;
+  externalJobId: string;
+  result: ProviderPollResult;
+  payload: any;
+}
+
+export interface WebhookResult {
+  status: 'processed' | 'duplicate' | 'ignored' | 'locked' | 'unknown';
+  generationId?: string;
+  reason?: string;
+}
+
+type WebhookProviderName = Exclude<ProviderName, 'mock'>;
+
+export const WEBHOOK_PROVIDERS: WebhookProviderName[] = ['replicate', 'runway', 'akool'];
+
+export function isWebhookProvider(provider: string): provider is WebhookProviderName {
+  return (WEBHOOK_PROVIDERS as string[]).includes(provider);
+}
+
+// ============================================================================
+// Signature Verification
+// ============================================================================
+
+function timingSafeEqualString(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+function assertFreshTimestamp(timestamp: string | null): void {
+  const seconds = Number(timestamp);
+  if (!timestamp || !Number.isFinite(seconds)) {
+    throw new WebhookVerificationError('Missing webhook timestamp');
+  }
+
+  // Some providers send milliseconds
+  const signedAt = seconds > 1e12 ? seconds / 1000 : seconds;
+  if (Math.abs(Date.now() / 1000 - signedAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new WebhookVerificationError('Webhook timestamp outside tolerance');
+  }
+}
+
+function requireSecret(name: string): string {
+  const secret = process.env[name];
+  if (!secret) {
+    throw new WebhookVerificationError(`${name} not configured`);
+  }
+  return secret;
+}
+
+/**
+ * Replicate signs with the Standard Webhooks scheme: base64 HMAC-SHA256 of
+ * "<webhook-id>.<webhook-timestamp>.<body>" keyed by the whsec_ secret.
+ */
+export function verifyReplicateSignature(headers: Headers, rawBody: string, secret: string): string {
+  const webhookId = headers.get('webhook-id');
+  const timestamp = headers.get('webhook-timestamp');
+  const signatureHeader = headers.get('webhook-signature');
+
+  if (!webhookId || !signatureHeader) {
+    throw new WebhookVerificationError('Missing Replicate signature headers');
+  }
+  assertFreshTimestamp(timestamp);
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const expected = crypto
+    .createHmac('sha256', key)
+    .update(`${webhookId}.${timestamp}.${rawBody}`)
+    .digest('base64');
+
+  // The header can carry several space-separated "v1,<signature>" entries
+  const valid = signatureHeader
+    .split(' ')
+    .map(entry => entry.split(',')[1])
+    .some(signature => signature && timingSafeEqualString(signature, expected));
+
+  if (!valid) {
+    throw new WebhookVerificationError('Invalid Replicate signature');
+  }
+
+  return webhookId;
+}
+
+/**
+ * RunwayML callbacks carry a hex HMAC-SHA256 of "<timestamp>.<body>".
+ */
+export function verifyRunwaySignature(headers: Headers, rawBody: string, secret: string): void {
+  const timestamp = headers.get('x-runway-timestamp');
+  const signature = headers.get('x-runway-signature');
+
+  if (!signature) {
+    throw new WebhookVerificationError('Missing RunwayML signature header');
+  }
+  assertFreshTimestamp(timestamp);
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+
+  if (!timingSafeEqualString(signature.replace(/^sha256=/, ''), expected)) {
+    throw new WebhookVerificationError('Invalid RunwayML signature');
+  }
+}
+
+/**
+ * AKOOL posts { signature, dataEncrypt, timestamp, nonce }. The signature is
+ * SHA1 over the sorted [clientId, timestamp, nonce, dataEncrypt] strings and
+ * the payload is AES-CBC encrypted with the client secret (key) and client
+ * id (IV). Returns the decrypted payload.
+ */
+export function verifyAkoolCallback(
+  body: { signature?: string; dataEncrypt?: string; timestamp?: number | string; nonce?: string },
+  clientId: string,
+  clientSecret: string
+): any {
+  const { signature, dataEncrypt, timestamp, nonce } = body;
+
+  if (!signature || !dataEncrypt || !nonce) {
+    throw new WebhookVerificationError('Malformed AKOOL callback');
+  }
+  assertFreshTimestamp(timestamp != null ? String(timestamp) : null);
+
+  const expected = crypto
+    .createHash('sha1')
+    .update([clientId, String(timestamp), nonce, dataEncrypt].sort().join(''))
+    .digest('hex');
+
+  if (!timingSafeEqualString(signature, expected)) {
+    throw new WebhookVerificationError('Invalid AKOOL signature');
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(
+      `aes-${clientSecret.length * 8}-cbc`,
+      Buffer.from(clientSecret, 'utf8'),
+      Buffer.from(clientId, 'utf8')
+    );
+    const decrypted = decipher.update(dataEncrypt, 'base64', 'utf8') + decipher.final('utf8');
+    return JSON.parse(decrypted);
+  } catch {
+    throw new WebhookVerificationError('Failed to decrypt AKOOL payload');
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function parseJson(rawBody: string): any {
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    throw new WebhookVerificationError('Webhook body is not valid JSON');
+  }
+}
+
+/**
+ * Verify a delivery and extract the job id and normalized status.
+ * Throws WebhookVerificationError if the delivery can't be trusted.
+ */
+export function parseProviderWebhook(
+  provider: WebhookProviderName,
+  headers: Headers,
+  rawBody: string
+): ParsedWebhook {
+  const adapter = getProviderByName(provider)!;
+
+  switch (provider) {
+    case 'replicate': {
+      const deliveryId = verifyReplicateSignature(headers, rawBody, requireSecret('REPLICATE_WEBHOOK_SECRET'));
+      const prediction = parseJson(rawBody);
+      return {
+        eventId: deliveryId,
+        externalJobId: prediction.id,
+        result: adapter.normalize(prediction),
+        payload: prediction,
+      };
+    }
+    case 'runway': {
+      verifyRunwaySignature(headers, rawBody, requireSecret('RUNWAYML_WEBHOOK_SECRET'));
+      const task = parseJson(rawBody);
+      return {
+        eventId: `${task.id}:${task.status}`,
+        externalJobId: task.id,
+        result: adapter.normalize(task),
+        payload: task,
+      };
+    }
+    case 'akool': {
+      const video = verifyAkoolCallback(
+        parseJson(rawBody),
+        requireSecret('AKOOL_CLIENT_ID'),
+        requireSecret('AKOOL_CLIENT_SECRET')
+      );
+      return {
+        eventId: `${video._id}:${video.status}`,
+        externalJobId: video._id,
+        result: adapter.normalize(video),
+        payload: video,
+      };
+    }
+  }
+}
+
+// ============================================================================
+// Handling
+// ============================================================================
+
+/**
+ * Verify, de-duplicate and apply a provider webhook delivery.
+ * Duplicate deliveries and callbacks for jobs that already finished are
+ * acknowledged without side effects.
+ */
+export async function handleProviderWebhook(
+  provider: WebhookProviderName,
+  headers: Headers,
+  rawBody: string
+): Promise<WebhookResult> {
+  const parsed = parseProviderWebhook(provider, headers, rawBody);
+
+  if (!parsed.externalJobId) {
+    return { status: 'ignored', reason: 'No job id in payload' };
+  }
+
+  // A fast provider can call back before the submission has saved the job
+  // id; reporting it unknown lets the provider's retry find the job
+  const generation = await findGenerationByExternalJobId(provider, parsed.externalJobId);
+  if (!generation) {
+    return { status: 'unknown', reason: 'Unknown job' };
+  }
+
+  // Claim the delivery; the unique (provider, event_id) constraint makes a
+  // redelivery fail here
+  const { data: event, error: eventError } = await supabaseAdmin
+    .from('webhook_events')
+    .insert({
+      provider,
+      event_id: parsed.eventId,
+      external_job_id: parsed.externalJobId,
+      generation_id: generation.id,
+      payload: parsed.payload,
+    })
+    .select('id')
+    .single();
+
+  if (eventError) {
+    if (eventError.code === '23505') {
+      return { status: 'duplicate', generationId: generation.id };
+    }
+    throw new Error(`Failed to record webhook event: ${eventError.message}`);
+  }
+
+  if (generation.status === 'completed' || generation.status === 'failed') {
+    await markEventProcessed(event.id);
+    return { status: 'ignored', generationId: generation.id, reason: `Job already ${generation.status}` };
+  }
+
+  // The poller may be holding this job right now; release the delivery so
+  // the provider's retry can try again
+  const [claimed] = await claimGenerationJobs(1, generation.id, true);
+  if (!claimed) {
+    await releaseEvent(event.id);
+    return { status: 'locked', generationId: generation.id };
+  }
+
+  try {
+    await applyProviderResult(claimed, parsed.result);
+  } catch (error) {
+    await releaseEvent(event.id);
+    throw error;
+  }
+
+  await markEventProcessed(event.id);
+  return { status: 'processed', generationId: generation.id };
+}
+
+async function markEventProcessed(eventId: string): Promise<void> {
+  await supabaseAdmin
+    .from('webhook_events')
+    .update({ processed_at: new Date().toISOString() })
+    .eq('id', eventId);
+}
+
+async function releaseEvent(eventId: string): Promise<void> {
+  await supabaseAdmin
+    .from('webhook_events')
+    .delete()
+    .eq('id', eventId);
+}
@@ -0,0 +1,87 @@
+// Binary Blender Generation Worker
+// Background loop that advances due generation jobs so results land even if
+// nobody is watching the page that submitted them. Workflow runs and
+// orchestrated workflows ride along on the same loop since each of their
+// steps or tasks is a generation job, as do the search indexers.
+
+import { advanceGenerationJob, claimGenerationJobs } from './jobs';
+import { runWorkflowRunsOnce } from '../workflows/runs';
+import { runOrchestratedWorkflowsOnce } from '../orchestration/engine';
+import { runSearchIndexOnce } from '../search/semantic';
+import { runVisualIndexOnce } from '../search/visual';
+
+const WORKER_INTERVAL_MS = 3000;
+const WORKER_BATCH_SIZE = 10;
+
+// Once a search index is caught up, check it for new work less often
+const SEARCH_INDEX_IDLE_MS = 30000;
+
+const SEARCH_INDEXERS: Array<{ name: string; runOnce: () => Promise<number> }> = [
+  { name: 'Semantic', runOnce: () => runSearchIndexOnce() },
+  { name: 'Visual', runOnce: () => runVisualIndexOnce() },
+];
+
+/**
+ * Claim and advance one batch of due jobs. Returns how many were processed.
+ */
+export async function runGenerationWorkerOnce(limit: number = WORKER_BATCH_SIZE): Promise<number> {
+  const jobs = await claimGenerationJobs(limit);
+
+  for (const job of jobs) {
+    try {
+      await advanceGenerationJob(job);
+    } catch (error) {
+      // The lease expires on its own, so the job is retried on a later tick
+      console.error(`Error advancing generation job ${job.id}:`, error);
+    }
+  }
+
+  return jobs.length;
+}
+
+// Survives hot reloads in development so we never run two loops
+const workerState = globalThis as typeof globalThis & {
+  __generationWorkerTimer?: ReturnType<typeof setInterval>;
+};
+
+export function startGenerationWorker(intervalMs: number = WORKER_INTERVAL_MS): void {
+  if (workerState.__generationWorkerTimer) {
+    return;
+  }
+
+  let running = false;
+  const searchIndexIdleUntil = SEARCH_INDEXERS.map(() => 0);
+  workerState.__generationWorkerTimer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runGenerationWorkerOnce();
+      await runWorkflowRunsOnce();
+      await runOrchestratedWorkflowsOnce();
+      for (const [index, indexer] of SEARCH_INDEXERS.entries()) {
+        if (Date.now() < searchIndexIdleUntil[index]) continue;
+
+        const indexed = await indexer.runOnce().catch(error => {
+          console.error(`${indexer.name} search indexing failed:`, error);
+          return 0;
+        });
+        if (indexed === 0) {
+          searchIndexIdleUntil[index] = Date.now() + SEARCH_INDEX_IDLE_MS;
+        }
+      }
+    } catch (error) {
+      console.error('Generation worker tick failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  console.log(`Generation worker started (every ${intervalMs}ms)`);
+}
+
+export function stopGenerationWorker(): void {
+  if (workerState.__generationWorkerTimer) {
+    clearInterval(workerState.__generationWorkerTimer);
+    workerState.__generationWorkerTimer = undefined;
+  }
+}
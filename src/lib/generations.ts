@@ -0,0 +1,90 @@
+// Binary Blender Generation Records
+// Persists each image, video and lipsync call in the generations table so
+// credit transactions have something to link to.
+
+import { supabaseAdmin, Generation } from './supabase';
+
+export async function createGenerationRecord(
+  userId: string,
+  toolType: Generation['tool_type'],
+  inputData: Record<string, any>,
+  options: {
+    status?: Generation['status'];
+    provider?: string;
+    projectId?: string | null;
+    metadata?: Record<string, any>;
+  } = {}
+): Promise<Generation> {
+  const { data, error } = await supabaseAdmin
+    .from('generations')
+    .insert({
+      user_id: userId,
+      tool_type: toolType,
+      input_data: inputData,
+      status: options.status || 'processing',
+      provider: options.provider || null,
+      project_id: options.projectId || null,
+      metadata: options.metadata || {},
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create generation record: ${error?.message}`);
+  }
+
+  return data;
+}
+
+export async function completeGenerationRecord(
+  generationId: string,
+  result: {
+    outputUrls: string[];
+    externalJobId?: string;
+    thumbnailUrl?: string;
+    processingTimeSeconds?: number;
+    assetIds?: string[];
+  }
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('generations')
+    .update({
+      status: 'completed',
+      output_urls: result.outputUrls,
+      external_job_id: result.externalJobId || null,
+      thumbnail_url: result.thumbnailUrl || null,
+      processing_time_seconds: result.processingTimeSeconds != null
+        ? Math.round(result.processingTimeSeconds)
+        : null,
+      ...(result.assetIds && { asset_ids: result.assetIds }),
+      progress: 1,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', generationId);
+
+  if (error) {
+    console.error('Error completing generation record:', error);
+  }
+}
+
+export async function failGenerationRecord(
+  generationId: string,
+  errorMessage: string,
+  externalJobId?: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('generations')
+    .update({
+      status: 'failed',
+      error_message: errorMessage,
+      ...(externalJobId && { external_job_id: externalJobId }),
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', generationId);
+
+  if (error) {
+    console.error('Error failing generation record:', error);
+  }
+}
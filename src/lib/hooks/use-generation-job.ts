@@ -0,0 +1,142 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { GenerationJob, GenerationJobEventType, GenerationToolType, SubmitGenerationJobResponse } from '@/lib/types/generation-jobs'
+
+interface UseGenerationJobOptions {
+  onCompleted?: (job: GenerationJob) => void
+  onFailed?: (job: GenerationJob) => void
+}
+
+function readStoredJobIds(value: string | null): string[] {
+  if (!value) return []
+  try {
+    const ids = JSON.parse(value)
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Submit a generation and follow its progress over the server-sent events
+ * at /api/generations/[id]/events. Batch submissions return several jobs;
+ * each is followed and reported to onCompleted/onFailed as it finishes.
+ * The active job ids are kept in localStorage so reopening the page picks
+ * them back up instead of losing the results.
+ */
+export function useGenerationJob(toolType: GenerationToolType, options: UseGenerationJobOptions = {}) {
+  const storageKey = `generation-job:${toolType}`
+  const [jobIds, setJobIds] = useState<string[]>([])
+  const [activeIds, setActiveIds] = useState<string[]>([])
+  const [jobsById, setJobsById] = useState<Record<string, GenerationJob>>({})
+  const sources = useRef<Map<string, EventSource>>(new Map())
+  const callbacks = useRef(options)
+  callbacks.current = options
+
+  // Resume jobs that were still running when the page was closed
+  useEffect(() => {
+    const storedIds = readStoredJobIds(window.localStorage.getItem(storageKey))
+    if (storedIds.length > 0) {
+      setJobIds(storedIds)
+      setActiveIds(storedIds)
+    }
+  }, [storageKey])
+
+  useEffect(() => {
+    if (activeIds.length === 0) {
+      window.localStorage.removeItem(storageKey)
+    } else {
+      window.localStorage.setItem(storageKey, JSON.stringify(activeIds))
+    }
+
+    const open = sources.current
+    open.forEach((source, jobId) => {
+      if (!activeIds.includes(jobId)) {
+        source.close()
+        open.delete(jobId)
+      }
+    })
+
+    const stopFollowing = (jobId: string) => {
+      open.get(jobId)?.close()
+      open.delete(jobId)
+      setActiveIds(previous => previous.filter(id => id !== jobId))
+    }
+
+    activeIds.forEach(jobId => {
+      if (open.has(jobId)) return
+
+      const source = new EventSource(`/api/generations/${jobId}/events`)
+      const update = (event: MessageEvent): GenerationJob => {
+        const current = JSON.parse(event.data) as GenerationJob
+        setJobsById(previous => ({ ...previous, [current.id]: current }))
+        return current
+      }
+
+      ;(['snapshot', 'status', 'progress'] as GenerationJobEventType[]).forEach(type => {
+        source.addEventListener(type, update)
+      })
+      source.addEventListener('completed', (event) => {
+        callbacks.current.onCompleted?.(update(event as MessageEvent))
+        stopFollowing(jobId)
+      })
+      source.addEventListener('failed', (event) => {
+        callbacks.current.onFailed?.(update(event as MessageEvent))
+        stopFollowing(jobId)
+      })
+      source.onerror = () => {
+        // Dropped streams reconnect on their own. CLOSED means the server
+        // refused it: the job is gone (or belongs to another account)
+        if (source.readyState === EventSource.CLOSED) {
+          stopFollowing(jobId)
+        }
+      }
+
+      open.set(jobId, source)
+    })
+  }, [activeIds, storageKey])
+
+  useEffect(() => {
+    const open = sources.current
+    return () => {
+      open.forEach(source => source.close())
+      open.clear()
+    }
+  }, [])
+
+  const submit = useCallback(async (endpoint: string, body: Record<string, any>) => {
+    setJobsById({})
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to start generation')
+    }
+
+    const submitted = data as SubmitGenerationJobResponse
+    const ids = submitted.jobs ? submitted.jobs.map(job => job.id) : [submitted.id]
+    setJobIds(ids)
+    setActiveIds(ids)
+    return submitted
+  }, [])
+
+  const jobs = jobIds
+    .map(id => jobsById[id])
+    .filter((job): job is GenerationJob => !!job)
+
+  return {
+    job: jobs[0] || null,
+    jobs,
+    isRunning: activeIds.length > 0,
+    submit,
+  }
+}
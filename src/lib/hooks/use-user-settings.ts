@@ -0,0 +1,35 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { UserSettings } from '@/lib/types/user-preferences'
+
+/**
+ * The signed-in user's settings from /api/settings, or null until they've
+ * loaded (or if they couldn't be).
+ */
+export function useUserSettings(): UserSettings | null {
+  const [settings, setSettings] = useState<UserSettings | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/settings')
+        const data = await response.json()
+        if (data.success && !cancelled) {
+          setSettings(data.data.settings)
+        }
+      } catch (error) {
+        console.error('Error loading settings:', error)
+      }
+    }
+
+    loadSettings()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return settings
+}
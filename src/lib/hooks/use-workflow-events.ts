@@ -0,0 +1,70 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { WorkflowSnapshot, WorkflowTask, WorkflowTaskProgress } from '@/lib/types/orchestration'
+
+const FINISHED_EVENTS = ['completed', 'failed', 'cancelled']
+
+/**
+ * Follow an orchestrated workflow over /api/orchestrate/[id]/events.
+ * Returns its latest snapshot (null until the first event arrives); the
+ * stream is closed once the workflow finishes.
+ */
+export function useWorkflowEvents(workflowId: string | null) {
+  const [snapshot, setSnapshot] = useState<WorkflowSnapshot | null>(null)
+  const [finished, setFinished] = useState(false)
+
+  useEffect(() => {
+    setSnapshot(null)
+    setFinished(false)
+    if (!workflowId) return
+
+    const source = new EventSource(`/api/orchestrate/${workflowId}/events`)
+
+    source.addEventListener('snapshot', (event) => {
+      setSnapshot(JSON.parse((event as MessageEvent).data))
+    })
+    source.addEventListener('status', (event) => {
+      const { workflow } = JSON.parse((event as MessageEvent).data) as Pick<WorkflowSnapshot, 'workflow'>
+      setSnapshot(previous => previous && { ...previous, workflow })
+    })
+    source.addEventListener('task', (event) => {
+      const { task } = JSON.parse((event as MessageEvent).data) as { task: WorkflowTask }
+      setSnapshot(previous => previous && {
+        ...previous,
+        tasks: previous.tasks.some(item => item.id === task.id)
+          ? previous.tasks.map(item => item.id === task.id ? task : item)
+          : [...previous.tasks, task],
+        // Progress only applies while the task is running
+        progress: task.status === 'in_progress'
+          ? previous.progress
+          : previous.progress.filter(item => item.task_id !== task.id),
+      })
+    })
+    source.addEventListener('progress', (event) => {
+      const progress = JSON.parse((event as MessageEvent).data) as WorkflowTaskProgress
+      setSnapshot(previous => previous && {
+        ...previous,
+        progress: [...previous.progress.filter(item => item.task_id !== progress.task_id), progress],
+      })
+    })
+    FINISHED_EVENTS.forEach(type => {
+      source.addEventListener(type, (event) => {
+        setSnapshot(JSON.parse((event as MessageEvent).data))
+        setFinished(true)
+        source.close()
+      })
+    })
+    source.onerror = () => {
+      // Dropped streams reconnect on their own and start with a fresh
+      // snapshot. CLOSED means the server refused it (not found or signed out)
+      if (source.readyState === EventSource.CLOSED) {
+        setFinished(true)
+      }
+    }
+
+    return () => source.close()
+  }, [workflowId])
+
+  return { snapshot, finished }
+}
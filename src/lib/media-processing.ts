@@ -0,0 +1,328 @@
+// Binary Blender Media Processing
+// Frame extraction, audio decoding and metadata probing. Uses the ffmpeg and
+// ffprobe binaries bundled through npm so no system install is needed;
+// FFMPEG_PATH / FFPROBE_PATH override them.
+
+import { execFile } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import ffprobeInstaller from '@ffprobe-installer/ffprobe';
+import { assertAllowedMediaSource, downloadMedia, MAX_MEDIA_BYTES } from './media-sources';
+
+// Give up on a single ffmpeg/ffprobe call after this long
+const PROCESS_TIMEOUT_MS = 60 * 1000;
+
+// Upper bound on output we buffer (decoded frames, PCM, probe JSON)
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+// Mono sample rate used for waveform rendering; plenty for a peak envelope
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VideoStreamInfo {
+  codec: string;
+  width: number;
+  height: number;
+  fps?: number;
+}
+
+export interface AudioStreamInfo {
+  codec: string;
+  sampleRate?: number;
+  channels?: number;
+}
+
+export interface MediaProbe {
+  durationSeconds?: number;
+  sizeBytes?: number;
+  format?: string;
+  bitRate?: number;
+  video?: VideoStreamInfo;
+  audio?: AudioStreamInfo;
+}
+
+// ============================================================================
+// Binaries
+// ============================================================================
+
+export function getFfmpegPath(): string {
+  return process.env.FFMPEG_PATH || ffmpegInstaller.path;
+}
+
+export function getFfprobePath(): string {
+  return process.env.FFPROBE_PATH || ffprobeInstaller.path;
+}
+
+export interface MediaBinaryOutput {
+  stdout: Buffer;
+  stderr: string;
+}
+
+export function runMediaBinary(binary: string, args: string[]): Promise<MediaBinaryOutput> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      binary,
+      args,
+      { encoding: 'buffer', maxBuffer: MAX_OUTPUT_BYTES, timeout: PROCESS_TIMEOUT_MS },
+      (error, stdout, stderr) => {
+        if (error) {
+          const detail = stderr?.toString().trim().split('\n').pop();
+          reject(new Error(`${path.basename(binary)} failed: ${detail || error.message}`));
+          return;
+        }
+        resolve({ stdout, stderr: stderr.toString() });
+      }
+    );
+  });
+}
+
+// ============================================================================
+// Local Files
+// ============================================================================
+
+/**
+ * Run `fn` against a local copy of the media, downloaded to a temp file that
+ * is removed afterwards. Only data URLs and files in our storage are
+ * accepted; anything else would hand ffmpeg a path or protocol of the
+ * caller's choosing.
+ */
+export async function withLocalMedia<T>(
+  source: string,
+  fn: (filePath: string) => Promise<T>,
+  maxBytes: number = MAX_MEDIA_BYTES
+): Promise<T> {
+  assertAllowedMediaSource(source);
+
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'bb-media-'));
+  const filePath = path.join(directory, 'source');
+
+  try {
+    await downloadMedia(source, filePath, maxBytes);
+    return await fn(filePath);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+// ============================================================================
+// Probing
+// ============================================================================
+
+function parseFrameRate(rate?: string): number | undefined {
+  if (!rate) return undefined;
+  const [numerator, denominator] = rate.split('/').map(Number);
+  if (!numerator || !denominator) return undefined;
+  return Math.round((numerator / denominator) * 100) / 100;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return Number.isFinite(number) && value !== undefined && value !== null && value !== '' ? number : undefined;
+}
+
+export async function probeMedia(filePath: string): Promise<MediaProbe> {
+  const { stdout } = await runMediaBinary(getFfprobePath(), [
+    '-v', 'error',
+    '-print_format', 'json',
+    '-show_format',
+    '-show_streams',
+    filePath,
+  ]);
+
+  const { format = {}, streams = [] } = JSON.parse(stdout.toString());
+  const videoStream = streams.find((stream: any) => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+  const audioStream = streams.find((stream: any) => stream.codec_type === 'audio');
+
+  return {
+    durationSeconds: toNumber(format.duration) ?? toNumber(videoStream?.duration) ?? toNumber(audioStream?.duration),
+    sizeBytes: toNumber(format.size),
+    format: format.format_name,
+    bitRate: toNumber(format.bit_rate),
+    video: videoStream ? {
+      codec: videoStream.codec_name,
+      width: videoStream.width,
+      height: videoStream.height,
+      fps: parseFrameRate(videoStream.avg_frame_rate) ?? parseFrameRate(videoStream.r_frame_rate),
+    } : undefined,
+    audio: audioStream ? {
+      codec: audioStream.codec_name,
+      sampleRate: toNumber(audioStream.sample_rate),
+      channels: toNumber(audioStream.channels),
+    } : undefined,
+  };
+}
+
+// ============================================================================
+// Frames
+// ============================================================================
+
+/**
+ * Evenly spaced offsets across the clip, avoiding the very first and last
+ * frames (often black or mid-transition).
+ */
+export function getPreviewOffsets(durationSeconds: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => durationSeconds * (i + 0.5) / count);
+}
+
+/**
+ * Clamp a requested offset into the clip so short videos still get a frame.
+ */
+export function clampFrameOffset(offsetSeconds: number, durationSeconds?: number): number {
+  if (!durationSeconds) return Math.max(0, offsetSeconds);
+  return offsetSeconds < durationSeconds ? Math.max(0, offsetSeconds) : durationSeconds / 2;
+}
+
+/**
+ * Decode one frame at `offsetSeconds` as a JPEG, scaled to `width`.
+ */
+export async function extractVideoFrame(
+  filePath: string,
+  offsetSeconds: number,
+  width: number = 512
+): Promise<Buffer> {
+  const { stdout: frame } = await runMediaBinary(getFfmpegPath(), [
+    '-v', 'error',
+    '-ss', offsetSeconds.toFixed(3),
+    '-i', filePath,
+    '-frames:v', '1',
+    '-vf', `scale=${width}:-2`,
+    '-f', 'image2pipe',
+    '-vcodec', 'mjpeg',
+    '-q:v', '3',
+    'pipe:1',
+  ]);
+
+  if (frame.length === 0) {
+    throw new Error(`No frame decoded at ${offsetSeconds.toFixed(2)}s`);
+  }
+
+  return frame;
+}
+
+/**
+ * Lay frames side by side into a single JPEG strip.
+ */
+export async function buildContactStrip(frames: Buffer[], frameWidth: number = 256): Promise<Buffer> {
+  const resized = await Promise.all(
+    frames.map(frame => sharp(frame).resize({ width: frameWidth }).toBuffer({ resolveWithObject: true }))
+  );
+  const height = Math.max(...resized.map(({ info }) => info.height));
+
+  return sharp({
+    create: {
+      width: frameWidth * resized.length,
+      height,
+      channels: 3,
+      background: '#000000',
+    },
+  })
+    .composite(resized.map(({ data }, i) => ({ input: data, left: i * frameWidth, top: 0 })))
+    .jpeg({ quality: 80 })
+    .toBuffer();
+}
+
+// ============================================================================
+// Audio
+// ============================================================================
+
+/**
+ * Decode the audio track to mono 32-bit float samples.
+ */
+export async function decodeAudioSamples(
+  filePath: string,
+  sampleRate: number = WAVEFORM_SAMPLE_RATE
+): Promise<Float32Array> {
+  const { stdout } = await runMediaBinary(getFfmpegPath(), [
+    '-v', 'error',
+    '-i', filePath,
+    '-vn',
+    '-ac', '1',
+    '-ar', String(sampleRate),
+    '-f', 'f32le',
+    'pipe:1',
+  ]);
+
+  // Copy into an aligned buffer; the pooled stdout Buffer may be offset
+  const aligned = new Uint8Array(stdout.length - (stdout.length % 4));
+  aligned.set(stdout.subarray(0, aligned.length));
+  return new Float32Array(aligned.buffer);
+}
+
+/**
+ * Integrated loudness (EBU R128 / ITU BS.1770) in LUFS, or undefined for
+ * silence.
+ */
+export async function measureLoudness(filePath: string): Promise<number | undefined> {
+  const { stderr } = await runMediaBinary(getFfmpegPath(), [
+    '-hide_banner',
+    '-nostats',
+    '-i', filePath,
+    '-vn',
+    '-filter_complex', 'ebur128',
+    '-f', 'null',
+    '-',
+  ]);
+
+  // The summary block at the end repeats "I: <value> LUFS"; take the last one
+  const matches = Array.from(stderr.matchAll(/I:\s+(-?[\d.]+|-inf) LUFS/g));
+  const value = Number(matches[matches.length - 1]?.[1]);
+  return Number.isFinite(value) && value > -70 ? value : undefined;
+}
+
+/**
+ * Peak amplitude (0..1) for each of `bars` equal slices of the signal.
+ */
+export function computeWaveformPeaks(samples: Float32Array, bars: number): number[] {
+  const bucketSize = Math.max(1, Math.floor(samples.length / bars));
+  const peaks: number[] = [];
+
+  for (let bar = 0; bar < bars; bar++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (bar + 1) * bucketSize);
+    for (let i = bar * bucketSize; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks.push(Math.min(1, peak));
+  }
+
+  // Normalize so quiet recordings still show shape
+  const loudest = Math.max(...peaks, 0.01);
+  return peaks.map(peak => peak / loudest);
+}
+
+export interface WaveformStyle {
+  color?: string;
+  background?: string;
+}
+
+/**
+ * Render a mirrored bar waveform to PNG.
+ */
+export async function renderWaveformPng(
+  peaks: number[],
+  width: number,
+  height: number,
+  style: WaveformStyle = {}
+): Promise<Buffer> {
+  const { color = '#10b981', background = '#111827' } = style;
+  const barWidth = width / peaks.length;
+  const middle = height / 2;
+
+  const bars = peaks.map((peak, i) => {
+    const barHeight = Math.max(1, peak * (height * 0.9));
+    return `<rect x="${(i * barWidth).toFixed(2)}" y="${(middle - barHeight / 2).toFixed(2)}" ` +
+      `width="${Math.max(1, barWidth * 0.7).toFixed(2)}" height="${barHeight.toFixed(2)}" fill="${color}"/>`;
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect width="100%" height="100%" fill="${background}"/>${bars.join('')}</svg>`;
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
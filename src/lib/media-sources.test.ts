@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { withLocalMedia } from './media-processing';
+import { isAllowedMediaSource, MediaSourceError, readMedia } from './media-sources';
+
+const PNG_DATA_URL = `data:image/png;base64,${Buffer.alloc(64, 1).toString('base64')}`;
+
+beforeEach(() => {
+  vi.stubEnv('AWS_S3_BUCKET', 'bb-assets');
+  vi.stubEnv('AWS_REGION', 'us-east-1');
+  vi.stubEnv('AWS_CLOUDFRONT_URL', 'https://cdn.example.com');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('media sources', () => {
+  it('allows only data URLs and our bucket or CDN', () => {
+    expect(isAllowedMediaSource(PNG_DATA_URL)).toBe(true);
+    expect(isAllowedMediaSource('https://bb-assets.s3.us-east-1.amazonaws.com/uploads/a.mp4')).toBe(true);
+    expect(isAllowedMediaSource('https://cdn.example.com/uploads/a.mp4')).toBe(true);
+
+    expect(isAllowedMediaSource('https://other-bucket.s3.us-east-1.amazonaws.com/a.mp4')).toBe(false);
+    expect(isAllowedMediaSource('https://bb-assets.s3.us-east-1.amazonaws.com.evil.test/a.mp4')).toBe(false);
+    expect(isAllowedMediaSource('http://169.254.169.254/latest/meta-data/')).toBe(false);
+    expect(isAllowedMediaSource('http://cdn.example.com/uploads/a.mp4')).toBe(false);
+    expect(isAllowedMediaSource('/etc/passwd')).toBe(false);
+    expect(isAllowedMediaSource('file:///etc/passwd')).toBe(false);
+    expect(isAllowedMediaSource('concat:/etc/passwd|/etc/hosts')).toBe(false);
+  });
+
+  it('refuses to hand anything else to ffmpeg', async () => {
+    const fn = vi.fn();
+
+    await expect(withLocalMedia('/etc/passwd', fn)).rejects.toBeInstanceOf(MediaSourceError);
+    await expect(withLocalMedia('https://example.com/a.mp4', fn)).rejects.toBeInstanceOf(MediaSourceError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('stops reading media past the size cap', async () => {
+    await expect(readMedia(PNG_DATA_URL, 32)).rejects.toBeInstanceOf(MediaSourceError);
+
+    const { buffer, contentType } = await readMedia(PNG_DATA_URL, 64);
+    expect(buffer).toHaveLength(64);
+    expect(contentType).toBe('image/png');
+  });
+});
@@ -0,0 +1,176 @@
+// Binary Blender Media Sources
+// Where the server may download media from, and how. Files the server
+// processes (probing, thumbnails, visual indexing) must live in our own
+// bucket or arrive as data URLs; downloads are streamed with a size cap.
+
+import { open } from 'fs/promises';
+
+// Largest file we'll download for processing
+export const MAX_MEDIA_BYTES = 500 * 1024 * 1024;
+
+// Images are decoded in memory, so they get a tighter cap
+export const MAX_IMAGE_BYTES = 50 * 1024 * 1024;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class MediaSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaSourceError';
+  }
+}
+
+// ============================================================================
+// Allow-list
+// ============================================================================
+
+function getStorageHosts(): string[] {
+  const hosts: string[] = [];
+  const bucket = process.env.AWS_S3_BUCKET;
+
+  if (bucket) {
+    hosts.push(`${bucket}.s3.amazonaws.com`);
+    if (process.env.AWS_REGION) {
+      hosts.push(`${bucket}.s3.${process.env.AWS_REGION}.amazonaws.com`);
+    }
+  }
+
+  if (process.env.AWS_CLOUDFRONT_URL) {
+    try {
+      hosts.push(new URL(process.env.AWS_CLOUDFRONT_URL).host);
+    } catch {
+      console.error('AWS_CLOUDFRONT_URL is not a valid URL');
+    }
+  }
+
+  return hosts;
+}
+
+/**
+ * Whether a URL points into our bucket, directly or through the CDN.
+ */
+export function isStorageUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  return parsed.protocol === 'https:' && getStorageHosts().includes(parsed.host);
+}
+
+/**
+ * Whether the server may download this media: a data URL or a file in our
+ * storage. Anything else (other hosts, local paths, ffmpeg protocols) is
+ * refused.
+ */
+export function isAllowedMediaSource(source: string): boolean {
+  return source.startsWith('data:') || isStorageUrl(source);
+}
+
+export function assertAllowedMediaSource(source: string): void {
+  if (!isAllowedMediaSource(source)) {
+    throw new MediaSourceError('Media must be a data URL or a file in storage');
+  }
+}
+
+// ============================================================================
+// Downloads
+// ============================================================================
+
+export interface MediaFile {
+  buffer: Buffer;
+  contentType: string | null;
+}
+
+/**
+ * Fetch `source`, refusing redirects so a response can't send us off the
+ * host that was checked, and anything that declares itself too large.
+ */
+async function fetchMedia(source: string, maxBytes: number): Promise<Response> {
+  const response = await fetch(source, { redirect: 'error' });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to fetch media: ${response.status} ${response.statusText}`);
+  }
+
+  const declaredBytes = Number(response.headers.get('content-length'));
+  if (declaredBytes > maxBytes) {
+    await response.body.cancel();
+    throw new MediaSourceError(`Media is larger than ${maxBytes} bytes`);
+  }
+
+  return response;
+}
+
+/**
+ * Yield a response body in chunks, failing as soon as it runs past
+ * `maxBytes` (the declared length can't be trusted).
+ */
+async function* readBody(response: Response, maxBytes: number): AsyncGenerator<Uint8Array> {
+  const reader = response.body!.getReader();
+  let receivedBytes = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      receivedBytes += value.byteLength;
+      if (receivedBytes > maxBytes) {
+        throw new MediaSourceError(`Media is larger than ${maxBytes} bytes`);
+      }
+      yield value;
+    }
+  } finally {
+    // Stops the download if we bailed out early; a no-op once it finished
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Download media into memory. Callers that take URLs from users must check
+ * them with assertAllowedMediaSource first; `readMedia` only limits the size.
+ */
+export async function readMedia(source: string, maxBytes: number = MAX_MEDIA_BYTES): Promise<MediaFile> {
+  if (!/^(https?|data):/.test(source)) {
+    throw new MediaSourceError('Media must be an http(s) or data URL');
+  }
+
+  const response = await fetchMedia(source, maxBytes);
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of readBody(response, maxBytes)) {
+    chunks.push(chunk);
+  }
+
+  return {
+    buffer: Buffer.concat(chunks),
+    contentType: response.headers.get('content-type'),
+  };
+}
+
+/**
+ * Download an allowed media source to `filePath` without holding it in
+ * memory.
+ */
+export async function downloadMedia(
+  source: string,
+  filePath: string,
+  maxBytes: number = MAX_MEDIA_BYTES
+): Promise<void> {
+  assertAllowedMediaSource(source);
+
+  const response = await fetchMedia(source, maxBytes);
+  const file = await open(filePath, 'w');
+  try {
+    for await (const chunk of readBody(response, maxBytes)) {
+      await file.write(chunk);
+    }
+  } finally {
+    await file.close();
+  }
+}
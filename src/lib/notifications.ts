@@ -0,0 +1,82 @@
+// Binary Blender Notifications
+// In-app notifications listed under the bell in the dashboard header.
+// Sending is best-effort: a notification that can't be stored is logged and
+// never fails the action that raised it.
+
+import { supabaseAdmin } from './supabase';
+import { AppNotification, NotificationList, NotificationType } from './types/notifications';
+
+export interface NewNotification {
+  type: NotificationType;
+  title: string;
+  message?: string;
+  link?: string;
+  data?: Record<string, any>;
+}
+
+export async function createNotification(userId: string, notification: NewNotification): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('notifications')
+    .insert({
+      user_id: userId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message || null,
+      link: notification.link || null,
+      data: notification.data || {},
+    });
+
+  if (error) {
+    console.error('Failed to create notification:', error);
+  }
+}
+
+/**
+ * The user's most recent notifications, newest first, and how many of all
+ * their notifications are unread.
+ */
+export async function listNotifications(userId: string, limit: number): Promise<NotificationList> {
+  const [{ data, error }, { count, error: countError }] = await Promise.all([
+    supabaseAdmin
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit),
+    supabaseAdmin
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null),
+  ]);
+
+  if (error || countError) {
+    throw new Error(`Failed to fetch notifications: ${(error || countError)!.message}`);
+  }
+
+  return { notifications: (data || []) as AppNotification[], unread_count: count || 0 };
+}
+
+/**
+ * Mark notifications read; all of the user's unread ones when no ids are
+ * given. Returns how many changed.
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  let query = supabaseAdmin
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (ids) {
+    query = query.in('id', ids);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    throw new Error(`Failed to mark notifications read: ${error.message}`);
+  }
+
+  return data?.length || 0;
+}
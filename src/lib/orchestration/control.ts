@@ -0,0 +1,219 @@
+// Binary Blender Workflow Control
+// Cancel, retry and resume for orchestrated workflows. Cancelling stops
+// in-flight generations and refunds their reserved credits; retrying a
+// failed workflow and resuming a cancelled one put the tasks that didn't
+// complete back in the queue, keeping completed outputs for reuse.
+
+import { supabaseAdmin } from '../supabase';
+import { OrchestratedWorkflow, WorkflowTask } from '../types/orchestration';
+import { cancelGenerationJob, claimGenerationJobs } from '../generation/jobs';
+import {
+  advanceOrchestratedWorkflow,
+  claimOrchestratedWorkflows,
+  getOrchestratedWorkflow,
+  listWorkflowTasks,
+} from './engine';
+
+const CANCELLABLE_STATUSES = ['pending', 'analyzing', 'in_progress'];
+
+// A worker may be mid-poll on a generation; give it a moment to let go
+const GENERATION_CLAIM_ATTEMPTS = 3;
+const GENERATION_CLAIM_RETRY_MS = 1000;
+
+/**
+ * Raised when a control action doesn't apply to the workflow. `status` is
+ * the HTTP status the route should answer with.
+ */
+export class WorkflowControlError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message);
+    this.name = 'WorkflowControlError';
+  }
+}
+
+async function findWorkflow(workflowId: string, userId: string): Promise<OrchestratedWorkflow> {
+  const workflow = await getOrchestratedWorkflow(workflowId, userId);
+  if (!workflow) {
+    throw new WorkflowControlError('Workflow not found', 404);
+  }
+  return workflow;
+}
+
+/**
+ * Stop a task's generation at the provider and refund it. Returns false
+ * when the generation couldn't be claimed (it keeps running).
+ */
+async function abortTaskGeneration(generationId: string): Promise<boolean> {
+  for (let attempt = 0; attempt < GENERATION_CLAIM_ATTEMPTS; attempt++) {
+    const [job] = await claimGenerationJobs(1, generationId, true);
+    if (job) {
+      await cancelGenerationJob(job, 'Cancelled with its workflow');
+      return true;
+    }
+
+    const { data: generation } = await supabaseAdmin
+      .from('generations')
+      .select('status')
+      .eq('id', generationId)
+      .maybeSingle();
+    if (!generation || (generation.status !== 'pending' && generation.status !== 'processing')) {
+      return true;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, GENERATION_CLAIM_RETRY_MS));
+  }
+
+  console.error(`Could not cancel generation ${generationId}; it was busy`);
+  return false;
+}
+
+// ============================================================================
+// Cancel
+// ============================================================================
+
+/**
+ * Cancel a workflow that hasn't finished. Running generations are stopped
+ * and refunded; tasks that didn't complete are marked skipped, except those
+ * whose generation was too busy to stop.
+ */
+export async function cancelOrchestratedWorkflow(workflowId: string, userId: string): Promise<OrchestratedWorkflow> {
+  const workflow = await findWorkflow(workflowId, userId);
+  if (!CANCELLABLE_STATUSES.includes(workflow.status)) {
+    throw new WorkflowControlError(`A ${workflow.status} workflow can't be cancelled`);
+  }
+
+  // Hold the lease so the orchestrator doesn't dispatch anything meanwhile
+  if (workflow.next_advance_at) {
+    const [claimed] = await claimOrchestratedWorkflows(1, workflow.id, true);
+    if (!claimed) {
+      throw new WorkflowControlError('The workflow is busy; try again in a moment');
+    }
+  }
+
+  const now = new Date().toISOString();
+  const tasks = await listWorkflowTasks(workflow.id);
+  for (const task of tasks) {
+    if (task.status !== 'pending' && task.status !== 'in_progress') continue;
+
+    // A generation that couldn't be stopped finishes and is charged; its
+    // task stays in progress so a resume picks up the output instead of
+    // submitting it again
+    if (task.status === 'in_progress' && task.output_data?.generation_id &&
+        !(await abortTaskGeneration(task.output_data.generation_id))) {
+      continue;
+    }
+
+    await supabaseAdmin
+      .from('workflow_tasks')
+      .update({ status: 'skipped', error_message: 'Cancelled', completed_at: now })
+      .eq('id', task.id);
+  }
+
+  const { data: cancelled, error } = await supabaseAdmin
+    .from('workflows')
+    .update({
+      status: 'cancelled',
+      error_message: null,
+      next_advance_at: null,
+      locked_until: null,
+      completed_at: now,
+    })
+    .eq('id', workflow.id)
+    .select('*')
+    .single();
+
+  if (error || !cancelled) {
+    throw new Error(`Failed to cancel workflow: ${error?.message}`);
+  }
+
+  return cancelled;
+}
+
+// ============================================================================
+// Retry / Resume
+// ============================================================================
+
+/**
+ * Put the selected tasks back to pending and restart the
+ * workflow. Completed tasks keep their outputs, so later tasks build on
+ * them instead of regenerating.
+ */
+async function reopenWorkflow(
+  workflow: OrchestratedWorkflow,
+  reopen: (task: WorkflowTask) => boolean
+): Promise<OrchestratedWorkflow> {
+  const allTasks = await listWorkflowTasks(workflow.id);
+  const tasks = allTasks.filter(reopen);
+  // Tasks still in progress (generations a cancel couldn't stop) are picked
+  // up again as they are
+  if (tasks.length === 0 && !allTasks.some(task => task.status === 'in_progress')) {
+    throw new WorkflowControlError('There are no tasks to run again');
+  }
+
+  for (const task of tasks) {
+    const { error } = await supabaseAdmin
+      .from('workflow_tasks')
+      .update({
+        status: 'pending',
+        // Earlier review decisions stay on record
+        output_data: task.output_data?.reviews ? { reviews: task.output_data.reviews } : {},
+        error_message: null,
+        started_at: null,
+        completed_at: null,
+      })
+      .eq('id', task.id);
+
+    if (error) {
+      throw new Error(`Failed to reset workflow task: ${error.message}`);
+    }
+  }
+
+  const { error } = await supabaseAdmin
+    .from('workflows')
+    .update({
+      status: 'in_progress',
+      error_message: null,
+      result_data: {},
+      next_advance_at: new Date().toISOString(),
+      locked_until: null,
+      completed_at: null,
+    })
+    .eq('id', workflow.id);
+
+  if (error) {
+    throw new Error(`Failed to restart workflow: ${error.message}`);
+  }
+
+  // Dispatch the reopened tasks now rather than waiting for the worker
+  const [claimed] = await claimOrchestratedWorkflows(1, workflow.id, true);
+  if (claimed) {
+    await advanceOrchestratedWorkflow(claimed);
+  }
+
+  return (await getOrchestratedWorkflow(workflow.id, workflow.user_id)) || workflow;
+}
+
+/**
+ * Run a failed workflow's failed tasks again, along with the tasks that
+ * were skipped because of them.
+ */
+export async function retryOrchestratedWorkflow(workflowId: string, userId: string): Promise<OrchestratedWorkflow> {
+  const workflow = await findWorkflow(workflowId, userId);
+  if (workflow.status !== 'failed') {
+    throw new WorkflowControlError('Only failed workflows can be retried');
+  }
+
+  return reopenWorkflow(workflow, task => task.status === 'failed' || task.status === 'skipped');
+}
+
+/**
+ * Continue a cancelled workflow from where it stopped.
+ */
+export async function resumeOrchestratedWorkflow(workflowId: string, userId: string): Promise<OrchestratedWorkflow> {
+  const workflow = await findWorkflow(workflowId, userId);
+  if (workflow.status !== 'cancelled') {
+    throw new WorkflowControlError('Only cancelled workflows can be resumed');
+  }
+
+  return reopenWorkflow(workflow, task => task.status === 'skipped' && task.error_message === 'Cancelled');
+}
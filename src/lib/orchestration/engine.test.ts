@@ -0,0 +1,95 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabaseAdmin } from '@/lib/supabase';
+import { FakeSupabase } from '@/test/fake-supabase';
+import { advanceOrchestratedWorkflow, claimOrchestratedWorkflows } from './engine';
+
+vi.mock('@/lib/supabase', async () => {
+  const { FakeSupabase } = await import('@/test/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase() };
+});
+
+vi.mock('./notifier', () => ({
+  notifyOrchestrationEvent: async () => {},
+}));
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+const USER_ID = '8a4f2c6e-1b3d-4e5f-9a7b-c2d4e6f8a0b1';
+const WORKFLOW_ID = '5d7e9f1a-3b5c-4d7e-8f9a-1b3c5d7e9f2a';
+
+function seedWorkflow() {
+  db.table('workflows').push({
+    id: WORKFLOW_ID,
+    user_id: USER_ID,
+    title: 'Product shots',
+    status: 'in_progress',
+    priority: 3,
+    next_advance_at: new Date().toISOString(),
+    locked_until: null,
+  });
+  db.table('workflow_tasks').push({
+    id: crypto.randomUUID(),
+    workflow_id: WORKFLOW_ID,
+    task_type: 'generate_image',
+    title: 'Hero image',
+    assigned_to: 'aria',
+    input_data: { params: { prompt: 'A ceramic mug on a wooden table', aspectRatio: '1:1', model: 'flux-pro' } },
+    output_data: {},
+    status: 'pending',
+    depends_on: null,
+    execution_order: 1,
+    created_at: new Date().toISOString(),
+  });
+}
+
+async function claimWorkflow() {
+  const [claimed] = await claimOrchestratedWorkflows(1, WORKFLOW_ID, true);
+  expect(claimed).toBeDefined();
+  return claimed;
+}
+
+beforeAll(() => {
+  process.env.GENERATION_PROVIDER = 'mock';
+});
+
+beforeEach(() => {
+  db.reset();
+  db.table('credit_transactions').push({
+    id: crypto.randomUUID(),
+    user_id: USER_ID,
+    amount: 100,
+    transaction_type: 'purchase',
+    generation_id: null,
+  });
+  seedWorkflow();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('orchestrated workflow leases', () => {
+  it('dispatches a ready task while it holds the lease', async () => {
+    const claimed = await claimWorkflow();
+
+    await advanceOrchestratedWorkflow(claimed);
+
+    const [task] = db.table('workflow_tasks');
+    expect(db.table('generations')).toHaveLength(1);
+    expect(task.status).toBe('in_progress');
+    expect(task.output_data.generation_id).toBe(db.table('generations')[0].id);
+    expect(db.table('workflows')[0].locked_until).toBeNull();
+  });
+
+  it('leaves a workflow alone when another worker has taken over its lease', async () => {
+    const claimed = await claimWorkflow();
+    // The lease ran out and another worker claimed the workflow
+    db.table('workflows')[0].locked_until = new Date(Date.now() + 120 * 1000).toISOString();
+
+    await advanceOrchestratedWorkflow(claimed);
+
+    expect(db.table('generations')).toHaveLength(0);
+    expect(db.table('workflow_tasks')[0].status).toBe('pending');
+  });
+});
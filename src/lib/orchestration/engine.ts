@@ -0,0 +1,572 @@
+// Binary Blender Orchestration Engine
+// Runs orchestration workflows in-app. Submitting a request plans its
+// workflow_tasks; the workflow is then advanced like a workflow run: whoever
+// holds its lease (the background worker or the status endpoint) checks the
+// generations behind running tasks and dispatches every task that's ready.
+// A task is ready once its depends_on task has completed and every task
+// with a lower execution_order has finished. Ready tasks assigned to a
+// human wait in the review inbox; other task types that aren't generate_*
+// are left for their assignee to complete.
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../supabase';
+import {
+  OrchestratedWorkflow,
+  OrchestratedWorkflowResult,
+  OrchestratedWorkflowStatus,
+  SubmitOrchestrationRequest,
+  WorkflowSnapshot,
+  WorkflowTask,
+} from '../types/orchestration';
+import { submitGenerationJob } from '../generation/jobs';
+import { loadStoredOutputs } from '../generation/assets';
+import { getProvider } from '../generation/providers';
+import { planWorkflowTasks, TASK_TOOLS } from './planner';
+import { notifyOrchestrationEvent } from './notifier';
+
+// Seconds between checks on running tasks
+const WORKFLOW_ADVANCE_INTERVAL_SECONDS = 3;
+
+// How long a worker may hold a workflow before another worker can pick it up
+const WORKFLOW_LEASE_SECONDS = 60;
+
+const ACTIVE_TASK_STATUSES = ['pending', 'in_progress'];
+
+// ============================================================================
+// Submit
+// ============================================================================
+
+/**
+ * Plan a request into tasks and create the workflow. Tasks are dispatched
+ * when the workflow is next advanced.
+ * Throws OrchestrationPlanError if the request can't be planned.
+ */
+export async function createOrchestratedWorkflow(
+  userId: string,
+  request: SubmitOrchestrationRequest,
+  userEmail?: string | null
+): Promise<{ workflow: OrchestratedWorkflow; tasks: WorkflowTask[] }> {
+  const planned = planWorkflowTasks(request.request_data, request.description || request.title);
+  const priority = request.priority && request.priority >= 1 && request.priority <= 5 ? request.priority : 3;
+
+  const { data: workflow, error } = await supabaseAdmin
+    .from('workflows')
+    .insert({
+      user_id: userId,
+      title: request.title,
+      description: request.description || null,
+      request_data: request.request_data,
+      status: 'in_progress',
+      assigned_to: 'aria',
+      priority,
+      next_advance_at: new Date().toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error || !workflow) {
+    throw new Error(`Failed to create workflow: ${error?.message}`);
+  }
+
+  // Ids are assigned up front so depends_on can point at sibling tasks
+  const ids = new Map(planned.map(task => [task.key, crypto.randomUUID()]));
+  const { data: tasks, error: tasksError } = await supabaseAdmin
+    .from('workflow_tasks')
+    .insert(planned.map(task => ({
+      id: ids.get(task.key),
+      workflow_id: workflow.id,
+      task_type: task.task_type,
+      title: task.title,
+      description: task.description,
+      assigned_to: task.assigned_to,
+      input_data: task.input_data,
+      status: 'pending',
+      depends_on: task.depends_on ? ids.get(task.depends_on) : null,
+      execution_order: task.execution_order,
+    })))
+    .select('*');
+
+  if (tasksError || !tasks) {
+    await supabaseAdmin
+      .from('workflows')
+      .update({ status: 'failed', error_message: 'Failed to create workflow tasks', next_advance_at: null })
+      .eq('id', workflow.id);
+    throw new Error(`Failed to create workflow tasks: ${tasksError?.message}`);
+  }
+
+  const sorted = sortTasks(tasks);
+  await notifyOrchestrationEvent({ type: 'workflow_submitted', workflow, tasks: sorted, userEmail });
+
+  return { workflow, tasks: sorted };
+}
+
+// ============================================================================
+// Advance
+// ============================================================================
+
+function sortTasks(tasks: WorkflowTask[]): WorkflowTask[] {
+  return [...tasks].sort((a, b) =>
+    a.execution_order - b.execution_order || a.created_at.localeCompare(b.created_at)
+  );
+}
+
+function isActive(task: WorkflowTask): boolean {
+  return ACTIVE_TASK_STATUSES.includes(task.status);
+}
+
+/**
+ * Check the generations behind in-progress tasks and return updates for
+ * the ones that finished.
+ */
+async function refreshRunningTasks(tasks: WorkflowTask[]): Promise<Map<string, Partial<WorkflowTask>>> {
+  const updates = new Map<string, Partial<WorkflowTask>>();
+  const running = tasks.filter(task => task.status === 'in_progress' && task.output_data?.generation_id);
+  if (running.length === 0) {
+    return updates;
+  }
+
+  const { data: generations, error } = await supabaseAdmin
+    .from('generations')
+    .select('id, status, output_urls, asset_ids, error_message')
+    .in('id', running.map(task => task.output_data.generation_id));
+
+  if (error || !generations) {
+    console.error('Error loading workflow task generations:', error);
+    return updates;
+  }
+
+  const generationById = new Map(generations.map(generation => [generation.id, generation]));
+
+  const storedOutputs = await loadStoredOutputs(generations);
+
+  for (const task of running) {
+    const generation = generationById.get(task.output_data.generation_id);
+    const completedAt = new Date().toISOString();
+
+    if (!generation) {
+      updates.set(task.id, { status: 'failed', error_message: 'Generation not found', completed_at: completedAt });
+    } else if (generation.status === 'completed') {
+      const { assetIds, outputUrls } = storedOutputs.get(generation.id)!;
+      updates.set(task.id, {
+        status: 'completed',
+        output_data: {
+          ...task.output_data,
+          asset_ids: assetIds,
+          output_urls: outputUrls,
+        },
+        completed_at: completedAt,
+      });
+    } else if (generation.status === 'failed') {
+      updates.set(task.id, {
+        status: 'failed',
+        error_message: generation.error_message || 'Generation failed',
+        completed_at: completedAt,
+      });
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Raised when a workflow's lease ran out during an advance and another
+ * worker may have claimed it. The pass stops without saving.
+ */
+class WorkflowLeaseLostError extends Error {
+  constructor(workflowId: string) {
+    super(`Lost the lease on workflow ${workflowId}`);
+    this.name = 'WorkflowLeaseLostError';
+  }
+}
+
+/**
+ * Extend the lease on a claimed workflow before doing work under it.
+ * Throws WorkflowLeaseLostError if it ran out and another worker has
+ * claimed the workflow since.
+ */
+async function extendWorkflowLease(workflow: OrchestratedWorkflow): Promise<void> {
+  const { data, error } = await supabaseAdmin.rpc('extend_orchestrated_workflow_lease', {
+    workflow_uuid: workflow.id,
+    lease_seconds: WORKFLOW_LEASE_SECONDS,
+    held_until: workflow.locked_until,
+  });
+
+  if (error) {
+    console.error('Error extending workflow lease:', error);
+  }
+  if (error || !data) {
+    throw new WorkflowLeaseLostError(workflow.id);
+  }
+
+  // The next extension has to name the new expiry
+  workflow.locked_until = data;
+}
+
+/**
+ * Submit a ready generation task. Failures are recorded on the task rather
+ * than thrown; only losing the workflow's lease throws.
+ */
+async function dispatchTask(
+  workflow: OrchestratedWorkflow,
+  task: WorkflowTask,
+  dependency: WorkflowTask | undefined
+): Promise<Partial<WorkflowTask>> {
+  const startedAt = new Date().toISOString();
+  const toolType = TASK_TOOLS[task.task_type]!;
+  const input: Record<string, any> = { ...task.input_data.params };
+  const inputAssetIds: { image?: string } = {};
+
+  const field = task.input_data.from_dependency;
+  if (field) {
+    const outputUrl = dependency?.output_data.output_urls?.[0];
+    if (!outputUrl) {
+      return {
+        status: 'failed',
+        error_message: `${dependency?.title || 'The task this depends on'} produced no output`,
+        started_at: startedAt,
+        completed_at: startedAt,
+      };
+    }
+    input[field] = outputUrl;
+    inputAssetIds.image = dependency?.output_data.asset_ids?.[0];
+  }
+
+  const parsed = getProvider(toolType).paramSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      status: 'failed',
+      error_message: parsed.error.issues[0]?.message || 'Invalid task parameters',
+      started_at: startedAt,
+      completed_at: startedAt,
+    };
+  }
+
+  // A submission is charged, so never make one without the lease
+  await extendWorkflowLease(workflow);
+
+  try {
+    const job = await submitGenerationJob(workflow.user_id, toolType, parsed.data, {
+      saveToRepository: true,
+      inputAssetIds,
+      metadata: {
+        orchestrationWorkflowId: workflow.id,
+        workflowTaskId: task.id,
+      },
+    });
+    return {
+      status: 'in_progress',
+      output_data: { generation_id: job.id },
+      error_message: null,
+      started_at: startedAt,
+    };
+  } catch (error) {
+    return {
+      status: 'failed',
+      error_message: error instanceof Error ? error.message : 'Failed to submit task',
+      started_at: startedAt,
+      completed_at: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Outputs of completed generation tasks nothing else builds on; intermediate
+ * images (e.g. a source frame for a video) aren't deliverables.
+ */
+function collectResult(tasks: WorkflowTask[]): OrchestratedWorkflowResult {
+  const consumed = new Set(tasks.map(task => task.depends_on).filter(Boolean));
+  return {
+    deliverables: tasks
+      .filter(task => task.status === 'completed' && TASK_TOOLS[task.task_type] && !consumed.has(task.id))
+      .map(task => ({
+        task_id: task.id,
+        title: task.title,
+        task_type: task.task_type,
+        ...(task.input_data.deliverable && { deliverable: task.input_data.deliverable }),
+        output_urls: task.output_data.output_urls || [],
+        asset_ids: task.output_data.asset_ids || [],
+      })),
+  };
+}
+
+function describeFailure(tasks: WorkflowTask[]): string | null {
+  const failed = tasks.find(task => task.status === 'failed');
+  return failed ? `${failed.title}: ${failed.error_message}` : null;
+}
+
+/**
+ * Move a claimed workflow forward: record finished generations, then
+ * dispatch every task that's ready. After a task fails, the tasks that
+ * haven't started are skipped and the workflow fails once the rest finish.
+ * Callers must hold the workflow's lease (see claimOrchestratedWorkflows);
+ * it's extended before each submission and before saving, and the pass
+ * stops if another worker has taken it over.
+ */
+export async function advanceOrchestratedWorkflow(workflow: OrchestratedWorkflow): Promise<void> {
+  if (workflow.status !== 'in_progress') {
+    return;
+  }
+
+  try {
+    await advanceClaimedWorkflow(workflow);
+  } catch (error) {
+    if (error instanceof WorkflowLeaseLostError) {
+      console.warn(`${error.message}; leaving it to the current holder`);
+      return;
+    }
+    throw error;
+  }
+}
+
+async function advanceClaimedWorkflow(workflow: OrchestratedWorkflow): Promise<void> {
+
+  const tasks = sortTasks(await listWorkflowTasks(workflow.id));
+  const updates = await refreshRunningTasks(tasks);
+  const current = () => tasks.map(task => ({ ...task, ...updates.get(task.id) }) as WorkflowTask);
+  const awaitingReview: WorkflowTask[] = [];
+
+  for (const task of tasks) {
+    const state = current();
+    const self = state.find(candidate => candidate.id === task.id)!;
+    if (self.status !== 'pending') continue;
+
+    if (state.some(candidate => candidate.status === 'failed')) {
+      updates.set(task.id, {
+        status: 'skipped',
+        error_message: 'Skipped after an earlier task failed',
+        completed_at: new Date().toISOString(),
+      });
+      continue;
+    }
+
+    if (!TASK_TOOLS[self.task_type] && self.assigned_to !== 'human') continue;
+
+    const dependency = state.find(candidate => candidate.id === self.depends_on);
+    const waiting = state.some(candidate =>
+      candidate.execution_order < self.execution_order && isActive(candidate)
+    );
+    if (waiting || (dependency && isActive(dependency))) continue;
+
+    if (dependency && dependency.status !== 'completed') {
+      updates.set(task.id, {
+        status: 'skipped',
+        error_message: `Skipped because ${dependency.title} didn't complete`,
+        completed_at: new Date().toISOString(),
+      });
+      continue;
+    }
+
+    if (!TASK_TOOLS[self.task_type]) {
+      // Waits in the review inbox until someone acts on it (see reviews.ts)
+      updates.set(task.id, { status: 'in_progress', started_at: new Date().toISOString() });
+      awaitingReview.push({ ...self, status: 'in_progress' });
+      continue;
+    }
+
+    updates.set(task.id, await dispatchTask(workflow, self, dependency));
+  }
+
+  await extendWorkflowLease(workflow);
+  for (const [taskId, update] of updates) {
+    const { error } = await supabaseAdmin
+      .from('workflow_tasks')
+      .update(update)
+      .eq('id', taskId);
+
+    if (error) {
+      console.error('Error saving workflow task:', error);
+    }
+  }
+
+  const final = current();
+  const finished = final.every(task => !isActive(task));
+  const status: OrchestratedWorkflowStatus = !finished
+    ? 'in_progress'
+    : final.some(task => task.status === 'failed') ? 'failed' : 'completed';
+
+  const { data: saved, error } = await supabaseAdmin
+    .from('workflows')
+    .update({
+      status,
+      result_data: collectResult(final),
+      error_message: describeFailure(final),
+      next_advance_at: finished ? null : new Date(Date.now() + WORKFLOW_ADVANCE_INTERVAL_SECONDS * 1000).toISOString(),
+      locked_until: null,
+      ...(finished && { completed_at: new Date().toISOString() }),
+    })
+    .eq('id', workflow.id)
+    .eq('locked_until', workflow.locked_until)
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error saving workflow:', error);
+    return;
+  }
+
+  if (finished) {
+    await notifyOrchestrationEvent({
+      type: status === 'completed' ? 'workflow_completed' : 'workflow_failed',
+      workflow: saved,
+      tasks: final,
+    });
+  } else if (awaitingReview.length > 0) {
+    await notifyOrchestrationEvent({ type: 'review_requested', workflow: saved, tasks: awaitingReview });
+  }
+}
+
+// ============================================================================
+// Claim / Read
+// ============================================================================
+
+/**
+ * Lease workflows that are due to be advanced. Pass workflowId to claim
+ * only that workflow, and ignoreSchedule to claim it even if it isn't due.
+ */
+export async function claimOrchestratedWorkflows(
+  limit: number = 10,
+  workflowId?: string,
+  ignoreSchedule: boolean = false
+): Promise<OrchestratedWorkflow[]> {
+  const { data, error } = await supabaseAdmin.rpc('claim_orchestrated_workflows', {
+    batch_size: limit,
+    lease_seconds: WORKFLOW_LEASE_SECONDS,
+    workflow_uuid: workflowId || null,
+    ignore_schedule: ignoreSchedule,
+  });
+
+  if (error) {
+    console.error('Error claiming orchestrated workflows:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Claim and advance one batch of due workflows. Returns how many were
+ * processed.
+ */
+export async function runOrchestratedWorkflowsOnce(limit: number = 10): Promise<number> {
+  const workflows = await claimOrchestratedWorkflows(limit);
+
+  for (const workflow of workflows) {
+    try {
+      await advanceOrchestratedWorkflow(workflow);
+    } catch (error) {
+      // The lease expires on its own, so the workflow is retried on a later tick
+      console.error(`Error advancing workflow ${workflow.id}:`, error);
+    }
+  }
+
+  return workflows.length;
+}
+
+export async function getOrchestratedWorkflow(workflowId: string, userId: string): Promise<OrchestratedWorkflow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('workflows')
+    .select('*')
+    .eq('id', workflowId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch workflow: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function getWorkflowTask(taskId: string): Promise<WorkflowTask | null> {
+  const { data, error } = await supabaseAdmin
+    .from('workflow_tasks')
+    .select('*')
+    .eq('id', taskId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch workflow task: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function listWorkflowTasks(workflowId: string): Promise<WorkflowTask[]> {
+  const { data, error } = await supabaseAdmin
+    .from('workflow_tasks')
+    .select('*')
+    .eq('workflow_id', workflowId)
+    .order('execution_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch workflow tasks: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function listOrchestratedWorkflows(
+  userId: string,
+  statuses?: OrchestratedWorkflowStatus[],
+  limit: number = 20
+): Promise<OrchestratedWorkflow[]> {
+  let query = supabaseAdmin
+    .from('workflows')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (statuses && statuses.length > 0) {
+    query = query.in('status', statuses);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch workflows: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * A workflow with its tasks and the provider progress of the generations
+ * behind its running tasks, as streamed by /api/orchestrate/[id]/events.
+ */
+export async function getWorkflowSnapshot(workflowId: string, userId: string): Promise<WorkflowSnapshot | null> {
+  const workflow = await getOrchestratedWorkflow(workflowId, userId);
+  if (!workflow) {
+    return null;
+  }
+
+  const tasks = await listWorkflowTasks(workflow.id);
+  const running = tasks.filter(task => task.status === 'in_progress' && task.output_data?.generation_id);
+  if (running.length === 0) {
+    return { workflow, tasks, progress: [] };
+  }
+
+  const { data: generations, error } = await supabaseAdmin
+    .from('generations')
+    .select('id, progress, progress_text')
+    .in('id', running.map(task => task.output_data.generation_id!));
+
+  if (error) {
+    throw new Error(`Failed to fetch task generations: ${error.message}`);
+  }
+
+  const generationById = new Map((generations || []).map(generation => [generation.id, generation]));
+  return {
+    workflow,
+    tasks,
+    progress: running.map(task => {
+      const generation = generationById.get(task.output_data.generation_id!);
+      return {
+        task_id: task.id,
+        progress: generation?.progress || 0,
+        progress_text: generation?.progress_text || null,
+      };
+    }),
+  };
+}
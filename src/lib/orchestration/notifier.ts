@@ -0,0 +1,109 @@
+// Binary Blender Orchestration Notifier
+// Tells outside agents what the orchestrator is doing. Workflows run in-app
+// either way; notifications are informational. Set
+// ORCHESTRATION_NOTIFIER=tao to post to the TAO Bridge, log to write events
+// to the server log, or none to turn them off. Defaults to tao when
+// TAO_BRIDGE_API is set and log otherwise.
+
+import { OrchestratedWorkflow, WorkflowTask } from '../types/orchestration';
+
+export type OrchestrationEventType = 'workflow_submitted' | 'review_requested' | 'workflow_completed' | 'workflow_failed';
+
+export interface OrchestrationEvent {
+  type: OrchestrationEventType;
+  workflow: OrchestratedWorkflow;
+  tasks: WorkflowTask[]; // For review_requested, just the tasks awaiting review
+  userEmail?: string | null;
+}
+
+export interface OrchestrationNotifier {
+  name: string;
+  notify(event: OrchestrationEvent): Promise<void>;
+}
+
+function summarize(event: OrchestrationEvent): string {
+  const { workflow, tasks } = event;
+  const lines = [
+    `Workflow ID: ${workflow.id}`,
+    ...(event.userEmail ? [`User: ${event.userEmail}`] : []),
+    `Title: ${workflow.title}`,
+    `Status: ${workflow.status}`,
+    `Tasks: ${tasks.map(task => `${task.title} (${task.status})`).join(', ') || 'none'}`,
+  ];
+  if (workflow.error_message) {
+    lines.push(`Error: ${workflow.error_message}`);
+  }
+  lines.push('', `Access full details:\nGET /api/orchestrate/status/${workflow.id}`);
+  return lines.join('\n');
+}
+
+const HEADLINES: Record<OrchestrationEventType, string> = {
+  workflow_submitted: '🎯 NEW WORKFLOW SUBMITTED',
+  review_requested: '👀 WORKFLOW AWAITING REVIEW',
+  workflow_completed: '✅ WORKFLOW COMPLETED',
+  workflow_failed: '❌ WORKFLOW FAILED',
+};
+
+export const taoBridgeNotifier: OrchestrationNotifier = {
+  name: 'tao',
+  async notify(event) {
+    const baseUrl = process.env.TAO_BRIDGE_API || 'https://tao-bridge-server.fly.dev';
+    const response = await fetch(`${baseUrl}/api/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: 'system',
+        to: 'aria',
+        type: 'workflow_notification',
+        content: `${HEADLINES[event.type]}\n\n${summarize(event)}`,
+        metadata: {
+          event: event.type,
+          workflow_id: event.workflow.id,
+          user_id: event.workflow.user_id,
+          priority: event.workflow.priority,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`TAO Bridge responded ${response.status}: ${await response.text()}`);
+    }
+  },
+};
+
+// Local stand-in for the bridge, handy in development
+export const logNotifier: OrchestrationNotifier = {
+  name: 'log',
+  async notify(event) {
+    console.log(`[orchestration] ${event.type} ${event.workflow.id} (${event.workflow.title})`);
+  },
+};
+
+export function getOrchestrationNotifier(): OrchestrationNotifier | null {
+  const configured = process.env.ORCHESTRATION_NOTIFIER || (process.env.TAO_BRIDGE_API ? 'tao' : 'log');
+  switch (configured) {
+    case 'tao': return taoBridgeNotifier;
+    case 'log': return logNotifier;
+    default: return null;
+  }
+}
+
+/**
+ * Send an event through the configured notifier. Never throws: a missed
+ * notification mustn't affect the workflow.
+ */
+export async function notifyOrchestrationEvent(event: OrchestrationEvent): Promise<void> {
+  const notifier = getOrchestrationNotifier();
+  if (!notifier) {
+    return;
+  }
+
+  try {
+    await notifier.notify(event);
+  } catch (error) {
+    console.error(`Error sending ${event.type} notification via ${notifier.name}:`, error);
+  }
+}
@@ -0,0 +1,336 @@
+// Binary Blender Orchestration Planner
+// Breaks an orchestration request into workflow tasks. The request type
+// picks the plan; for complex and custom requests the deliverables are read
+// for the kinds of media wanted. Inputs use the same snake_case names as
+// workflow pattern params (prompt, image_url, audio_url, ...). With
+// require_approval, a human review is planned ahead of video and lipsync.
+
+import { z } from 'zod';
+import {
+  OrchestrationRequestData,
+  WorkflowAssignee,
+  WorkflowTaskInput,
+  WorkflowTaskType,
+} from '../types/orchestration';
+import { GenerationToolType } from '../types/generation-jobs';
+import { getProvider } from '../generation/providers';
+
+// Upper bound on tasks a single request may fan out to
+export const MAX_PLANNED_TASKS = 20;
+
+// Task types held for approval when a request sets require_approval
+const GATED_TASK_TYPES: WorkflowTaskType[] = ['generate_video', 'generate_lipsync'];
+
+// Generation tool behind each task type the orchestrator runs itself
+export const TASK_TOOLS: Partial<Record<WorkflowTaskType, GenerationToolType>> = {
+  generate_image: 'image',
+  generate_video: 'video',
+  generate_lipsync: 'lipsync',
+};
+
+const DELIVERABLE_KINDS: Array<{ kind: 'lipsync' | 'video' | 'image'; pattern: RegExp }> = [
+  { kind: 'lipsync', pattern: /lip ?sync|talking|speaking/i },
+  { kind: 'video', pattern: /video|mp4|clip|animation/i },
+  { kind: 'image', pattern: /image|photo|picture|thumbnail|png|jpe?g/i },
+];
+
+const inputsSchema = z.object({
+  prompt: z.string().trim().optional(),
+  negative_prompt: z.string().optional(),
+  aspect_ratio: z.string().optional(),
+  model: z.string().optional(),
+  seed: z.coerce.number().int().optional(),
+  num_outputs: z.coerce.number().int().min(1, 'num_outputs must be at least 1').optional(),
+  image_url: z.string().optional(),
+  image_urls: z.array(z.string()).optional(),
+  product_images: z.array(z.string()).optional(),
+  audio_url: z.string().optional(),
+  audio_duration: z.coerce.number().positive().optional(),
+  video_prompt: z.string().trim().optional(),
+  video_model: z.string().optional(),
+  duration: z.coerce.number().int().optional(),
+});
+
+type PlanInputs = z.infer<typeof inputsSchema>;
+
+export interface PlannedTask {
+  key: string;
+  task_type: WorkflowTaskType;
+  title: string;
+  description: string | null;
+  assigned_to: WorkflowAssignee;
+  input_data: WorkflowTaskInput;
+  depends_on: string | null; // key of another planned task
+  execution_order: number;
+}
+
+/**
+ * Raised when a request can't be turned into tasks. `issues` lists every
+ * problem found.
+ */
+export class OrchestrationPlanError extends Error {
+  constructor(public issues: string[]) {
+    super(issues[0] || 'Invalid workflow request');
+    this.name = 'OrchestrationPlanError';
+  }
+}
+
+// ============================================================================
+// Task Builders
+// ============================================================================
+
+interface PlanContext {
+  inputs: PlanInputs;
+  prompt: string;
+  tasks: PlannedTask[];
+}
+
+function addTask(
+  context: PlanContext,
+  task: Omit<PlannedTask, 'key' | 'assigned_to' | 'description'>,
+  // Aria plans, Kai executes
+  assignee: WorkflowAssignee = 'kai'
+): PlannedTask {
+  const planned: PlannedTask = {
+    ...task,
+    key: `task_${context.tasks.length + 1}`,
+    assigned_to: assignee,
+    description: task.input_data.deliverable ? `Deliverable: ${task.input_data.deliverable}` : null,
+  };
+  context.tasks.push(planned);
+  return planned;
+}
+
+function imageParams(context: PlanContext, seedOffset: number = 0): Record<string, any> {
+  const { inputs } = context;
+  return {
+    prompt: context.prompt,
+    negativePrompt: inputs.negative_prompt,
+    aspectRatio: inputs.aspect_ratio,
+    model: inputs.model,
+    seed: inputs.seed !== undefined ? inputs.seed + seedOffset : undefined,
+  };
+}
+
+function providedImages(inputs: PlanInputs): string[] {
+  return [
+    ...(inputs.image_url ? [inputs.image_url] : []),
+    ...(inputs.image_urls || []),
+    ...(inputs.product_images || []),
+  ];
+}
+
+function planImages(context: PlanContext, deliverable?: string): void {
+  const count = context.inputs.num_outputs || 1;
+  for (let i = 0; i < count; i++) {
+    addTask(context, {
+      task_type: 'generate_image',
+      title: count > 1 ? `Generate image ${i + 1} of ${count}` : 'Generate image',
+      input_data: { params: imageParams(context, i), deliverable },
+      depends_on: null,
+      execution_order: 1,
+    });
+  }
+}
+
+function planVideos(context: PlanContext, deliverable?: string): void {
+  const { inputs } = context;
+  const videoParams = {
+    prompt: inputs.video_prompt || context.prompt,
+    model: inputs.video_model,
+    duration: inputs.duration,
+  };
+
+  const images = providedImages(inputs);
+  if (images.length > 0) {
+    images.forEach((imageUrl, i) => addTask(context, {
+      task_type: 'generate_video',
+      title: images.length > 1 ? `Animate image ${i + 1} of ${images.length}` : 'Animate image',
+      input_data: { params: { ...videoParams, imageUrl }, deliverable },
+      depends_on: null,
+      execution_order: 1,
+    }));
+    return;
+  }
+
+  // No source image: generate one first, then animate it
+  const image = addTask(context, {
+    task_type: 'generate_image',
+    title: 'Generate source image',
+    input_data: { params: imageParams(context) },
+    depends_on: null,
+    execution_order: 1,
+  });
+  addTask(context, {
+    task_type: 'generate_video',
+    title: 'Animate source image',
+    input_data: { params: videoParams, from_dependency: 'imageUrl', deliverable },
+    depends_on: image.key,
+    execution_order: 2,
+  });
+}
+
+function planLipsync(context: PlanContext, deliverable?: string): string[] {
+  const { inputs } = context;
+  if (!inputs.audio_url) {
+    return ['Lipsync needs inputs.audio_url'];
+  }
+
+  const lipsyncParams = { audioUrl: inputs.audio_url, audioDuration: inputs.audio_duration };
+  const [imageUrl] = providedImages(inputs);
+  if (imageUrl) {
+    addTask(context, {
+      task_type: 'generate_lipsync',
+      title: 'Lipsync portrait',
+      input_data: { params: { ...lipsyncParams, imageUrl }, deliverable },
+      depends_on: null,
+      execution_order: 1,
+    });
+    return [];
+  }
+
+  if (!context.prompt) {
+    return ['Lipsync needs inputs.image_url, or a prompt to generate the portrait from'];
+  }
+
+  const image = addTask(context, {
+    task_type: 'generate_image',
+    title: 'Generate portrait',
+    input_data: { params: imageParams(context) },
+    depends_on: null,
+    execution_order: 1,
+  });
+  addTask(context, {
+    task_type: 'generate_lipsync',
+    title: 'Lipsync portrait',
+    input_data: { params: lipsyncParams, from_dependency: 'imageUrl', deliverable },
+    depends_on: image.key,
+    execution_order: 2,
+  });
+  return [];
+}
+
+/**
+ * Put a human review in front of the expensive tasks. Generated inputs get
+ * a review of their own that passes the approved output on; provided
+ * source images share one review in the stage before theirs.
+ */
+function addReviewGates(context: PlanContext): void {
+  const gated = context.tasks.filter(task => GATED_TASK_TYPES.includes(task.task_type));
+  const fromSources = gated.filter(task => !task.depends_on);
+
+  if (fromSources.length > 0) {
+    // Make room for the review in front of the first stage that uses them
+    const reviewOrder = Math.min(...fromSources.map(task => task.execution_order));
+    context.tasks.forEach(task => {
+      if (task.execution_order >= reviewOrder) task.execution_order += 1;
+    });
+    addTask(context, {
+      task_type: 'review',
+      title: 'Approve source images',
+      input_data: {
+        params: {},
+        review_urls: Array.from(new Set(fromSources.map(task => task.input_data.params.imageUrl).filter(Boolean))),
+      },
+      depends_on: null,
+      execution_order: reviewOrder,
+    }, 'human');
+  }
+
+  const reviewByDependency = new Map<string, PlannedTask>();
+  for (const task of gated) {
+    if (!task.depends_on) continue;
+
+    let review = reviewByDependency.get(task.depends_on);
+    if (!review) {
+      const dependency = context.tasks.find(candidate => candidate.key === task.depends_on)!;
+      // Same stage as what it reviews; depends_on makes it wait for the output
+      review = addTask(context, {
+        task_type: 'review',
+        title: `Approve ${dependency.title.toLowerCase()}`,
+        input_data: { params: {} },
+        depends_on: dependency.key,
+        execution_order: dependency.execution_order,
+      }, 'human');
+      reviewByDependency.set(task.depends_on, review);
+    }
+    task.depends_on = review.key;
+  }
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Turn a request into tasks. Tasks that don't wait on another are checked
+ * against their tool's params up front so bad requests fail on submit.
+ * Throws OrchestrationPlanError.
+ */
+export function planWorkflowTasks(
+  request: OrchestrationRequestData,
+  fallbackPrompt?: string | null
+): PlannedTask[] {
+  const parsed = inputsSchema.safeParse(request.inputs || {});
+  if (!parsed.success) {
+    throw new OrchestrationPlanError(parsed.error.issues.map(issue =>
+      `inputs.${issue.path.join('.')}: ${issue.message}`
+    ));
+  }
+
+  const context: PlanContext = {
+    inputs: parsed.data,
+    // Requests often describe what they want rather than giving a prompt
+    prompt: parsed.data.prompt || fallbackPrompt?.trim() || '',
+    tasks: [],
+  };
+  const issues: string[] = [];
+
+  switch (request.type) {
+    case 'image_generation':
+      planImages(context);
+      break;
+    case 'video_generation':
+      planVideos(context);
+      break;
+    case 'lipsync':
+      issues.push(...planLipsync(context));
+      break;
+    default: {
+      const deliverables = request.deliverables || [];
+      for (const deliverable of deliverables) {
+        const kind = DELIVERABLE_KINDS.find(({ pattern }) => pattern.test(deliverable))?.kind;
+        if (kind === 'lipsync') issues.push(...planLipsync(context, deliverable));
+        if (kind === 'video') planVideos(context, deliverable);
+        if (kind === 'image') planImages(context, deliverable);
+      }
+      if (issues.length === 0 && context.tasks.length === 0) {
+        issues.push(deliverables.length > 0
+          ? `None of the deliverables (${deliverables.join(', ')}) is an image, video or lipsync we can generate`
+          : 'Set request_data.type, or list the images, videos or lipsyncs wanted in request_data.deliverables');
+      }
+    }
+  }
+
+  if (request.require_approval) {
+    addReviewGates(context);
+  }
+
+  if (context.tasks.length > MAX_PLANNED_TASKS) {
+    issues.push(`Request needs ${context.tasks.length} tasks; at most ${MAX_PLANNED_TASKS} are allowed`);
+  }
+
+  for (const task of context.tasks) {
+    if (task.depends_on || !TASK_TOOLS[task.task_type]) continue;
+    const check = getProvider(TASK_TOOLS[task.task_type]!).paramSchema.safeParse(task.input_data.params);
+    if (!check.success) {
+      issues.push(`${task.title}: ${check.error.issues[0]?.message || 'invalid parameters'}`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new OrchestrationPlanError(Array.from(new Set(issues)));
+  }
+
+  return context.tasks;
+}
@@ -0,0 +1,224 @@
+// Binary Blender Workflow Reviews
+// Human sign-off inside orchestrated workflows. Tasks assigned to a human
+// wait here once they're ready. Approving passes the reviewed output on to
+// the tasks after it, rejecting fails the workflow before anything else
+// spends credits, and requesting changes sends the reviewed task back to be
+// generated again, after which it returns for review.
+
+import { supabaseAdmin } from '../supabase';
+import {
+  ReviewInboxItem,
+  ReviewWorkflowTaskRequest,
+  WorkflowTask,
+  WorkflowTaskReview,
+} from '../types/orchestration';
+import { getProvider } from '../generation/providers';
+import {
+  advanceOrchestratedWorkflow,
+  claimOrchestratedWorkflows,
+  getOrchestratedWorkflow,
+  getWorkflowTask,
+} from './engine';
+import { TASK_TOOLS } from './planner';
+
+const REVIEW_DECISIONS = ['approve', 'reject', 'request_changes'];
+
+/**
+ * Raised when a review action can't be applied. `status` is the HTTP
+ * status the route should answer with.
+ */
+export class WorkflowReviewError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'WorkflowReviewError';
+  }
+}
+
+// ============================================================================
+// Inbox
+// ============================================================================
+
+/**
+ * Tasks awaiting the user's review across their running workflows, oldest
+ * first.
+ */
+export async function listReviewInbox(userId: string): Promise<ReviewInboxItem[]> {
+  const { data: workflows, error } = await supabaseAdmin
+    .from('workflows')
+    .select('id, title, description, priority, created_at')
+    .eq('user_id', userId)
+    .eq('status', 'in_progress');
+
+  if (error) {
+    throw new Error(`Failed to fetch workflows: ${error.message}`);
+  }
+  if (!workflows || workflows.length === 0) {
+    return [];
+  }
+
+  const { data: tasks, error: tasksError } = await supabaseAdmin
+    .from('workflow_tasks')
+    .select('*')
+    .in('workflow_id', workflows.map(workflow => workflow.id))
+    .eq('assigned_to', 'human')
+    .eq('status', 'in_progress')
+    .order('started_at', { ascending: true });
+
+  if (tasksError) {
+    throw new Error(`Failed to fetch review tasks: ${tasksError.message}`);
+  }
+
+  const dependencyIds = (tasks || []).map(task => task.depends_on).filter(Boolean);
+  const { data: dependencies } = dependencyIds.length > 0
+    ? await supabaseAdmin.from('workflow_tasks').select('*').in('id', dependencyIds)
+    : { data: [] };
+
+  const workflowById = new Map(workflows.map(workflow => [workflow.id, workflow]));
+  const dependencyById = new Map<string, WorkflowTask>((dependencies || []).map(task => [task.id, task]));
+
+  return (tasks || []).map((task: WorkflowTask) => {
+    const reviewed = task.depends_on ? dependencyById.get(task.depends_on) : undefined;
+    return {
+      task,
+      workflow: workflowById.get(task.workflow_id)!,
+      output_urls: reviewed ? reviewed.output_data.output_urls || [] : task.input_data.review_urls || [],
+      asset_ids: reviewed ? reviewed.output_data.asset_ids || [] : [],
+      reviewed_task: reviewed && TASK_TOOLS[reviewed.task_type]
+        ? { id: reviewed.id, title: reviewed.title, task_type: reviewed.task_type }
+        : null,
+    };
+  });
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+async function saveTask(taskId: string, updates: Partial<WorkflowTask>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('workflow_tasks')
+    .update(updates)
+    .eq('id', taskId);
+
+  if (error) {
+    throw new Error(`Failed to update workflow task: ${error.message}`);
+  }
+}
+
+async function applyDecision(
+  task: WorkflowTask,
+  reviewed: WorkflowTask | null,
+  request: ReviewWorkflowTaskRequest,
+  review: WorkflowTaskReview
+): Promise<void> {
+  const reviews = [...(task.output_data.reviews || []), review];
+  const now = review.reviewed_at;
+
+  if (request.action === 'approve') {
+    // Pass the approved output through so tasks after the review use it
+    await saveTask(task.id, {
+      status: 'completed',
+      output_data: {
+        asset_ids: reviewed ? reviewed.output_data.asset_ids || [] : [],
+        output_urls: reviewed ? reviewed.output_data.output_urls || [] : task.input_data.review_urls || [],
+        reviews,
+      },
+      error_message: null,
+      completed_at: now,
+    });
+    return;
+  }
+
+  if (request.action === 'reject') {
+    await saveTask(task.id, {
+      status: 'failed',
+      output_data: { ...task.output_data, reviews },
+      error_message: review.notes ? `Rejected: ${review.notes}` : 'Rejected by reviewer',
+      completed_at: now,
+    });
+    return;
+  }
+
+  if (!reviewed || !TASK_TOOLS[reviewed.task_type]) {
+    throw new WorkflowReviewError('There is nothing to regenerate for this review; approve or reject it');
+  }
+  if (request.params !== undefined && (typeof request.params !== 'object' || request.params === null || Array.isArray(request.params))) {
+    throw new WorkflowReviewError('params must be an object of task parameters');
+  }
+
+  const params = { ...reviewed.input_data.params, ...request.params };
+  // A fixed seed would give back the same image
+  if (request.params?.seed === undefined) {
+    delete params.seed;
+  }
+
+  if (!reviewed.input_data.from_dependency) {
+    const parsed = getProvider(TASK_TOOLS[reviewed.task_type]!).paramSchema.safeParse(params);
+    if (!parsed.success) {
+      throw new WorkflowReviewError(parsed.error.issues[0]?.message || 'Invalid task parameters');
+    }
+  }
+
+  await saveTask(reviewed.id, {
+    status: 'pending',
+    input_data: { ...reviewed.input_data, params },
+    output_data: {},
+    error_message: null,
+    started_at: null,
+    completed_at: null,
+  });
+  await saveTask(task.id, {
+    status: 'pending',
+    output_data: { ...task.output_data, reviews },
+    started_at: null,
+  });
+}
+
+/**
+ * Approve, reject or request changes on a task awaiting review, then
+ * advance its workflow so the decision takes effect immediately.
+ * Throws WorkflowReviewError when the action doesn't apply.
+ */
+export async function reviewWorkflowTask(
+  userId: string,
+  taskId: string,
+  request: ReviewWorkflowTaskRequest
+): Promise<WorkflowTask> {
+  if (!REVIEW_DECISIONS.includes(request.action)) {
+    throw new WorkflowReviewError(`action must be one of: ${REVIEW_DECISIONS.join(', ')}`);
+  }
+
+  const task = await getWorkflowTask(taskId);
+  const workflow = task ? await getOrchestratedWorkflow(task.workflow_id, userId) : null;
+  if (!task || !workflow) {
+    throw new WorkflowReviewError('Task not found', 404);
+  }
+  if (task.assigned_to !== 'human' || task.status !== 'in_progress' || workflow.status !== 'in_progress') {
+    throw new WorkflowReviewError('This task is not awaiting review', 409);
+  }
+
+  // Hold the workflow's lease so the orchestrator doesn't act on stale state
+  const [claimed] = await claimOrchestratedWorkflows(1, workflow.id, true);
+  if (!claimed) {
+    throw new WorkflowReviewError('The workflow is busy; try again in a moment', 409);
+  }
+
+  try {
+    const reviewed = task.depends_on ? await getWorkflowTask(task.depends_on) : null;
+    await applyDecision(task, reviewed, request, {
+      decision: request.action,
+      notes: request.notes?.trim() || null,
+      reviewed_by: userId,
+      reviewed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    await supabaseAdmin
+      .from('workflows')
+      .update({ locked_until: null })
+      .eq('id', workflow.id);
+    throw error;
+  }
+
+  await advanceOrchestratedWorkflow(claimed);
+  return (await getWorkflowTask(taskId)) || task;
+}
@@ -0,0 +1,241 @@
+// Binary Blender Presets
+// Saved studio settings. Every user can save presets for the image, video
+// and lipsync studios and choose to make them public; public presets can be
+// browsed and used by everyone, and curated ones are marked featured.
+// Settings are stored keyed like the generate request bodies, so a studio
+// can apply them straight onto its form.
+
+import { z } from 'zod';
+import { supabaseAdmin } from './supabase';
+import { embeddedRow } from './utils';
+import { GenerationToolType } from './types/generation-jobs';
+import { PresetScope, PresetSettings, StudioPreset } from './types/presets';
+import { getProvider } from './generation/providers';
+import {
+  imageBatchParamSchema,
+  imageParamSchema,
+  lipsyncParamSchema,
+  videoParamSchema,
+} from './generation/providers/shared';
+
+export const PRESET_TOOL_TYPES: GenerationToolType[] = ['image', 'video', 'lipsync'];
+export const PRESET_SCOPES: PresetScope[] = ['all', 'mine', 'public', 'featured'];
+
+// Rows with the creator's display name
+export const PRESET_COLUMNS = 'id, name, description, tool_type, settings, is_public, is_featured, usage_count, created_by, created_at, updated_at, creator:users!created_by(display_name)';
+
+const MAX_NAME_LENGTH = 255;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+// Settings that point at the creator's own files (lipsync inputs). Presets
+// holding them stay private so the URLs are never shared.
+const MEDIA_SETTING_KEYS = ['imageUrl', 'audioUrl'];
+
+// Every field optional: a preset may fix just the model, or a whole setup
+const SETTINGS_SCHEMAS: Record<GenerationToolType, z.ZodObject> = {
+  image: imageParamSchema.extend(imageBatchParamSchema.shape).partial(),
+  video: videoParamSchema.partial(),
+  lipsync: lipsyncParamSchema.partial(),
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check settings for a tool and keep only the fields the studio knows.
+ * Returns the cleaned settings, or an error message.
+ */
+export function parsePresetSettings(
+  toolType: GenerationToolType,
+  settings: unknown
+): { settings: PresetSettings } | { message: string; details?: unknown } {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return { message: 'settings must be an object' };
+  }
+
+  const parsed = SETTINGS_SCHEMAS[toolType].safeParse(settings);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { message: `${issue.path.join('.')}: ${issue.message}`, details: parsed.error.issues };
+  }
+
+  // Schemas fill in defaults; a preset should only hold what was saved
+  const cleaned = Object.fromEntries(
+    Object.entries(parsed.data).filter(([key, value]) => key in settings && value !== undefined)
+  ) as Record<string, any>;
+
+  if (Object.keys(cleaned).length === 0) {
+    return { message: `settings must include at least one ${toolType} setting` };
+  }
+
+  const { capabilities } = getProvider(toolType);
+  if (cleaned.model !== undefined && !capabilities.models.some(model => model.id === cleaned.model)) {
+    return { message: `model: Unsupported ${toolType} model` };
+  }
+
+  if (cleaned.duration !== undefined && capabilities.durations && !capabilities.durations.includes(cleaned.duration)) {
+    return { message: `duration: Must be ${capabilities.durations.join(' or ')} seconds` };
+  }
+
+  if (cleaned.numOutputs !== undefined && cleaned.numOutputs > capabilities.maxOutputs) {
+    return { message: `numOutputs: At most ${capabilities.maxOutputs} outputs per request` };
+  }
+
+  return { settings: cleaned as PresetSettings };
+}
+
+/**
+ * Whether a preset with these settings may be public. Returns an error
+ * message, or null.
+ */
+export function validatePresetSharing(settings: PresetSettings, isPublic: boolean): { message: string } | null {
+  if (isPublic && MEDIA_SETTING_KEYS.some(key => key in settings)) {
+    return { message: 'Presets with image or audio files can\'t be shared publicly' };
+  }
+
+  return null;
+}
+
+/**
+ * Problems with the editable fields of a preset other than its settings,
+ * or null.
+ */
+export function validatePreset(fields: {
+  name?: string;
+  description?: string | null;
+  is_public?: boolean;
+}): { message: string } | null {
+  if (fields.name !== undefined) {
+    if (typeof fields.name !== 'string' || !fields.name.trim()) {
+      return { message: 'Name is required' };
+    }
+    if (fields.name.trim().length > MAX_NAME_LENGTH) {
+      return { message: `Name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+  }
+
+  if (fields.description !== undefined && fields.description !== null &&
+    (typeof fields.description !== 'string' || fields.description.length > MAX_DESCRIPTION_LENGTH)) {
+    return { message: `Description must be text of at most ${MAX_DESCRIPTION_LENGTH} characters` };
+  }
+
+  if (fields.is_public !== undefined && typeof fields.is_public !== 'boolean') {
+    return { message: 'is_public must be true or false' };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function toStudioPreset(row: any, userId: string): StudioPreset {
+  const creator = embeddedRow(row.creator);
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    tool_type: row.tool_type,
+    settings: row.settings || {},
+    is_public: row.is_public,
+    is_featured: row.is_featured,
+    usage_count: row.usage_count || 0,
+    is_own: row.created_by === userId,
+    creator_name: creator?.display_name || null,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export interface PresetListFilters {
+  toolType?: GenerationToolType;
+  scope: PresetScope;
+  search?: string;
+}
+
+/**
+ * Presets the user can see, filtered by scope. The user's own are listed
+ * newest first; otherwise featured come first, then the most used.
+ */
+export async function listPresets(
+  userId: string,
+  filters: PresetListFilters,
+  page: number,
+  limit: number
+): Promise<{ presets: StudioPreset[]; total: number }> {
+  let query = supabaseAdmin
+    .from('presets')
+    .select(PRESET_COLUMNS, { count: 'exact' });
+
+  if (filters.scope === 'mine') {
+    query = query.eq('created_by', userId);
+  } else if (filters.scope === 'public') {
+    query = query.eq('is_public', true);
+  } else if (filters.scope === 'featured') {
+    query = query.eq('is_public', true).eq('is_featured', true);
+  } else {
+    query = query.or(`created_by.eq.${userId},is_public.eq.true`);
+  }
+
+  if (filters.toolType) {
+    query = query.eq('tool_type', filters.toolType);
+  }
+
+  if (filters.search) {
+    query = query.ilike('name', `%${filters.search.replace(/[%_\\]/g, '\\$&')}%`);
+  }
+
+  query = filters.scope === 'mine'
+    ? query.order('created_at', { ascending: false })
+    : query
+        .order('is_featured', { ascending: false })
+        .order('usage_count', { ascending: false })
+        .order('name', { ascending: true });
+
+  const offset = (page - 1) * limit;
+  const { data, error, count } = await query.range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch presets: ${error.message}`);
+  }
+
+  return { presets: (data || []).map(row => toStudioPreset(row, userId)), total: count || 0 };
+}
+
+/**
+ * A preset the user created or that is public, or null.
+ */
+export async function getVisiblePreset(userId: string, presetId: string): Promise<StudioPreset | null> {
+  const { data, error } = await supabaseAdmin
+    .from('presets')
+    .select(PRESET_COLUMNS)
+    .eq('id', presetId)
+    .or(`created_by.eq.${userId},is_public.eq.true`)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch preset: ${error.message}`);
+  }
+
+  return data ? toStudioPreset(data, userId) : null;
+}
+
+/**
+ * Count one use of a preset, atomically in the database so concurrent uses
+ * are never lost. Returns the new count, or null when the user can't see
+ * the preset.
+ */
+export async function incrementPresetUsage(userId: string, presetId: string): Promise<number | null> {
+  const { data, error } = await supabaseAdmin.rpc('increment_preset_usage', {
+    preset_uuid: presetId,
+    user_uuid: userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to count preset use: ${error.message}`);
+  }
+
+  return data === null ? null : Number(data);
+}
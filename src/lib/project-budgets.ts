@@ -0,0 +1,235 @@
+// Binary Blender Project Budgets
+// Optional credit budget per project with two thresholds, both percentages
+// of the budget: a soft warning that notifies the owner, and a hard stop
+// past which new generations in the project are refused. Spend is what the
+// project's generations have used, including credits still reserved by
+// running jobs.
+
+import { supabaseAdmin } from './supabase';
+import { createNotification } from './notifications';
+import { ProjectBudgetFields } from './types/asset-repository';
+
+// Hard stops may sit above the budget to allow some overrun
+const MAX_STOP_PERCENT = 1000;
+
+export class ProjectBudgetExceededError extends Error {
+  readonly code = 'PROJECT_BUDGET_EXCEEDED' as const;
+
+  constructor(
+    public readonly projectId: string,
+    public readonly limit: number,
+    public readonly spent: number,
+    public readonly required: number
+  ) {
+    super(`Project budget exceeded: ${required} credits required, ${Math.max(0, limit - spent)} of ${limit} left`);
+    this.name = 'ProjectBudgetExceededError';
+  }
+}
+
+export class ProjectNotFoundError extends Error {
+  readonly code = 'PROJECT_NOT_FOUND' as const;
+
+  constructor(public readonly projectId: string) {
+    super('Project not found');
+    this.name = 'ProjectNotFoundError';
+  }
+}
+
+export interface ProjectBudget {
+  projectId: string;
+  userId: string;
+  name: string;
+  budget: number;
+  warningAt: number; // Credits
+  stopAt: number | null; // Credits; null = warn only
+  stopPercent: number | null;
+}
+
+interface ProjectBudgetRow {
+  id: string;
+  user_id: string;
+  name: string;
+  credit_budget: number | null;
+  budget_warning_percent: number | null;
+  budget_stop_percent: number | null;
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+function isWholeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
+/**
+ * Check budget fields from a create or update request. Returns an error
+ * message, or null when they're valid.
+ */
+export function validateProjectBudget(fields: ProjectBudgetFields): string | null {
+  const { credit_budget, budget_warning_percent, budget_stop_percent } = fields;
+
+  if (credit_budget !== undefined && credit_budget !== null && (!isWholeNumber(credit_budget) || credit_budget <= 0)) {
+    return 'credit_budget must be a positive whole number of credits, or null for no budget';
+  }
+
+  if (budget_warning_percent !== undefined &&
+    (!isWholeNumber(budget_warning_percent) || budget_warning_percent < 1 || budget_warning_percent > 100)) {
+    return 'budget_warning_percent must be a whole number from 1 to 100';
+  }
+
+  if (budget_stop_percent !== undefined && budget_stop_percent !== null &&
+    (!isWholeNumber(budget_stop_percent) || budget_stop_percent < 1 || budget_stop_percent > MAX_STOP_PERCENT)) {
+    return `budget_stop_percent must be a whole number from 1 to ${MAX_STOP_PERCENT}, or null to only warn`;
+  }
+
+  if (isWholeNumber(budget_warning_percent) && isWholeNumber(budget_stop_percent) &&
+    budget_stop_percent < budget_warning_percent) {
+    return 'budget_stop_percent must be at least budget_warning_percent';
+  }
+
+  return null;
+}
+
+// The project, if it is the user's
+async function fetchOwnedProject(userId: string, projectId: string): Promise<ProjectBudgetRow | null> {
+  const { data: project, error } = await supabaseAdmin
+    .from('projects')
+    .select('id, user_id, name, credit_budget, budget_warning_percent, budget_stop_percent')
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch project: ${error.message}`);
+  }
+
+  return project;
+}
+
+/**
+ * Throw ProjectNotFoundError unless the project is the user's.
+ */
+export async function assertProjectOwner(userId: string, projectId: string): Promise<void> {
+  if (!await fetchOwnedProject(userId, projectId)) {
+    throw new ProjectNotFoundError(projectId);
+  }
+}
+
+function toProjectBudget(project: ProjectBudgetRow): ProjectBudget | null {
+  if (project.credit_budget == null) {
+    return null;
+  }
+
+  const budget = project.credit_budget;
+  const percentOf = (percent: number) => Math.floor((budget * percent) / 100);
+
+  return {
+    projectId: project.id,
+    userId: project.user_id,
+    name: project.name,
+    budget,
+    warningAt: percentOf(project.budget_warning_percent ?? 80),
+    stopAt: project.budget_stop_percent == null ? null : percentOf(project.budget_stop_percent),
+    stopPercent: project.budget_stop_percent ?? null,
+  };
+}
+
+/**
+ * The project's budget in credits, or null if it has none (or isn't the
+ * user's).
+ */
+export async function getProjectBudget(userId: string, projectId: string): Promise<ProjectBudget | null> {
+  const project = await fetchOwnedProject(userId, projectId);
+  return project ? toProjectBudget(project) : null;
+}
+
+export async function getProjectSpend(projectId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('get_project_credit_spend', { project_uuid: projectId });
+
+  if (error) {
+    throw new Error(`Failed to fetch project spend: ${error.message}`);
+  }
+
+  return Number(data) || 0;
+}
+
+// ============================================================================
+// Enforcement
+// ============================================================================
+
+/**
+ * Throw ProjectBudgetExceededError if spending `credits` more would take the
+ * project past its hard stop, and ProjectNotFoundError if the project isn't
+ * the user's. Returns the budget, or null when the project has none.
+ */
+export async function checkProjectBudget(
+  userId: string,
+  projectId: string,
+  credits: number
+): Promise<ProjectBudget | null> {
+  const project = await fetchOwnedProject(userId, projectId);
+  if (!project) {
+    throw new ProjectNotFoundError(projectId);
+  }
+
+  const budget = toProjectBudget(project);
+  if (!budget) {
+    return null;
+  }
+
+  if (budget.stopAt !== null) {
+    const spent = await getProjectSpend(projectId);
+    if (spent + credits > budget.stopAt) {
+      throw new ProjectBudgetExceededError(projectId, budget.stopAt, spent, credits);
+    }
+  }
+
+  return budget;
+}
+
+/**
+ * Notify the owner when the project's spend goes past a threshold in moving
+ * from spentBefore to spentAfter. Each threshold fires once, on the
+ * generation that crosses it; if one generation crosses several, only the
+ * highest is reported.
+ */
+export async function notifyProjectBudgetCrossings(
+  budget: ProjectBudget,
+  spentBefore: number,
+  spentAfter: number
+): Promise<void> {
+  const crossed = (threshold: number) => spentBefore < threshold && spentAfter >= threshold;
+  const spentText = `${spentAfter} of ${budget.budget} credits spent.`;
+  const data = { projectId: budget.projectId, budget: budget.budget, spent: spentAfter };
+
+  if (budget.stopAt !== null && budget.stopAt !== budget.budget && crossed(budget.stopAt)) {
+    await createNotification(budget.userId, {
+      type: 'budget_exceeded',
+      title: `${budget.name} has hit its hard stop`,
+      message: `${spentText} New generations in this project are blocked until the budget is raised.`,
+      link: '/assets',
+      data: { ...data, threshold: 'stop' },
+    });
+  } else if (crossed(budget.budget)) {
+    await createNotification(budget.userId, {
+      type: 'budget_exceeded',
+      title: `${budget.name} has reached its credit budget`,
+      message: budget.stopAt === null
+        ? `${spentText} Generations aren't blocked because this project has no hard stop.`
+        : budget.stopAt === budget.budget
+          ? `${spentText} New generations in this project are blocked until the budget is raised.`
+          : `${spentText} Generations stop at ${budget.stopPercent}% of the budget.`,
+      link: '/assets',
+      data: { ...data, threshold: 'budget' },
+    });
+  } else if (crossed(budget.warningAt)) {
+    await createNotification(budget.userId, {
+      type: 'budget_warning',
+      title: `${budget.name} has used ${Math.floor((spentAfter / budget.budget) * 100)}% of its budget`,
+      message: spentText,
+      link: '/assets',
+      data: { ...data, threshold: 'warning' },
+    });
+  }
+}
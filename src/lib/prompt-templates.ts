@@ -0,0 +1,305 @@
+// Binary Blender Prompt Templates
+// Prompts may contain placeholders like {{subject}} or {{style|cinematic}}
+// (the part after the pipe is an inline default). Each placeholder can be
+// declared on the prompt with a type, default and enum choices; undeclared
+// placeholders are treated as free text.
+
+import { PromptVariable, PromptVariableType, RenderPromptResponse } from './types/asset-repository';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*(?:\|([^}]*))?\}\}/g;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+const VARIABLE_TYPES: PromptVariableType[] = ['text', 'number', 'enum', 'boolean'];
+
+export type PromptVariableValue = string | number | boolean;
+
+export interface TemplatePlaceholder {
+  name: string;
+  inlineDefault?: string;
+}
+
+export interface PromptTemplate {
+  prompt_text: string;
+  negative_prompt?: string | null;
+  variables?: PromptVariable[] | null;
+}
+
+/**
+ * Raised when render inputs don't satisfy the template. `fieldErrors` maps
+ * variable names to a message so forms can highlight each field.
+ */
+export class PromptTemplateError extends Error {
+  constructor(public fieldErrors: Record<string, string>) {
+    super(Object.entries(fieldErrors).map(([name, message]) => `${name}: ${message}`).join('; '));
+    this.name = 'PromptTemplateError';
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Placeholders in order of first appearance across the given texts. When a
+ * name repeats, the first inline default wins.
+ */
+export function extractTemplateVariables(...texts: (string | null | undefined)[]): TemplatePlaceholder[] {
+  const placeholders = new Map<string, TemplatePlaceholder>();
+
+  for (const text of texts) {
+    if (!text) continue;
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      const [, name, inlineDefault] = match;
+      const existing = placeholders.get(name);
+      if (!existing) {
+        placeholders.set(name, { name, inlineDefault: inlineDefault?.trim() });
+      } else if (existing.inlineDefault === undefined && inlineDefault !== undefined) {
+        existing.inlineDefault = inlineDefault.trim();
+      }
+    }
+  }
+
+  return Array.from(placeholders.values());
+}
+
+/**
+ * The full variable list for a template: declared variables that still
+ * appear in the text, plus undeclared placeholders as text variables.
+ * Inline defaults fill in for declarations without one.
+ */
+export function resolveTemplateVariables(template: PromptTemplate): PromptVariable[] {
+  const declared = new Map((template.variables || []).map(variable => [variable.name, variable]));
+
+  return extractTemplateVariables(template.prompt_text, template.negative_prompt).map(({ name, inlineDefault }) => {
+    const variable = declared.get(name) || { name, type: 'text' as const };
+    if (variable.default !== undefined || inlineDefault === undefined) {
+      return variable;
+    }
+    // Inline defaults are text; only use them where they fit the type
+    try {
+      return { ...variable, default: coerceVariableValue(variable, inlineDefault) };
+    } catch {
+      return variable;
+    }
+  });
+}
+
+/**
+ * Drop declarations whose placeholder no longer appears in the template, so
+ * saved prompts only carry variables they use.
+ */
+export function pruneVariableDefinitions(template: PromptTemplate): PromptVariable[] {
+  const names = new Set(extractTemplateVariables(template.prompt_text, template.negative_prompt).map(({ name }) => name));
+  return (template.variables || []).filter(variable => names.has(variable.name));
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Coerce a submitted value to the variable's type, throwing a user-facing
+ * message when it doesn't fit.
+ */
+export function coerceVariableValue(variable: PromptVariable, value: unknown): PromptVariableValue {
+  switch (variable.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (typeof value === 'boolean' || String(value).trim() === '' || !Number.isFinite(number)) {
+        throw new Error('Must be a number');
+      }
+      if (variable.min !== undefined && number < variable.min) {
+        throw new Error(`Must be at least ${variable.min}`);
+      }
+      if (variable.max !== undefined && number > variable.max) {
+        throw new Error(`Must be at most ${variable.max}`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      throw new Error('Must be true or false');
+    case 'enum': {
+      const choice = String(value);
+      if (!variable.choices?.includes(choice)) {
+        throw new Error(`Must be one of: ${(variable.choices || []).join(', ')}`);
+      }
+      return choice;
+    }
+    default:
+      if (typeof value === 'object' && value !== null) {
+        throw new Error('Must be text');
+      }
+      return String(value);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isVariableType(value: unknown): value is PromptVariableType {
+  return VARIABLE_TYPES.includes(value as PromptVariableType);
+}
+
+function isChoiceList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 &&
+    value.every(choice => typeof choice === 'string' && choice.trim() !== '');
+}
+
+/**
+ * Check variable declarations saved with a prompt. Returns a list of
+ * problems; empty when the declarations are usable.
+ */
+export function validateVariableDefinitions(variables: unknown): string[] {
+  if (variables === undefined || variables === null) return [];
+  if (!Array.isArray(variables)) return ['variables must be an array'];
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  variables.forEach((entry: unknown, index) => {
+    const variable = isRecord(entry) ? entry : {};
+    const name = variable.name;
+    const label = typeof name === 'string' && name ? `"${name}"` : `#${index + 1}`;
+
+    if (typeof name !== 'string' || !VARIABLE_NAME_PATTERN.test(name)) {
+      errors.push(`Variable ${label} needs a name of letters, numbers, _ or -`);
+      return;
+    }
+    if (seen.has(name)) {
+      errors.push(`Variable ${label} is declared more than once`);
+    }
+    seen.add(name);
+
+    const { type, choices, min, max } = variable;
+    if (!isVariableType(type)) {
+      errors.push(`Variable ${label} must have type ${VARIABLE_TYPES.join(', ')}`);
+      return;
+    }
+    if (type === 'enum' && !isChoiceList(choices)) {
+      errors.push(`Variable ${label} needs at least one choice`);
+      return;
+    }
+    if ((min !== undefined && typeof min !== 'number') || (max !== undefined && typeof max !== 'number')) {
+      errors.push(`Variable ${label} must have numeric min and max`);
+      return;
+    }
+    if (variable.default !== undefined && variable.default !== null && variable.default !== '') {
+      const declared: PromptVariable = {
+        name,
+        type,
+        choices: isChoiceList(choices) ? choices : undefined,
+        min,
+        max,
+      };
+      try {
+        coerceVariableValue(declared, variable.default);
+      } catch (error) {
+        errors.push(`Default for ${label}: ${(error as Error).message.toLowerCase()}`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+// Stands in for a placeholder that rendered empty until the text around it
+// has been tidied
+const EMPTY_MARKER = '\u0000';
+
+// A run of empty placeholders with the spaces and separators around them:
+// (separator before)(spaces) ... (spaces)(punctuation after)(spaces)
+const EMPTY_RUN_PATTERN = /([,;]?)([ \t]*)\u0000(?:[ \t]*[,;]?[ \t]*\u0000)*([ \t]*)([,.;]?)[ \t]*/g;
+
+/**
+ * Close the gap an optional variable left empty, so "a {{x}}, b" reads
+ * "a, b" rather than "a , b". Text away from empty placeholders is left as
+ * written.
+ */
+function closeEmptyRun(
+  run: string,
+  separatorBefore: string,
+  spaceBefore: string,
+  spaceAfter: string,
+  punctuationAfter: string,
+  offset: number,
+  text: string
+): string {
+  const end = offset + run.length;
+  const lineStart = !separatorBefore && (offset === 0 || text[offset - 1] === '\n');
+  const lineEnd = end === text.length || text[end] === '\n';
+  // Keep one separator: a full stop wins, otherwise the first one written
+  const separator = punctuationAfter === '.' ? '.' : separatorBefore || punctuationAfter;
+
+  if (lineStart) return '';
+  if (lineEnd) return separator;
+  if (separator) return `${separator} `;
+  return spaceBefore || spaceAfter ? ' ' : '';
+}
+
+function fillPlaceholders(text: string, values: Record<string, PromptVariableValue>): string {
+  return text
+    .replace(PLACEHOLDER_PATTERN, (_, name: string) => String(values[name] ?? '') || EMPTY_MARKER)
+    .replace(EMPTY_RUN_PATTERN, closeEmptyRun);
+}
+
+/**
+ * Validate `values` against the template and substitute them. A variable is
+ * required unless it has a default or is declared `required: false`.
+ * Throws PromptTemplateError listing every invalid field.
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  values: Record<string, unknown> = {}
+): RenderPromptResponse {
+  const variables = resolveTemplateVariables(template);
+  const known = new Set(variables.map(variable => variable.name));
+  const resolved: Record<string, PromptVariableValue> = {};
+  const fieldErrors: Record<string, string> = {};
+
+  for (const name of Object.keys(values)) {
+    if (!known.has(name)) {
+      fieldErrors[name] = 'Not a variable in this prompt';
+    }
+  }
+
+  for (const variable of variables) {
+    const raw = values[variable.name];
+    const isBlank = raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '');
+
+    if (isBlank) {
+      if (variable.default !== undefined && variable.default !== '') {
+        // Defaults entered in forms may be saved as strings
+        resolved[variable.name] = coerceVariableValue(variable, variable.default);
+      } else if (variable.required === false) {
+        resolved[variable.name] = '';
+      } else {
+        fieldErrors[variable.name] = 'Required';
+      }
+      continue;
+    }
+
+    try {
+      resolved[variable.name] = coerceVariableValue(variable, typeof raw === 'string' ? raw.trim() : raw);
+    } catch (error) {
+      fieldErrors[variable.name] = (error as Error).message;
+    }
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new PromptTemplateError(fieldErrors);
+  }
+
+  const negativePrompt = template.negative_prompt ? fillPlaceholders(template.negative_prompt, resolved) : '';
+
+  return {
+    prompt_text: fillPlaceholders(template.prompt_text, resolved),
+    negative_prompt: negativePrompt || undefined,
+    values: resolved,
+  };
+}
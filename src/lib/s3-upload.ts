@@ -1,5 +1,6 @@
 import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3'
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { readMedia } from './media-sources'
 
 const s3Client = new S3Client({
   region: process.env.AWS_REGION!,
@@ -15,6 +16,7 @@ export interface UploadResult {
   success: boolean
   url?: string
   key?: string
+  size?: number
   error?: string
 }
 
@@ -27,17 +29,9 @@ export async function uploadUrlToS3(
   contentType?: string
 ): Promise<UploadResult> {
   try {
-    // Fetch the file from the source URL
-    const response = await fetch(sourceUrl)
-    if (!response.ok) {
-      return {
-        success: false,
-        error: `Failed to fetch source URL: ${response.status} ${response.statusText}`
-      }
-    }
-
-    const buffer = await response.arrayBuffer()
-    const detectedContentType = contentType || response.headers.get('content-type') || 'application/octet-stream'
+    // Fetch the file from the source URL (streamed, with a size cap)
+    const { buffer, contentType: sourceContentType } = await readMedia(sourceUrl)
+    const detectedContentType = contentType || sourceContentType || 'application/octet-stream'
 
     // Upload to S3
     const command = new PutObjectCommand({
@@ -56,7 +50,8 @@ export async function uploadUrlToS3(
     return {
       success: true,
       url: s3Url,
-      key: destinationKey
+      key: destinationKey,
+      size: buffer.byteLength
     }
   } catch (error) {
     console.error('Error uploading to S3:', error)
@@ -67,6 +62,18 @@ export async function uploadUrlToS3(
   }
 }
 
+// Extensions for the MIME types we see in data URLs
+const DATA_URL_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/mp4': 'm4a',
+}
+
 /**
  * Generate a unique S3 key for an asset
  */
@@ -81,10 +88,13 @@ export function generateAssetKey(
   // Try to get file extension from the original URL
   let extension = ''
   if (originalUrl) {
-    const urlParts = originalUrl.split('.')
-    const lastPart = urlParts[urlParts.length - 1]
-    // Common image/video extensions
-    if (['png', 'jpg', 'jpeg', 'gif', 'webp', 'mp4', 'mov', 'avi'].includes(lastPart.toLowerCase())) {
+    // Data URLs carry their type in the header; remote URLs often have a
+    // signed query string after the extension
+    const lastPart = originalUrl.startsWith('data:')
+      ? DATA_URL_EXTENSIONS[originalUrl.slice(5).split(/[;,]/)[0]] || ''
+      : originalUrl.split(/[?#]/)[0].split('.').pop() || ''
+    // Common image/video/audio extensions
+    if (['png', 'jpg', 'jpeg', 'gif', 'webp', 'mp4', 'mov', 'avi', 'mp3', 'wav', 'm4a'].includes(lastPart.toLowerCase())) {
       extension = `.${lastPart.toLowerCase()}`
     }
   }
@@ -0,0 +1,124 @@
+// Binary Blender Search Facets
+// How many of a search's assets fall under each filter option: type,
+// studio, tool, tag, rating, month created and credit cost. Each facet is
+// counted with its own field's selection left out of the query, so with
+// type:image selected the type facet still shows how many videos there are
+// to add. The database does the counting (search_asset_facets in
+// sql/search-facets.sql); this module asks for it and shapes the result.
+
+import { AssetType, SearchFacets, SourceApp } from '../types/asset-repository';
+import { QueryFieldName, SearchClause } from './query-language';
+
+export type FacetKey = Exclude<keyof SearchFacets, 'total'>;
+
+// The query-language field each facet drills down on
+export const FACET_FIELDS: Record<FacetKey, QueryFieldName> = {
+  asset_types: 'type',
+  source_apps: 'app',
+  source_tools: 'tool',
+  tags: 'tag',
+  ratings: 'rating',
+  created: 'created',
+  credits: 'credits',
+};
+
+export const RATING_BUCKETS = ['none', '1', '2', '3', '4', '5'];
+
+// Upper bounds of the credit cost buckets; the last one is open-ended
+export const CREDIT_BUCKET_LIMITS = [0, 5, 20, 50];
+export const CREDIT_BUCKETS = CREDIT_BUCKET_LIMITS
+  .map((limit, index) => index === 0 ? String(limit) : `${CREDIT_BUCKET_LIMITS[index - 1] + 1}..${limit}`)
+  .concat(`${CREDIT_BUCKET_LIMITS[CREDIT_BUCKET_LIMITS.length - 1] + 1}..`);
+
+// Long-tail facets only list their most common values
+export const MAX_FACET_VALUES = 30;
+
+const ASSET_TYPES: AssetType[] = ['image', 'video', 'audio', 'text', 'prompt', 'experiment', 'workflow', 'comparison'];
+const SOURCE_APPS: SourceApp[] = ['image_studio', 'video_studio', 'lipsync', 'chat_studio', 'asset_repository'];
+
+// One row of search_asset_facets: how many assets have a value of a facet,
+// or the number of matches when facet is 'total'
+export interface FacetCountRow {
+  facet: FacetKey | 'total';
+  facet_value: string | null;
+  asset_count: number;
+}
+
+// ============================================================================
+// Counting
+// ============================================================================
+
+// The database returns a credit bucket as its index in CREDIT_BUCKETS
+function facetValue(facet: FacetKey, value: string): string {
+  return facet === 'credits' ? CREDIT_BUCKETS[Number(value)] : value;
+}
+
+function zeroCounts(keys: string[]): Record<string, number> {
+  return Object.fromEntries(keys.map(key => [key, 0]));
+}
+
+function topCounts(counts: Record<string, number>, limit: number): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(counts)
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+      .slice(0, limit)
+  );
+}
+
+function countFacet(rows: FacetCountRow[], facet: FacetKey): Record<string, number> {
+  const counts: Record<string, number> =
+    facet === 'asset_types' ? zeroCounts(ASSET_TYPES)
+    : facet === 'source_apps' ? zeroCounts(SOURCE_APPS)
+    : facet === 'ratings' ? zeroCounts(RATING_BUCKETS)
+    : facet === 'credits' ? zeroCounts(CREDIT_BUCKETS)
+    : {};
+
+  for (const row of rows) {
+    if (row.facet === facet && row.facet_value !== null) {
+      counts[facetValue(facet, row.facet_value)] = Number(row.asset_count);
+    }
+  }
+
+  if (facet === 'created') {
+    return Object.fromEntries(Object.entries(counts).sort(([a], [b]) => b.localeCompare(a)));
+  }
+  if (facet === 'source_tools' || facet === 'tags') {
+    return topCounts(counts, MAX_FACET_VALUES);
+  }
+  return counts;
+}
+
+// A field's selection: the plain field:a,b terms that its facet edits
+function isSelection(clause: SearchClause, field: QueryFieldName): boolean {
+  return clause.field === field && clause.operator === 'eq' && !clause.negated;
+}
+
+/**
+ * Facet counts for the assets matching a query. countFacets runs the search
+ * with the given clauses and returns search_asset_facets rows for the named
+ * facets (and the total); it's called once for the whole query and once per
+ * field with a selection, for that field's facets alone.
+ */
+export async function computeAssetFacets(
+  clauses: SearchClause[],
+  countFacets: (clauses: SearchClause[], facets: FacetKey[]) => Promise<FacetCountRow[]>
+): Promise<SearchFacets> {
+  const facets = Object.keys(FACET_FIELDS) as FacetKey[];
+  const selectedFields = Array.from(new Set(
+    facets.map(facet => FACET_FIELDS[facet]).filter(field => clauses.some(clause => isSelection(clause, field)))
+  ));
+  const facetsOf = (field: QueryFieldName) => facets.filter(facet => FACET_FIELDS[facet] === field);
+
+  const [all, ...withoutSelection] = await Promise.all([
+    countFacets(clauses, facets.filter(facet => !selectedFields.includes(FACET_FIELDS[facet]))),
+    ...selectedFields.map(field => countFacets(clauses.filter(clause => !isSelection(clause, field)), facetsOf(field))),
+  ]);
+  const rows = all.concat(...withoutSelection);
+
+  const counted = Object.fromEntries(
+    facets.map(facet => [facet, countFacet(rows, facet)])
+  ) as Pick<SearchFacets, FacetKey>;
+
+  const total = all.find(row => row.facet === 'total');
+  return { ...counted, total: total ? Number(total.asset_count) : 0 };
+}
@@ -0,0 +1,666 @@
+// Binary Blender Search Query Language
+// Structured terms typed straight into the search bar, e.g.
+//   type:video tool:gen3a rating>=4 tag:hero -tag:draft created:>2025-10-01 credits<10
+// Anything that isn't a field term is free text for the keyword/semantic
+// search. Parsing is shared: the search bar uses it to highlight terms and
+// errors as you type, and /api/search compiles the clauses into filters.
+// Dates can be relative so saved searches stay current: 7d, 2w, 3m and 1y
+// name the day that long ago, and today, yesterday, this-week, this-month
+// and this-year name the whole period (all in UTC).
+// A ":" term can list alternatives, type:image,video, and numbers and dates
+// take ranges and gaps too: rating:none,4..5, credits:..10, created:2025-10.
+
+import { AssetType, SourceApp } from '../types/asset-repository';
+
+export type QueryFieldName = 'type' | 'app' | 'tool' | 'tag' | 'rating' | 'credits' | 'created' | 'is';
+export type QueryOperator = 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
+export type SearchEntity = 'asset' | 'prompt' | 'experiment';
+
+type QueryFieldKind = 'enum' | 'string' | 'tag' | 'number' | 'date' | 'flag';
+
+interface QueryFieldDefinition {
+  kind: QueryFieldKind;
+  column: string;
+  description: string;
+  // Entities that have this column; others can't match the clause
+  entities: SearchEntity[];
+  values?: string[];
+  min?: number;
+  max?: number;
+}
+
+const ASSET_TYPES: AssetType[] = ['image', 'video', 'audio', 'text', 'prompt', 'experiment', 'workflow', 'comparison'];
+const SOURCE_APPS: SourceApp[] = ['image_studio', 'video_studio', 'lipsync', 'chat_studio', 'asset_repository'];
+const DATE_PERIODS = ['today', 'yesterday', 'this-week', 'this-month', 'this-year'];
+
+export const QUERY_FIELDS: Record<QueryFieldName, QueryFieldDefinition> = {
+  type: { kind: 'enum', column: 'asset_type', description: 'Asset type', entities: ['asset'], values: ASSET_TYPES },
+  app: { kind: 'enum', column: 'source_app', description: 'Studio it came from', entities: ['asset'], values: SOURCE_APPS },
+  tool: { kind: 'string', column: 'source_tool', description: 'Model or tool', entities: ['asset'] },
+  tag: { kind: 'tag', column: 'tags', description: 'Tag', entities: ['asset', 'prompt', 'experiment'] },
+  rating: { kind: 'number', column: 'user_rating', description: 'Your rating, 1-5', entities: ['asset'], min: 0, max: 5 },
+  credits: { kind: 'number', column: 'credits_used', description: 'Credits spent', entities: ['asset'], min: 0 },
+  created: { kind: 'date', column: 'created_at', description: 'Created: 2025-10-01, 7d, this-month', entities: ['asset', 'prompt', 'experiment'], values: DATE_PERIODS },
+  is: { kind: 'flag', column: 'is_favorite', description: 'is:favorite', entities: ['asset'], values: ['favorite'] },
+};
+
+// Longest first, so ":>=" isn't read as ":" followed by a value of ">="
+const OPERATORS: Array<[string, QueryOperator]> = [
+  [':>=', 'gte'], [':<=', 'lte'], ['>=', 'gte'], ['<=', 'lte'],
+  [':>', 'gt'], [':<', 'lt'], ['>', 'gt'], ['<', 'lt'],
+  [':', 'eq'], ['=', 'eq'],
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+const NUMBER_RANGE_PATTERN = /^(\d+(?:\.\d+)?)?\.\.(\d+(?:\.\d+)?)?$/;
+const RELATIVE_DATE_PATTERN = /^(\d+)([dwmy])$/;
+
+export interface SearchClause {
+  field: QueryFieldName;
+  operator: QueryOperator;
+  // Normalized; more than one only for ":" lists, which match any of them
+  values: string[];
+  negated: boolean;
+  // Where the term sits in the input, for editing it in place
+  start: number;
+  end: number;
+}
+
+export interface SearchQueryError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+// Spans covering the whole input, for highlighting
+export interface QuerySegment {
+  start: number;
+  end: number;
+  kind: 'text' | 'space' | 'field' | 'value' | 'error';
+}
+
+export interface ParsedSearchQuery {
+  // The free-text part, for keyword/semantic matching
+  text: string;
+  clauses: SearchClause[];
+  errors: SearchQueryError[];
+  segments: QuerySegment[];
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+interface RawTerm {
+  start: number;
+  end: number;
+  unterminated: boolean;
+}
+
+/**
+ * Split on whitespace outside double quotes, so tag:"hero shot" and
+ * "exact phrase" each stay one term.
+ */
+function splitTerms(input: string): RawTerm[] {
+  const terms: RawTerm[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let quoted = false;
+    while (index < input.length && (quoted || !/\s/.test(input[index]))) {
+      if (input[index] === '"') quoted = !quoted;
+      index++;
+    }
+    terms.push({ start, end: index, unterminated: quoted });
+  }
+
+  return terms;
+}
+
+function isQueryField(name: string): name is QueryFieldName {
+  return Object.prototype.hasOwnProperty.call(QUERY_FIELDS, name);
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1)
+    : value;
+}
+
+function splitFieldTerm(body: string): { name: string; operatorText: string; operator: QueryOperator; rawValue: string } | null {
+  const name = body.match(/^[a-zA-Z_]+/)?.[0];
+  if (!name) return null;
+
+  const rest = body.slice(name.length);
+  const match = OPERATORS.find(([text]) => rest.startsWith(text));
+  if (!match) return null;
+
+  return { name: name.toLowerCase(), operatorText: match[0], operator: match[1], rawValue: rest.slice(match[0].length) };
+}
+
+/**
+ * Split a value on commas outside double quotes: tag:"a, b",c is two tags.
+ */
+function splitValueList(rawValue: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of rawValue) {
+    if (char === '"') quoted = !quoted;
+    if (char === ',' && !quoted) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items.map(unquote);
+}
+
+function outOfBounds(definition: QueryFieldDefinition, number: number): boolean {
+  return (definition.min !== undefined && number < definition.min) || (definition.max !== undefined && number > definition.max);
+}
+
+/**
+ * Check one value against its field. Returns the normalized value, or an
+ * error message. Ranges and "none" only make sense in a ":" term.
+ */
+function validateValue(
+  field: QueryFieldName,
+  operator: QueryOperator,
+  value: string
+): { value: string } | { error: string } {
+  const definition = QUERY_FIELDS[field];
+
+  switch (definition.kind) {
+    case 'enum':
+    case 'flag': {
+      const normalized = value.toLowerCase();
+      if (!definition.values!.includes(normalized)) {
+        return { error: `Unknown ${field} "${value}"; expected ${definition.values!.join(', ')}` };
+      }
+      return { value: normalized };
+    }
+    case 'number': {
+      const normalized = value.toLowerCase();
+      const range = normalized.match(NUMBER_RANGE_PATTERN);
+      if (normalized === 'none' || range) {
+        if (operator !== 'eq') {
+          return { error: `${field} ranges and "none" only work with ":"` };
+        }
+        if (range && range[1] === undefined && range[2] === undefined) {
+          return { error: `${field} ranges need at least one end, e.g. 1..5 or 10..` };
+        }
+        if (range && [range[1], range[2]].some(end => end !== undefined && outOfBounds(definition, Number(end)))) {
+          return { error: `${field} must be between ${definition.min ?? '-∞'} and ${definition.max ?? '∞'}` };
+        }
+        return { value: normalized };
+      }
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        return { error: `${field} must be a number` };
+      }
+      if (outOfBounds(definition, number)) {
+        return { error: `${field} must be between ${definition.min ?? '-∞'} and ${definition.max ?? '∞'}` };
+      }
+      return { value: String(number) };
+    }
+    case 'date': {
+      const normalized = value.toLowerCase();
+      if (DATE_PERIODS.includes(normalized) || RELATIVE_DATE_PATTERN.test(normalized)) {
+        return { value: normalized };
+      }
+      if (MONTH_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}-01T00:00:00Z`))) {
+        return { value };
+      }
+      if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(`${value}T00:00:00Z`))) {
+        return { error: `${field} dates look like 2025-10-01, 2025-10, 7d or this-month` };
+      }
+      return { value };
+    }
+    default:
+      return { value };
+  }
+}
+
+/**
+ * Check a term's value, or comma-separated list of values, against its
+ * field. Returns the normalized values, or an error message.
+ */
+function validateClause(
+  field: QueryFieldName,
+  operator: QueryOperator,
+  rawValue: string
+): { values: string[] } | { error: string } {
+  const definition = QUERY_FIELDS[field];
+
+  if (!rawValue) {
+    return { error: `${field} needs a value` };
+  }
+
+  if (operator !== 'eq' && definition.kind !== 'number' && definition.kind !== 'date') {
+    return { error: `${field} can only be matched with ":"` };
+  }
+
+  const items = splitValueList(rawValue);
+  if (items.length > 1 && operator !== 'eq') {
+    return { error: `Lists of ${field} values only work with ":"` };
+  }
+
+  const values: string[] = [];
+  for (const item of items) {
+    if (!item) {
+      return { error: `${field} has an empty value in its list` };
+    }
+    const result = validateValue(field, operator, item);
+    if ('error' in result) {
+      return result;
+    }
+    if (!values.includes(result.value)) {
+      values.push(result.value);
+    }
+  }
+
+  return { values };
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const clauses: SearchClause[] = [];
+  const errors: SearchQueryError[] = [];
+  const segments: QuerySegment[] = [];
+  const textTerms: string[] = [];
+
+  let position = 0;
+  for (const term of splitTerms(input)) {
+    if (term.start > position) {
+      segments.push({ start: position, end: term.start, kind: 'space' });
+    }
+    position = term.end;
+
+    const raw = input.slice(term.start, term.end);
+    const negated = raw.length > 1 && raw.startsWith('-');
+    const parts = splitFieldTerm(negated ? raw.slice(1) : raw);
+
+    if (term.unterminated) {
+      errors.push({ start: term.start, end: term.end, message: 'Missing closing quote' });
+      segments.push({ start: term.start, end: term.end, kind: 'error' });
+      continue;
+    }
+
+    // Free text, including -word exclusions and "quoted phrases"
+    if (!parts) {
+      textTerms.push(raw);
+      segments.push({ start: term.start, end: term.end, kind: 'text' });
+      continue;
+    }
+
+    if (!isQueryField(parts.name)) {
+      errors.push({
+        start: term.start,
+        end: term.end,
+        message: `Unknown field "${parts.name}"; try ${Object.keys(QUERY_FIELDS).join(', ')}`,
+      });
+      segments.push({ start: term.start, end: term.end, kind: 'error' });
+      continue;
+    }
+
+    const field = parts.name;
+    const result = validateClause(field, parts.operator, parts.rawValue);
+    if ('error' in result) {
+      errors.push({ start: term.start, end: term.end, message: result.error });
+      segments.push({ start: term.start, end: term.end, kind: 'error' });
+      continue;
+    }
+
+    clauses.push({ field, operator: parts.operator, values: result.values, negated, start: term.start, end: term.end });
+
+    const valueStart = term.end - parts.rawValue.length;
+    segments.push({ start: term.start, end: valueStart, kind: 'field' });
+    segments.push({ start: valueStart, end: term.end, kind: 'value' });
+  }
+
+  if (input.length > position) {
+    segments.push({ start: position, end: input.length, kind: 'space' });
+  }
+
+  return { text: textTerms.join(' '), clauses, errors, segments };
+}
+
+// ============================================================================
+// Compiling
+// ============================================================================
+
+export type SearchConditionOperator =
+  'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'not.in' | 'is' | 'not.is' | 'ov' | 'not.ov';
+
+/**
+ * One condition on a column, named like the PostgREST operator. List
+ * operators (in, ov) take several values; is takes 'null' or 'true'.
+ */
+export interface SearchCondition {
+  column: string;
+  operator: SearchConditionOperator;
+  value: string | string[];
+}
+
+/**
+ * A compiled filter: any of its alternatives, each a set of conditions that
+ * must all hold; most are a single condition. applySearchClauses renders
+ * them for PostgREST, and search_asset_facets runs them as SQL.
+ */
+export type CompiledSearchFilter = SearchCondition[][];
+
+const NEGATED_OPERATORS: Record<QueryOperator, QueryOperator | 'neq'> = {
+  eq: 'neq',
+  gt: 'lte',
+  gte: 'lt',
+  lt: 'gte',
+  lte: 'gt',
+};
+
+function condition(column: string, operator: SearchConditionOperator, value: string | string[]): CompiledSearchFilter {
+  return [[{ column, operator, value }]];
+}
+
+function shiftUtc(date: Date, unit: string, amount: number): Date {
+  const shifted = new Date(date);
+  if (unit === 'y') shifted.setUTCFullYear(shifted.getUTCFullYear() + amount);
+  else if (unit === 'm') shifted.setUTCMonth(shifted.getUTCMonth() + amount);
+  else shifted.setUTCDate(shifted.getUTCDate() + amount * (unit === 'w' ? 7 : 1));
+  return shifted;
+}
+
+/**
+ * The span a date value covers: one day, or a whole period or month.
+ */
+function dateBounds(value: string, now: Date): { from: string; to: string } {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const relative = value.match(RELATIVE_DATE_PATTERN);
+
+  let from: Date;
+  let to: Date;
+  if (relative) {
+    from = shiftUtc(today, relative[2], -Number(relative[1]));
+    to = shiftUtc(from, 'd', 1);
+  } else if (value === 'today' || value === 'yesterday') {
+    from = value === 'today' ? today : shiftUtc(today, 'd', -1);
+    to = shiftUtc(from, 'd', 1);
+  } else if (value === 'this-week') {
+    // Weeks start on Monday
+    from = shiftUtc(today, 'd', -((today.getUTCDay() + 6) % 7));
+    to = shiftUtc(from, 'w', 1);
+  } else if (value === 'this-month') {
+    from = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+    to = shiftUtc(from, 'm', 1);
+  } else if (value === 'this-year') {
+    from = new Date(Date.UTC(today.getUTCFullYear(), 0, 1));
+    to = shiftUtc(from, 'y', 1);
+  } else if (MONTH_PATTERN.test(value)) {
+    from = new Date(`${value}-01T00:00:00Z`);
+    to = shiftUtc(from, 'm', 1);
+  } else {
+    from = new Date(`${value}T00:00:00Z`);
+    to = shiftUtc(from, 'd', 1);
+  }
+
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+// A date value covers a span: created:>2025-10-01 starts on the 2nd and
+// created:this-month is the whole month. A list matches any of its spans.
+function compileDateClause(column: string, clause: SearchClause, now: Date): CompiledSearchFilter[] {
+  const spans = clause.values.map(value => dateBounds(value, now));
+  const operator = clause.negated ? NEGATED_OPERATORS[clause.operator] : clause.operator;
+  const { from, to } = spans[0];
+
+  switch (operator) {
+    case 'neq':
+      return spans.map(span => [
+        [{ column, operator: 'lt', value: span.from }],
+        [{ column, operator: 'gte', value: span.to }],
+      ]);
+    case 'gt': return [condition(column, 'gte', to)];
+    case 'gte': return [condition(column, 'gte', from)];
+    case 'lt': return [condition(column, 'lt', from)];
+    case 'lte': return [condition(column, 'lt', to)];
+    default:
+      if (spans.length > 1) {
+        return [spans.map(span => [
+          { column, operator: 'gte', value: span.from },
+          { column, operator: 'lt', value: span.to },
+        ])];
+      }
+      return [condition(column, 'gte', from), condition(column, 'lt', to)];
+  }
+}
+
+// One ":" number value: a number, a range or none
+function numberConditions(column: string, value: string): SearchCondition[] {
+  if (value === 'none') return [{ column, operator: 'is', value: 'null' }];
+  const range = value.match(NUMBER_RANGE_PATTERN);
+  if (!range) return [{ column, operator: 'eq', value }];
+  if (range[1] === undefined) return [{ column, operator: 'lte', value: range[2] }];
+  if (range[2] === undefined) return [{ column, operator: 'gte', value: range[1] }];
+  return [{ column, operator: 'gte', value: range[1] }, { column, operator: 'lte', value: range[2] }];
+}
+
+// The opposite of one number value. Unset values count as outside any range.
+function negatedNumberCondition(column: string, value: string): CompiledSearchFilter {
+  if (value === 'none') return condition(column, 'not.is', 'null');
+  const range = value.match(NUMBER_RANGE_PATTERN);
+  if (!range) return [[{ column, operator: 'is', value: 'null' }], [{ column, operator: 'neq', value }]];
+
+  const outside: CompiledSearchFilter = [[{ column, operator: 'is', value: 'null' }]];
+  if (range[1] !== undefined) outside.push([{ column, operator: 'lt', value: range[1] }]);
+  if (range[2] !== undefined) outside.push([{ column, operator: 'gt', value: range[2] }]);
+  return outside;
+}
+
+function compileNumberClause(column: string, clause: SearchClause): CompiledSearchFilter[] {
+  if (clause.operator !== 'eq') {
+    const operator = clause.negated ? NEGATED_OPERATORS[clause.operator] : clause.operator;
+    return [condition(column, operator, clause.values[0])];
+  }
+  if (clause.negated) {
+    return clause.values.map(value => negatedNumberCondition(column, value));
+  }
+  return [clause.values.map(value => numberConditions(column, value))];
+}
+
+function compileClause(clause: SearchClause, now: Date): CompiledSearchFilter[] {
+  const { column, kind } = QUERY_FIELDS[clause.field];
+
+  switch (kind) {
+    case 'tag':
+      // Any of the listed tags; excluding a list excludes each of them
+      return [condition(column, clause.negated ? 'not.ov' : 'ov', clause.values)];
+    case 'flag':
+      return [condition(column, clause.negated ? 'not.is' : 'is', 'true')];
+    case 'string':
+      // Assets without a tool don't use the excluded ones either
+      return clause.negated
+        ? [[[{ column, operator: 'is', value: 'null' }], [{ column, operator: 'not.in', value: clause.values }]]]
+        : [condition(column, 'in', clause.values)];
+    case 'enum':
+      return [condition(column, clause.negated ? 'not.in' : 'in', clause.values)];
+    case 'date':
+      return compileDateClause(column, clause, now);
+    default:
+      return compileNumberClause(column, clause);
+  }
+}
+
+/**
+ * The filters for an entity's query, or null when a clause names a field
+ * the entity doesn't have (type:video can't match a prompt).
+ */
+export function compileSearchClauses(
+  clauses: SearchClause[],
+  entity: SearchEntity,
+  now: Date = new Date()
+): CompiledSearchFilter[] | null {
+  if (clauses.some(clause => !QUERY_FIELDS[clause.field].entities.includes(entity))) {
+    return null;
+  }
+  return clauses.flatMap(clause => compileClause(clause, now));
+}
+
+// Values inside or=(...) need quoting when they contain reserved characters
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+// A condition's value as PostgREST expects it: lists in () and tag arrays
+// in {}, with their items quoted; single values quoted only inside or=(...)
+function formatConditionValue({ operator, value }: SearchCondition, inLogicTree: boolean): string {
+  if (Array.isArray(value)) {
+    const items = value.map(quoteFilterValue).join(',');
+    return operator === 'ov' || operator === 'not.ov' ? `{${items}}` : `(${items})`;
+  }
+  return inLogicTree && !/^(\d+(\.\d+)?|null|true)$/.test(value) ? quoteFilterValue(value) : value;
+}
+
+function formatCondition(condition: SearchCondition): string {
+  return `${condition.column}.${condition.operator}.${formatConditionValue(condition, true)}`;
+}
+
+/**
+ * Apply compiled filters to a Supabase query.
+ */
+export function applySearchClauses<Q extends {
+  filter(column: string, operator: string, value: unknown): Q;
+  or(filters: string): Q;
+}>(query: Q, filters: CompiledSearchFilter[]): Q {
+  for (const alternatives of filters) {
+    if (alternatives.length === 1 && alternatives[0].length === 1) {
+      const [only] = alternatives[0];
+      query = query.filter(only.column, only.operator, formatConditionValue(only, false));
+      continue;
+    }
+
+    query = query.or(alternatives
+      .map(conditions => conditions.length === 1
+        ? formatCondition(conditions[0])
+        : `and(${conditions.map(formatCondition).join(',')})`)
+      .join(','));
+  }
+  return query;
+}
+
+// ============================================================================
+// Autocomplete
+// ============================================================================
+
+export interface QuerySuggestion {
+  label: string;
+  hint?: string;
+  // Replaces input[start, end) when accepted
+  insert: string;
+}
+
+export interface QueryCompletions {
+  start: number;
+  end: number;
+  suggestions: QuerySuggestion[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Suggestions for the term under the cursor: field names while typing one,
+ * then values for it. Tag and tool values come from the caller.
+ */
+export function getQueryCompletions(
+  input: string,
+  cursor: number,
+  values: { tags: string[]; tools: string[] }
+): QueryCompletions | null {
+  const term = splitTerms(input).find(candidate => candidate.start <= cursor && cursor <= candidate.end);
+  if (!term) return null;
+
+  const typed = input.slice(term.start, cursor);
+  const negation = typed.startsWith('-') ? '-' : '';
+  const body = typed.slice(negation.length);
+  const parts = splitFieldTerm(body);
+
+  if (!parts) {
+    if (!/^[a-z]+$/i.test(body)) return null;
+    const suggestions = (Object.keys(QUERY_FIELDS) as QueryFieldName[])
+      .filter(name => name.startsWith(body.toLowerCase()))
+      .map(name => ({ label: `${name}:`, hint: QUERY_FIELDS[name].description, insert: `${negation}${name}:` }));
+    return suggestions.length ? { start: term.start, end: term.end, suggestions } : null;
+  }
+
+  if (!isQueryField(parts.name)) return null;
+  const definition = QUERY_FIELDS[parts.name];
+  const candidates = definition.kind === 'tag' ? values.tags
+    : definition.kind === 'string' ? values.tools
+    : definition.values || [];
+
+  // Complete the last value of a list, keeping the ones before it
+  const listed = parts.rawValue.slice(0, parts.rawValue.lastIndexOf(',') + 1);
+  const partial = parts.rawValue.slice(listed.length).replace(/^"|"$/g, '').toLowerCase();
+  const suggestions = candidates
+    .filter(candidate => candidate.toLowerCase().startsWith(partial) && candidate.toLowerCase() !== partial)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(candidate => ({
+      label: candidate,
+      insert: `${negation}${parts.name}${parts.operatorText}${listed}${formatQueryValue(candidate)} `,
+    }));
+
+  return suggestions.length ? { start: term.start, end: term.end, suggestions } : null;
+}
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+/**
+ * A value as it's typed in a term, quoted if it has spaces or commas.
+ */
+export function formatQueryValue(value: string): string {
+  return /[\s,"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+// The plain field:a,b term that filter controls read and edit
+function findSelectionClause(parsed: ParsedSearchQuery, field: QueryFieldName): SearchClause | undefined {
+  return parsed.clauses.find(clause => clause.field === field && clause.operator === 'eq' && !clause.negated);
+}
+
+/**
+ * The values selected for a field by its field:a,b term, if any.
+ */
+export function getSelectedQueryValues(input: string, field: QueryFieldName): string[] {
+  return findSelectionClause(parseSearchQuery(input), field)?.values || [];
+}
+
+/**
+ * Add a value to a field's field:a,b term, or remove it if it's already
+ * there, leaving the rest of the query as typed. Removing the last value
+ * removes the term.
+ */
+export function toggleQueryValue(input: string, field: QueryFieldName, value: string): string {
+  const clause = findSelectionClause(parseSearchQuery(input), field);
+  if (!clause) {
+    return [input.trim(), `${field}:${formatQueryValue(value)}`].filter(Boolean).join(' ');
+  }
+
+  const values = clause.values.includes(value)
+    ? clause.values.filter(selected => selected !== value)
+    : [...clause.values, value];
+  const term = values.length ? `${field}:${values.map(formatQueryValue).join(',')}` : '';
+
+  return [input.slice(0, clause.start).trimEnd(), term, input.slice(clause.end).trimStart()]
+    .filter(Boolean)
+    .join(' ');
+}
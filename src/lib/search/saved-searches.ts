@@ -0,0 +1,135 @@
+// Binary Blender Saved Searches
+// Smart folders: named query-language searches whose asset counts are
+// recomputed on every listing, so they follow the library as it changes.
+// A search scoped to a project can be shared with everyone who has access
+// to that project.
+
+import { supabaseAdmin } from '../supabase';
+import { SavedSearch, SavedSearchSort } from '../types/asset-repository';
+import { applySearchClauses, compileSearchClauses, parseSearchQuery } from './query-language';
+
+export const SAVED_SEARCH_SORTS: SavedSearchSort[] = ['created_at', 'updated_at', 'name', 'rating', 'credits_used'];
+
+/**
+ * Whether the user can see a project's assets and shared searches. Projects
+ * have a single owner today; this is the one place to widen that.
+ */
+export async function canAccessProject(userId: string, projectId: string): Promise<boolean> {
+  const { data: project } = await supabaseAdmin
+    .from('projects')
+    .select('id')
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !!project;
+}
+
+/**
+ * Count the active assets a saved search matches for the user. Counts use
+ * keyword matching for the free text, as the gallery does by default.
+ * Returns null if the query no longer parses or the count fails.
+ */
+export async function countSavedSearchAssets(search: SavedSearch, userId: string): Promise<number | null> {
+  const parsed = parseSearchQuery(search.query);
+  if (parsed.errors.length > 0) {
+    return null;
+  }
+
+  const filters = compileSearchClauses(parsed.clauses, 'asset');
+  if (!filters) {
+    return 0;
+  }
+
+  let query = supabaseAdmin
+    .from('assets')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('status', 'active');
+
+  if (search.project_id) {
+    query = query.eq('project_id', search.project_id);
+  }
+
+  if (parsed.text) {
+    query = query.textSearch('name,notes', parsed.text, {
+      type: 'websearch',
+      config: 'english'
+    });
+  }
+
+  const { count, error } = await applySearchClauses(query, filters);
+  if (error) {
+    console.error('Error counting saved search assets:', error);
+    return null;
+  }
+
+  return count || 0;
+}
+
+/**
+ * The user's saved searches with current asset counts. With a project:
+ * their library-wide searches, plus that project's searches that are theirs
+ * or shared. Without one: all of their own searches.
+ */
+export async function listSavedSearches(userId: string, projectId?: string): Promise<SavedSearch[]> {
+  let query = supabaseAdmin
+    .from('saved_searches')
+    .select('*')
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (projectId) {
+    query = query
+      .or(`user_id.eq.${userId},is_shared.eq.true`)
+      .or(`project_id.is.null,project_id.eq.${projectId}`);
+  } else {
+    query = query.eq('user_id', userId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch saved searches: ${error.message}`);
+  }
+
+  const searches = (data || []) as SavedSearch[];
+  return Promise.all(searches.map(async search => ({
+    ...search,
+    asset_count: await countSavedSearchAssets(search, userId),
+  })));
+}
+
+/**
+ * Problems with the editable fields of a saved search, or null. The query
+ * must parse: a smart folder that can't run would just show nothing.
+ */
+export function validateSavedSearch(fields: {
+  name?: string;
+  query?: string;
+  sort_by?: string;
+  sort_order?: string;
+}): { message: string; details?: unknown } | null {
+  if (fields.name !== undefined && !fields.name.trim()) {
+    return { message: 'Name is required' };
+  }
+
+  if (fields.query !== undefined) {
+    if (!fields.query.trim()) {
+      return { message: 'Query is required' };
+    }
+    const { errors } = parseSearchQuery(fields.query);
+    if (errors.length > 0) {
+      return { message: errors[0].message, details: errors };
+    }
+  }
+
+  if (fields.sort_by !== undefined && !SAVED_SEARCH_SORTS.includes(fields.sort_by as SavedSearchSort)) {
+    return { message: `sort_by must be one of: ${SAVED_SEARCH_SORTS.join(', ')}` };
+  }
+
+  if (fields.sort_order !== undefined && fields.sort_order !== 'asc' && fields.sort_order !== 'desc') {
+    return { message: 'sort_order must be asc or desc' };
+  }
+
+  return null;
+}
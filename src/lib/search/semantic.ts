@@ -0,0 +1,281 @@
+// Binary Blender Semantic Search
+// Embedding index over what assets and prompts are about: prompt text, an
+// asset's generation prompt, tags and notes. A background indexer keeps
+// search_embeddings in step with edits; queries are embedded on the fly and
+// matched by cosine similarity. Hybrid ranking fuses those matches with the
+// keyword results so exact hits and differently worded ones both surface.
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../supabase';
+import { getEmbeddingProvider } from '../embeddings';
+
+export type SearchEntityType = 'asset' | 'prompt';
+
+export interface SemanticMatch {
+  entity_type: SearchEntityType;
+  entity_id: string;
+  similarity: number;
+}
+
+// Below this, neighbours are noise rather than related work
+const MIN_SIMILARITY = 0.25;
+
+// Entities embedded per indexer pass (per entity type)
+const INDEX_BATCH_SIZE = 50;
+
+// Reciprocal rank fusion constant; larger values flatten the difference
+// between the top few ranks of each list
+const RRF_K = 60;
+
+// ============================================================================
+// Embedded text
+// ============================================================================
+
+function joinSearchText(parts: Array<string | null | undefined>): string {
+  return parts
+    .map(part => part?.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+export function buildAssetSearchText(asset: {
+  name?: string | null;
+  notes?: string | null;
+  tags?: string[] | null;
+  generation_params?: Record<string, any> | null;
+}): string {
+  const prompt = asset.generation_params?.prompt;
+  return joinSearchText([
+    asset.name,
+    typeof prompt === 'string' ? prompt : null,
+    asset.tags?.length ? `Tags: ${asset.tags.join(', ')}` : null,
+    asset.notes,
+  ]);
+}
+
+export function buildPromptSearchText(prompt: {
+  name?: string | null;
+  prompt_text?: string | null;
+  tags?: string[] | null;
+}): string {
+  return joinSearchText([
+    prompt.name,
+    prompt.prompt_text,
+    prompt.tags?.length ? `Tags: ${prompt.tags.join(', ')}` : null,
+  ]);
+}
+
+function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+// ============================================================================
+// Indexer
+// ============================================================================
+
+interface IndexSource {
+  entity_type: SearchEntityType;
+  entity_id: string;
+  user_id: string;
+  text: string;
+  updated_at: string;
+}
+
+async function loadIndexSources(entityType: SearchEntityType, ids: string[]): Promise<IndexSource[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  if (entityType === 'asset') {
+    const { data, error } = await supabaseAdmin
+      .from('assets')
+      .select('id, user_id, name, notes, tags, generation_params, updated_at')
+      .in('id', ids);
+
+    if (error) {
+      throw new Error(`Failed to fetch assets to index: ${error.message}`);
+    }
+
+    return (data || []).map(asset => ({
+      entity_type: 'asset' as const,
+      entity_id: asset.id,
+      user_id: asset.user_id,
+      text: buildAssetSearchText(asset),
+      updated_at: asset.updated_at,
+    }));
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('prompts')
+    .select('id, user_id, name, prompt_text, tags, updated_at')
+    .in('id', ids);
+
+  if (error) {
+    throw new Error(`Failed to fetch prompts to index: ${error.message}`);
+  }
+
+  return (data || []).map(prompt => ({
+    entity_type: 'prompt' as const,
+    entity_id: prompt.id,
+    user_id: prompt.user_id,
+    text: buildPromptSearchText(prompt),
+    updated_at: prompt.updated_at,
+  }));
+}
+
+/**
+ * Embed one batch of new or edited assets and prompts. Entities whose text
+ * didn't change (a rating, say) are just marked current. Returns how many
+ * entities were brought up to date.
+ */
+export async function runSearchIndexOnce(limit: number = INDEX_BATCH_SIZE): Promise<number> {
+  const provider = getEmbeddingProvider();
+  if (!provider) {
+    return 0;
+  }
+
+  const { data: pending, error } = await supabaseAdmin.rpc('find_unindexed_search_entities', {
+    model_name: provider.id,
+    batch_size: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to find unindexed entities: ${error.message}`);
+  }
+  if (!pending || pending.length === 0) {
+    return 0;
+  }
+
+  const idsOf = (type: SearchEntityType) => (pending as Array<{ entity_type: string; entity_id: string }>)
+    .filter(item => item.entity_type === type)
+    .map(item => item.entity_id);
+
+  const sources = [
+    ...await loadIndexSources('asset', idsOf('asset')),
+    ...await loadIndexSources('prompt', idsOf('prompt')),
+  ];
+
+  const { data: existing } = await supabaseAdmin
+    .from('search_embeddings')
+    .select('entity_id, content_hash')
+    .eq('model', provider.id)
+    .in('entity_id', sources.map(source => source.entity_id));
+  const hashById = new Map((existing || []).map(row => [row.entity_id, row.content_hash]));
+
+  const unchanged = sources.filter(source => hashById.get(source.entity_id) === hashText(source.text));
+  const changed = sources.filter(source => !unchanged.includes(source));
+
+  for (const source of unchanged) {
+    await supabaseAdmin
+      .from('search_embeddings')
+      .update({ source_updated_at: source.updated_at })
+      .eq('entity_type', source.entity_type)
+      .eq('entity_id', source.entity_id)
+      .eq('model', provider.id);
+  }
+
+  if (changed.length > 0) {
+    // Entities with no text still get a row so they aren't picked up again
+    const vectors = await provider.embed(changed.map(source => source.text || ' '));
+
+    const { error: upsertError } = await supabaseAdmin
+      .from('search_embeddings')
+      .upsert(changed.map((source, index) => ({
+        user_id: source.user_id,
+        entity_type: source.entity_type,
+        entity_id: source.entity_id,
+        model: provider.id,
+        content_hash: hashText(source.text),
+        embedding: JSON.stringify(vectors[index]),
+        source_updated_at: source.updated_at,
+      })), { onConflict: 'entity_type,entity_id,model' });
+
+    if (upsertError) {
+      throw new Error(`Failed to save embeddings: ${upsertError.message}`);
+    }
+  }
+
+  return sources.length;
+}
+
+// ============================================================================
+// Query
+// ============================================================================
+
+/**
+ * The user's assets and prompts closest in meaning to the query, best
+ * first. Returns null when semantic search is turned off.
+ */
+export async function findSemanticMatches(
+  userId: string,
+  query: string,
+  entityTypes: SearchEntityType[],
+  limit: number
+): Promise<SemanticMatch[] | null> {
+  const provider = getEmbeddingProvider();
+  if (!provider || entityTypes.length === 0) {
+    return null;
+  }
+
+  const [embedding] = await provider.embed([query]);
+
+  const { data, error } = await supabaseAdmin.rpc('match_search_embeddings', {
+    query_embedding: JSON.stringify(embedding),
+    match_user_id: userId,
+    model_name: provider.id,
+    entity_types: entityTypes,
+    match_count: limit,
+    min_similarity: MIN_SIMILARITY,
+  });
+
+  if (error) {
+    throw new Error(`Failed to match embeddings: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+/**
+ * Order semantic results by similarity, attaching it as search_score.
+ * Rows without a match are dropped.
+ */
+export function rankBySimilarity<T extends { id: string }>(
+  rows: T[],
+  matches: SemanticMatch[]
+): Array<T & { search_score: number }> {
+  const similarityById = new Map(matches.map(match => [match.entity_id, match.similarity]));
+  return rows
+    .filter(row => similarityById.has(row.id))
+    .map(row => ({ ...row, search_score: similarityById.get(row.id)! }))
+    .sort((a, b) => b.search_score - a.search_score);
+}
+
+/**
+ * Merge keyword and semantic results by reciprocal rank fusion: each list
+ * contributes 1 / (RRF_K + rank) for every row it contains, so rows found
+ * both ways rise to the top. Both lists must already be in rank order.
+ */
+export function rankHybrid<T extends { id: string }>(
+  keywordRows: T[],
+  semanticRows: T[],
+  limit: number
+): Array<T & { search_score: number }> {
+  const fused = new Map<string, { row: T; score: number }>();
+
+  for (const rows of [keywordRows, semanticRows]) {
+    rows.forEach((row, index) => {
+      const entry = fused.get(row.id) || { row, score: 0 };
+      entry.score += 1 / (RRF_K + index + 1);
+      fused.set(row.id, entry);
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ row, score }) => ({ ...row, search_score: score }));
+}
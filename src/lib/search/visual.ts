@@ -0,0 +1,242 @@
+// Binary Blender Visual Similarity
+// Signatures for image assets: a 64-bit difference hash that near-duplicates
+// share almost bit for bit, and (unless turned off) a CLIP embedding that
+// puts images with the same look close together. Both are computed when an
+// image is generated or uploaded; the worker backfills anything missed.
+
+import sharp from 'sharp';
+import { supabaseAdmin } from '../supabase';
+import { Asset, SimilarAsset } from '../types/asset-repository';
+import { getImageEmbeddingProvider } from '../embeddings';
+import { assertAllowedMediaSource, MAX_IMAGE_BYTES, readMedia } from '../media-sources';
+
+// Images differing in at most this many of the 64 hash bits are treated as
+// the same picture (re-encodes, resizes, seed-identical reruns)
+export const NEAR_DUPLICATE_DISTANCE = 5;
+
+// Loosest matches "find similar" returns
+const MIN_SIMILARITY = 0.8;
+const MAX_HASH_DISTANCE = 12;
+
+// Images indexed per backfill pass; each is a download plus a model run
+const VISUAL_INDEX_BATCH_SIZE = 10;
+
+// The columns the gallery renders
+const ASSET_LIST_COLUMNS = 'id, project_id, folder_id, asset_type, source_app, source_tool, file_url, thumbnail_url, name, tags, notes, is_favorite, user_rating, credits_used, file_size_bytes, duration_seconds, dimensions, mime_type, status, created_at, updated_at';
+
+// ============================================================================
+// Perceptual hash
+// ============================================================================
+
+/**
+ * Difference hash: shrink to 9x8 greyscale and record, row by row, whether
+ * each pixel is brighter than its right neighbour. Returned as a 64-char
+ * bit string (the format Postgres BIT(64) accepts).
+ */
+export async function computePerceptualHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let bits = '';
+  for (let row = 0; row < 8; row++) {
+    for (let column = 0; column < 8; column++) {
+      bits += pixels[row * 9 + column] > pixels[row * 9 + column + 1] ? '1' : '0';
+    }
+  }
+  return bits;
+}
+
+export function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let index = 0; index < a.length; index++) {
+    if (a[index] !== b[index]) distance++;
+  }
+  return distance;
+}
+
+// ============================================================================
+// Indexing
+// ============================================================================
+
+/**
+ * Compute and save an image asset's signature. Best-effort: an unreadable
+ * file is recorded without a hash so the backfill doesn't retry it forever,
+ * and a failed embedding leaves the hash to work alone. Returns false if
+ * nothing could be computed.
+ */
+export async function indexAssetVisuals(assetId: string): Promise<boolean> {
+  const { data: asset, error } = await supabaseAdmin
+    .from('assets')
+    .select('id, user_id, asset_type, file_url')
+    .eq('id', assetId)
+    .maybeSingle();
+
+  if (error || !asset?.file_url || asset.asset_type !== 'image') {
+    console.error('Image asset not found for visual indexing:', assetId, error);
+    return false;
+  }
+
+  let perceptualHash: string | null = null;
+  let embedding: number[] | null = null;
+  let model: string | null = null;
+
+  try {
+    assertAllowedMediaSource(asset.file_url);
+    const { buffer: image } = await readMedia(asset.file_url, MAX_IMAGE_BYTES);
+    perceptualHash = await computePerceptualHash(image);
+
+    const provider = getImageEmbeddingProvider();
+    if (provider) {
+      try {
+        embedding = await provider.embedImage(image);
+        model = provider.id;
+      } catch (embeddingError) {
+        console.error('Error embedding image asset:', embeddingError);
+      }
+    }
+  } catch (readError) {
+    console.error('Error reading image asset for visual indexing:', readError);
+  }
+
+  const { error: saveError } = await supabaseAdmin
+    .from('asset_visual_signatures')
+    .upsert({
+      asset_id: asset.id,
+      user_id: asset.user_id,
+      perceptual_hash: perceptualHash,
+      model,
+      embedding: embedding ? JSON.stringify(embedding) : null,
+    }, { onConflict: 'asset_id' });
+
+  if (saveError) {
+    console.error('Error saving visual signature:', saveError);
+    return false;
+  }
+
+  return perceptualHash !== null;
+}
+
+/**
+ * Index one batch of image assets that have no signature yet. Returns how
+ * many were attempted.
+ */
+export async function runVisualIndexOnce(limit: number = VISUAL_INDEX_BATCH_SIZE): Promise<number> {
+  const { data: pending, error } = await supabaseAdmin.rpc('find_unsigned_image_assets', {
+    batch_size: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to find unsigned image assets: ${error.message}`);
+  }
+
+  for (const { asset_id } of pending || []) {
+    await indexAssetVisuals(asset_id);
+  }
+
+  return pending?.length || 0;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * The user's images that look like the given one, most similar first.
+ * Indexes the source image on the spot if it hasn't been yet.
+ */
+export async function findSimilarAssets(userId: string, assetId: string, limit: number): Promise<SimilarAsset[]> {
+  const { data: signature } = await supabaseAdmin
+    .from('asset_visual_signatures')
+    .select('perceptual_hash')
+    .eq('asset_id', assetId)
+    .maybeSingle();
+
+  if (!signature?.perceptual_hash) {
+    await indexAssetVisuals(assetId);
+  }
+
+  const { data: matches, error } = await supabaseAdmin.rpc('match_similar_assets', {
+    source_asset_id: assetId,
+    match_user_id: userId,
+    match_count: limit,
+    min_similarity: MIN_SIMILARITY,
+    max_hash_distance: MAX_HASH_DISTANCE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to match similar assets: ${error.message}`);
+  }
+  if (!matches || matches.length === 0) {
+    return [];
+  }
+
+  const { data: assets, error: assetsError } = await supabaseAdmin
+    .from('assets')
+    .select(ASSET_LIST_COLUMNS)
+    .in('id', matches.map((match: { asset_id: string }) => match.asset_id));
+
+  if (assetsError) {
+    throw new Error(`Failed to fetch similar assets: ${assetsError.message}`);
+  }
+
+  const assetById = new Map((assets || []).map(asset => [asset.id, asset as unknown as Asset]));
+  return matches
+    .filter((match: { asset_id: string }) => assetById.has(match.asset_id))
+    .map((match: { asset_id: string; similarity: number | null; hash_distance: number | null }) => ({
+      asset: assetById.get(match.asset_id)!,
+      similarity: match.similarity,
+      hash_distance: match.hash_distance,
+      near_duplicate: match.hash_distance !== null && match.hash_distance <= NEAR_DUPLICATE_DISTANCE,
+    }));
+}
+
+/**
+ * Fold near-duplicate images into the first of each group (in list order),
+ * recording the others on it as duplicate_ids. Assets without a signature
+ * are left as they are.
+ */
+export async function collapseDuplicateAssets<T extends Pick<Asset, 'id' | 'asset_type' | 'duplicate_ids'>>(assets: T[]): Promise<T[]> {
+  const imageIds = assets.filter(asset => asset.asset_type === 'image').map(asset => asset.id);
+  if (imageIds.length < 2) {
+    return assets;
+  }
+
+  const { data: signatures, error } = await supabaseAdmin
+    .from('asset_visual_signatures')
+    .select('asset_id, perceptual_hash')
+    .in('asset_id', imageIds)
+    .not('perceptual_hash', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch visual signatures: ${error.message}`);
+  }
+
+  const hashById = new Map((signatures || []).map(row => [row.asset_id as string, row.perceptual_hash as string]));
+  const hashed = assets.filter(asset => hashById.has(asset.id));
+
+  // Each asset joins the group of the earliest asset it nearly matches
+  const groupOf = new Map<string, string>();
+  hashed.forEach((asset, index) => {
+    const hash = hashById.get(asset.id)!;
+    const match = hashed
+      .slice(0, index)
+      .find(earlier => hashDistance(hashById.get(earlier.id)!, hash) <= NEAR_DUPLICATE_DISTANCE);
+    groupOf.set(asset.id, match ? groupOf.get(match.id)! : asset.id);
+  });
+
+  const duplicatesByGroup = new Map<string, string[]>();
+  groupOf.forEach((group, id) => {
+    if (group !== id) {
+      duplicatesByGroup.set(group, [...(duplicatesByGroup.get(group) || []), id]);
+    }
+  });
+
+  return assets
+    .filter(asset => !groupOf.has(asset.id) || groupOf.get(asset.id) === asset.id)
+    .map(asset => duplicatesByGroup.has(asset.id)
+      ? { ...asset, duplicate_ids: duplicatesByGroup.get(asset.id) }
+      : asset);
+}
@@ -0,0 +1,79 @@
+// Binary Blender Server-Sent Events
+// Response helper for the live progress streams. There is no pub/sub behind
+// them: each stream re-reads its job or workflow on an interval (advancing
+// it when due, as the status endpoints do) and pushes what changed.
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  // Stop nginx-style proxies from buffering the stream
+  'X-Accel-Buffering': 'no',
+};
+
+// Comment lines keep idle connections from being dropped by proxies
+const HEARTBEAT_MS = 15000;
+
+// Streams end after this long; EventSource reconnects and gets a fresh snapshot
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+// How long browsers wait before reconnecting a dropped stream
+const RECONNECT_MS = 3000;
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Stream events from `tick`, called every intervalMs until it returns true
+ * (nothing more will happen), the client disconnects or the stream reaches
+ * its maximum age.
+ */
+export function createPollingEventStream(
+  signal: AbortSignal,
+  intervalMs: number,
+  tick: (send: SendEvent) => Promise<boolean>
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastWriteAt = Date.now();
+      const write = (chunk: string) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(chunk));
+        lastWriteAt = Date.now();
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+      const send: SendEvent = (event, data) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      signal.addEventListener('abort', close);
+      write(`retry: ${RECONNECT_MS}\n\n`);
+
+      const startedAt = Date.now();
+      try {
+        while (!closed && Date.now() - startedAt < MAX_STREAM_MS) {
+          if (await tick(send)) break;
+
+          if (Date.now() - lastWriteAt > HEARTBEAT_MS) {
+            write(': keep-alive\n\n');
+          }
+          await new Promise(resolve => setTimeout(resolve, intervalMs));
+        }
+      } catch (error) {
+        console.error('Error in event stream:', error);
+        send('stream_error', { message: 'Lost track of progress; reconnecting' });
+      }
+
+      close();
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
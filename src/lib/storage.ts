@@ -6,6 +6,17 @@ import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import sharp from 'sharp';
 import { v4 as uuidv4 } from 'uuid';
 import { AssetType, AssetDimensions, FileMetadata } from './types/asset-repository';
+import {
+  buildContactStrip,
+  clampFrameOffset,
+  computeWaveformPeaks,
+  decodeAudioSamples,
+  extractVideoFrame,
+  getPreviewOffsets,
+  measureLoudness,
+  probeMedia,
+  renderWaveformPng,
+} from './media-processing';
 
 // ============================================================================
 // S3 Client Configuration
@@ -44,10 +55,11 @@ export function generateThumbnailPath(
   userId: string,
   assetId: string,
   assetType: AssetType,
-  size: string = '512'
+  size: string = '512',
+  extension: string = 'jpg'
 ): string {
   const folder = getAssetTypeFolder(assetType);
-  return `uploads/${userId}/${folder}/${assetId}/thumbnail_${size}.jpg`;
+  return `uploads/${userId}/${folder}/${assetId}/thumbnail_${size}.${extension}`;
 }
 
 export function generatePreviewPath(
@@ -203,34 +215,139 @@ export async function generateImageThumbnail(
   }
 }
 
+/**
+ * Extract a frame from a local video file and upload it as the thumbnail.
+ * Stored files go through withLocalMedia first, like the helpers below.
+ */
 export async function generateVideoThumbnail(
   videoPath: string,
   userId: string,
   assetId: string,
-  timeOffset: number = 1
+  timeOffset: number = 1,
+  config: Partial<ThumbnailConfig> = {}
 ): Promise<string> {
-  // For video thumbnails, we'll need to use FFmpeg
-  // This is a placeholder implementation - you'd need to install ffmpeg
-  // and use a library like fluent-ffmpeg
+  const thumbnailConfig = { ...DEFAULT_THUMBNAIL_CONFIG, ...config };
 
   try {
-    // Placeholder: In a real implementation, you would:
-    // 1. Use FFmpeg to extract a frame at the specified time offset
-    // 2. Generate a thumbnail from that frame
-    // 3. Upload the thumbnail to S3
+    const { durationSeconds } = await probeMedia(videoPath);
+    const frame = await extractVideoFrame(videoPath, clampFrameOffset(timeOffset, durationSeconds), thumbnailConfig.width);
+
+    const thumbnailBuffer = await sharp(frame)
+      .resize(thumbnailConfig.width, thumbnailConfig.height, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .jpeg({ quality: thumbnailConfig.quality })
+      .toBuffer();
 
     const thumbnailPath = generateThumbnailPath(userId, assetId, 'video');
 
-    // For now, return a placeholder path
-    // TODO: Implement actual video thumbnail extraction
-    console.warn('Video thumbnail generation not implemented yet');
-    return `${CDN_BASE_URL}/${thumbnailPath}`;
+    return await uploadFileBuffer(
+      thumbnailBuffer,
+      thumbnailPath,
+      'image/jpeg',
+      {
+        'thumbnail-offset': String(timeOffset),
+        'generated-at': new Date().toISOString(),
+      }
+    );
   } catch (error) {
     console.error('Error generating video thumbnail:', error);
     throw new Error('Failed to generate video thumbnail');
   }
 }
 
+export interface VideoPreviewResult {
+  frameUrls: string[];
+  stripUrl: string;
+}
+
+/**
+ * Extract `frameCount` evenly spaced frames, upload each one and a contact
+ * strip of all of them.
+ */
+export async function generateVideoPreviews(
+  videoPath: string,
+  userId: string,
+  assetId: string,
+  frameCount: number = 6,
+  frameWidth: number = 256
+): Promise<VideoPreviewResult> {
+  try {
+    const { durationSeconds } = await probeMedia(videoPath);
+    if (!durationSeconds) {
+      throw new Error('Video has no duration');
+    }
+
+    // Sequential on purpose: each ffmpeg call decodes from the nearest keyframe
+    const frames: Buffer[] = [];
+    for (const offset of getPreviewOffsets(durationSeconds, frameCount)) {
+      frames.push(await extractVideoFrame(videoPath, offset, frameWidth));
+    }
+
+    const frameUrls = await Promise.all(
+      frames.map((frame, i) =>
+        uploadFileBuffer(frame, generatePreviewPath(userId, assetId, 'video', i + 1), 'image/jpeg')
+      )
+    );
+    const stripUrl = await uploadFileBuffer(
+      await buildContactStrip(frames, frameWidth),
+      generatePreviewPath(userId, assetId, 'video'),
+      'image/jpeg'
+    );
+
+    return { frameUrls, stripUrl };
+  } catch (error) {
+    console.error('Error generating video previews:', error);
+    throw new Error('Failed to generate video previews');
+  }
+}
+
+export interface WaveformConfig {
+  width: number;
+  height: number;
+  bars: number;
+}
+
+const DEFAULT_WAVEFORM_CONFIG: WaveformConfig = {
+  width: 512,
+  height: 512,
+  bars: 128,
+};
+
+/**
+ * Render the audio's peak envelope to a PNG and upload it as the thumbnail.
+ */
+export async function generateAudioWaveform(
+  audioPath: string,
+  userId: string,
+  assetId: string,
+  config: Partial<WaveformConfig> = {}
+): Promise<string> {
+  const waveformConfig = { ...DEFAULT_WAVEFORM_CONFIG, ...config };
+
+  try {
+    const samples = await decodeAudioSamples(audioPath);
+    const peaks = computeWaveformPeaks(samples, waveformConfig.bars);
+    const waveformBuffer = await renderWaveformPng(peaks, waveformConfig.width, waveformConfig.height);
+
+    const thumbnailPath = generateThumbnailPath(userId, assetId, 'audio', String(waveformConfig.width), 'png');
+
+    return await uploadFileBuffer(
+      waveformBuffer,
+      thumbnailPath,
+      'image/png',
+      {
+        'thumbnail-size': `${waveformConfig.width}x${waveformConfig.height}`,
+        'generated-at': new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    console.error('Error generating audio waveform:', error);
+    throw new Error('Failed to generate audio waveform');
+  }
+}
+
 // ============================================================================
 // File Metadata Extraction
 // ============================================================================
@@ -254,20 +371,23 @@ export async function extractImageMetadata(buffer: Buffer): Promise<FileMetadata
 }
 
 export async function extractVideoMetadata(filePath: string): Promise<FileMetadata> {
-  // Placeholder for video metadata extraction
-  // In a real implementation, you would use FFmpeg or a similar tool
-
   try {
-    // TODO: Implement actual video metadata extraction
+    const probe = await probeMedia(filePath);
+
+    if (!probe.video) {
+      throw new Error('No video stream found');
+    }
+
     return {
-      size: 0,
-      type: 'video/mp4',
+      size: probe.sizeBytes || 0,
+      type: probe.format?.includes('mp4') ? 'video/mp4' : `video/${probe.format?.split(',')[0] || 'mp4'}`,
       dimensions: {
-        width: 1920,
-        height: 1080,
-        fps: 30,
+        width: probe.video.width,
+        height: probe.video.height,
+        fps: probe.video.fps,
       },
-      duration: 0,
+      duration: probe.durationSeconds,
+      codec: probe.video.codec,
     };
   } catch (error) {
     console.error('Error extracting video metadata:', error);
@@ -275,6 +395,45 @@ export async function extractVideoMetadata(filePath: string): Promise<FileMetada
   }
 }
 
+export interface AudioMetadata extends FileMetadata {
+  sampleRate?: number;
+  channels?: number;
+  loudnessLufs?: number;
+}
+
+export async function extractAudioMetadata(filePath: string): Promise<AudioMetadata> {
+  try {
+    const probe = await probeMedia(filePath);
+
+    if (!probe.audio) {
+      throw new Error('No audio stream found');
+    }
+
+    return {
+      size: probe.sizeBytes || 0,
+      type: AUDIO_MIME_TYPES[probe.audio.codec] || `audio/${probe.audio.codec}`,
+      duration: probe.durationSeconds,
+      codec: probe.audio.codec,
+      sampleRate: probe.audio.sampleRate,
+      channels: probe.audio.channels,
+      loudnessLufs: await measureLoudness(filePath),
+    };
+  } catch (error) {
+    console.error('Error extracting audio metadata:', error);
+    throw new Error('Failed to extract audio metadata');
+  }
+}
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  aac: 'audio/mp4',
+  pcm_s16le: 'audio/wav',
+  pcm_s24le: 'audio/wav',
+  pcm_f32le: 'audio/wav',
+  vorbis: 'audio/ogg',
+  opus: 'audio/ogg',
+};
+
 // ============================================================================
 // File Validation
 // ============================================================================
@@ -292,7 +451,7 @@ export function validateFileType(filename: string, assetType: AssetType): boolea
   const allowedExtensions: Record<AssetType, string[]> = {
     image: ['jpg', 'jpeg', 'png', 'webp', 'gif'],
     video: ['mp4', 'mov', 'avi', 'webm'],
-    audio: ['mp3', 'wav', 'aac', 'ogg'],
+    audio: ['mp3', 'wav', 'aac', 'ogg', 'm4a'],
     text: ['txt', 'md', 'json'],
     prompt: ['txt', 'md'],
     experiment: ['txt', 'md', 'json'],
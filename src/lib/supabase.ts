@@ -38,7 +38,18 @@ export interface Generation {
   processing_time_seconds: number | null
   external_job_id: string | null
   error_message: string | null
+  provider: string | null
+  project_id: string | null
+  progress: number | null
+  progress_text: string | null
+  poll_attempts: number
+  next_poll_at: string | null
+  locked_until: string | null
+  started_at: string | null
+  asset_ids: string[]
+  metadata: any
   created_at: string
+  updated_at: string | null
   completed_at: string | null
 }
 
@@ -75,6 +86,8 @@ export interface UserPreferences {
   default_image_model: string | null
   default_video_model: string | null
   preferred_aspect_ratio: string | null
+  default_project_id: string | null // Project new generations go to when none is picked
+  auto_save_to_repository: boolean
   created_at: string
   updated_at: string
 }
\ No newline at end of file
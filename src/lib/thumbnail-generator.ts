@@ -1,5 +1,15 @@
 import sharp from 'sharp';
 import { uploadUrlToS3 } from './s3-upload';
+import {
+  clampFrameOffset,
+  computeWaveformPeaks,
+  decodeAudioSamples,
+  extractVideoFrame,
+  probeMedia,
+  renderWaveformPng,
+  withLocalMedia
+} from './media-processing';
+import { assertAllowedMediaSource, MAX_IMAGE_BYTES, readMedia } from './media-sources';
 
 export interface ThumbnailGenerationResult {
   success: boolean;
@@ -17,18 +27,11 @@ export async function generateImageThumbnail(
 ): Promise<ThumbnailGenerationResult> {
   try {
     // Fetch the original image
-    const response = await fetch(sourceImageUrl);
-    if (!response.ok) {
-      return {
-        success: false,
-        error: `Failed to fetch image: ${response.status} ${response.statusText}`
-      };
-    }
-
-    const imageBuffer = await response.arrayBuffer();
+    assertAllowedMediaSource(sourceImageUrl);
+    const { buffer: imageBuffer } = await readMedia(sourceImageUrl, MAX_IMAGE_BYTES);
 
     // Generate thumbnail using Sharp
-    const thumbnailBuffer = await sharp(Buffer.from(imageBuffer))
+    const thumbnailBuffer = await sharp(imageBuffer)
       .resize(size, size, {
         fit: 'inside',
         withoutEnlargement: true
@@ -71,21 +74,36 @@ export async function generateImageThumbnail(
 }
 
 /**
- * Generate a thumbnail from the first frame of a video
- * Note: This is a simplified version. For full video processing, you'd use FFmpeg
+ * Generate a thumbnail from a frame of a video (1s in by default, or the
+ * middle of clips shorter than that)
  */
 export async function generateVideoThumbnail(
   sourceVideoUrl: string,
   destinationKey: string,
-  size: number = 512
+  size: number = 512,
+  timeOffset: number = 1
 ): Promise<ThumbnailGenerationResult> {
   try {
-    // For now, we'll create a placeholder thumbnail for videos
-    // In a full implementation, you'd extract the first frame using FFmpeg
-    const placeholderThumbnail = await generatePlaceholderThumbnail('video', size);
+    const thumbnailBuffer = await withLocalMedia(sourceVideoUrl, async (filePath) => {
+      const { durationSeconds } = await probeMedia(filePath);
+      const frame = await extractVideoFrame(filePath, clampFrameOffset(timeOffset, durationSeconds), size);
+
+      return sharp(frame)
+        .resize(size, size, {
+          fit: 'inside',
+          withoutEnlargement: true
+        })
+        .jpeg({
+          quality: 85,
+          progressive: true
+        })
+        .toBuffer();
+    });
+
+    const thumbnailBlob = new Blob([new Uint8Array(thumbnailBuffer)], { type: 'image/jpeg' });
 
-    // Upload the placeholder to S3
-    const uploadResult = await uploadBlobToS3(placeholderThumbnail, destinationKey, 'image/jpeg');
+    // Upload the thumbnail to S3
+    const uploadResult = await uploadBlobToS3(thumbnailBlob, destinationKey, 'image/jpeg');
 
     if (!uploadResult.success) {
       return {
@@ -117,11 +135,15 @@ export async function generateAudioThumbnail(
   size: number = 512
 ): Promise<ThumbnailGenerationResult> {
   try {
-    // Generate a placeholder waveform thumbnail
-    const waveformThumbnail = await generatePlaceholderThumbnail('audio', size);
+    const waveformBuffer = await withLocalMedia(sourceAudioUrl, async (filePath) => {
+      const samples = await decodeAudioSamples(filePath);
+      return renderWaveformPng(computeWaveformPeaks(samples, 128), size, size);
+    });
+
+    const waveformThumbnail = new Blob([new Uint8Array(waveformBuffer)], { type: 'image/png' });
 
     // Upload the thumbnail to S3
-    const uploadResult = await uploadBlobToS3(waveformThumbnail, destinationKey, 'image/jpeg');
+    const uploadResult = await uploadBlobToS3(waveformThumbnail, destinationKey, 'image/png');
 
     if (!uploadResult.success) {
       return {
@@ -180,46 +202,6 @@ export async function generateTextThumbnail(
   }
 }
 
-/**
- * Generate a placeholder thumbnail for different asset types
- */
-async function generatePlaceholderThumbnail(
-  assetType: 'video' | 'audio',
-  size: number
-): Promise<Blob> {
-  const colors = {
-    video: '#3b82f6', // Blue
-    audio: '#10b981', // Green
-  };
-
-  const icons = {
-    video: '🎬',
-    audio: '🎵',
-  };
-
-  // Create an SVG placeholder
-  const svg = `
-    <svg width="${size}" height="${size}" xmlns="http://www.w3.org/2000/svg">
-      <rect width="100%" height="100%" fill="${colors[assetType]}" rx="12"/>
-      <text x="50%" y="45%" font-family="system-ui" font-size="${size * 0.15}"
-            text-anchor="middle" fill="white" dominant-baseline="central">
-        ${icons[assetType]}
-      </text>
-      <text x="50%" y="65%" font-family="system-ui" font-size="${size * 0.08}"
-            text-anchor="middle" fill="white" dominant-baseline="central" opacity="0.8">
-        ${assetType.toUpperCase()}
-      </text>
-    </svg>
-  `;
-
-  // Convert SVG to image using Sharp
-  const imageBuffer = await sharp(Buffer.from(svg))
-    .png()
-    .toBuffer();
-
-  return new Blob([imageBuffer], { type: 'image/png' });
-}
-
 /**
  * Generate a text preview image
  */
@@ -41,12 +41,16 @@ export interface Project {
   color: string; // Hex color
   is_archived: boolean;
   position: number;
+  credit_budget?: number | null; // null = no budget
+  budget_warning_percent: number; // Notify once spend reaches this % of the budget
+  budget_stop_percent?: number | null; // Refuse generations past this %; null = warn only
   created_at: string;
   updated_at: string;
 }
 
 export interface ProjectWithStats extends Project {
   asset_count?: number;
+  budget_credits_spent?: number; // Credits used by the project's generations
   stats?: {
     total_assets: number;
     by_type: Record<AssetType, number>;
@@ -87,12 +91,15 @@ export interface Asset {
 
   // Asset lineage
   parent_asset_ids?: string[];
+  generation_id?: string; // The generation this asset is an output of
+  output_index?: number; // Which of that generation's outputs
 
   // File metadata
   file_size_bytes?: number;
   duration_seconds?: number;
   dimensions?: AssetDimensions;
   mime_type?: string;
+  media_info?: MediaInfo; // Probed from the file after upload/generation
 
   // Cost and performance tracking
   credits_used: number;
@@ -109,6 +116,9 @@ export interface Asset {
   // Status
   status: AssetStatus;
 
+  // Near-duplicates folded into this asset by GET /api/assets?collapse_duplicates=true
+  duplicate_ids?: string[];
+
   // Timestamps
   created_at: string;
   updated_at: string;
@@ -140,6 +150,14 @@ export interface AssetRelationship {
   created_at: string;
 }
 
+// An image that looks like another one (GET /api/assets/[id]/similar)
+export interface SimilarAsset {
+  asset: Asset;
+  similarity: number | null; // Image embedding similarity (0-1), when both images have one
+  hash_distance: number | null; // Perceptual hash bits that differ (0-64)
+  near_duplicate: boolean;
+}
+
 export interface AssetVersion {
   id: string;
   asset_id: string;
@@ -161,6 +179,7 @@ export interface Prompt {
   category?: PromptCategory;
   asset_types?: AssetType[];
   tags?: string[];
+  variables?: PromptVariable[];
   times_used: number;
   avg_rating?: number;
   last_used_at?: string;
@@ -196,6 +215,18 @@ export interface ModelComparison {
   created_at: string;
 }
 
+export interface PromptVariable {
+  name: string; // Matches {{name}} in the template
+  type: PromptVariableType;
+  label?: string;
+  description?: string;
+  default?: string | number | boolean;
+  choices?: string[]; // Allowed values for enum variables
+  required?: boolean;
+  min?: number;
+  max?: number;
+}
+
 export interface ComparisonResult {
   asset_id: string;
   rating: number;
@@ -216,12 +247,27 @@ export interface WorkflowPattern {
   updated_at: string;
 }
 
+// Steps form a dependency graph: a step starts once every step it depends on
+// (listed in depends_on or referenced in params/map_over/when) has finished.
+// Steps with no dependencies run in parallel.
 export interface WorkflowStep {
-  step: number;
+  step: number; // Display order; ties between ready steps are submitted in this order
   app: SourceApp;
   action: string;
+  // Values may reference "{{output_name}}", "{{output_name[1]}}", "{{output_name.best}}",
+  // "{{output_name.all}}" or "{{user_param}}"; map steps also get "{{item}}" and "{{item_index}}"
   params: Record<string, any>;
   output_name: string;
+  on_failure?: WorkflowFailurePolicy; // Overrides the run's policy for this step
+  depends_on?: string[]; // Output names to wait for without consuming them
+  map_over?: string; // Output name or user param holding a list; runs once per element
+  when?: WorkflowStepCondition; // Skip the step unless this holds
+}
+
+export interface WorkflowStepCondition {
+  ref: string; // Output name or user param
+  op: WorkflowConditionOperator;
+  value?: string | number | boolean;
 }
 
 // ============================================================================
@@ -261,6 +307,19 @@ export type PromptCategory =
   | 'technical'
   | 'workflow';
 
+export type PromptVariableType = 'text' | 'number' | 'enum' | 'boolean';
+
+export type WorkflowFailurePolicy = 'stop' | 'continue';
+
+// succeeded/failed/count_* apply to step outputs; equals/not_equals to user params
+export type WorkflowConditionOperator =
+  | 'succeeded'
+  | 'failed'
+  | 'count_gte'
+  | 'count_lte'
+  | 'equals'
+  | 'not_equals';
+
 export type ExperimentOutcome = 'success' | 'partial' | 'failure';
 
 export type ToolType = 'image' | 'video' | 'audio' | 'text';
@@ -275,6 +334,17 @@ export interface AssetDimensions {
   fps?: number;
 }
 
+export interface MediaInfo {
+  codec?: string;
+  format?: string;
+  bit_rate?: number;
+  audio_codec?: string;
+  sample_rate?: number;
+  channels?: number;
+  loudness_lufs?: number;
+  preview_strip_url?: string;
+}
+
 export interface GenerationParams {
   [key: string]: any; // Flexible structure for different tools
   prompt?: string;
@@ -293,13 +363,19 @@ export interface GenerationParams {
 // ============================================================================
 
 // Projects
-export interface CreateProjectRequest {
+export interface ProjectBudgetFields {
+  credit_budget?: number | null;
+  budget_warning_percent?: number;
+  budget_stop_percent?: number | null;
+}
+
+export interface CreateProjectRequest extends ProjectBudgetFields {
   name: string;
   description?: string;
   color?: string;
 }
 
-export interface UpdateProjectRequest {
+export interface UpdateProjectRequest extends ProjectBudgetFields {
   name?: string;
   description?: string;
   color?: string;
@@ -417,6 +493,7 @@ export interface CreatePromptRequest {
   category?: PromptCategory;
   asset_types?: AssetType[];
   tags?: string[];
+  variables?: PromptVariable[];
 }
 
 export interface UpdatePromptRequest {
@@ -426,6 +503,18 @@ export interface UpdatePromptRequest {
   category?: PromptCategory;
   asset_types?: AssetType[];
   tags?: string[];
+  variables?: PromptVariable[];
+}
+
+export interface RenderPromptRequest {
+  values?: Record<string, string | number | boolean>;
+  track_usage?: boolean;
+}
+
+export interface RenderPromptResponse {
+  prompt_text: string;
+  negative_prompt?: string;
+  values: Record<string, string | number | boolean>;
 }
 
 export interface PromptListParams extends PaginationParams {
@@ -509,6 +598,27 @@ export interface WorkflowListParams extends PaginationParams {
 
 export interface ExecuteWorkflowRequest {
   user_params: Record<string, any>;
+  on_failure?: WorkflowFailurePolicy;
+  project_id?: string;
+}
+
+// Saved Searches
+export interface CreateSavedSearchRequest {
+  name: string;
+  query: string;
+  project_id?: string;
+  sort_by?: SavedSearchSort;
+  sort_order?: SortOrder;
+  is_shared?: boolean;
+}
+
+export interface UpdateSavedSearchRequest {
+  name?: string;
+  query?: string;
+  sort_by?: SavedSearchSort;
+  sort_order?: SortOrder;
+  is_shared?: boolean;
+  position?: number;
 }
 
 // ============================================================================
@@ -533,40 +643,83 @@ export interface FileMetadata {
   type: string;
   dimensions?: AssetDimensions;
   duration?: number;
+  codec?: string;
 }
 
 // ============================================================================
 // Search and Filter Types
 // ============================================================================
 
+// keyword matches words; semantic ranks by meaning via the embedding index;
+// hybrid fuses both rankings
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
 export interface SearchFilters {
+  query: string;
+  mode?: SearchMode;
   asset_types?: AssetType[];
   source_apps?: SourceApp[];
-  date_range?: {
-    start: string;
-    end: string;
-  };
-  rating_range?: {
-    min: number;
-    max: number;
-  };
+  categories?: PromptCategory[];
   tags?: string[];
-  has_files?: boolean;
-  has_favorites?: boolean;
+  min_rating?: number;
+  date_from?: string;
+  date_to?: string;
+  project_id?: string;
+  folder_id?: string;
+  // Only assets outside any project
+  unorganized?: boolean;
+  include_assets?: boolean;
+  include_prompts?: boolean;
+  include_experiments?: boolean;
+  limit?: number;
 }
 
 export interface SearchResult {
+  query: string;
+  // The mode that actually ran; keyword when semantic search is unavailable
+  mode: SearchMode;
+  // Semantic and hybrid results carry a search_score, best first
   assets: Asset[];
   prompts: Prompt[];
   experiments: Experiment[];
   total_results: number;
-  facets: {
-    asset_types: Record<AssetType, number>;
-    source_apps: Record<SourceApp, number>;
-    tags: Record<string, number>;
-  };
+  facets?: SearchFacets;
+}
+
+// Matching assets per filter option. Keys are query-language values, so a
+// count's key can be added to the query as-is to drill down (tool:flux-pro,
+// rating:none, created:2025-10, credits:6..20). Each facet ignores the
+// query's own selection for its field.
+export interface SearchFacets {
+  asset_types: Record<AssetType, number>;
+  source_apps: Record<SourceApp, number>;
+  source_tools: Record<string, number>; // Most used first
+  tags: Record<string, number>; // Most used first
+  ratings: Record<string, number>; // none, 1-5
+  created: Record<string, number>; // YYYY-MM months, newest first
+  credits: Record<string, number>; // Cost buckets, e.g. 0, 1..5, 51..
+  total: number; // Assets matching the whole query
+}
+
+// A named search shown as a smart folder; its results and count are
+// recomputed whenever it's opened
+export interface SavedSearch {
+  id: string;
+  user_id: string; // Creator
+  project_id?: string; // Searches only this project; the whole library when unset
+  name: string;
+  query: string; // Free text and query-language terms
+  sort_by: SavedSearchSort;
+  sort_order: SortOrder;
+  is_shared: boolean; // Listed for everyone with access to the project
+  position: number;
+  created_at: string;
+  updated_at: string;
+  asset_count?: number | null; // null when the count couldn't be computed
 }
 
+export type SavedSearchSort = 'created_at' | 'updated_at' | 'name' | 'rating' | 'credits_used';
+
 // ============================================================================
 // Statistics and Analytics Types
 // ============================================================================
@@ -0,0 +1,61 @@
+// Binary Blender Credit Types
+// Shared between the credits API and the credits page
+
+import { GenerationToolType } from './generation-jobs';
+
+export type CreditTransactionType = 'purchase' | 'usage' | 'refund' | 'bonus' | 'monthly_allocation';
+
+export type CreditUsageInterval = 'day' | 'week' | 'month';
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+export interface CreditLedgerEntry {
+  id: string;
+  amount: number; // Positive for additions, negative for usage
+  transaction_type: CreditTransactionType;
+  description: string | null;
+  generation_id: string | null;
+  // From the generation the transaction paid for, if any
+  tool_type: GenerationToolType | null;
+  model: string | null;
+  project_id: string | null;
+  created_at: string;
+}
+
+export interface CreditSummary {
+  balance: number;
+  // Net amount and count per transaction type, over the account's lifetime
+  totals: Record<CreditTransactionType, { total: number; transactions: number }>;
+}
+
+// ============================================================================
+// Usage Analytics
+// ============================================================================
+
+export type CreditUsageDimension = 'tool' | 'model' | 'project';
+
+export interface CreditUsageBreakdown {
+  key: string; // Tool type, model name, or project id ('none' for no project)
+  label: string;
+  credits: number;
+  generations: number;
+}
+
+export interface CreditUsagePoint {
+  period_start: string; // YYYY-MM-DD
+  credits: number;
+  // Credits per breakdown key, for each dimension
+  by: Record<CreditUsageDimension, Record<string, number>>;
+}
+
+export interface CreditUsageReport {
+  from: string;
+  to: string;
+  interval: CreditUsageInterval;
+  credits: number;
+  generations: number;
+  timeline: CreditUsagePoint[]; // Every period in range, including empty ones
+  breakdowns: Record<CreditUsageDimension, CreditUsageBreakdown[]>; // Biggest first
+}
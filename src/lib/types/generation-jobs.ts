@@ -0,0 +1,76 @@
+// Binary Blender Generation Job Types
+// Shared between the job subsystem and the studio pages that poll it
+
+export type GenerationToolType = 'image' | 'video' | 'lipsync';
+
+export type GenerationJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// ============================================================================
+// Job Inputs
+// ============================================================================
+
+export interface ImageJobInput {
+  prompt: string;
+  aspectRatio: string;
+  model: string;
+  seed?: number | null;
+  negativePrompt?: string | null;
+}
+
+// Request-level options for submitting several image jobs at once
+export interface ImageBatchOptions {
+  numOutputs: number;
+  seedIncrement: number; // Output i uses seed + i * seedIncrement
+}
+
+export interface VideoJobInput {
+  prompt: string;
+  imageUrl?: string | null;
+  model: string;
+  duration: number;
+}
+
+export interface LipsyncJobInput {
+  imageUrl: string;
+  audioUrl: string;
+  audioDuration?: number | null; // seconds, used for the up-front credit estimate
+}
+
+export type GenerationJobInput = ImageJobInput | VideoJobInput | LipsyncJobInput;
+
+// ============================================================================
+// API Shapes
+// ============================================================================
+
+export interface SubmitGenerationJobResponse {
+  id: string;
+  status: GenerationJobStatus;
+  creditsReserved: number;
+  batchId?: string;
+  jobs?: Array<{ id: string; status: GenerationJobStatus; seed: number | null }>;
+}
+
+// Events on /api/generations/[id]/events. Every event carries the job;
+// completed and failed are the last one sent.
+export type GenerationJobEventType = 'snapshot' | 'status' | 'progress' | 'completed' | 'failed';
+
+export interface GenerationJob {
+  id: string;
+  toolType: GenerationToolType;
+  status: GenerationJobStatus;
+  provider: string | null;
+  externalJobId: string | null;
+  progress: number;
+  progressText: string | null;
+  input: Record<string, any>;
+  output: string[];
+  assetIds: string[];
+  creditsUsed: number;
+  error: string | null;
+  thumbnailUrl: string | null;
+  processingTimeSeconds: number | null;
+  rerunOf: string | null; // The generation this one repeated
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
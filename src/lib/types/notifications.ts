@@ -0,0 +1,21 @@
+// Binary Blender Notification Types
+// Shared between the notifications API and the header bell
+
+export type NotificationType = 'budget_warning' | 'budget_exceeded';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  message: string | null;
+  link: string | null; // Page to open when clicked
+  data: Record<string, any>;
+  read_at: string | null; // null = unread
+  created_at: string;
+}
+
+export interface NotificationList {
+  notifications: AppNotification[];
+  unread_count: number;
+}
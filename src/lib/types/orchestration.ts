@@ -0,0 +1,154 @@
+// Binary Blender Orchestration Types
+// Rows of the workflows / workflow_tasks tables and the request format
+// accepted by /api/orchestrate/submit
+
+export type OrchestrationRequestType = 'video_generation' | 'image_generation' | 'lipsync' | 'complex_workflow' | 'custom';
+
+export type OrchestratedWorkflowStatus = 'pending' | 'analyzing' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
+export type WorkflowTaskType = 'analyze' | 'generate_image' | 'generate_video' | 'generate_lipsync' | 'process' | 'review' | 'other';
+
+export type WorkflowTaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped';
+
+export type WorkflowAssignee = 'aria' | 'kai' | 'human';
+
+export interface OrchestrationRequestData {
+  type?: OrchestrationRequestType;
+  inputs?: Record<string, any>;
+  deliverables?: string[];
+  constraints?: Record<string, any>;
+  // Hold video and lipsync tasks until a person approves what they'll use
+  require_approval?: boolean;
+}
+
+export interface SubmitOrchestrationRequest {
+  title: string;
+  description?: string;
+  request_data: OrchestrationRequestData;
+  priority?: number;
+}
+
+// ============================================================================
+// Tasks
+// ============================================================================
+
+export interface WorkflowTaskInput {
+  // Job input for the task's generation tool, validated when dispatched
+  params: Record<string, any>;
+  // Job input field filled with the first output of the depends_on task
+  from_dependency?: 'imageUrl';
+  deliverable?: string;
+  // Review tasks without a depends_on task review these URLs instead
+  review_urls?: string[];
+}
+
+export type WorkflowReviewDecision = 'approve' | 'reject' | 'request_changes';
+
+export interface WorkflowTaskReview {
+  decision: WorkflowReviewDecision;
+  notes: string | null;
+  reviewed_by: string;
+  reviewed_at: string;
+}
+
+export interface WorkflowTaskOutput {
+  generation_id?: string;
+  asset_ids?: string[];
+  output_urls?: string[];
+  // Decisions on a review task, oldest first
+  reviews?: WorkflowTaskReview[];
+}
+
+export interface WorkflowTask {
+  id: string;
+  workflow_id: string;
+  task_type: WorkflowTaskType;
+  title: string;
+  description: string | null;
+  assigned_to: WorkflowAssignee;
+  input_data: WorkflowTaskInput;
+  output_data: WorkflowTaskOutput;
+  status: WorkflowTaskStatus;
+  error_message: string | null;
+  depends_on: string | null;
+  execution_order: number;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+// ============================================================================
+// Workflows
+// ============================================================================
+
+export interface OrchestratedWorkflowResult {
+  deliverables: Array<{
+    task_id: string;
+    title: string;
+    task_type: WorkflowTaskType;
+    deliverable?: string;
+    output_urls: string[];
+    asset_ids: string[];
+  }>;
+}
+
+export interface OrchestratedWorkflow {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  request_data: OrchestrationRequestData;
+  status: OrchestratedWorkflowStatus;
+  assigned_to: WorkflowAssignee | null;
+  result_data: Partial<OrchestratedWorkflowResult>;
+  error_message: string | null;
+  priority: number;
+  next_advance_at: string | null;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+// ============================================================================
+// Review Inbox
+// ============================================================================
+
+export interface ReviewInboxItem {
+  task: WorkflowTask;
+  workflow: Pick<OrchestratedWorkflow, 'id' | 'title' | 'description' | 'priority' | 'created_at'>;
+  // What the reviewer is signing off on
+  output_urls: string[];
+  asset_ids: string[];
+  // Set when request_changes can send the work back to be regenerated
+  reviewed_task: Pick<WorkflowTask, 'id' | 'title' | 'task_type'> | null;
+}
+
+export interface ReviewWorkflowTaskRequest {
+  action: WorkflowReviewDecision;
+  notes?: string;
+  // request_changes only: param overrides for the regenerated task
+  params?: Record<string, any>;
+}
+
+// ============================================================================
+// Live Progress (/api/orchestrate/[id]/events)
+// ============================================================================
+
+// snapshot, completed, failed and cancelled carry a WorkflowSnapshot;
+// status carries { workflow }, task { task } and progress a WorkflowTaskProgress
+export type WorkflowEventType = 'snapshot' | 'status' | 'task' | 'progress' | 'completed' | 'failed' | 'cancelled';
+
+// Provider-reported progress of a task's running generation
+export interface WorkflowTaskProgress {
+  task_id: string;
+  progress: number;
+  progress_text: string | null;
+}
+
+export interface WorkflowSnapshot {
+  workflow: OrchestratedWorkflow;
+  tasks: WorkflowTask[];
+  progress: WorkflowTaskProgress[];
+}
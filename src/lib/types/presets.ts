@@ -0,0 +1,52 @@
+// Binary Blender Preset Types
+// Shared between the presets API and the studio preset pickers
+
+import {
+  GenerationToolType,
+  ImageBatchOptions,
+  ImageJobInput,
+  LipsyncJobInput,
+  VideoJobInput,
+} from './generation-jobs';
+
+// Which presets a list returns: the user's own, everyone's public ones, the
+// curated featured ones, or own and public together
+export type PresetScope = 'all' | 'mine' | 'public' | 'featured';
+
+// Studio settings, keyed like the generate request bodies. Any subset may
+// be saved; applying a preset only changes the fields it has.
+export type ImagePresetSettings = Partial<ImageJobInput & ImageBatchOptions>;
+export type VideoPresetSettings = Partial<VideoJobInput>;
+export type LipsyncPresetSettings = Partial<LipsyncJobInput>;
+
+export type PresetSettings = ImagePresetSettings | VideoPresetSettings | LipsyncPresetSettings;
+
+export interface StudioPreset {
+  id: string;
+  name: string;
+  description: string | null;
+  tool_type: GenerationToolType;
+  settings: PresetSettings;
+  is_public: boolean;
+  is_featured: boolean;
+  usage_count: number;
+  is_own: boolean; // Whether the current user created it, and so may edit it
+  creator_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePresetRequest {
+  name: string;
+  description?: string;
+  tool_type: GenerationToolType;
+  settings: PresetSettings;
+  is_public?: boolean;
+}
+
+export interface UpdatePresetRequest {
+  name?: string;
+  description?: string | null;
+  settings?: PresetSettings;
+  is_public?: boolean;
+}
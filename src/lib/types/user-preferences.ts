@@ -0,0 +1,32 @@
+// Binary Blender User Preference Types
+// Shared between the settings API, the settings page and the studios
+
+export type Theme = 'dark' | 'light';
+
+// The editable part of a user_preferences row
+export interface UserSettings {
+  default_image_model: string | null; // null = the provider's default
+  default_video_model: string | null;
+  preferred_aspect_ratio: string | null;
+  default_project_id: string | null; // Project new generations go to when none is picked
+  auto_save_to_repository: boolean; // Whether generations are saved as assets
+  email_notifications: boolean;
+  theme: Theme;
+}
+
+export type UpdateUserSettingsRequest = Partial<UserSettings>;
+
+export interface SettingsOption {
+  id: string;
+  label: string;
+}
+
+export interface UserSettingsResponse {
+  settings: UserSettings;
+  // What the studio defaults can be set to
+  options: {
+    image_models: SettingsOption[];
+    video_models: SettingsOption[];
+    aspect_ratios: string[];
+  };
+}
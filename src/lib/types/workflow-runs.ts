@@ -0,0 +1,61 @@
+// Binary Blender Workflow Run Types
+// Shared between the workflow executor and the routes that start and report
+// on runs
+
+import { WorkflowFailurePolicy, WorkflowStep } from './asset-repository';
+import { GenerationToolType } from './generation-jobs';
+
+export type WorkflowRunStatus = 'running' | 'completed' | 'partial' | 'failed' | 'cancelled';
+
+export type WorkflowStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+// Why a step didn't run: its condition was false, something it needed didn't
+// complete, or the run stopped after a failure
+export type WorkflowSkipReason = 'condition' | 'upstream' | 'stopped';
+
+// One generation within a step; map steps have one per list element
+export interface WorkflowStepItemRun {
+  index: number;
+  value?: any; // The list element for map steps
+  status: WorkflowStepStatus;
+  generation_id: string | null;
+  asset_ids: string[];
+  output_urls: string[];
+  input_asset_ids: string[]; // Upstream assets this item consumed
+  error: string | null;
+}
+
+export interface WorkflowStepRun {
+  step: number;
+  output_name: string;
+  status: WorkflowStepStatus;
+  tool_type: GenerationToolType;
+  items: WorkflowStepItemRun[];
+  // Totals across items, in item order
+  generation_ids: string[];
+  asset_ids: string[];
+  output_urls: string[];
+  input_asset_ids: string[];
+  error: string | null;
+  skip_reason?: WorkflowSkipReason;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface WorkflowRun {
+  id: string;
+  user_id: string;
+  pattern_id: string | null;
+  project_id: string | null;
+  status: WorkflowRunStatus;
+  on_failure: WorkflowFailurePolicy;
+  steps: WorkflowStep[];
+  user_params: Record<string, any>;
+  step_runs: WorkflowStepRun[];
+  error_message: string | null;
+  next_advance_at: string | null;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
@@ -0,0 +1,155 @@
+// Binary Blender User Preferences
+// Per-user settings stored in user_preferences: studio defaults, where new
+// generations are saved, and notification and theme choices. Users without
+// a row yet get DEFAULT_USER_SETTINGS; the row is created on first save.
+
+import { supabaseAdmin } from './supabase';
+import { getProvider } from './generation/providers';
+import { SettingsOption, Theme, UpdateUserSettingsRequest, UserSettings, UserSettingsResponse } from './types/user-preferences';
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  default_image_model: null,
+  default_video_model: null,
+  preferred_aspect_ratio: null,
+  default_project_id: null,
+  auto_save_to_repository: true,
+  email_notifications: true,
+  theme: 'dark',
+};
+
+const SETTINGS_FIELDS = Object.keys(DEFAULT_USER_SETTINGS) as Array<keyof UserSettings>;
+
+const THEMES: Theme[] = ['dark', 'light'];
+
+// ============================================================================
+// Read
+// ============================================================================
+
+export async function getUserSettings(userId: string): Promise<UserSettings> {
+  const { data, error } = await supabaseAdmin
+    .from('user_preferences')
+    .select(SETTINGS_FIELDS.join(', '))
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch user preferences: ${error.message}`);
+  }
+
+  return { ...DEFAULT_USER_SETTINGS, ...(data as Partial<UserSettings> | null) };
+}
+
+function modelOptions(toolType: 'image' | 'video'): SettingsOption[] {
+  return getProvider(toolType).capabilities.models.map(model => ({ id: model.id, label: model.label }));
+}
+
+/**
+ * The user's settings plus the values the studio defaults can take. With no
+ * user, the defaults.
+ */
+export async function getUserSettingsResponse(userId: string | null): Promise<UserSettingsResponse> {
+  return {
+    settings: userId ? await getUserSettings(userId) : DEFAULT_USER_SETTINGS,
+    options: {
+      image_models: modelOptions('image'),
+      video_models: modelOptions('video'),
+      aspect_ratios: getProvider('image').capabilities.aspectRatios || [],
+    },
+  };
+}
+
+// ============================================================================
+// Update
+// ============================================================================
+
+/**
+ * Check a settings update. Returns an error message, or null when it's
+ * valid. Fields not listed in UserSettings are ignored.
+ */
+export async function validateUserSettings(userId: string, updates: UpdateUserSettingsRequest): Promise<string | null> {
+  const isModel = (toolType: 'image' | 'video', value: unknown) =>
+    value === null || modelOptions(toolType).some(model => model.id === value);
+
+  if (updates.default_image_model !== undefined && !isModel('image', updates.default_image_model)) {
+    return 'default_image_model is not a supported image model';
+  }
+
+  if (updates.default_video_model !== undefined && !isModel('video', updates.default_video_model)) {
+    return 'default_video_model is not a supported video model';
+  }
+
+  if (updates.preferred_aspect_ratio !== undefined && updates.preferred_aspect_ratio !== null &&
+    !(getProvider('image').capabilities.aspectRatios || []).includes(updates.preferred_aspect_ratio)) {
+    return 'preferred_aspect_ratio is not a supported aspect ratio';
+  }
+
+  for (const field of ['auto_save_to_repository', 'email_notifications'] as const) {
+    if (updates[field] !== undefined && typeof updates[field] !== 'boolean') {
+      return `${field} must be true or false`;
+    }
+  }
+
+  if (updates.theme !== undefined && !THEMES.includes(updates.theme)) {
+    return `theme must be one of: ${THEMES.join(', ')}`;
+  }
+
+  if (updates.default_project_id !== undefined && updates.default_project_id !== null) {
+    const { data: project } = await supabaseAdmin
+      .from('projects')
+      .select('id')
+      .eq('id', updates.default_project_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!project) {
+      return 'default_project_id must be one of your projects';
+    }
+  }
+
+  return null;
+}
+
+export async function updateUserSettings(userId: string, updates: UpdateUserSettingsRequest): Promise<UserSettings> {
+  const changes = Object.fromEntries(
+    SETTINGS_FIELDS.filter(field => updates[field] !== undefined).map(field => [field, updates[field]])
+  );
+
+  const { data, error } = await supabaseAdmin
+    .from('user_preferences')
+    .upsert({ user_id: userId, ...changes }, { onConflict: 'user_id' })
+    .select(SETTINGS_FIELDS.join(', '))
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update user preferences: ${error.message}`);
+  }
+
+  return { ...DEFAULT_USER_SETTINGS, ...(data as Partial<UserSettings>) };
+}
+
+// ============================================================================
+// Generation Defaults
+// ============================================================================
+
+/**
+ * Where a new generation goes: the request's projectId (null for none) and
+ * saveToRepository when given, otherwise the user's default project and
+ * auto-save setting.
+ */
+export async function resolveGenerationTarget(
+  userId: string,
+  request: { projectId?: string | null; saveToRepository?: boolean }
+): Promise<{ projectId: string | null; saveToRepository: boolean }> {
+  if (request.projectId !== undefined && request.saveToRepository !== undefined) {
+    return { projectId: request.projectId, saveToRepository: request.saveToRepository !== false };
+  }
+
+  const settings = await getUserSettings(userId);
+
+  return {
+    projectId: request.projectId !== undefined ? request.projectId : settings.default_project_id,
+    saveToRepository: request.saveToRepository !== undefined
+      ? request.saveToRepository !== false
+      : settings.auto_save_to_repository,
+  };
+}
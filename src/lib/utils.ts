@@ -178,4 +178,10 @@ export function calculateLipSyncCreditCost(
   const durationIn10SecondBlocks = Math.ceil(durationSeconds / 10)
   const baseCost = CREDIT_COSTS.lipsync.base_per_10_seconds * durationIn10SecondBlocks
   return Math.round(baseCost * CREDIT_COSTS.lipsync.quality_multiplier[quality])
-}
\ No newline at end of file
+}
+
+// A to-one Supabase embed (e.g. generation:generations(...)) comes back as
+// an object, but may be typed as an array
+export function embeddedRow<T>(embed: T | T[] | null | undefined): T | null {
+  return (Array.isArray(embed) ? embed[0] : embed) ?? null
+}
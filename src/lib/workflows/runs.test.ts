@@ -0,0 +1,84 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabaseAdmin } from '@/lib/supabase';
+import { FakeSupabase } from '@/test/fake-supabase';
+import { advanceWorkflowRun, claimWorkflowRuns, startWorkflowRun } from './runs';
+
+vi.mock('@/lib/supabase', async () => {
+  const { FakeSupabase } = await import('@/test/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase() };
+});
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+const USER_ID = '3c9e4a7b-8d21-4f6a-b5c0-7e1d2f3a4b56';
+
+// One image per subject
+const PATTERN = {
+  id: 'b1e2c3d4-5f6a-4b7c-8d9e-0f1a2b3c4d5e',
+  steps: [{
+    step: 1,
+    app: 'image_studio',
+    action: 'generate',
+    params: { prompt: 'A portrait of {{item}}', aspect_ratio: '1:1', model: 'flux-pro' },
+    output_name: 'portraits',
+    map_over: 'subjects',
+  }],
+};
+
+const SUBJECTS = ['a fox', 'an owl', 'a hare'];
+
+async function claimNewRun() {
+  const run = await startWorkflowRun(USER_ID, PATTERN, { user_params: { subjects: SUBJECTS } });
+  const [claimed] = await claimWorkflowRuns(1, run.id, true);
+  expect(claimed).toBeDefined();
+  return claimed;
+}
+
+function storedRun(id: string) {
+  return db.table('workflow_runs').find(run => run.id === id)!;
+}
+
+beforeAll(() => {
+  process.env.GENERATION_PROVIDER = 'mock';
+});
+
+beforeEach(() => {
+  db.reset();
+  db.table('credit_transactions').push({
+    id: crypto.randomUUID(),
+    user_id: USER_ID,
+    amount: 100,
+    transaction_type: 'purchase',
+    generation_id: null,
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('workflow run leases', () => {
+  it('submits one generation per mapped item while it holds the lease', async () => {
+    const claimed = await claimNewRun();
+
+    await advanceWorkflowRun(claimed);
+
+    const run = storedRun(claimed.id);
+    expect(db.table('generations')).toHaveLength(SUBJECTS.length);
+    expect(run.step_runs[0].status).toBe('running');
+    expect(run.step_runs[0].generation_ids).toHaveLength(SUBJECTS.length);
+    expect(run.locked_until).toBeNull();
+  });
+
+  it('leaves a run alone when another worker has taken over its lease', async () => {
+    const claimed = await claimNewRun();
+    // The lease ran out and another worker claimed the run
+    storedRun(claimed.id).locked_until = new Date(Date.now() + 120 * 1000).toISOString();
+
+    await advanceWorkflowRun(claimed);
+
+    expect(db.table('generations')).toHaveLength(0);
+    expect(storedRun(claimed.id).step_runs[0].status).toBe('pending');
+  });
+});
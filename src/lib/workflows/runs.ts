@@ -0,0 +1,560 @@
+// Binary Blender Workflow Runs
+// Executes workflow patterns against the generation providers. A run is
+// advanced like a generation job: whoever holds its lease (the background
+// worker or the status endpoint) checks the generations behind running
+// steps, records their outputs and submits every step that's ready.
+
+import { supabaseAdmin } from '../supabase';
+import { ExecuteWorkflowRequest, WorkflowFailurePolicy, WorkflowStep } from '../types/asset-repository';
+import {
+  WorkflowRun,
+  WorkflowRunStatus,
+  WorkflowSkipReason,
+  WorkflowStepItemRun,
+  WorkflowStepRun,
+} from '../types/workflow-runs';
+import { submitGenerationJob } from '../generation/jobs';
+import { loadStoredOutputs } from '../generation/assets';
+import { assertProjectOwner } from '../project-budgets';
+import {
+  assertExecutableSteps,
+  describeStepCondition,
+  evaluateStepCondition,
+  getRequiredUserParams,
+  getStepDependencies,
+  parseWorkflowSteps,
+  resolveMapItems,
+  resolveStepInput,
+  ResolvedStepInput,
+  WORKFLOW_STEP_TOOLS,
+  WorkflowMapItem,
+  WorkflowStepInputError,
+  WorkflowStepOutputs,
+  WorkflowValidationError,
+} from './steps';
+
+// Seconds between checks on a running step
+const RUN_ADVANCE_INTERVAL_SECONDS = 3;
+
+// How long a worker may hold a run before another worker can pick it up
+const RUN_LEASE_SECONDS = 60;
+
+// ============================================================================
+// Start
+// ============================================================================
+
+/**
+ * Validate a pattern's steps against the supplied params and create a run.
+ * The first steps are submitted when the run is next advanced.
+ * Throws WorkflowValidationError if the run can't start, and
+ * ProjectNotFoundError if the project isn't the user's.
+ */
+export async function startWorkflowRun(
+  userId: string,
+  pattern: { id: string; steps: unknown },
+  request: ExecuteWorkflowRequest
+): Promise<WorkflowRun> {
+  const steps = parseWorkflowSteps(pattern.steps);
+  assertExecutableSteps(steps);
+  const userParams = request.user_params || {};
+
+  const missing = getRequiredUserParams(steps).filter(name =>
+    userParams[name] === undefined || userParams[name] === null || userParams[name] === ''
+  );
+  if (missing.length > 0) {
+    throw new WorkflowValidationError(missing.map(name => `A value for {{${name}}} is required`));
+  }
+
+  if (request.project_id) {
+    await assertProjectOwner(userId, request.project_id);
+  }
+
+  const stepRuns: WorkflowStepRun[] = steps.map(step => ({
+    step: step.step,
+    output_name: step.output_name,
+    status: 'pending',
+    tool_type: WORKFLOW_STEP_TOOLS[step.app]!.toolType,
+    items: [],
+    generation_ids: [],
+    asset_ids: [],
+    output_urls: [],
+    input_asset_ids: [],
+    error: null,
+    started_at: null,
+    completed_at: null,
+  }));
+
+  const { data: run, error } = await supabaseAdmin
+    .from('workflow_runs')
+    .insert({
+      user_id: userId,
+      pattern_id: pattern.id,
+      project_id: request.project_id || null,
+      status: 'running',
+      on_failure: request.on_failure || 'stop',
+      steps,
+      user_params: userParams,
+      step_runs: stepRuns,
+      next_advance_at: new Date().toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error || !run) {
+    throw new Error(`Failed to create workflow run: ${error?.message}`);
+  }
+
+  return run;
+}
+
+// ============================================================================
+// Advance
+// ============================================================================
+
+function getFailurePolicy(run: WorkflowRun, step: WorkflowStep): WorkflowFailurePolicy {
+  return step.on_failure || run.on_failure || 'stop';
+}
+
+function collectOutputs(stepRuns: WorkflowStepRun[], ratings: Map<string, number | null>): WorkflowStepOutputs {
+  const outputs: WorkflowStepOutputs = {};
+  for (const stepRun of stepRuns) {
+    if (stepRun.status === 'completed') {
+      outputs[stepRun.output_name] = {
+        urls: stepRun.output_urls,
+        assetIds: stepRun.asset_ids,
+        ratings: stepRun.asset_ids.map(assetId => ratings.get(assetId) ?? null),
+      };
+    } else if (stepRun.status === 'failed' || stepRun.status === 'skipped') {
+      outputs[stepRun.output_name] = null;
+    }
+  }
+  return outputs;
+}
+
+/**
+ * Current user ratings for finished outputs, so {{name.best}} sees ratings
+ * given while the run was in progress.
+ */
+async function loadAssetRatings(stepRuns: WorkflowStepRun[]): Promise<Map<string, number | null>> {
+  const assetIds = stepRuns.flatMap(stepRun => stepRun.status === 'completed' ? stepRun.asset_ids : []);
+  if (assetIds.length === 0) {
+    return new Map();
+  }
+
+  const { data: assets, error } = await supabaseAdmin
+    .from('assets')
+    .select('id, user_rating')
+    .in('id', assetIds);
+
+  if (error) {
+    console.error('Error loading asset ratings for workflow run:', error);
+  }
+
+  return new Map((assets || []).map(asset => [asset.id, asset.user_rating ?? null]));
+}
+
+async function linkStepAssets(runId: string, inputAssetIds: string[], outputAssetIds: string[]): Promise<void> {
+  const relationships = inputAssetIds.flatMap(parentId =>
+    outputAssetIds.map(childId => ({
+      parent_asset_id: parentId,
+      child_asset_id: childId,
+      relationship_type: 'input',
+      notes: `Workflow run ${runId}`,
+    }))
+  );
+
+  if (relationships.length === 0) {
+    return;
+  }
+
+  // Video and lipsync outputs may already be linked to their inputs
+  const { error } = await supabaseAdmin
+    .from('asset_relationships')
+    .upsert(relationships, {
+      onConflict: 'parent_asset_id,child_asset_id,relationship_type',
+      ignoreDuplicates: true,
+    });
+
+  if (error) {
+    console.error('Error linking workflow step assets:', error);
+  }
+}
+
+/**
+ * Roll a step's items up into its totals once none are running. A step
+ * fails if any of its items failed.
+ */
+function finishStep(stepRun: WorkflowStepRun): WorkflowStepRun {
+  const failed = stepRun.items.filter(item => item.status === 'failed');
+  const error = failed.length === 0
+    ? null
+    : stepRun.items.length > 1
+      ? `${failed.length} of ${stepRun.items.length} items failed: ${failed[0].error}`
+      : failed[0].error;
+
+  return {
+    ...stepRun,
+    status: failed.length === 0 ? 'completed' : 'failed',
+    asset_ids: stepRun.items.flatMap(item => item.asset_ids),
+    output_urls: stepRun.items.flatMap(item => item.output_urls),
+    error,
+    completed_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Raised when a run's lease ran out during an advance and another worker
+ * may have claimed it. The pass stops without saving.
+ */
+class RunLeaseLostError extends Error {
+  constructor(runId: string) {
+    super(`Lost the lease on workflow run ${runId}`);
+    this.name = 'RunLeaseLostError';
+  }
+}
+
+/**
+ * Extend the lease on a claimed run before doing work under it. Throws
+ * RunLeaseLostError if it ran out and another worker has claimed the run
+ * since.
+ */
+async function extendRunLease(run: WorkflowRun): Promise<void> {
+  const { data, error } = await supabaseAdmin.rpc('extend_workflow_run_lease', {
+    run_uuid: run.id,
+    lease_seconds: RUN_LEASE_SECONDS,
+    held_until: run.locked_until,
+  });
+
+  if (error) {
+    console.error('Error extending workflow run lease:', error);
+  }
+  if (error || !data) {
+    throw new RunLeaseLostError(run.id);
+  }
+
+  // The next extension has to name the new expiry
+  run.locked_until = data;
+}
+
+/**
+ * Check the generations behind a running step's items. Returns the step
+ * finished once every item is done, otherwise still running.
+ */
+async function refreshRunningStep(run: WorkflowRun, stepRun: WorkflowStepRun): Promise<WorkflowStepRun> {
+  const runningIds = stepRun.items
+    .filter(item => item.status === 'running' && item.generation_id)
+    .map(item => item.generation_id as string);
+
+  const { data: generations, error } = await supabaseAdmin
+    .from('generations')
+    .select('id, status, output_urls, asset_ids, error_message')
+    .in('id', runningIds);
+
+  if (error || !generations) {
+    console.error('Error loading workflow step generations:', error);
+    return stepRun;
+  }
+
+  const generationById = new Map(generations.map(generation => [generation.id, generation]));
+
+  const storedOutputs = await loadStoredOutputs(generations);
+
+  const items = [];
+  for (const item of stepRun.items) {
+    const generation = item.generation_id ? generationById.get(item.generation_id) : undefined;
+    if (item.status !== 'running') {
+      items.push(item);
+    } else if (!generation) {
+      items.push({ ...item, status: 'failed' as const, error: 'Generation not found' });
+    } else if (generation.status === 'pending' || generation.status === 'processing') {
+      items.push(item);
+    } else if (generation.status === 'completed') {
+      const { assetIds, outputUrls } = storedOutputs.get(generation.id)!;
+      await linkStepAssets(run.id, item.input_asset_ids, assetIds);
+      items.push({
+        ...item,
+        status: 'completed' as const,
+        asset_ids: assetIds,
+        output_urls: outputUrls,
+      });
+    } else {
+      items.push({ ...item, status: 'failed' as const, error: generation.error_message || 'Generation failed' });
+    }
+  }
+
+  const updated = { ...stepRun, items };
+  return items.some(item => item.status === 'running') ? updated : finishStep(updated);
+}
+
+/**
+ * Resolve a step's inputs and submit one generation per item (a single one
+ * unless the step maps over a list). Failures are recorded on the step or
+ * item rather than thrown; only losing the run's lease throws.
+ */
+async function submitStep(
+  run: WorkflowRun,
+  step: WorkflowStep,
+  stepRun: WorkflowStepRun,
+  outputs: WorkflowStepOutputs
+): Promise<WorkflowStepRun> {
+  const startedAt = new Date().toISOString();
+  const userParams = run.user_params || {};
+
+  let resolved: Array<{ item?: WorkflowMapItem; input: ResolvedStepInput }>;
+  try {
+    const mapItems: Array<WorkflowMapItem | undefined> = step.map_over
+      ? resolveMapItems(step, outputs, userParams)
+      : [undefined];
+    resolved = mapItems.map(item => ({ item, input: resolveStepInput(step, outputs, userParams, item) }));
+  } catch (error) {
+    const unavailable = error instanceof WorkflowStepInputError && error.unavailableInput;
+    return {
+      ...stepRun,
+      status: unavailable ? 'skipped' : 'failed',
+      ...(unavailable && { skip_reason: 'upstream' as const }),
+      error: error instanceof Error ? error.message : 'Failed to resolve step inputs',
+      started_at: startedAt,
+      completed_at: new Date().toISOString(),
+    };
+  }
+
+  const items: WorkflowStepItemRun[] = [];
+  for (const [index, { item, input }] of resolved.entries()) {
+    const itemRun: WorkflowStepItemRun = {
+      index,
+      ...(item && { value: item.value }),
+      status: 'running',
+      generation_id: null,
+      asset_ids: [],
+      output_urls: [],
+      input_asset_ids: input.consumedAssetIds,
+      error: null,
+    };
+
+    // A submission is charged, so never make one without the lease
+    await extendRunLease(run);
+
+    try {
+      const job = await submitGenerationJob(run.user_id, input.toolType, input.input, {
+        projectId: run.project_id,
+        saveToRepository: true,
+        inputAssetIds: input.inputAssetIds,
+        metadata: {
+          workflowRunId: run.id,
+          workflowStep: step.step,
+          ...(item && { workflowItem: index }),
+        },
+      });
+      itemRun.generation_id = job.id;
+    } catch (error) {
+      itemRun.status = 'failed';
+      itemRun.error = error instanceof Error ? error.message : 'Failed to submit step';
+    }
+    items.push(itemRun);
+  }
+
+  const submitted: WorkflowStepRun = {
+    ...stepRun,
+    status: 'running',
+    items,
+    generation_ids: items.map(item => item.generation_id).filter((id): id is string => !!id),
+    input_asset_ids: Array.from(new Set(items.flatMap(item => item.input_asset_ids))),
+    started_at: startedAt,
+  };
+
+  // Mapping over an empty list, or every submit failed
+  return items.some(item => item.status === 'running') ? submitted : finishStep(submitted);
+}
+
+function skipStep(stepRun: WorkflowStepRun, reason: WorkflowSkipReason, error: string): WorkflowStepRun {
+  return {
+    ...stepRun,
+    status: 'skipped',
+    skip_reason: reason,
+    error,
+    completed_at: new Date().toISOString(),
+  };
+}
+
+function summarizeRun(stepRuns: WorkflowStepRun[], stopped: boolean): WorkflowRunStatus {
+  if (stopped) return 'failed';
+  // Steps skipped because their condition was false ran as designed
+  const succeeded = stepRuns.filter(stepRun =>
+    stepRun.status === 'completed' || (stepRun.status === 'skipped' && stepRun.skip_reason === 'condition')
+  ).length;
+  if (succeeded === stepRuns.length) return 'completed';
+  return stepRuns.some(stepRun => stepRun.status === 'completed') ? 'partial' : 'failed';
+}
+
+function describeFailure(stepRuns: WorkflowStepRun[]): string | null {
+  const failed = stepRuns.find(stepRun => stepRun.status === 'failed');
+  return failed ? `Step ${failed.step} (${failed.output_name}): ${failed.error}` : null;
+}
+
+/**
+ * Move a claimed run forward: finish running steps whose generations are
+ * done, then submit every pending step whose dependencies have finished,
+ * so independent branches run in parallel. Steps whose condition is false
+ * or whose inputs didn't complete are skipped. Callers must hold the run's
+ * lease (see claimWorkflowRuns); it's extended before each submission and
+ * before saving, and the pass stops if another worker has taken it over.
+ */
+export async function advanceWorkflowRun(run: WorkflowRun): Promise<void> {
+  if (run.status !== 'running') {
+    return;
+  }
+
+  try {
+    await advanceClaimedRun(run);
+  } catch (error) {
+    if (error instanceof RunLeaseLostError) {
+      console.warn(`${error.message}; leaving it to the current holder`);
+      return;
+    }
+    throw error;
+  }
+}
+
+async function advanceClaimedRun(run: WorkflowRun): Promise<void> {
+
+  const steps = run.steps;
+  const outputNames = new Set(steps.map(step => step.output_name));
+  const stepRuns = [...run.step_runs];
+  const indexByName = new Map(steps.map((step, index) => [step.output_name, index]));
+
+  for (const [index, stepRun] of stepRuns.entries()) {
+    if (stepRun.status === 'running') {
+      stepRuns[index] = await refreshRunningStep(run, stepRun);
+    }
+  }
+
+  const ratings = await loadAssetRatings(stepRuns);
+  const isStopped = () => stepRuns.some((stepRun, index) =>
+    stepRun.status === 'failed' && getFailurePolicy(run, steps[index]) === 'stop'
+  );
+
+  // Skipping a step can unblock the steps after it, so repeat until settled
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const [index, step] of steps.entries()) {
+      if (stepRuns[index].status !== 'pending') continue;
+
+      if (isStopped()) {
+        stepRuns[index] = skipStep(stepRuns[index], 'stopped', 'Skipped after an earlier step failed');
+        changed = true;
+        continue;
+      }
+
+      const dependencies = getStepDependencies(step, outputNames);
+      const dependencyRuns = dependencies.map(name => stepRuns[indexByName.get(name)!]);
+      if (dependencyRuns.some(dependency => dependency.status === 'pending' || dependency.status === 'running')) {
+        continue;
+      }
+
+      // A condition may deliberately look at a failed step; anything else
+      // the step waits on has to have completed
+      const incomplete = dependencies.filter((name, i) =>
+        name !== step.when?.ref && dependencyRuns[i].status !== 'completed'
+      );
+      if (incomplete.length > 0) {
+        stepRuns[index] = skipStep(stepRuns[index], 'upstream', `Skipped because ${incomplete.join(', ')} didn't complete`);
+        changed = true;
+        continue;
+      }
+
+      const outputs = collectOutputs(stepRuns, ratings);
+      if (step.when && !evaluateStepCondition(step.when, outputs, run.user_params || {})) {
+        stepRuns[index] = skipStep(stepRuns[index], 'condition', `Condition not met: ${describeStepCondition(step.when)}`);
+        changed = true;
+        continue;
+      }
+
+      stepRuns[index] = await submitStep(run, step, stepRuns[index], outputs);
+      changed = true;
+    }
+  }
+
+  const finished = stepRuns.every(stepRun => stepRun.status !== 'pending' && stepRun.status !== 'running');
+  const status: WorkflowRunStatus = finished ? summarizeRun(stepRuns, isStopped()) : 'running';
+
+  await extendRunLease(run);
+  const { error } = await supabaseAdmin
+    .from('workflow_runs')
+    .update({
+      step_runs: stepRuns,
+      status,
+      error_message: describeFailure(stepRuns),
+      next_advance_at: new Date(Date.now() + RUN_ADVANCE_INTERVAL_SECONDS * 1000).toISOString(),
+      locked_until: null,
+      ...(finished && { completed_at: new Date().toISOString() }),
+    })
+    .eq('id', run.id)
+    .eq('locked_until', run.locked_until);
+
+  if (error) {
+    console.error('Error saving workflow run:', error);
+  }
+}
+
+// ============================================================================
+// Claim / Read
+// ============================================================================
+
+/**
+ * Lease runs that are due to be advanced. Pass runId to claim only that run,
+ * and ignoreSchedule to claim it even if it isn't due yet.
+ */
+export async function claimWorkflowRuns(
+  limit: number = 10,
+  runId?: string,
+  ignoreSchedule: boolean = false
+): Promise<WorkflowRun[]> {
+  const { data, error } = await supabaseAdmin.rpc('claim_workflow_runs', {
+    batch_size: limit,
+    lease_seconds: RUN_LEASE_SECONDS,
+    run_uuid: runId || null,
+    ignore_schedule: ignoreSchedule,
+  });
+
+  if (error) {
+    console.error('Error claiming workflow runs:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Claim and advance one batch of due runs. Returns how many were processed.
+ */
+export async function runWorkflowRunsOnce(limit: number = 10): Promise<number> {
+  const runs = await claimWorkflowRuns(limit);
+
+  for (const run of runs) {
+    try {
+      await advanceWorkflowRun(run);
+    } catch (error) {
+      // The lease expires on its own, so the run is retried on a later tick
+      console.error(`Error advancing workflow run ${run.id}:`, error);
+    }
+  }
+
+  return runs.length;
+}
+
+export async function getWorkflowRun(runId: string, userId: string): Promise<WorkflowRun | null> {
+  const { data, error } = await supabaseAdmin
+    .from('workflow_runs')
+    .select('*')
+    .eq('id', runId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch workflow run: ${error.message}`);
+  }
+
+  return data;
+}
@@ -0,0 +1,509 @@
+// Binary Blender Workflow Steps
+// Validation and input resolution for workflow pattern steps. Steps form a
+// dependency graph: a step's params may reference another step's output
+// ("{{base_image}}") or a value supplied when the run starts ("{{subject}}"),
+// and it waits for every step it references or lists in depends_on.
+
+import { z } from 'zod';
+import { SourceApp, WorkflowStep, WorkflowStepCondition } from '../types/asset-repository';
+import { GenerationJobInput, GenerationToolType } from '../types/generation-jobs';
+import { getProvider } from '../generation/providers';
+
+// {{name}}, {{name[2]}}, {{name.best}} or {{name.all}}
+const REFERENCE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)(?:\[(\d+)\]|\.(best|all))?\s*\}\}/g;
+const WHOLE_REFERENCE_PATTERN = /^\{\{\s*([A-Za-z_][\w-]*)(?:\[(\d+)\]|\.(best|all))?\s*\}\}$/;
+const OUTPUT_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+// Names available inside map steps for the current list element
+const MAP_ITEM_NAMES = ['item', 'item_index'];
+
+// Upper bound on generations a single map step may fan out to
+export const MAX_MAP_ITEMS = 10;
+
+// Apps a step can run in, the generation tool behind each and its actions
+export const WORKFLOW_STEP_TOOLS: Partial<Record<SourceApp, { toolType: GenerationToolType; actions: string[] }>> = {
+  image_studio: { toolType: 'image', actions: ['generate'] },
+  video_studio: { toolType: 'video', actions: ['generate', 'animate'] },
+  lipsync: { toolType: 'lipsync', actions: ['generate', 'lipsync'] },
+};
+
+// Pattern params are usually written in snake_case; job inputs are camelCase.
+// `input`, `image` and `audio` are shorthands used in saved patterns.
+const PARAM_ALIASES: Record<string, string> = {
+  aspect_ratio: 'aspectRatio',
+  negative_prompt: 'negativePrompt',
+  image_url: 'imageUrl',
+  audio_url: 'audioUrl',
+  audio_duration: 'audioDuration',
+  input: 'imageUrl',
+  image: 'imageUrl',
+  audio: 'audioUrl',
+};
+
+const OUTPUT_CONDITION_OPERATORS = ['succeeded', 'failed', 'count_gte', 'count_lte'];
+const PARAM_CONDITION_OPERATORS = ['equals', 'not_equals'];
+
+/**
+ * Raised when a pattern's steps or a run's parameters can't be executed.
+ * `issues` lists every problem found.
+ */
+export class WorkflowValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(issues[0] || 'Invalid workflow');
+    this.name = 'WorkflowValidationError';
+  }
+}
+
+/**
+ * Raised when a single step can't be submitted (bad params, or an input
+ * produced by a failed step). Fails or skips that step rather than the run.
+ */
+export class WorkflowStepInputError extends Error {
+  constructor(message: string, public unavailableInput: boolean = false) {
+    super(message);
+    this.name = 'WorkflowStepInputError';
+  }
+}
+
+const workflowStepSchema = z.object({
+  step: z.coerce.number().int().min(1, 'Step numbers start at 1'),
+  app: z.string().min(1, 'Each step needs an app'),
+  action: z.string().min(1, 'Each step needs an action'),
+  params: z.record(z.string(), z.any()).default({}),
+  output_name: z.string().regex(OUTPUT_NAME_PATTERN, 'output_name must be letters, numbers, _ or -'),
+  on_failure: z.enum(['stop', 'continue']).optional(),
+  depends_on: z.array(z.string()).optional(),
+  map_over: z.string().regex(OUTPUT_NAME_PATTERN, 'map_over must name an output or user param').optional(),
+  when: z.object({
+    ref: z.string().regex(OUTPUT_NAME_PATTERN, 'when.ref must name an output or user param'),
+    op: z.enum(['succeeded', 'failed', 'count_gte', 'count_lte', 'equals', 'not_equals']),
+    value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  }).optional(),
+});
+
+// ============================================================================
+// References
+// ============================================================================
+
+function collectReferences(value: unknown, names: Set<string> = new Set()): Set<string> {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(REFERENCE_PATTERN)) {
+      names.add(match[1]);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectReferences(item, names));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectReferences(item, names));
+  }
+  return names;
+}
+
+/**
+ * Output names a step has to wait for: explicit depends_on plus any output
+ * referenced by its params, map_over or condition.
+ */
+export function getStepDependencies(step: WorkflowStep, outputNames: Set<string>): string[] {
+  const names = new Set(step.depends_on || []);
+  for (const name of collectReferences(step.params)) {
+    if (outputNames.has(name)) names.add(name);
+  }
+  if (step.map_over && outputNames.has(step.map_over)) names.add(step.map_over);
+  if (step.when && outputNames.has(step.when.ref)) names.add(step.when.ref);
+  return Array.from(names);
+}
+
+/**
+ * Names referenced by the steps that aren't produced by any step; these must
+ * be supplied as user params when the run starts. Params only used in
+ * conditions are optional.
+ */
+export function getRequiredUserParams(steps: WorkflowStep[]): string[] {
+  const outputs = new Set(steps.map(step => step.output_name));
+  const names = new Set<string>();
+
+  for (const step of steps) {
+    for (const name of collectReferences(step.params)) {
+      if (!outputs.has(name) && !(step.map_over && MAP_ITEM_NAMES.includes(name))) names.add(name);
+    }
+    if (step.map_over && !outputs.has(step.map_over)) names.add(step.map_over);
+  }
+
+  return Array.from(names);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validateCondition(step: WorkflowStep, condition: WorkflowStepCondition, outputs: Set<string>): string | null {
+  if (outputs.has(condition.ref)) {
+    if (!OUTPUT_CONDITION_OPERATORS.includes(condition.op)) {
+      return `Step ${step.step}: conditions on outputs use ${OUTPUT_CONDITION_OPERATORS.join(', ')}`;
+    }
+    if (condition.op.startsWith('count_') && typeof condition.value !== 'number') {
+      return `Step ${step.step}: ${condition.op} needs a numeric value`;
+    }
+    return null;
+  }
+
+  if (!PARAM_CONDITION_OPERATORS.includes(condition.op)) {
+    return `Step ${step.step}: "${condition.ref}" isn't a step output, so the condition must use ${PARAM_CONDITION_OPERATORS.join(' or ')}`;
+  }
+  if (condition.value === undefined) {
+    return `Step ${step.step}: ${condition.op} needs a value`;
+  }
+  return null;
+}
+
+/**
+ * Find a dependency cycle, returned as the output names along it with the
+ * first repeated at the end, or null when the graph is acyclic.
+ */
+function findCycle(steps: WorkflowStep[]): string[] | null {
+  const outputs = new Set(steps.map(step => step.output_name));
+  const dependencies = new Map(steps.map(step => [step.output_name, getStepDependencies(step, outputs)]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (name: string): string[] | null => {
+    if (state.get(name) === 'done') return null;
+    if (state.get(name) === 'visiting') {
+      return [...path.slice(path.indexOf(name)), name];
+    }
+
+    state.set(name, 'visiting');
+    path.push(name);
+    for (const dependency of dependencies.get(name) || []) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(name, 'done');
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.output_name);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Validate raw pattern steps and return them sorted by step number. Checks
+ * output names are unique, every dependency exists and the graph has no
+ * cycles. Steps may name apps that can't run yet (patterns also record
+ * manual work); see assertExecutableSteps. Throws WorkflowValidationError.
+ */
+export function parseWorkflowSteps(rawSteps: unknown): WorkflowStep[] {
+  if (!Array.isArray(rawSteps) || rawSteps.length === 0) {
+    throw new WorkflowValidationError(['At least one workflow step is required']);
+  }
+
+  const issues: string[] = [];
+  const steps: WorkflowStep[] = [];
+
+  rawSteps.forEach((rawStep, index) => {
+    const parsed = workflowStepSchema.safeParse(rawStep);
+    if (!parsed.success) {
+      issues.push(`Step ${index + 1}: ${parsed.error.issues[0]?.message || 'Invalid step'}`);
+      return;
+    }
+
+    const step = parsed.data as WorkflowStep;
+    if (MAP_ITEM_NAMES.includes(step.output_name)) {
+      issues.push(`Step ${step.step}: "${step.output_name}" is reserved for map steps`);
+    }
+    steps.push(step);
+  });
+
+  steps.sort((a, b) => a.step - b.step);
+
+  const stepNumbers = new Set<number>();
+  const outputs = new Set<string>();
+  for (const step of steps) {
+    if (stepNumbers.has(step.step)) {
+      issues.push(`Step number ${step.step} is used more than once`);
+    }
+    stepNumbers.add(step.step);
+
+    if (outputs.has(step.output_name)) {
+      issues.push(`Output name "${step.output_name}" is used by more than one step`);
+    }
+    outputs.add(step.output_name);
+  }
+
+  for (const step of steps) {
+    for (const name of step.depends_on || []) {
+      if (!outputs.has(name)) {
+        issues.push(`Step ${step.step} depends on "${name}", which no step produces`);
+      }
+    }
+    if (!step.map_over) {
+      for (const name of collectReferences(step.params)) {
+        if (MAP_ITEM_NAMES.includes(name)) {
+          issues.push(`Step ${step.step} uses {{${name}}} but has no map_over list`);
+        }
+      }
+    }
+    if (step.when) {
+      const conditionError = validateCondition(step, step.when, outputs);
+      if (conditionError) issues.push(conditionError);
+    }
+  }
+
+  // Only meaningful once every dependency name is known to exist
+  if (issues.length === 0) {
+    const cycle = findCycle(steps);
+    if (cycle) {
+      issues.push(`Workflow has a cycle: ${cycle.join(' → ')}`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new WorkflowValidationError(issues);
+  }
+
+  return steps;
+}
+
+/**
+ * Check every step runs in an app and action a workflow can execute. Runs
+ * need this; saved patterns don't. Throws WorkflowValidationError.
+ */
+export function assertExecutableSteps(steps: WorkflowStep[]): void {
+  const issues: string[] = [];
+
+  for (const step of steps) {
+    const tool = WORKFLOW_STEP_TOOLS[step.app];
+    if (!tool) {
+      issues.push(`Step ${step.step}: app "${step.app}" can't be run in a workflow`);
+    } else if (!tool.actions.includes(step.action)) {
+      issues.push(`Step ${step.step}: ${step.app} supports ${tool.actions.join(', ')}, not "${step.action}"`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new WorkflowValidationError(issues);
+  }
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+export interface WorkflowStepOutput {
+  urls: string[];
+  assetIds: string[];
+  ratings?: (number | null)[]; // User ratings per asset, used by {{name.best}}
+}
+
+// Outputs of finished steps by output name; null when the step failed or
+// was skipped
+export type WorkflowStepOutputs = Record<string, WorkflowStepOutput | null>;
+
+// The list element a map step is currently running for
+export interface WorkflowMapItem {
+  index: number;
+  value: any;
+  assetId?: string; // Set when the element is another step's output
+}
+
+export interface ResolvedStepInput {
+  toolType: GenerationToolType;
+  input: GenerationJobInput;
+  inputAssetIds: { image?: string; audio?: string };
+  consumedAssetIds: string[]; // Every upstream asset referenced, for lineage
+}
+
+function unavailable(name: string): WorkflowStepInputError {
+  return new WorkflowStepInputError(`Input {{${name}}} is unavailable because its step didn't complete`, true);
+}
+
+function pickBestIndex(output: WorkflowStepOutput): number {
+  let best = 0;
+  (output.ratings || []).forEach((rating, index) => {
+    if (rating != null && rating > (output.ratings?.[best] ?? -Infinity)) best = index;
+  });
+  return best;
+}
+
+function lookupReference(
+  name: string,
+  index: string | undefined,
+  selector: string | undefined,
+  outputs: WorkflowStepOutputs,
+  userParams: Record<string, any>,
+  item: WorkflowMapItem | undefined,
+  consumed: string[]
+): unknown {
+  if (item && name === 'item') {
+    if (item.assetId) consumed.push(item.assetId);
+    return item.value;
+  }
+  if (item && name === 'item_index') {
+    return item.index;
+  }
+
+  if (name in outputs) {
+    const output = outputs[name];
+    if (!output || output.urls.length === 0) {
+      throw unavailable(name);
+    }
+    if (selector === 'all') {
+      consumed.push(...output.assetIds);
+      return output.urls;
+    }
+
+    const position = selector === 'best' ? pickBestIndex(output) : Number(index ?? 0);
+    if (position >= output.urls.length) {
+      throw new WorkflowStepInputError(`{{${name}[${position}]}} is out of range; the step produced ${output.urls.length}`, true);
+    }
+    if (output.assetIds[position]) consumed.push(output.assetIds[position]);
+    return output.urls[position];
+  }
+
+  if (name in userParams) {
+    const value = userParams[name];
+    return index !== undefined && Array.isArray(value) ? value[Number(index)] : value;
+  }
+
+  throw new WorkflowStepInputError(`No value for {{${name}}}`);
+}
+
+function resolveValue(
+  value: unknown,
+  outputs: WorkflowStepOutputs,
+  userParams: Record<string, any>,
+  item: WorkflowMapItem | undefined,
+  consumed: string[]
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map(element => resolveValue(element, outputs, userParams, item, consumed));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, element]) => [key, resolveValue(element, outputs, userParams, item, consumed)])
+    );
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  // A value that is only a reference keeps the referenced value's type
+  const whole = value.match(WHOLE_REFERENCE_PATTERN);
+  if (whole) {
+    return lookupReference(whole[1], whole[2], whole[3], outputs, userParams, item, consumed);
+  }
+
+  return value.replace(REFERENCE_PATTERN, (_, name: string, index?: string, selector?: string) => {
+    const resolved = lookupReference(name, index, selector, outputs, userParams, item, consumed);
+    return Array.isArray(resolved) ? resolved.join(', ') : String(resolved ?? '');
+  });
+}
+
+/**
+ * The list a map step runs over: another step's outputs or a user param
+ * array. Throws WorkflowStepInputError if it isn't a usable list.
+ */
+export function resolveMapItems(
+  step: WorkflowStep,
+  outputs: WorkflowStepOutputs,
+  userParams: Record<string, any>
+): WorkflowMapItem[] {
+  const name = step.map_over!;
+  let items: WorkflowMapItem[];
+
+  if (name in outputs) {
+    const output = outputs[name];
+    if (!output) {
+      throw unavailable(name);
+    }
+    items = output.urls.map((url, index) => ({ index, value: url, assetId: output.assetIds[index] }));
+  } else if (Array.isArray(userParams[name])) {
+    items = userParams[name].map((value: any, index: number) => ({ index, value }));
+  } else {
+    throw new WorkflowStepInputError(`{{${name}}} must be a list to map over`);
+  }
+
+  if (items.length > MAX_MAP_ITEMS) {
+    throw new WorkflowStepInputError(`{{${name}}} has ${items.length} elements; map steps are limited to ${MAX_MAP_ITEMS}`);
+  }
+
+  return items;
+}
+
+/**
+ * Whether a step's condition holds. Output conditions see null for a step
+ * that failed or was skipped.
+ */
+export function evaluateStepCondition(
+  condition: WorkflowStepCondition,
+  outputs: WorkflowStepOutputs,
+  userParams: Record<string, any>
+): boolean {
+  if (condition.ref in outputs) {
+    const output = outputs[condition.ref];
+    const count = output?.urls.length ?? 0;
+    switch (condition.op) {
+      case 'succeeded': return output != null;
+      case 'failed': return output == null;
+      case 'count_gte': return count >= Number(condition.value);
+      case 'count_lte': return count <= Number(condition.value);
+      default: return false;
+    }
+  }
+
+  const matches = String(userParams[condition.ref] ?? '') === String(condition.value ?? '');
+  return condition.op === 'equals' ? matches : condition.op === 'not_equals' ? !matches : false;
+}
+
+export function describeStepCondition(condition: WorkflowStepCondition): string {
+  return condition.value === undefined
+    ? `${condition.ref} ${condition.op}`
+    : `${condition.ref} ${condition.op} ${condition.value}`;
+}
+
+/**
+ * Turn a step's params into a validated job input for its tool, filling in
+ * references (and the current element for map steps). Throws
+ * WorkflowStepInputError when a reference can't be filled or the params
+ * don't fit the tool.
+ */
+export function resolveStepInput(
+  step: WorkflowStep,
+  outputs: WorkflowStepOutputs,
+  userParams: Record<string, any>,
+  item?: WorkflowMapItem
+): ResolvedStepInput {
+  const tool = WORKFLOW_STEP_TOOLS[step.app];
+  if (!tool) {
+    throw new WorkflowStepInputError(`App "${step.app}" can't be run in a workflow`);
+  }
+
+  const input: Record<string, any> = {};
+  const inputAssetIds: { image?: string; audio?: string } = {};
+  const consumedAssetIds = new Set<string>();
+
+  for (const [key, rawValue] of Object.entries(step.params || {})) {
+    const consumed: string[] = [];
+    const field = PARAM_ALIASES[key] || key;
+    input[field] = resolveValue(rawValue, outputs, userParams, item, consumed);
+
+    consumed.forEach(assetId => consumedAssetIds.add(assetId));
+    if (consumed[0] && field === 'imageUrl') inputAssetIds.image = consumed[0];
+    if (consumed[0] && field === 'audioUrl') inputAssetIds.audio = consumed[0];
+  }
+
+  const parsed = getProvider(tool.toolType).paramSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new WorkflowStepInputError(parsed.error.issues[0]?.message || 'Invalid step parameters');
+  }
+
+  return {
+    toolType: tool.toolType,
+    input: parsed.data,
+    inputAssetIds,
+    consumedAssetIds: Array.from(consumedAssetIds),
+  };
+}
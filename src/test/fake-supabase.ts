@@ -0,0 +1,364 @@
+// Binary Blender Test Database
+// In-memory stand-in for the Supabase admin client. Supports the query
+// builder calls the generation pipeline makes, the unique constraints it
+// relies on, and the job queue and credit functions, implemented the way
+// the SQL migrations implement them.
+
+import crypto from 'crypto';
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+interface FakeError {
+  code: string;
+  message: string;
+}
+
+interface FakeResult {
+  data: any;
+  error: FakeError | null;
+  count?: number;
+}
+
+// Columns that must be unique together, per table (NULLs never collide)
+const UNIQUE_KEYS: Record<string, string[][]> = {
+  webhook_events: [['provider', 'event_id']],
+  assets: [['generation_id', 'output_index']],
+  asset_relationships: [['parent_asset_id', 'child_asset_id', 'relationship_type']],
+};
+
+// Supports json paths such as generation_params->>batch_id
+function columnValue(row: Row, column: string): any {
+  const [field, key] = column.split('->>');
+  const value = row[field];
+  if (key === undefined) return value;
+  return value?.[key] == null ? null : String(value[key]);
+}
+
+function copy<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+class FakeQuery implements PromiseLike<FakeResult> {
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private payload: any = null;
+  private filters: Filter[] = [];
+  private returning = false;
+  private ignoreDuplicates = false;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+  private rowLimit: number | null = null;
+
+  constructor(private db: FakeSupabase, private table: string) {}
+
+  select(_columns?: string, _options?: Record<string, any>) {
+    if (this.action !== 'select') this.returning = true;
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.action = 'insert';
+    this.payload = rows;
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { ignoreDuplicates?: boolean } = {}) {
+    this.action = 'upsert';
+    this.payload = rows;
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.payload = values;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any) {
+    this.filters.push(row => columnValue(row, column) === value);
+    return this;
+  }
+
+  neq(column: string, value: any) {
+    this.filters.push(row => columnValue(row, column) !== value);
+    return this;
+  }
+
+  in(column: string, values: any[]) {
+    this.filters.push(row => values.includes(columnValue(row, column)));
+    return this;
+  }
+
+  is(column: string, value: null) {
+    this.filters.push(row => columnValue(row, column) == value);
+    return this;
+  }
+
+  order(_column: string, _options?: Record<string, any>) {
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<T1 = FakeResult, T2 = never>(
+    onFulfilled?: ((value: FakeResult) => T1 | PromiseLike<T1>) | null,
+    onRejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.execute()).then(onFulfilled, onRejected);
+  }
+
+  private matching(): Row[] {
+    const rows = this.db.table(this.table).filter(row => this.filters.every(filter => filter(row)));
+    return this.rowLimit === null ? rows : rows.slice(0, this.rowLimit);
+  }
+
+  private execute(): FakeResult {
+    let rows: Row[];
+
+    switch (this.action) {
+      case 'insert':
+      case 'upsert': {
+        const inserted = this.db.insertRows(this.table, this.payload, this.action === 'upsert' && this.ignoreDuplicates);
+        if ('error' in inserted) {
+          return { data: null, error: inserted.error };
+        }
+        rows = inserted.rows;
+        break;
+      }
+      case 'update':
+        rows = this.matching();
+        rows.forEach(row => Object.assign(row, copy(this.payload), { updated_at: new Date().toISOString() }));
+        break;
+      case 'delete':
+        rows = this.matching();
+        this.db.tables[this.table] = this.db.table(this.table).filter(row => !rows.includes(row));
+        break;
+      default:
+        rows = this.matching();
+        this.returning = true;
+    }
+
+    if (!this.returning) {
+      return { data: null, error: null };
+    }
+
+    if (this.mode === 'many') {
+      return { data: copy(rows), error: null, count: rows.length };
+    }
+
+    if (rows.length > 1 || (rows.length === 0 && this.mode === 'single')) {
+      return { data: null, error: { code: 'PGRST116', message: `Expected one row, got ${rows.length}` } };
+    }
+
+    return { data: rows[0] ? copy(rows[0]) : null, error: null };
+  }
+}
+
+// ============================================================================
+// Database Functions
+// ============================================================================
+
+const ACTIVE_JOB_STATUSES = ['pending', 'processing'];
+
+function creditBalance(db: FakeSupabase, userId: string): number {
+  return db.table('credit_transactions')
+    .filter(transaction => transaction.user_id === userId)
+    .reduce((total, transaction) => total + transaction.amount, 0);
+}
+
+function leaseUntil(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString();
+}
+
+const FUNCTIONS: Record<string, (db: FakeSupabase, args: Record<string, any>) => any> = {
+  get_user_credit_balance: (db, { user_uuid }) => creditBalance(db, user_uuid),
+
+  deduct_credits: (db, { user_uuid, credit_amount, gen_id, description_text }) => {
+    if (creditBalance(db, user_uuid) < credit_amount) {
+      return false;
+    }
+    db.insertRows('credit_transactions', {
+      user_id: user_uuid,
+      amount: -credit_amount,
+      transaction_type: 'usage',
+      generation_id: gen_id,
+      description: description_text,
+    });
+    return true;
+  },
+
+  refund_credits: (db, { user_uuid, gen_id, credit_amount, description_text }) => {
+    const netCharged = -db.table('credit_transactions')
+      .filter(transaction => transaction.user_id === user_uuid && transaction.generation_id === gen_id)
+      .reduce((total, transaction) => total + transaction.amount, 0);
+    const refund = Math.min(credit_amount, netCharged);
+    if (refund <= 0) {
+      return 0;
+    }
+    db.insertRows('credit_transactions', {
+      user_id: user_uuid,
+      amount: refund,
+      transaction_type: 'refund',
+      generation_id: gen_id,
+      description: description_text,
+    });
+    return refund;
+  },
+
+  claim_generation_jobs: (db, { batch_size, lease_seconds, job_uuid, ignore_schedule }) => {
+    const now = Date.now();
+    const due = db.table('generations')
+      .filter(job =>
+        ACTIVE_JOB_STATUSES.includes(job.status) &&
+        (!job.locked_until || Date.parse(job.locked_until) < now) &&
+        (ignore_schedule || !job.next_poll_at || Date.parse(job.next_poll_at) <= now) &&
+        (!job_uuid || job.id === job_uuid)
+      )
+      .slice(0, batch_size);
+
+    due.forEach(job => { job.locked_until = leaseUntil(lease_seconds); });
+    return copy(due);
+  },
+
+  extend_generation_lease: (db, { job_uuid, lease_seconds, held_until }) => {
+    const job = db.table('generations').find(row =>
+      row.id === job_uuid && row.locked_until === held_until && ACTIVE_JOB_STATUSES.includes(row.status)
+    );
+    if (!job) {
+      return false;
+    }
+    job.locked_until = leaseUntil(lease_seconds);
+    return true;
+  },
+
+  claim_workflow_runs: (db, { batch_size, lease_seconds, run_uuid, ignore_schedule }) => {
+    const now = Date.now();
+    const due = db.table('workflow_runs')
+      .filter(run =>
+        run.status === 'running' &&
+        (!run.locked_until || Date.parse(run.locked_until) < now) &&
+        (ignore_schedule || Date.parse(run.next_advance_at) <= now) &&
+        (!run_uuid || run.id === run_uuid)
+      )
+      .slice(0, batch_size);
+
+    due.forEach(run => { run.locked_until = leaseUntil(lease_seconds); });
+    return copy(due);
+  },
+
+  extend_workflow_run_lease: (db, { run_uuid, lease_seconds, held_until }) => {
+    const run = db.table('workflow_runs').find(row =>
+      row.id === run_uuid && row.locked_until === held_until && row.status === 'running'
+    );
+    if (!run) {
+      return null;
+    }
+    run.locked_until = leaseUntil(lease_seconds);
+    return run.locked_until;
+  },
+
+  claim_orchestrated_workflows: (db, { batch_size, lease_seconds, workflow_uuid, ignore_schedule }) => {
+    const now = Date.now();
+    const due = db.table('workflows')
+      .filter(workflow =>
+        workflow.status === 'in_progress' &&
+        workflow.next_advance_at &&
+        (!workflow.locked_until || Date.parse(workflow.locked_until) < now) &&
+        (ignore_schedule || Date.parse(workflow.next_advance_at) <= now) &&
+        (!workflow_uuid || workflow.id === workflow_uuid)
+      )
+      .slice(0, batch_size);
+
+    due.forEach(workflow => { workflow.locked_until = leaseUntil(lease_seconds); });
+    return copy(due);
+  },
+
+  extend_orchestrated_workflow_lease: (db, { workflow_uuid, lease_seconds, held_until }) => {
+    const workflow = db.table('workflows').find(row =>
+      row.id === workflow_uuid && row.locked_until === held_until && row.status === 'in_progress'
+    );
+    if (!workflow) {
+      return null;
+    }
+    workflow.locked_until = leaseUntil(lease_seconds);
+    return workflow.locked_until;
+  },
+};
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+
+  table(name: string): Row[] {
+    return this.tables[name] ||= [];
+  }
+
+  reset(): void {
+    this.tables = {};
+  }
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  async rpc(name: string, args: Record<string, any> = {}): Promise<FakeResult> {
+    const fn = FUNCTIONS[name];
+    if (!fn) {
+      return { data: null, error: { code: '42883', message: `function ${name} does not exist` } };
+    }
+    return { data: fn(this, args), error: null };
+  }
+
+  /**
+   * Insert rows, filling in id and timestamps. Fails as a whole on a unique
+   * violation, or skips the conflicting rows when skipDuplicates is set.
+   */
+  insertRows(table: string, rows: Row | Row[], skipDuplicates: boolean = false): { rows: Row[] } | { error: FakeError } {
+    const now = new Date().toISOString();
+    const prepared = (Array.isArray(rows) ? rows : [rows]).map(row => ({
+      id: crypto.randomUUID(),
+      created_at: now,
+      ...copy(row),
+    }));
+
+    const existing = this.table(table);
+    const keys = UNIQUE_KEYS[table] || [];
+    const conflicts = (row: Row, others: Row[]) => keys.some(columns =>
+      columns.every(column => row[column] != null) &&
+      others.some(other => columns.every(column => other[column] === row[column]))
+    );
+
+    const accepted: Row[] = [];
+    for (const row of prepared) {
+      if (conflicts(row, [...existing, ...accepted])) {
+        if (skipDuplicates) continue;
+        return { error: { code: '23505', message: `duplicate key value violates unique constraint on ${table}` } };
+      }
+      accepted.push(row);
+    }
+
+    existing.push(...accepted);
+    return { rows: accepted };
+  }
+}